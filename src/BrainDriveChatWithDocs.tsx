@@ -201,6 +201,7 @@ class BrainDriveChatWithDocs extends React.Component<ChatCollectionsPluginProps,
                                 onCollectionCreate={this.pluginService.loadCollections} // Pass service method as handler
                                 setError={this.pluginService.setError}
                                 dataRepository={this.pluginService.getDataRepository()} // Assuming a getter is added/available
+                                services={services}
                             />
                         )}
                         {currentView === ViewType.CHAT && selectedCollection && (
@@ -208,6 +209,7 @@ class BrainDriveChatWithDocs extends React.Component<ChatCollectionsPluginProps,
                                 services={services}
                                 dataRepository={this.pluginService.getDataRepository()}
                                 selectedCollection={selectedCollection}
+                                availableCollections={collections}
                             />
                         )}
                         {currentView === ViewType.SETTINGS && (
@@ -221,6 +223,7 @@ class BrainDriveChatWithDocs extends React.Component<ChatCollectionsPluginProps,
                                 services={services}
                                 setError={this.pluginService.setError}
                                 collections={this.state.collections}
+                                dataRepository={this.pluginService.getDataRepository()}
                             />
                         )}
                     </div>
@@ -2,6 +2,7 @@ import type { Services } from '../types';
 import type {
     Collection,
     Document,
+    DocumentChunk,
     ChatSession,
     ChatMessage,
     ContextRetrievalResult,
@@ -13,7 +14,9 @@ import {
     ChatSessionRepository,
     RAGRepository,
     type RAGQuery,
+    type RAGSearchConfig,
 } from '../infrastructure/repositories';
+import { DEFAULT_RETRIEVAL_CONFIG } from '../domain/retrieval';
 
 /**
  * DataRepository - Facade over specialized repositories
@@ -52,6 +55,11 @@ export class DataRepository {
         return this.documentRepo.findByCollection(collectionId);
     }
 
+    // Delegate to DocumentRepository
+    public getDocumentChunks = async (documentId: string): Promise<DocumentChunk[]> => {
+        return this.documentRepo.findChunks(documentId);
+    }
+
     // Delegate to ChatSessionRepository
     public getChatSessions = async (): Promise<ChatSession[]> => {
         return this.chatSessionRepo.findAll();
@@ -66,27 +74,14 @@ export class DataRepository {
     public getRelevantContent = async (
         query: string,
         collectionId: string,
-        chatHistory: Array<{ role: 'user' | 'assistant'; content: string }> = []
+        chatHistory: Array<{ role: 'user' | 'assistant'; content: string }> = [],
+        config: RAGSearchConfig = DEFAULT_RETRIEVAL_CONFIG
     ): Promise<ContextRetrievalResult> => {
         const ragQuery: RAGQuery = {
             query_text: query,
             collection_id: collectionId,
             chat_history: chatHistory,
-            config: {
-                use_chat_history: true,
-                max_history_turns: 3,
-                top_k: 7,
-                use_hybrid: true,
-                alpha: 0.5,
-                use_intent_classification: true,
-                query_transformation: {
-                    enabled: true,
-                    methods: [],
-                },
-                filters: {
-                    min_similarity: 0.8,
-                }
-            }
+            config,
         };
         return this.ragRepo.search(ragQuery);
     }
@@ -66,6 +66,12 @@ export interface DocumentChunkMetadata {
   fusion_method?: string;
   found_in_vector?: boolean;
   found_in_bm25?: boolean;
+  /** Name of the collection the chunk was retrieved from (multi-collection chat) */
+  collection_name?: string;
+  /** Set on chunks injected from the conversation's pinned context */
+  pinned?: boolean;
+  /** Where the source file lived in an uploaded folder or archive */
+  relative_path?: string;
   [key: string]: any;
 }
 
@@ -163,6 +169,8 @@ export interface ChatMessage {
   documentData?: {
     results: DocumentProcessingResult[];
     context: string;
+    // Documents whose text was trimmed to fit the model context window
+    trimmedFilenames?: string[];
   };
   // Retrieved chunks context (collection retrieval)
   isRetrievedContext?: boolean;
@@ -172,6 +180,8 @@ export interface ChatMessage {
     intent?: IntentResponse | null;
     metadata?: Record<string, any>;
   };
+  // Id of the retrieved-context message whose chunks this answer cites as [n]
+  citationSourceId?: string;
   // Markdown toggle
   showRawMarkdown?: boolean;
 }
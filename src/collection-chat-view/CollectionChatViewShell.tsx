@@ -9,10 +9,12 @@ import {
   ModelInfo,
   PersonaInfo,
   ConversationWithPersona,
+  Collection,
 } from './chatViewTypes';
+import type { Document, DocumentChunk } from '../braindrive-plugin/pluginTypes';
 import { DocumentProcessingResult } from '../services';
 
-import { generateId } from '../utils';
+import { generateId, downloadFile, readFileAsText } from '../utils';
 
 // Import constants
 import {
@@ -26,21 +28,59 @@ import {
   ChatHeader,
   ChatHistory,
   ChatInput,
-  LoadingStates
+  LoadingStates,
+  PinnedContextBar
 } from './components';
 
 // Import services
 import { AIService, DocumentService } from '../services';
 import { DocumentManagerModal } from '../document-view/DocumentManagerModal';
+import { DocumentReaderPanel } from '../document-view/DocumentReaderPanel';
 import { ModelConfigLoader, FallbackModelSelector } from '../domain/models';
 import { UserRepository } from '../domain/users/UserRepository';
-import { ConversationRepository } from '../domain/conversations/ConversationRepository';
+import { ConversationRepository, type Conversation } from '../domain/conversations/ConversationRepository';
 import { ChatScrollManager } from '../domain/ui/ChatScrollManager';
 import { ConversationLoader } from '../domain/conversations/ConversationLoader';
 import { ConversationManager } from '../domain/conversations/ConversationManager';
+import {
+  MessageProvenanceService,
+  type RetrievalProvenance,
+} from '../domain/conversations/MessageProvenanceService';
+import {
+  ConversationBranchService,
+  type BranchUpdate,
+} from '../domain/conversations/ConversationBranchService';
+import {
+  ConversationSearchService,
+  type ConversationSearchMatch,
+  type ConversationSearchOptions,
+  type ConversationSearchResult,
+} from '../domain/conversations/ConversationSearchService';
+import { ConversationExporter, type ConversationExportFormat } from '../domain/conversations/ConversationExporter';
+import { ConversationImportService } from '../domain/conversations/ConversationImportService';
+import {
+  ConversationOrganizerService,
+  EMPTY_CONVERSATION_ORGANIZATION,
+  type ConversationOrganization,
+} from '../domain/conversations/ConversationOrganizerService';
 import { PersonaResolver } from '../domain/personas/PersonaResolver';
 import { PageSettingsService } from '../domain/settings/PageSettingsService';
 import { GreetingService } from '../domain/chat/GreetingService';
+import { ChatRequestBuilder } from '../domain/chat/ChatRequestBuilder';
+import {
+  RetrievalProfileService,
+  MultiCollectionRetrievalService,
+  RetrievalFilterBuilder,
+  EMPTY_RETRIEVAL_FILTERS,
+  type RetrievalFilterSelection,
+} from '../domain/retrieval';
+import { DocumentReaderService } from '../domain/documents';
+import {
+  PinnedContextService,
+  ContextBudgetBuilder,
+  DEFAULT_PINNED_TOKEN_BUDGET,
+  type PinnedContextItem,
+} from '../domain/context';
 import { ModelKeyHelper } from '../utils/ModelKeyHelper';
 
 // Import icons
@@ -65,6 +105,17 @@ export class CollectionChatViewShell extends React.Component<CollectionChatProps
   private conversationManager: ConversationManager | null = null;
   private personaResolver: PersonaResolver | null = null;
   private pageSettingsService: PageSettingsService | null = null;
+  private retrievalProfileService: RetrievalProfileService | null = null;
+  private multiCollectionRetrievalService: MultiCollectionRetrievalService;
+  private documentReaderService: DocumentReaderService;
+  private pinnedContextService: PinnedContextService;
+  private messageProvenanceService: MessageProvenanceService;
+  private conversationBranchService: ConversationBranchService;
+  private conversationSearchService: ConversationSearchService | null = null;
+  private conversationImportService: ConversationImportService | null = null;
+  private conversationOrganizerService: ConversationOrganizerService;
+  // Every conversation, beyond the first page in the history menu; cleared on refresh
+  private searchableConversations: Conversation[] | null = null;
   private currentStreamingAbortController: AbortController | null = null;
   private scrollManager: ChatScrollManager;
 
@@ -82,6 +133,7 @@ export class CollectionChatViewShell extends React.Component<CollectionChatProps
       pendingModelKey: null,
       pendingModelSnapshot: null,
       useStreaming: true, // Always use streaming
+      ollamaContextWindow: null,
       conversation_id: null,
       isLoadingHistory: false,
       currentUserId: null,
@@ -129,6 +181,21 @@ export class CollectionChatViewShell extends React.Component<CollectionChatProps
       showAllHistory: false,
       openConversationMenu: null,
       isHistoryExpanded: true, // History accordion state      
+
+      // Document reader state
+      documentReaderTarget: null,
+
+      // Retrieval scope
+      selectedCollections: [props.selectedCollection],
+      retrievalFilters: EMPTY_RETRIEVAL_FILTERS,
+      filterDocuments: [],
+
+      // Pinned context
+      pinnedContext: [],
+      branchPoints: [],
+      focusMessageId: null,
+      conversationOrganization: EMPTY_CONVERSATION_ORGANIZATION,
+      allConversations: [],
     };
 
     // Initialize ChatScrollManager
@@ -156,11 +223,27 @@ export class CollectionChatViewShell extends React.Component<CollectionChatProps
     // Initialize Document service with authenticated API service
     this.documentService = new DocumentService(props.services.api);
 
+    // Initialize MessageProvenanceService
+    this.messageProvenanceService = new MessageProvenanceService({
+      settings: props.services.settings,
+    });
+
+    // Initialize ConversationBranchService
+    this.conversationBranchService = new ConversationBranchService({
+      settings: props.services.settings,
+    });
+
+    // Initialize ConversationOrganizerService
+    this.conversationOrganizerService = new ConversationOrganizerService({
+      settings: props.services.settings,
+    });
+
     // Initialize ConversationLoader
     if (props.services.api && this.aiService) {
       this.conversationLoader = new ConversationLoader({
         api: props.services.api,
         aiService: this.aiService,
+        provenanceService: this.messageProvenanceService,
       });
     }
 
@@ -188,6 +271,30 @@ export class CollectionChatViewShell extends React.Component<CollectionChatProps
       });
     }
 
+    // Initialize RetrievalProfileService
+    if (props.services.settings) {
+      this.retrievalProfileService = new RetrievalProfileService({
+        settings: props.services.settings,
+      });
+    }
+
+    // Initialize MultiCollectionRetrievalService
+    this.multiCollectionRetrievalService = new MultiCollectionRetrievalService({
+      search: props.dataRepository.getRelevantContent,
+      retrievalProfileService: this.retrievalProfileService,
+    });
+
+    // Initialize DocumentReaderService
+    this.documentReaderService = new DocumentReaderService({
+      documentRepository: props.dataRepository.getDocumentRepository(),
+    });
+
+    // Initialize PinnedContextService
+    this.pinnedContextService = new PinnedContextService({
+      settings: props.services.settings,
+      documentReader: this.documentReaderService,
+    });
+
     // Initialize model configuration services
     if (props.services.api) {
       this.modelConfigLoader = new ModelConfigLoader(props.services.api);
@@ -202,7 +309,9 @@ export class CollectionChatViewShell extends React.Component<CollectionChatProps
     this.initializePageContextService();
     this.loadInitialData();
     this.loadSavedStreamingMode();
+    this.loadOllamaContextWindow();
     this.loadPersonas();
+    this.loadFilterDocuments();
     
     // Add global key event listener for ESC key
     document.addEventListener('keydown', this.handleGlobalKeyPress);
@@ -267,6 +376,19 @@ export class CollectionChatViewShell extends React.Component<CollectionChatProps
       this.resolvePendingPersonaSelection();
     }
 
+    if (prevProps.selectedCollection.id !== this.props.selectedCollection.id) {
+      this.setState({ selectedCollections: [this.props.selectedCollection] });
+    }
+
+    if (prevState.selectedCollections !== this.state.selectedCollections) {
+      this.loadFilterDocuments();
+    }
+
+    // Pins belong to a conversation; leaving it clears them (new chat, load, delete)
+    if (prevState.conversation_id && !this.state.conversation_id && this.state.pinnedContext.length > 0) {
+      this.setState({ pinnedContext: [] });
+    }
+
     const messagesChanged = prevState.messages !== this.state.messages;
     if (!messagesChanged) {
       return;
@@ -315,11 +437,21 @@ export class CollectionChatViewShell extends React.Component<CollectionChatProps
     if (this.props.services?.api) {
       this.userRepository = new UserRepository({ api: this.props.services.api });
       this.conversationRepository = new ConversationRepository({ api: this.props.services.api });
+      // Searches message text only, so its loader skips retrieval provenance
+      this.conversationSearchService = new ConversationSearchService({
+        repository: this.conversationRepository,
+        loader: new ConversationLoader({ api: this.props.services.api, aiService: this.aiService }),
+      });
+      this.conversationImportService = new ConversationImportService({
+        api: this.props.services.api,
+        provenanceService: this.messageProvenanceService,
+      });
     }
 
     await Promise.all([
       this.loadProviderSettings(),
-      this.fetchConversations()
+      this.fetchConversations(),
+      this.loadConversationOrganization()
     ]);
   }
 
@@ -369,6 +501,28 @@ export class CollectionChatViewShell extends React.Component<CollectionChatProps
     }
   }
 
+  /**
+   * Load the context window assumed for Ollama models without metadata (page-specific with global fallback)
+   */
+  loadOllamaContextWindow = async (): Promise<void> => {
+    try {
+      if (this.props.services?.settings?.getSetting) {
+        const key = SETTINGS_KEYS.OLLAMA_CONTEXT_WINDOW;
+        let savedValue = await this.props.services.settings.getSetting(this.getSettingKey(key));
+        if (savedValue === null || savedValue === undefined) {
+          savedValue = await this.props.services.settings.getSetting(key);
+        }
+
+        const tokens = Number(savedValue);
+        if (tokens > 0) {
+          this.setState({ ollamaContextWindow: tokens });
+        }
+      }
+    } catch (error) {
+      // Error loading the context window, keep the Ollama default
+    }
+  }
+
   /**
    * Save streaming mode to settings (page-specific)
    */
@@ -536,6 +690,7 @@ export class CollectionChatViewShell extends React.Component<CollectionChatProps
     if (!this.userRepository || !this.conversationRepository) {
       return;
     }
+    this.searchableConversations = null;
 
     try {
       // Get current user ID
@@ -790,13 +945,20 @@ export class CollectionChatViewShell extends React.Component<CollectionChatProps
     const conversationId = event.target.value;
     const result = this.conversationManager.handleConversationSelect({
       conversationId,
-      conversations: this.state.conversations,
+      // Older organized conversations can be picked from the menu too
+      conversations: ConversationOrganizerService.merge(this.state.conversations, this.state.allConversations),
       selectedPersona: this.state.selectedPersona,
       showPersonaSelection: this.state.showPersonaSelection,
       initialGreeting: this.props.initialGreeting
     });
 
-    this.setState(result.stateUpdate as any, () => {
+    // Like search results, one opened from the organizer can be older than the first page
+    const selected = result.stateUpdate.selectedConversation;
+    const stateUpdate = selected && !this.state.conversations.some(conv => conv.id === selected.id)
+      ? { ...result.stateUpdate, conversations: this.state.conversations.concat(selected) }
+      : result.stateUpdate;
+
+    this.setState(stateUpdate as any, () => {
       if (result.shouldStartNewChat && result.greetingContent) {
         this.initialGreetingAdded = true;
         this.addMessageToChat({
@@ -811,6 +973,83 @@ export class CollectionChatViewShell extends React.Component<CollectionChatProps
     });
   };
 
+  /**
+   * Fetch every conversation of this page for search and the organizer; the
+   * history menu itself only loads the first page. Paging through them all is
+   * slow, so it waits until search or the organizer is first used.
+   */
+  loadAllConversations = async () => {
+    if (!this.conversationSearchService || !this.userRepository || !this.conversationRepository) {
+      return;
+    }
+
+    try {
+      const userId = await this.userRepository.getCurrentUserId();
+      const pageContext = this.getCurrentPageContext();
+      const conversations = await this.conversationSearchService.listConversations({
+        userId,
+        conversationType: this.props.conversationType || 'chat',
+        pageId: pageContext?.pageId || null,
+      });
+      this.searchableConversations = this.conversationRepository.sortByRecency(conversations);
+      this.setState({ allConversations: this.searchableConversations });
+    } catch (error) {
+      console.error('Error loading all conversations:', error);
+    }
+  };
+
+  /**
+   * Search every conversation of this page, not only the ones in the history menu
+   */
+  searchConversations = async (query: string, options: ConversationSearchOptions): Promise<ConversationSearchResult[]> => {
+    if (!this.conversationSearchService || !this.userRepository || !this.conversationRepository) {
+      return [];
+    }
+
+    if (!this.searchableConversations) {
+      await this.loadAllConversations();
+    }
+
+    return this.conversationSearchService.search(query, this.searchableConversations || [], {
+      ...options,
+      personas: this.state.personas,
+    });
+  };
+
+  /**
+   * Open a search result's conversation and scroll to the matching message
+   */
+  handleOpenSearchResult = async (result: ConversationSearchResult, match: ConversationSearchMatch | null) => {
+    const { conversation } = result;
+
+    if (this.state.conversation_id !== conversation.id) {
+      // Results can be older than the history menu's first page
+      const conversations = this.state.conversations.some(conv => conv.id === conversation.id)
+        ? this.state.conversations
+        : this.state.conversations.concat(conversation);
+      await new Promise<void>(resolve =>
+        this.setState({ conversations, selectedConversation: conversation }, resolve)
+      );
+      await this.loadConversationWithPersona(conversation.id);
+    }
+
+    if (!match) return;
+
+    // Restored branches carry their own ids, so fall back to the matched text
+    const matchText = match.snippet.match.toLowerCase();
+    const target = this.state.messages.find(message => message.id === match.messageId)
+      || this.state.messages.find(message =>
+        message.sender === match.sender &&
+        !message.isRetrievedContext &&
+        matchText !== '' &&
+        (message.content || '').toLowerCase().indexOf(matchText) !== -1
+      );
+    if (!target) return;
+
+    // After the scroll to the bottom that follows loading a conversation
+    setTimeout(() => this.setState({ focusMessageId: target.id }), 150);
+  };
+
   /**
    * Handle persona selection
    */
@@ -857,6 +1096,8 @@ export class CollectionChatViewShell extends React.Component<CollectionChatProps
       selectedConversation: null,
       conversation_id: null,
       messages: [],
+      pinnedContext: [],
+      branchPoints: [],
       // Reset persona to null when starting new chat (respects persona toggle state)
       selectedPersona: this.state.showPersonaSelection ? this.state.selectedPersona : null,
       pendingModelKey: null,
@@ -929,6 +1170,138 @@ export class CollectionChatViewShell extends React.Component<CollectionChatProps
     this.setState(result.stateUpdate as any);
   };
 
+  /**
+   * Folders, tags, pins and archive are kept per page, like the history itself
+   */
+  private getOrganizationScope(): string {
+    return this.getCurrentPageContext()?.pageId || 'default';
+  }
+
+  loadConversationOrganization = async () => {
+    const conversationOrganization = await this.conversationOrganizerService.loadOrganization(this.getOrganizationScope());
+    this.setState({ conversationOrganization });
+  };
+
+  /**
+   * The organizer lists every conversation, so they are loaded when it first opens
+   */
+  handleOpenOrganizer = () => {
+    if (!this.searchableConversations) {
+      this.loadAllConversations();
+    }
+  };
+
+  handleConversationOrganizationChange = async (conversationOrganization: ConversationOrganization) => {
+    this.setState({ conversationOrganization });
+    try {
+      await this.conversationOrganizerService.saveOrganization(this.getOrganizationScope(), conversationOrganization);
+    } catch (error) {
+      console.error('Error saving conversation organization:', error);
+    }
+  };
+
+  /**
+   * Delete several conversations, one request at a time; failures don't stop
+   * the rest and are reported together once all were tried
+   */
+  handleDeleteConversations = async (conversationIds: string[]) => {
+    let failed = 0;
+    for (const conversationId of conversationIds) {
+      try {
+        await this.handleDeleteConversation(conversationId);
+      } catch (error) {
+        console.error(error);
+        failed++;
+      }
+    }
+
+    if (failed > 0) {
+      throw new Error(`Could not delete ${failed} of ${conversationIds.length} conversations`);
+    }
+  };
+
+  /**
+   * Download a conversation with the sources behind its answers
+   */
+  handleExportConversation = async (conversationId: string, format: ConversationExportFormat) => {
+    // Older conversations reached through the organizer or search are only in the full list
+    const conversation = this.state.conversations.find(conv => conv.id === conversationId)
+      || (this.searchableConversations || []).find(conv => conv.id === conversationId);
+    if (!conversation) return;
+
+    try {
+      const isCurrent = conversationId === this.state.conversation_id;
+      let messages = this.state.messages;
+      if (!isCurrent) {
+        if (!this.conversationLoader) return;
+        messages = (await this.conversationLoader.loadConversationHistory(conversationId)).messages;
+      }
+
+      const file = ConversationExporter.export({
+        conversation,
+        model: isCurrent && this.state.selectedModel
+          ? this.state.selectedModel
+          : conversation.model ? { name: conversation.model, serverName: conversation.server } : null,
+        persona: isCurrent ? this.state.selectedPersona : null,
+        messages,
+      }, format);
+      downloadFile(file.content, file.fileName, file.mimeType);
+    } catch (error) {
+      console.error('Error exporting conversation:', error);
+      this.addMessageToChat({
+        id: generateId('export-error'),
+        sender: 'ai',
+        content: '❌ Failed to export the conversation',
+        timestamp: new Date().toISOString()
+      });
+    }
+  };
+
+  /**
+   * Restore a conversation from a JSON export and open it
+   */
+  handleImportConversation = async (file: File) => {
+    if (!this.conversationImportService || !this.userRepository) return;
+
+    try {
+      const data = ConversationExporter.parse(await readFileAsText(file));
+      const userId = await this.userRepository.getCurrentUserId();
+      const pageContext = this.getCurrentPageContext();
+      const result = await this.conversationImportService.importConversation(data, {
+        userId,
+        conversationType: this.props.conversationType || 'chat',
+        pageId: pageContext?.pageId || null,
+        personas: this.state.personas,
+      });
+
+      await this.refreshConversationsList();
+      const imported = this.state.conversations.find(conv => conv.id === result.conversationId);
+      if (imported) {
+        this.setState({ selectedConversation: imported });
+      }
+      await this.loadConversationWithPersona(result.conversationId);
+    } catch (error) {
+      console.error('Error importing conversation:', error);
+      this.addMessageToChat({
+        id: generateId('import-error'),
+        sender: 'ai',
+        content: `❌ Failed to import conversation: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        timestamp: new Date().toISOString()
+      });
+    }
+  };
+
+  /**
+   * Settings kept per conversation go with it; a failure only leaves an unused setting behind
+   */
+  private deleteConversationSettings(conversationId: string): void {
+    Promise.all([
+      this.pinnedContextService.deletePins(conversationId),
+      this.messageProvenanceService.deleteProvenance(conversationId),
+      this.conversationBranchService.deleteSnapshot(conversationId),
+    ]).catch(error => console.error('Error deleting conversation settings:', error));
+  }
+
   /**
    * Handle deleting a conversation
    */
@@ -945,6 +1318,21 @@ export class CollectionChatViewShell extends React.Component<CollectionChatProps
         initialGreeting: this.props.initialGreeting
       });
 
+      this.setState({
+        allConversations: this.state.allConversations.filter(conv => conv.id !== conversationId)
+      });
+      if (this.searchableConversations) {
+        this.searchableConversations = this.searchableConversations.filter(conv => conv.id !== conversationId);
+      }
+
+      this.deleteConversationSettings(conversationId);
+
+      if (this.state.conversationOrganization.entries[conversationId]) {
+        this.handleConversationOrganizationChange(
+          ConversationOrganizerService.forget(this.state.conversationOrganization, [conversationId])
+        );
+      }
+
       this.setState(result.stateUpdate as any, () => {
         if (result.greetingContent) {
           this.initialGreetingAdded = true;
@@ -975,6 +1363,7 @@ export class CollectionChatViewShell extends React.Component<CollectionChatProps
       console.log(`🧹 Clearing messages for conversation load: ${conversationId}`);
       this.setState({
         messages: [],
+        branchPoints: [],
         conversation_id: null,
         isLoadingHistory: true,
         error: ''
@@ -982,17 +1371,20 @@ export class CollectionChatViewShell extends React.Component<CollectionChatProps
 
       // Load conversation history using ConversationLoader
       const result = await this.conversationLoader.loadConversationHistory(conversationId);
+      const branches = await this.restoreConversationBranches(result.conversationId, result.messages);
 
       // Mark that we've loaded a conversation, so don't show initial greeting
       this.initialGreetingAdded = true;
 
       // Update state
       this.setState({
-        messages: result.messages,
+        messages: branches ? branches.messages : result.messages,
+        branchPoints: branches ? branches.branchPoints : [],
         conversation_id: result.conversationId,
         isLoadingHistory: false,
         isInitializing: false
       });
+      this.loadPinnedContext(result.conversationId);
 
       // Scroll to bottom after loading history so the latest reply is visible
       setTimeout(() => {
@@ -1022,6 +1414,7 @@ export class CollectionChatViewShell extends React.Component<CollectionChatProps
       // Clear current conversation without showing initial greeting
       this.setState({
         messages: [],
+        branchPoints: [],
         conversation_id: null,
         isLoadingHistory: true,
         error: ''
@@ -1035,6 +1428,7 @@ export class CollectionChatViewShell extends React.Component<CollectionChatProps
         personas: this.state.personas,
         selectedConversation: this.state.selectedConversation,
       });
+      const branches = await this.restoreConversationBranches(result.conversationId, result.messages);
 
       // Mark that we've loaded a conversation, so don't show initial greeting
       this.initialGreetingAdded = true;
@@ -1044,7 +1438,8 @@ export class CollectionChatViewShell extends React.Component<CollectionChatProps
 
       // Update state with loaded data
       this.setState({
-        messages: result.messages,
+        messages: branches ? branches.messages : result.messages,
+        branchPoints: branches ? branches.branchPoints : [],
         conversation_id: result.conversationId,
         pendingModelKey: result.pendingModelKey,
         pendingModelSnapshot: result.pendingModelSnapshot,
@@ -1055,6 +1450,8 @@ export class CollectionChatViewShell extends React.Component<CollectionChatProps
         isLoadingHistory: false,
         isInitializing: false,
       }, () => {
+        this.loadPinnedContext(result.conversationId);
+
         // Broadcast model selection if changed
         const newSelectedModelKey = ModelKeyHelper.getModelKeyFromInfo(this.state.selectedModel);
         if (
@@ -1188,12 +1585,10 @@ export class CollectionChatViewShell extends React.Component<CollectionChatProps
       .pop();
     
     if (lastUserMessage) {
-      // Remove the last AI response (all messages after the last user message)
+      // Keep the last AI response (all messages after the last user message) as a sibling branch
       this.setState(prevState => {
         const lastUserIndex = prevState.messages.findIndex(msg => msg.id === lastUserMessage.id);
-        return {
-          messages: prevState.messages.slice(0, lastUserIndex + 1)
-        };
+        return ConversationBranchService.fork(prevState.messages, prevState.branchPoints, lastUserIndex + 1, []);
       }, () => {
         // Regenerate the response
         this.sendPromptToAI(lastUserMessage.content);
@@ -1221,6 +1616,161 @@ export class CollectionChatViewShell extends React.Component<CollectionChatProps
     });
   };
 
+  /**
+   * Change the collections retrieval fans out to
+   */
+  handleSelectedCollectionsChange = (collections: Collection[]) => {
+    this.setState({
+      selectedCollections: collections.length > 0 ? collections : [this.props.selectedCollection],
+    });
+  };
+
+  /**
+   * Load the documents of the selected collections offered as retrieval filters
+   */
+  loadFilterDocuments = async () => {
+    const collections = this.state.selectedCollections;
+    try {
+      const documentLists = await Promise.all(
+        collections.map(collection => this.props.dataRepository.getDocuments(collection.id))
+      );
+      if (collections !== this.state.selectedCollections) {
+        return;
+      }
+      const filterDocuments = documentLists.reduce<Document[]>((all, list) => all.concat(list), []);
+      const availableIds = filterDocuments.map(document => document.id);
+      this.setState(prevState => ({
+        filterDocuments,
+        retrievalFilters: {
+          ...prevState.retrievalFilters,
+          documentIds: prevState.retrievalFilters.documentIds.filter(id => availableIds.indexOf(id) !== -1),
+        },
+      }));
+    } catch (error) {
+      console.warn('Failed to load documents for retrieval filters:', error);
+      this.setState({ filterDocuments: [] });
+    }
+  };
+
+  /**
+   * Change the metadata filters that scope retrieval
+   */
+  handleRetrievalFiltersChange = (retrievalFilters: RetrievalFilterSelection) => {
+    this.setState({ retrievalFilters });
+  };
+
+  /**
+   * Load the pins of a conversation that was just opened
+   */
+  loadPinnedContext = async (conversationId: string) => {
+    const pinnedContext = await this.pinnedContextService.loadPins(conversationId);
+    if (this.state.conversation_id === conversationId) {
+      this.setState({ pinnedContext });
+    }
+  };
+
+  /**
+   * Keep an answer's retrieved context so it is restored with the conversation
+   */
+  saveMessageProvenance = async (conversationId: string, provenance: RetrievalProvenance) => {
+    try {
+      await this.messageProvenanceService.appendProvenance(conversationId, provenance);
+    } catch (error) {
+      console.error('Failed to save message provenance:', error);
+    }
+  };
+
+  /**
+   * Show another alternative at a branch point
+   */
+  handleSwitchBranch = (anchorId: string, index: number) => {
+    if (this.state.isLoading || this.state.isStreaming) return;
+
+    const update = ConversationBranchService.switchTo(this.state.messages, this.state.branchPoints, anchorId, index);
+    if (!update) return;
+
+    this.setState({ ...update, editingMessageId: null, editingContent: '' }, this.saveConversationBranches);
+  };
+
+  /**
+   * Persist the branch tree; conversations that never branched have nothing to save
+   */
+  saveConversationBranches = async () => {
+    const { conversation_id, messages, branchPoints } = this.state;
+    if (!conversation_id || branchPoints.length === 0) return;
+
+    try {
+      await this.conversationBranchService.saveSnapshot(conversation_id, { messages, branchPoints });
+    } catch (error) {
+      console.error('Failed to save conversation branches:', error);
+    }
+  };
+
+  /**
+   * Saved branch tree for a loaded conversation, if it still matches the backend's history
+   */
+  restoreConversationBranches = async (conversationId: string, loadedMessages: ChatMessage[]): Promise<BranchUpdate | null> => {
+    const snapshot = await this.conversationBranchService.loadSnapshot(conversationId);
+    return ConversationBranchService.restore(snapshot, loadedMessages);
+  };
+
+  /**
+   * Persist the current pins; a new chat saves them once the conversation is created
+   */
+  savePinnedContext = async () => {
+    const { conversation_id, pinnedContext } = this.state;
+    if (!conversation_id) return;
+
+    try {
+      await this.pinnedContextService.savePins(conversation_id, pinnedContext);
+    } catch (error) {
+      console.error('Error saving pinned context:', error);
+    }
+  };
+
+  /**
+   * Pin or unpin context for the current conversation
+   */
+  handleTogglePin = (pin: PinnedContextItem) => {
+    this.setState(
+      prevState => ({ pinnedContext: PinnedContextService.togglePin(prevState.pinnedContext, pin) }),
+      this.savePinnedContext
+    );
+  };
+
+  handleTogglePinDocument = (document: Document) => {
+    this.handleTogglePin(PinnedContextService.createDocumentPin(document));
+  };
+
+  handleTogglePinChunk = (chunk: DocumentChunk) => {
+    this.handleTogglePin(PinnedContextService.createChunkPin(chunk));
+  };
+
+  handleClearPinnedContext = () => {
+    this.setState({ pinnedContext: [] }, this.savePinnedContext);
+  };
+
+  /**
+   * Open a retrieved chunk in the document reader
+   */
+  handleOpenChunk = (chunk: DocumentChunk) => {
+    this.setState({
+      documentReaderTarget: {
+        documentId: chunk.document_id,
+        documentName: chunk.metadata?.document_filename,
+        chunkId: chunk.id,
+        chunkIndex: chunk.chunk_index,
+      },
+    });
+  };
+
+  /**
+   * Close the document reader
+   */
+  handleCloseDocumentReader = () => {
+    this.setState({ documentReaderTarget: null });
+  };
+
   /**
    * Toggle markdown view for a message
    */
@@ -1248,33 +1798,29 @@ export class CollectionChatViewShell extends React.Component<CollectionChatProps
       return;
     }
 
-    // Update the message content
+    const editedIndex = this.state.messages.findIndex(msg => msg.id === editingMessageId);
+    if (editedIndex === -1) {
+      return;
+    }
+
+    // The edited message starts a new branch; the original and its replies stay as a sibling
+    const originalMessage = this.state.messages[editedIndex];
+    const editedMessage: ChatMessage = {
+      ...originalMessage,
+      id: generateId('user'),
+      content: editingContent.trim(),
+      timestamp: new Date().toISOString(),
+      isEdited: true,
+      originalContent: originalMessage.originalContent || originalMessage.content
+    };
+
     this.setState(prevState => ({
-      messages: prevState.messages.map(message => {
-        if (message.id === editingMessageId) {
-          return {
-            ...message,
-            content: editingContent.trim(),
-            isEdited: true,
-            originalContent: message.originalContent || message.content
-          };
-        }
-        return message;
-      }),
+      ...ConversationBranchService.fork(prevState.messages, prevState.branchPoints, editedIndex, [editedMessage]),
       editingMessageId: null,
       editingContent: ''
-    }), async () => {
-      // Find the edited message and regenerate the response
-      const editedMessage = this.state.messages.find(msg => msg.id === editingMessageId);
-      if (editedMessage) {
-        // Remove all messages after the edited message
-        this.setState(prevState => ({
-          messages: prevState.messages.slice(0, prevState.messages.findIndex(msg => msg.id === editingMessageId) + 1)
-        }), () => {
-          // Regenerate the response
-          this.sendPromptToAI(editedMessage.content);
-        });
-      }
+    }), () => {
+      // Regenerate the response
+      this.sendPromptToAI(editedMessage.content, editedMessage.id);
     });
   };
 
@@ -1347,12 +1893,20 @@ export class CollectionChatViewShell extends React.Component<CollectionChatProps
   handleDocumentsProcessed = (results: DocumentProcessingResult[]) => {
     if (results.length === 0) return;
 
+    // Fit the extracted text into the selected model's context window
+    const budget = ContextBudgetBuilder.getBudget({
+      model: this.state.selectedModel,
+      persona: this.state.selectedPersona,
+      ollamaContextWindow: this.state.ollamaContextWindow,
+    });
+    const fitted = ContextBudgetBuilder.fitDocuments(results, budget.availableTokens);
+
     // Format document context for chat
     let documentContext = '';
-    if (results.length === 1) {
-      documentContext = this.documentService!.formatTextForChatContext(results[0]);
+    if (fitted.results.length === 1) {
+      documentContext = this.documentService!.formatTextForChatContext(fitted.results[0]);
     } else {
-      documentContext = this.documentService!.formatMultipleTextsForChatContext(results);
+      documentContext = this.documentService!.formatMultipleTextsForChatContext(fitted.results);
     }
 
     // Add document context to state
@@ -1366,7 +1920,8 @@ export class CollectionChatViewShell extends React.Component<CollectionChatProps
         isDocumentContext: true,
         documentData: {
           results,
-          context: documentContext
+          context: documentContext,
+          trimmedFilenames: fitted.trimmed.map(item => item.label)
         }
       };
 
@@ -1482,9 +2037,6 @@ export class CollectionChatViewShell extends React.Component<CollectionChatProps
     return context;
   };
 
-  /**
-   * Clean up message content by removing excessive newlines and search/document context
-   */
   /**
    * Clean message content for display (delegates to ConversationLoader)
    */
@@ -1600,6 +2152,13 @@ export class CollectionChatViewShell extends React.Component<CollectionChatProps
     
     // Don't send empty messages
     if (!inputText.trim() || this.state.isLoading) return;
+
+    // Keep the message in the input until the filters can match something
+    const filterError = RetrievalFilterBuilder.validate(this.state.retrievalFilters);
+    if (filterError) {
+      this.setState({ error: `Fix the search filters before sending: ${filterError}` });
+      return;
+    }
     
     // Add user message to chat (will be updated with search context if web search is enabled)
     const userMessageId = generateId('user');
@@ -1667,42 +2226,87 @@ export class CollectionChatViewShell extends React.Component<CollectionChatProps
           content: m.content,
         }));
 
-      // ground to collection - relevance context search
-      const contextRetrievalResult = await this.props.dataRepository.getRelevantContent(
+      // ground to collections - relevance context search, each with its active retrieval profile
+      const { retrievalFilters } = this.state;
+      const contextRetrievalResult = await this.multiCollectionRetrievalService.retrieve(
         prompt,
-        this.props.selectedCollection.id,
-        history
+        this.state.selectedCollections,
+        history,
+        retrievalFilters
+      );
+
+      // Pinned chunks always go first, ahead of the retrieved ones
+      const pinnedChunks = this.state.pinnedContext.length > 0
+        ? await this.pinnedContextService.resolveChunks(this.state.pinnedContext)
+        : [];
+      const mergedContext = PinnedContextService.mergeWithRetrieved(
+        pinnedChunks,
+        contextRetrievalResult?.chunks || [],
+        DEFAULT_PINNED_TOKEN_BUDGET
       );
 
+      // Get current page context to pass to AI service
+      const pageContext = this.getCurrentPageContext();
+
+      // Keep the context within the model's window; lower-ranked chunks are trimmed or dropped.
+      // The numbered sources travel in their own message, so the stored user message is the question.
+      const { request, sourcesContext: relevantContext, budget: contextBudget, fitted: fittedContext } =
+        ChatRequestBuilder.buildGrounded({
+          prompt,
+          chunks: mergedContext.chunks,
+          history,
+          ollamaContextWindow: this.state.ollamaContextWindow,
+          model: this.state.selectedModel,
+          persona: this.state.selectedPersona || undefined,
+          useStreaming: this.state.useStreaming,
+          conversationId: this.state.conversation_id,
+          conversationType: this.props.conversationType || "chat",
+          userId: this.aiService.getCurrentUserId(),
+          pageContext,
+        });
+      const contextChunks = fittedContext.chunks;
+
       // Perform context search
-      let enhancedPrompt = prompt;
-
-      let relevantContext = '';
-      if (contextRetrievalResult && contextRetrievalResult.chunks) {
-        relevantContext = contextRetrievalResult.chunks
-          .map((result, idx) => {
-            return `Excerpt: ${idx}\n${result.content}\n\n`;
-          }).join(", ");
-        if (relevantContext) {
-          enhancedPrompt = `\n${relevantContext}\n\nUser Question: ${prompt}`;
-          this.setState({ documentContext: relevantContext }, () => {
-            // Add retrieved chunks preview message to UI
-            const retrievedMessage: ChatMessage = {
-              id: generateId('retrieval'),
-              sender: 'ai',
-              content: '',
-              timestamp: new Date().toISOString(),
-              isRetrievedContext: true,
-              retrievalData: {
-                chunks: contextRetrievalResult.chunks as any,
-                context: relevantContext,
-                intent: contextRetrievalResult.intent,
-                metadata: contextRetrievalResult.metadata,
-              },
-            };
-            this.addMessageToChat(retrievedMessage);
-          });
-        }
+      let retrievedMessageId: string | undefined;
+      let provenance: RetrievalProvenance | null = null;
+
+      if (contextChunks.length > 0) {
+        retrievedMessageId = generateId('retrieval');
+
+        // Add retrieved chunks preview message to UI (before the answer placeholder)
+        this.setState({ documentContext: relevantContext });
+        provenance = {
+          question: prompt,
+          chunks: contextChunks,
+          intent: contextRetrievalResult.intent,
+          metadata: {
+            ...contextRetrievalResult.metadata,
+            ...(RetrievalFilterBuilder.isEmpty(retrievalFilters)
+              ? {}
+              : { filters: RetrievalFilterBuilder.describe(retrievalFilters, this.state.filterDocuments) }),
+            ...(pinnedChunks.length > 0
+              ? {
+                pinned_chunk_count: mergedContext.pinnedCount,
+                pinned_dropped_count: mergedContext.droppedPinnedCount,
+              }
+              : {}),
+            context_budget: ContextBudgetBuilder.toReport(contextBudget, fittedContext),
+          },
+          createdAt: new Date().toISOString(),
+        };
+        this.addMessageToChat({
+          id: retrievedMessageId,
+          sender: 'ai',
+          content: '',
+          timestamp: provenance.createdAt,
+          isRetrievedContext: true,
+          retrievalData: {
+            chunks: provenance.chunks,
+            context: relevantContext,
+            intent: provenance.intent,
+            metadata: provenance.metadata,
+          },
+        });
       }
       
       // Create placeholder for AI response
@@ -1713,7 +2317,8 @@ export class CollectionChatViewShell extends React.Component<CollectionChatProps
         sender: 'ai',
         content: '',
         timestamp: new Date().toISOString(),
-        isStreaming: true
+        isStreaming: true,
+        citationSourceId: retrievedMessageId
       });
       
       // Track the current response content for proper abort handling
@@ -1742,6 +2347,10 @@ export class CollectionChatViewShell extends React.Component<CollectionChatProps
         console.log(`🔄 Conversation ID received: ${id}`);
         this.setState({ conversation_id: id }, () => {
           console.log(`✅ Conversation ID updated in state: ${this.state.conversation_id}`);
+          // Pins chosen before the first message now have a conversation to belong to
+          if (this.state.pinnedContext.length > 0) {
+            this.savePinnedContext();
+          }
           // Refresh conversations list after a small delay to ensure backend has processed the conversation
           setTimeout(() => {
             this.refreshConversationsList();
@@ -1749,22 +2358,8 @@ export class CollectionChatViewShell extends React.Component<CollectionChatProps
         });
       };
       
-      // Get current page context to pass to AI service
-      const pageContext = this.getCurrentPageContext();
-      
       // Send prompt to AI
-      await this.aiService.sendPrompt(
-        enhancedPrompt,
-        this.state.selectedModel,
-        this.state.useStreaming,
-        this.state.conversation_id,
-        this.props.conversationType || "chat",
-        onChunk,
-        onConversationId,
-        pageContext,
-        this.state.selectedPersona || undefined,
-        this.currentStreamingAbortController
-      );
+      await this.aiService.sendRequest(request, onChunk, onConversationId, this.currentStreamingAbortController);
       
       // Finalize the message
       this.setState(prevState => {
@@ -1800,6 +2395,10 @@ export class CollectionChatViewShell extends React.Component<CollectionChatProps
         // Refresh conversations list after the message is complete to include the new conversation
         if (this.state.conversation_id) {
           this.refreshConversationsList();
+          if (provenance) {
+            this.saveMessageProvenance(this.state.conversation_id, provenance);
+          }
+          this.saveConversationBranches();
         }
       });
       
@@ -1881,17 +2480,29 @@ export class CollectionChatViewShell extends React.Component<CollectionChatProps
             onModelChange={this.handleModelChange}
             showModelSelection={showModelSelection}
             selectedCollection={selectedCollection}
+            availableCollections={this.props.availableCollections}
+            selectedCollections={this.state.selectedCollections}
+            onSelectedCollectionsChange={this.handleSelectedCollectionsChange}
             personas={personas}
             selectedPersona={selectedPersona}
             onPersonaChange={this.handlePersonaChange}
             showPersonaSelection={showPersonaSelection}
             conversations={conversations}
+            allConversations={this.state.allConversations}
             selectedConversation={selectedConversation}
             onConversationSelect={this.handleConversationSelect}
             onNewChatClick={this.handleNewChatClick}
             showConversationHistory={true}
             onRenameSelectedConversation={(id) => this.handleRenameConversation(id)}
             onDeleteSelectedConversation={(id) => this.handleDeleteConversation(id)}
+            onExportSelectedConversation={this.handleExportConversation}
+            onImportConversation={this.handleImportConversation}
+            onSearchConversations={this.searchConversations}
+            conversationOrganization={this.state.conversationOrganization}
+            onConversationOrganizationChange={this.handleConversationOrganizationChange}
+            onOpenOrganizer={this.handleOpenOrganizer}
+            onDeleteConversations={this.handleDeleteConversations}
+            onOpenSearchResult={this.handleOpenSearchResult}
             isLoading={isLoading}
             isLoadingHistory={isLoadingHistory}
           />
@@ -1922,10 +2533,24 @@ export class CollectionChatViewShell extends React.Component<CollectionChatProps
                   onToggleMarkdown={this.toggleMarkdownView}
                   onScroll={this.handleScroll}
                   onUserScrollIntent={this.handleUserScrollIntent}
+                  onOpenChunk={this.handleOpenChunk}
+                  pinnedChunkIds={this.state.pinnedContext
+                    .filter(pin => pin.type === 'chunk')
+                    .map(pin => pin.chunkId!)}
+                  onTogglePinChunk={this.handleTogglePinChunk}
+                  branchNavigation={ConversationBranchService.getNavigation(messages, this.state.branchPoints)}
+                  onSwitchBranch={this.handleSwitchBranch}
+                  focusMessageId={this.state.focusMessageId}
+                  onMessageFocused={() => this.setState({ focusMessageId: null })}
                 />
               </div>
               
               
+                <PinnedContextBar
+                  pins={this.state.pinnedContext}
+                  onUnpin={this.handleTogglePin}
+                  onClear={this.handleClearPinnedContext}
+                />
                 <ChatInput
                   inputText={inputText}
                   isLoading={isLoading}
@@ -1944,6 +2569,9 @@ export class CollectionChatViewShell extends React.Component<CollectionChatProps
                   onPersonaChange={this.handlePersonaChange}
                   onPersonaToggle={this.handlePersonaToggle}
                   showPersonaSelection={false} // Moved to header
+                  retrievalFilters={this.state.retrievalFilters}
+                  filterDocuments={this.state.filterDocuments}
+                  onRetrievalFiltersChange={this.handleRetrievalFiltersChange}
                 />
                 <div className="pl-4">
                   <DocumentManagerModal
@@ -1953,11 +2581,24 @@ export class CollectionChatViewShell extends React.Component<CollectionChatProps
                     onDocumentListChange={() => console.log("document changed")}
                     documents={[]}
                     chatSessions={[]}
+                    pinnedDocumentIds={this.state.pinnedContext
+                      .filter(pin => pin.type === 'document')
+                      .map(pin => pin.documentId)}
+                    onDocumentPinToggle={this.handleTogglePinDocument}
                   />
                 </div>
             </>
           )}
           
+          {/* Document reader opened from retrieved excerpts */}
+          {this.state.documentReaderTarget && (
+            <DocumentReaderPanel
+              readerService={this.documentReaderService}
+              target={this.state.documentReaderTarget}
+              onClose={this.handleCloseDocumentReader}
+            />
+          )}
+
           {/* Bottom history panel removed; history is now in header */}
         </div>
       </div>
@@ -4,15 +4,22 @@
 
 // Re-export types that come from parent feature
 export type { Collection, ChatSession, ChatMessage } from '../braindrive-plugin/pluginTypes';
-import type { ChatMessage, Collection } from '../braindrive-plugin/pluginTypes';
+import type { ChatMessage, Collection, Document } from '../braindrive-plugin/pluginTypes';
 import type { Services } from '../types';
 import type { DataRepository } from '../braindrive-plugin/DataRepository';
+import type { DocumentReaderTarget } from '../domain/documents';
+import type { RetrievalFilterSelection } from '../domain/retrieval';
+import type { PinnedContextItem } from '../domain/context';
+import type { BranchPoint } from '../domain/conversations/ConversationBranchService';
+import type { ConversationOrganization } from '../domain/conversations/ConversationOrganizerService';
 
 // Component props
 export interface CollectionChatProps {
   moduleId?: string;
   dataRepository: DataRepository;
   selectedCollection: Collection;
+  // All collections, offered as extra retrieval sources for multi-collection chat
+  availableCollections?: Collection[];
   services: Services;
   initialGreeting?: string;
   defaultStreamingMode?: boolean;
@@ -35,6 +42,8 @@ export interface CollectionChatState {
   pendingModelKey: string | null;
   pendingModelSnapshot: ModelInfo | null;
   useStreaming: boolean;
+  // Context window assumed for Ollama models that report none (settings override)
+  ollamaContextWindow: number | null;
   conversation_id: string | null;
   isLoadingHistory: boolean;
   currentUserId: string | null;
@@ -73,6 +82,30 @@ export interface CollectionChatState {
   showAllHistory: boolean;
   openConversationMenu: string | null;
   isHistoryExpanded: boolean;
+
+  // Document reader state
+  documentReaderTarget: DocumentReaderTarget | null;
+
+  // Collections retrieval fans out to (selectedCollection first)
+  selectedCollections: Collection[];
+
+  // Metadata filters scoping retrieval, and the documents they can select from
+  retrievalFilters: RetrievalFilterSelection;
+  filterDocuments: Document[];
+
+  // Documents and chunks pinned to the conversation
+  pinnedContext: PinnedContextItem[];
+
+  // Alternatives kept when a message was edited or an answer regenerated
+  branchPoints: BranchPoint[];
+
+  // Message to scroll to once the conversation has rendered, set by search
+  focusMessageId: string | null;
+
+  // Folders, tags, pins and archive state of the history
+  conversationOrganization: ConversationOrganization;
+  // Every conversation of the page, not only the history's first page
+  allConversations: ConversationInfo[];
 }
 
 // ============================================
@@ -86,6 +119,8 @@ export interface ModelInfo {
   serverName: string;
   serverId: string;
   isTemporary?: boolean;
+  /** Context window reported by the provider (context_length / num_ctx), when known */
+  contextWindow?: number;
 }
 
 // ============================================
@@ -102,6 +137,8 @@ export interface PersonaInfo {
     temperature?: number;
     top_p?: number;
     max_tokens?: number;
+    context_window?: number;
+    num_ctx?: number;
     // Additional model settings can be added here
   };
   avatar?: string;
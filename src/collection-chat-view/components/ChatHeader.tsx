@@ -1,11 +1,33 @@
 import React from 'react';
 import { ModelInfo, ConversationInfo, PersonaInfo, ApiService } from '../../types';
 import { Collection } from '../chatViewTypes';
+import { ChatSessionStatus } from '../../braindrive-plugin/pluginTypes';
 import { formatRelativeTimeByTimestamp } from '../../utils';
-import { ComposeIcon, ThreeDotsIcon, EditIcon, DeleteIcon } from '../icons';
+import { Archive, ArchiveRestore, FolderOpen, Pin, PinOff } from 'lucide-react';
+import { ComposeIcon, ThreeDotsIcon, EditIcon, DeleteIcon, SearchIcon, DownloadIcon, UploadIcon } from '../icons';
 import SearchableDropdown, {
   DropdownOption
 } from './SearchableDropdown';
+import CollectionScopeSelector from './CollectionScopeSelector';
+import ConversationSearchPanel from './ConversationSearchPanel';
+import ConversationOrganizerPanel from './ConversationOrganizerPanel';
+import type {
+  ConversationSearchMatch,
+  ConversationSearchOptions,
+  ConversationSearchResult
+} from '../../domain/conversations/ConversationSearchService';
+import type { ConversationExportFormat } from '../../domain/conversations/ConversationExporter';
+import {
+  ConversationOrganizerService,
+  EMPTY_CONVERSATION_ORGANIZATION,
+  type ConversationOrganization
+} from '../../domain/conversations/ConversationOrganizerService';
+
+const EXPORT_FORMATS: Array<{ format: ConversationExportFormat; label: string }> = [
+  { format: 'markdown', label: 'Export as Markdown' },
+  { format: 'html', label: 'Export as HTML (print to PDF)' },
+  { format: 'json', label: 'Export as JSON' },
+];
 
 // Removed DocumentManagerModal placement; moved to CollectionChatViewShell
 import { DataRepository } from '../../braindrive-plugin/DataRepository';
@@ -23,6 +45,10 @@ interface ChatHeaderProps {
 
   // Collection Reference
   selectedCollection: Collection;
+  // Multi-collection retrieval scope
+  availableCollections?: Collection[];
+  selectedCollections?: Collection[];
+  onSelectedCollectionsChange?: (collections: Collection[]) => void;
   
   // Persona selection props
   personas: PersonaInfo[];
@@ -32,6 +58,8 @@ interface ChatHeaderProps {
   
   // Conversation history props
   conversations: ConversationInfo[];
+  // Every conversation of the page, so organized ones past the first page still show
+  allConversations?: ConversationInfo[];
   selectedConversation: ConversationInfo | null;
   onConversationSelect: (event: React.ChangeEvent<HTMLSelectElement>) => void;
   onNewChatClick: () => void;
@@ -39,6 +67,19 @@ interface ChatHeaderProps {
   // Conversation actions
   onRenameSelectedConversation?: (id: string) => void;
   onDeleteSelectedConversation?: (id: string) => void;
+  onExportSelectedConversation?: (id: string, format: ConversationExportFormat) => void;
+  // Receives a JSON file chosen from the actions menu
+  onImportConversation?: (file: File) => void;
+  // Folders, tags, pins and archive; the organize button shows when a change handler is set
+  conversationOrganization?: ConversationOrganization;
+  onConversationOrganizationChange?: (organization: ConversationOrganization) => void;
+  // Called as the organizer opens, so the full conversation list can be loaded
+  onOpenOrganizer?: () => void;
+  // Rejects with a message when some of the conversations could not be deleted
+  onDeleteConversations?: (ids: string[]) => Promise<void>;
+  // Full-text search across all conversations; the search button shows when set
+  onSearchConversations?: (query: string, options: ConversationSearchOptions) => Promise<ConversationSearchResult[]>;
+  onOpenSearchResult?: (result: ConversationSearchResult, match: ConversationSearchMatch | null) => void;
   
   // Loading states
   isLoading: boolean;
@@ -47,15 +88,20 @@ interface ChatHeaderProps {
 
 interface ChatHeaderState {
   isMenuOpen: boolean;
+  isSearchOpen: boolean;
+  isOrganizerOpen: boolean;
 }
 
 class ChatHeader extends React.Component<ChatHeaderProps, ChatHeaderState> {
 
   private menuButtonRef: HTMLButtonElement | null = null;
   private menuRef: HTMLDivElement | null = null;
+  private searchRef: HTMLDivElement | null = null;
+  private importInputRef: HTMLInputElement | null = null;
+  private organizerRef: HTMLDivElement | null = null;
   constructor(props: ChatHeaderProps) {
     super(props);
-    this.state = { isMenuOpen: false };
+    this.state = { isMenuOpen: false, isSearchOpen: false, isOrganizerOpen: false };
   }
 
   componentDidMount(): void {
@@ -76,6 +122,35 @@ class ChatHeader extends React.Component<ChatHeaderProps, ChatHeaderState> {
     ) {
       this.setState({ isMenuOpen: false });
     }
+    if (this.state.isSearchOpen && target && !this.searchRef?.contains(target)) {
+      this.setState({ isSearchOpen: false });
+    }
+    if (this.state.isOrganizerOpen && target && !this.organizerRef?.contains(target)) {
+      this.setState({ isOrganizerOpen: false });
+    }
+  };
+
+  private updateSelectedConversation = (
+    change: (organization: ConversationOrganization, ids: string[]) => ConversationOrganization
+  ) => {
+    const { selectedConversation, conversationOrganization, onConversationOrganizationChange } = this.props;
+    this.setState({ isMenuOpen: false });
+    if (!selectedConversation || !onConversationOrganizationChange) return;
+
+    onConversationOrganizationChange(change(conversationOrganization || EMPTY_CONVERSATION_ORGANIZATION, [selectedConversation.id]));
+  };
+
+  private handleImportFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files && event.target.files[0];
+    event.target.value = '';
+    if (file) {
+      this.props.onImportConversation?.(file);
+    }
+  };
+
+  private handleOpenSearchResult = (result: ConversationSearchResult, match: ConversationSearchMatch | null) => {
+    this.setState({ isSearchOpen: false });
+    this.props.onOpenSearchResult?.(result, match);
   };
 
   private emitSelectEvent(value: string) {
@@ -124,6 +199,9 @@ class ChatHeader extends React.Component<ChatHeaderProps, ChatHeaderState> {
       onModelChange,
       showModelSelection,
       selectedCollection,
+      availableCollections,
+      selectedCollections,
+      onSelectedCollectionsChange,
       personas,
       selectedPersona,
       onPersonaChange,
@@ -155,20 +233,37 @@ class ChatHeader extends React.Component<ChatHeaderProps, ChatHeaderState> {
       }))
     ];
 
+    const organization = this.props.conversationOrganization || EMPTY_CONVERSATION_ORGANIZATION;
+    const selectedEntry = selectedConversation
+      ? ConversationOrganizerService.getEntry(organization, selectedConversation.id)
+      : null;
+    const selectedArchived = selectedConversation && ConversationOrganizerService.isArchived(organization, selectedConversation.id)
+      ? ConversationOrganizerService.arrange([selectedConversation], organization, { folderId: 'all', tag: null, includeArchived: true })[0]
+      : null;
+
     const conversationOptions: DropdownOption[] = [
       {
         value: '',
         label: 'Start New Chat'
       },
-      ...conversations.map(conv => ({
-        value: conv.id,
-        label: conv.title || 'Untitled',
-        description:
-          conv.updated_at || conv.created_at
-            ? formatRelativeTimeByTimestamp(conv.updated_at || conv.created_at)
-            : undefined,
-        keywords: [conv.title || '', conv.id]
-      }))
+      // Pinned first; archived ones stay out of the menu unless open
+      ...ConversationOrganizerService.arrange(
+        ConversationOrganizerService.withOrganized(conversations, this.props.allConversations || [], organization),
+        organization
+      )
+        .concat(selectedArchived ? [selectedArchived] : [])
+        .map(({ conversation: conv, entry, folder }) => ({
+          value: conv.id,
+          label: `${entry.pinned ? '📌 ' : ''}${conv.title || 'Untitled'}`,
+          description: [
+            folder ? folder.name : '',
+            entry.tags.map(tag => `#${tag}`).join(' '),
+            conv.updated_at || conv.created_at
+              ? formatRelativeTimeByTimestamp(conv.updated_at || conv.created_at)
+              : ''
+          ].filter(Boolean).join(' · ') || undefined,
+          keywords: [conv.title || '', conv.id, folder ? folder.name : ''].concat(entry.tags)
+        }))
     ];
 
     const selectedModelValue = selectedModel
@@ -201,6 +296,20 @@ class ChatHeader extends React.Component<ChatHeaderProps, ChatHeaderState> {
             </div>
           )}
 
+          {/* Collections Section - only when there is more than one collection to search */}
+          {availableCollections && availableCollections.length > 1 && onSelectedCollectionsChange && (
+            <div className="header-collections-section">
+              <label className="header-label">Collections</label>
+              <CollectionScopeSelector
+                collections={availableCollections}
+                selectedCollections={selectedCollections || [selectedCollection]}
+                primaryCollectionId={selectedCollection.id}
+                onChange={onSelectedCollectionsChange}
+                disabled={isLoading || isLoadingHistory}
+              />
+            </div>
+          )}
+
           {/* Middle Section - Persona Selection */}
           {showPersonaSelection && (
             <div className="header-persona-section">
@@ -255,54 +364,171 @@ class ChatHeader extends React.Component<ChatHeaderProps, ChatHeaderState> {
                     : 'Start New Chat'
                 }
               />
+              {this.props.onSearchConversations && this.props.onOpenSearchResult && (
+                <div className="conversation-search-wrapper" ref={(el) => (this.searchRef = el)}>
+                  <button
+                    className="header-icon-only"
+                    onClick={() => this.setState({ isSearchOpen: !this.state.isSearchOpen, isMenuOpen: false })}
+                    title="Search conversations"
+                    disabled={isLoadingHistory}
+                    aria-expanded={this.state.isSearchOpen}
+                  >
+                    <SearchIcon isActive={this.state.isSearchOpen} />
+                  </button>
+                  {this.state.isSearchOpen && (
+                    <ConversationSearchPanel
+                      onSearch={this.props.onSearchConversations}
+                      onOpenResult={this.handleOpenSearchResult}
+                      onClose={() => this.setState({ isSearchOpen: false })}
+                    />
+                  )}
+                </div>
+              )}
+              {this.props.onConversationOrganizationChange && (
+                <div className="conversation-organizer-wrapper" ref={(el) => (this.organizerRef = el)}>
+                  <button
+                    className="header-icon-only"
+                    onClick={() => {
+                      if (!this.state.isOrganizerOpen) this.props.onOpenOrganizer?.();
+                      this.setState({ isOrganizerOpen: !this.state.isOrganizerOpen, isMenuOpen: false });
+                    }}
+                    title="Organize conversations"
+                    disabled={isLoadingHistory}
+                    aria-expanded={this.state.isOrganizerOpen}
+                  >
+                    <FolderOpen size={14} />
+                  </button>
+                  {this.state.isOrganizerOpen && (
+                    <ConversationOrganizerPanel
+                      conversations={ConversationOrganizerService.merge(conversations, this.props.allConversations || [])}
+                      organization={organization}
+                      selectedConversationId={selectedConversation ? selectedConversation.id : null}
+                      onChange={this.props.onConversationOrganizationChange}
+                      onOpenConversation={(id) => {
+                        this.setState({ isOrganizerOpen: false });
+                        this.handleConversationSelect(id);
+                      }}
+                      onDeleteConversations={(ids) => this.props.onDeleteConversations ? this.props.onDeleteConversations(ids) : Promise.resolve()}
+                      onClose={() => this.setState({ isOrganizerOpen: false })}
+                    />
+                  )}
+                </div>
+              )}
               <div className="history-actions-wrapper" style={{ position: 'relative' }}>
                 <button
                   className="header-icon-only"
                   ref={(el) => (this.menuButtonRef = el)}
                   onClick={() => this.setState({ isMenuOpen: !this.state.isMenuOpen })}
                   title="Conversation actions"
-                  disabled={!selectedConversation || isLoading || isLoadingHistory}
+                  disabled={(!selectedConversation && !this.props.onImportConversation) || isLoading || isLoadingHistory}
                   aria-haspopup="menu"
                   aria-expanded={this.state.isMenuOpen}
                 >
                   <ThreeDotsIcon />
                 </button>
-                {this.state.isMenuOpen && selectedConversation && (
+                {this.state.isMenuOpen && (
                   <div
                     className="conversation-menu"
                     ref={(el) => (this.menuRef = el)}
                     role="menu"
                     style={{ top: 'calc(100% + 6px)' }}
                   >
-                    <div className="conversation-menu-item datetime">
-                      {selectedConversation.updated_at
-                        ? `Updated ${formatRelativeTimeByTimestamp(selectedConversation.updated_at)}`
-                        : `Created ${formatRelativeTimeByTimestamp(selectedConversation.created_at)}`}
-                    </div>
-                    <button
-                      className="conversation-menu-item"
-                      role="menuitem"
-                      onClick={() => {
-                        this.setState({ isMenuOpen: false });
-                        this.props.onRenameSelectedConversation?.(selectedConversation.id);
-                      }}
-                    >
-                      <EditIcon />
-                      <span>Rename</span>
-                    </button>
-                    <button
-                      className="conversation-menu-item danger"
-                      role="menuitem"
-                      onClick={() => {
-                        this.setState({ isMenuOpen: false });
-                        this.props.onDeleteSelectedConversation?.(selectedConversation.id);
-                      }}
-                    >
-                      <DeleteIcon />
-                      <span>Delete</span>
-                    </button>
+                    {selectedConversation && (
+                      <>
+                        <div className="conversation-menu-item datetime">
+                          {selectedConversation.updated_at
+                            ? `Updated ${formatRelativeTimeByTimestamp(selectedConversation.updated_at)}`
+                            : `Created ${formatRelativeTimeByTimestamp(selectedConversation.created_at)}`}
+                        </div>
+                        <button
+                          className="conversation-menu-item"
+                          role="menuitem"
+                          onClick={() => {
+                            this.setState({ isMenuOpen: false });
+                            this.props.onRenameSelectedConversation?.(selectedConversation.id);
+                          }}
+                        >
+                          <EditIcon />
+                          <span>Rename</span>
+                        </button>
+                        {this.props.onConversationOrganizationChange && selectedEntry && (
+                          <>
+                            <button
+                              className="conversation-menu-item"
+                              role="menuitem"
+                              disabled={selectedEntry.status === ChatSessionStatus.ARCHIVED}
+                              onClick={() => this.updateSelectedConversation((org, ids) =>
+                                ConversationOrganizerService.setPinned(org, ids, !selectedEntry.pinned)
+                              )}
+                            >
+                              {selectedEntry.pinned ? <PinOff size={14} /> : <Pin size={14} />}
+                              <span>{selectedEntry.pinned ? 'Unpin' : 'Pin to top'}</span>
+                            </button>
+                            <button
+                              className="conversation-menu-item"
+                              role="menuitem"
+                              onClick={() => this.updateSelectedConversation((org, ids) =>
+                                ConversationOrganizerService.setArchived(org, ids, selectedEntry.status !== ChatSessionStatus.ARCHIVED)
+                              )}
+                            >
+                              {selectedEntry.status === ChatSessionStatus.ARCHIVED ? <ArchiveRestore size={14} /> : <Archive size={14} />}
+                              <span>{selectedEntry.status === ChatSessionStatus.ARCHIVED ? 'Unarchive' : 'Archive'}</span>
+                            </button>
+                          </>
+                        )}
+                        {this.props.onExportSelectedConversation && EXPORT_FORMATS.map(({ format, label }) => (
+                          <button
+                            key={format}
+                            className="conversation-menu-item"
+                            role="menuitem"
+                            onClick={() => {
+                              this.setState({ isMenuOpen: false });
+                              this.props.onExportSelectedConversation?.(selectedConversation.id, format);
+                            }}
+                          >
+                            <DownloadIcon size={14} />
+                            <span>{label}</span>
+                          </button>
+                        ))}
+                      </>
+                    )}
+                    {this.props.onImportConversation && (
+                      <button
+                        className="conversation-menu-item"
+                        role="menuitem"
+                        onClick={() => {
+                          this.setState({ isMenuOpen: false });
+                          this.importInputRef?.click();
+                        }}
+                      >
+                        <UploadIcon size={14} />
+                        <span>Import from JSON</span>
+                      </button>
+                    )}
+                    {selectedConversation && (
+                      <button
+                        className="conversation-menu-item danger"
+                        role="menuitem"
+                        onClick={() => {
+                          this.setState({ isMenuOpen: false });
+                          this.props.onDeleteSelectedConversation?.(selectedConversation.id);
+                        }}
+                      >
+                        <DeleteIcon />
+                        <span>Delete</span>
+                      </button>
+                    )}
                   </div>
                 )}
+                {this.props.onImportConversation && (
+                  <input
+                    ref={(el) => (this.importInputRef = el)}
+                    type="file"
+                    accept=".json,application/json"
+                    onChange={this.handleImportFile}
+                    style={{ display: 'none' }}
+                  />
+                )}
               </div>
             </div>
           )}
@@ -1,8 +1,11 @@
 import React from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
-import { ChatMessage, SearchResult } from '../../braindrive-plugin/pluginTypes';
-import RetrievedChunksPreview from './RetrievedChunksPreview';
+import { ChatMessage, DocumentChunk, SearchResult } from '../../braindrive-plugin/pluginTypes';
+import RetrievedChunksPreview, { getChunkAnchorKey } from './RetrievedChunksPreview';
+import RetrievalDebugPanel from './RetrievalDebugPanel';
+import { CitationFormatter } from '../../domain/citations';
+import type { BranchNavigation } from '../../domain/conversations/ConversationBranchService';
 import { formatTimestamp } from '../../utils';
 import EnhancedCodeBlock from './EnhancedCodeBlock';
 import ThinkingBlock from './ThinkingBlock';
@@ -15,6 +18,8 @@ import {
     MarkdownToggleIcon
   } from '../icons';
 
+const CITATION_HIGHLIGHT_MS = 2500;
+
 const KEYBOARD_SCROLL_KEYS = new Set<string>([
   'ArrowUp',
   'ArrowDown',
@@ -46,24 +51,86 @@ interface ChatHistoryProps {
   onToggleMarkdown?: (messageId: string) => void;
   onScroll?: (event: React.UIEvent<HTMLDivElement>) => void;
   onUserScrollIntent?: (source: ScrollIntentSource) => void;
+  onOpenChunk?: (chunk: DocumentChunk) => void;
+  pinnedChunkIds?: string[];
+  onTogglePinChunk?: (chunk: DocumentChunk) => void;
+  // Sibling navigation keyed by the message it is shown on
+  branchNavigation?: Record<string, BranchNavigation>;
+  onSwitchBranch?: (anchorId: string, index: number) => void;
+  // Message to scroll to and highlight once rendered, e.g. a search hit
+  focusMessageId?: string | null;
+  onMessageFocused?: () => void;
 }
 
 interface ChatHistoryState {
   expandedSearchResults: Set<string>;
   expandedDocumentContext: Set<string>;
   expandedRetrievedContext: Set<string>;
+  expandedRetrievalDebug: Set<string>;
+  highlightedChunk: { messageId: string; index: number } | null;
+  highlightedMessageId: string | null;
 }
 
 class ChatHistory extends React.Component<ChatHistoryProps, ChatHistoryState> {
+  private highlightTimeout: ReturnType<typeof setTimeout> | null = null;
+  private messageHighlightTimeout: ReturnType<typeof setTimeout> | null = null;
+
   constructor(props: ChatHistoryProps) {
     super(props);
     this.state = {
       expandedSearchResults: new Set(),
       expandedDocumentContext: new Set(),
-      expandedRetrievedContext: new Set()
+      expandedRetrievedContext: new Set(),
+      expandedRetrievalDebug: new Set(),
+      highlightedChunk: null,
+      highlightedMessageId: null
     };
   }
 
+  componentDidMount() {
+    this.focusMessageIfRequested();
+  }
+
+  componentDidUpdate(prevProps: ChatHistoryProps) {
+    if (prevProps.focusMessageId !== this.props.focusMessageId || prevProps.messages !== this.props.messages) {
+      this.focusMessageIfRequested();
+    }
+  }
+
+  componentWillUnmount() {
+    if (this.highlightTimeout) {
+      clearTimeout(this.highlightTimeout);
+    }
+    if (this.messageHighlightTimeout) {
+      clearTimeout(this.messageHighlightTimeout);
+    }
+  }
+
+  /**
+   * Scroll to and briefly highlight the requested message once it is rendered
+   */
+  focusMessageIfRequested = () => {
+    const { focusMessageId, chatHistoryRef, onMessageFocused } = this.props;
+    if (!focusMessageId) return;
+
+    const target = chatHistoryRef.current?.querySelector(`[data-message-id="${focusMessageId}"]`);
+    if (!target) return;
+
+    if (typeof (target as HTMLElement).scrollIntoView === 'function') {
+      (target as HTMLElement).scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+    this.setState({ highlightedMessageId: focusMessageId });
+    onMessageFocused?.();
+
+    if (this.messageHighlightTimeout) {
+      clearTimeout(this.messageHighlightTimeout);
+    }
+    this.messageHighlightTimeout = setTimeout(() => {
+      this.messageHighlightTimeout = null;
+      this.setState({ highlightedMessageId: null });
+    }, CITATION_HIGHLIGHT_MS);
+  };
+
   emitScrollIntent = (source: ScrollIntentSource) => {
     if (this.props.onUserScrollIntent) {
       this.props.onUserScrollIntent(source);
@@ -133,6 +200,61 @@ class ChatHistory extends React.Component<ChatHistoryProps, ChatHistoryState> {
     });
   };
 
+  /**
+   * Toggle the retrieval debugger for a retrieval message
+   */
+  toggleRetrievalDebug = (messageId: string) => {
+    this.setState(prevState => {
+      const newSet = new Set(prevState.expandedRetrievalDebug);
+      if (newSet.has(messageId)) {
+        newSet.delete(messageId);
+      } else {
+        newSet.add(messageId);
+      }
+      return { expandedRetrievalDebug: newSet } as Pick<ChatHistoryState, keyof ChatHistoryState>;
+    });
+  };
+
+  /**
+   * Expand the cited retrieval message, then scroll to and highlight the chunk
+   */
+  handleCitationClick = (sourceMessageId: string, citationNumber: number) => {
+    const index = citationNumber - 1;
+
+    this.setState(prevState => {
+      const expanded = new Set(prevState.expandedRetrievedContext);
+      expanded.add(sourceMessageId);
+      return {
+        expandedRetrievedContext: expanded,
+        highlightedChunk: { messageId: sourceMessageId, index }
+      } as Pick<ChatHistoryState, keyof ChatHistoryState>;
+    }, () => {
+      const container = this.props.chatHistoryRef.current;
+      const target = container?.querySelector(`[data-chunk-key="${getChunkAnchorKey(sourceMessageId, index)}"]`);
+      if (target && typeof (target as HTMLElement).scrollIntoView === 'function') {
+        (target as HTMLElement).scrollIntoView({ behavior: 'smooth', block: 'center' });
+      }
+    });
+
+    if (this.highlightTimeout) {
+      clearTimeout(this.highlightTimeout);
+    }
+    this.highlightTimeout = setTimeout(() => {
+      this.highlightTimeout = null;
+      this.setState({ highlightedChunk: null });
+    }, CITATION_HIGHLIGHT_MS);
+  };
+
+  /**
+   * Chunks cited by an answer, looked up from its retrieval message
+   */
+  getCitationSource = (message: ChatMessage) => {
+    if (!message.citationSourceId) return null;
+    const source = this.props.messages.find(m => m.id === message.citationSourceId);
+    if (!source?.retrievalData?.chunks?.length) return null;
+    return { messageId: source.id, chunks: source.retrievalData.chunks };
+  };
+
   /**
    * Render search result item
    */
@@ -184,6 +306,14 @@ class ChatHistory extends React.Component<ChatHistoryProps, ChatHistoryState> {
                     : `${results.length} files processed`
                   }
                 </span>
+                {documentData.trimmedFilenames && documentData.trimmedFilenames.length > 0 && (
+                  <span
+                    className="document-info"
+                    title={`Trimmed to fit the model context: ${documentData.trimmedFilenames.join(', ')}`}
+                  >
+                    trimmed to fit context
+                  </span>
+                )}
               </div>
               <button
                 onClick={() => this.toggleDocumentContext(message.id)}
@@ -223,6 +353,8 @@ class ChatHistory extends React.Component<ChatHistoryProps, ChatHistoryState> {
     if (!retrievalData) return null;
 
     const isExpanded = this.state.expandedRetrievedContext.has(message.id);
+    const isDebugExpanded = this.state.expandedRetrievalDebug.has(message.id);
+    const { highlightedChunk } = this.state;
     const { chunks } = retrievalData;
 
     return (
@@ -233,6 +365,19 @@ class ChatHistory extends React.Component<ChatHistoryProps, ChatHistoryState> {
               <div className="retrieved-context-summary">
                 <span className="retrieved-icon">🔎</span>
                 <span className="retrieved-count">{chunks.length} retrieved excerpt{chunks.length === 1 ? '' : 's'}</span>
+                {retrievalData.metadata?.pinned_chunk_count > 0 && (
+                  <span className="retrieved-pinned-count">· {retrievalData.metadata!.pinned_chunk_count} pinned</span>
+                )}
+                {retrievalData.metadata?.context_budget?.dropped?.length > 0 && (
+                  <span
+                    className="retrieved-pinned-count"
+                    title={`Left out to fit the model context: ${retrievalData.metadata!.context_budget.dropped
+                      .map((item: { label: string }) => item.label)
+                      .join(', ')}`}
+                  >
+                    · {retrievalData.metadata!.context_budget.dropped.length} dropped to fit context
+                  </span>
+                )}
               </div>
               <button
                 onClick={() => this.toggleRetrievedContext(message.id)}
@@ -242,11 +387,37 @@ class ChatHistory extends React.Component<ChatHistoryProps, ChatHistoryState> {
                 <span className="retrieved-toggle-text">{isExpanded ? 'Hide' : 'Show'}</span>
                 <span className={`retrieved-toggle-icon ${isExpanded ? 'expanded' : ''}`}>{isExpanded ? '▼' : '▶'}</span>
               </button>
+              <button
+                onClick={() => this.toggleRetrievalDebug(message.id)}
+                className={`retrieved-toggle-btn ${isDebugExpanded ? 'active' : ''}`}
+                title={isDebugExpanded ? 'Hide retrieval debugger' : 'Show retrieval scores and fusion details'}
+              >
+                <span className="retrieved-toggle-text">Debug</span>
+              </button>
             </div>
 
+            {isDebugExpanded && (
+              <div className="retrieved-context-content">
+                <RetrievalDebugPanel
+                  chunks={chunks}
+                  intent={message.retrievalData?.intent}
+                  metadata={message.retrievalData?.metadata}
+                />
+              </div>
+            )}
+
             {isExpanded && (
               <div className="retrieved-context-content">
-                <RetrievedChunksPreview chunks={chunks} intent={message.retrievalData?.intent} metadata={message.retrievalData?.metadata} />
+                <RetrievedChunksPreview
+                  chunks={chunks}
+                  intent={message.retrievalData?.intent}
+                  metadata={message.retrievalData?.metadata}
+                  messageId={message.id}
+                  highlightedIndex={highlightedChunk?.messageId === message.id ? highlightedChunk.index : null}
+                  onOpenChunk={this.props.onOpenChunk}
+                  pinnedChunkIds={this.props.pinnedChunkIds}
+                  onTogglePinChunk={this.props.onTogglePinChunk}
+                />
               </div>
             )}
           </div>
@@ -378,7 +549,8 @@ class ChatHistory extends React.Component<ChatHistoryProps, ChatHistoryState> {
       `message-${sender}`,
       isStreaming ? 'message-streaming' : '',
       isEditing ? 'message-is-editing' : '',
-      showRawMarkdown ? 'message-raw' : ''
+      showRawMarkdown ? 'message-raw' : '',
+      this.state.highlightedMessageId === message.id ? 'message-highlighted' : ''
     ].filter(Boolean).join(' ');
 
     let mainContent: React.ReactNode;
@@ -422,18 +594,40 @@ class ChatHistory extends React.Component<ChatHistoryProps, ChatHistoryState> {
         </pre>
       );
     } else {
+      const citationSource = this.getCitationSource(message);
+      const markdownContent = citationSource
+        ? CitationFormatter.linkifyCitations(displayContent, citationSource.chunks.length)
+        : displayContent;
+
       mainContent = (
         <ReactMarkdown
           remarkPlugins={[remarkGfm]}
           components={{
-            a: ({ node, ...props }) => (
-              <a
-                {...props}
-                target="_blank"
-                rel="noopener noreferrer"
-                className="markdown-link"
-              />
-            ),
+            a: ({ node, ...props }) => {
+              const citationNumber = citationSource ? CitationFormatter.parseCitationHref(props.href) : null;
+              if (citationSource && citationNumber !== null) {
+                const chunk = citationSource.chunks[citationNumber - 1];
+                return (
+                  <button
+                    type="button"
+                    className="citation-chip"
+                    title={chunk ? CitationFormatter.getChunkLabel(chunk) : `Source ${citationNumber}`}
+                    onClick={() => this.handleCitationClick(citationSource.messageId, citationNumber)}
+                  >
+                    {citationNumber}
+                  </button>
+                );
+              }
+
+              return (
+                <a
+                  {...props}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="markdown-link"
+                />
+              );
+            },
             code: ({ node, inline, className, children, ...props }: any) => {
               const match = /language-(\w+)/.exec(className || '');
               const codeContent = String(children).replace(/\n$/, '');
@@ -473,7 +667,7 @@ class ChatHistory extends React.Component<ChatHistoryProps, ChatHistoryState> {
             ),
           }}
         >
-          {displayContent}
+          {markdownContent}
         </ReactMarkdown>
       );
     }
@@ -548,6 +742,7 @@ class ChatHistory extends React.Component<ChatHistoryProps, ChatHistoryState> {
             {isEdited && (
               <span className="message-edited-indicator">Edited</span>
             )}
+            {this.renderBranchNavigation(message.id)}
             {hasActions && (
               <div className="message-actions">
                 {userAction}
@@ -560,6 +755,42 @@ class ChatHistory extends React.Component<ChatHistoryProps, ChatHistoryState> {
     );
   };
 
+  /**
+   * Render "< 2/3 >" navigation between a message's alternatives
+   */
+  renderBranchNavigation = (messageId: string) => {
+    const { branchNavigation, onSwitchBranch, isLoading } = this.props;
+    const navigation = branchNavigation?.[messageId];
+    if (!navigation || !onSwitchBranch) return null;
+
+    const { anchorId, index, count } = navigation;
+    return (
+      <span className="message-branch-nav" aria-label="Alternatives">
+        <button
+          type="button"
+          className="message-branch-btn"
+          onClick={() => onSwitchBranch(anchorId, index - 1)}
+          disabled={isLoading || index === 0}
+          title="Previous version"
+          aria-label="Previous version"
+        >
+          ‹
+        </button>
+        <span className="message-branch-count">{index + 1}/{count}</span>
+        <button
+          type="button"
+          className="message-branch-btn"
+          onClick={() => onSwitchBranch(anchorId, index + 1)}
+          disabled={isLoading || index === count - 1}
+          title="Next version"
+          aria-label="Next version"
+        >
+          ›
+        </button>
+      </span>
+    );
+  };
+
   /**
    * Render loading indicator
    */
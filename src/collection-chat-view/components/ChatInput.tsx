@@ -1,6 +1,10 @@
 import React from 'react';
+import { SlidersHorizontal } from 'lucide-react';
 import { ModelInfo } from '../../types';
+import type { Document } from '../../braindrive-plugin/pluginTypes';
+import { RetrievalFilterBuilder, type RetrievalFilterSelection } from '../../domain/retrieval';
 import { SendIcon, StopIcon } from '../icons';
+import RetrievalFiltersPanel from './RetrievalFiltersPanel';
 
 interface ChatInputProps {
   inputText: string;
@@ -25,23 +29,31 @@ interface ChatInputProps {
   onPersonaChange: (event: React.ChangeEvent<HTMLSelectElement>) => void;
   onPersonaToggle?: () => void;
   showPersonaSelection: boolean;
+
+  // Retrieval filter props
+  retrievalFilters?: RetrievalFilterSelection;
+  filterDocuments?: Document[];
+  onRetrievalFiltersChange?: (filters: RetrievalFilterSelection) => void;
 }
 
 interface ChatInputState {
   isMenuOpen: boolean;
   showPersonaSelector: boolean;
   isMultiline: boolean;
+  isFilterOpen: boolean;
 }
 
 class ChatInput extends React.Component<ChatInputProps, ChatInputState> {
   private menuRef = React.createRef<HTMLDivElement>();
+  private filterRef = React.createRef<HTMLDivElement>();
 
   constructor(props: ChatInputProps) {
     super(props);
     this.state = {
       isMenuOpen: false,
       showPersonaSelector: false,
-      isMultiline: false
+      isMultiline: false,
+      isFilterOpen: false
     };
   }
 
@@ -89,6 +101,9 @@ class ChatInput extends React.Component<ChatInputProps, ChatInputState> {
     if (this.menuRef.current && !this.menuRef.current.contains(event.target as Node)) {
       this.setState({ isMenuOpen: false });
     }
+    if (this.filterRef.current && !this.filterRef.current.contains(event.target as Node)) {
+      this.setState({ isFilterOpen: false });
+    }
   };
 
   // Determine if the textarea has grown beyond one line to adjust button alignment
@@ -114,6 +129,10 @@ class ChatInput extends React.Component<ChatInputProps, ChatInputState> {
     this.setState(prevState => ({ isMenuOpen: !prevState.isMenuOpen }));
   };
 
+  toggleFilters = () => {
+    this.setState(prevState => ({ isFilterOpen: !prevState.isFilterOpen }));
+  };
+
   handleFileUpload = () => {
     if (this.props.onFileUpload) {
       this.props.onFileUpload();
@@ -162,8 +181,12 @@ class ChatInput extends React.Component<ChatInputProps, ChatInputState> {
       personas,
       selectedPersona,
       onPersonaChange,
-      showPersonaSelection
+      showPersonaSelection,
+      retrievalFilters,
+      filterDocuments,
+      onRetrievalFiltersChange
     } = this.props;
+    const activeFilterCount = retrievalFilters ? RetrievalFilterBuilder.countActive(retrievalFilters) : 0;
 
     // Local dropdown state retained for future menu use; not used in current layout
     
@@ -190,6 +213,34 @@ class ChatInput extends React.Component<ChatInputProps, ChatInputState> {
                 </select>
               )}
 
+              {/* Retrieval filters - scope the search to documents, types or dates */}
+              {retrievalFilters && onRetrievalFiltersChange && (
+                <div className="retrieval-filters-control" ref={this.filterRef}>
+                  <button
+                    onClick={this.toggleFilters}
+                    className={`input-button retrieval-filters-button ${activeFilterCount > 0 ? 'active' : ''}`}
+                    title={activeFilterCount > 0
+                      ? `Search filtered: ${RetrievalFilterBuilder.describe(retrievalFilters, filterDocuments)}`
+                      : 'Filter documents to search'}
+                    aria-expanded={this.state.isFilterOpen}
+                    disabled={isLoadingHistory}
+                  >
+                    <SlidersHorizontal size={16} />
+                    {activeFilterCount > 0 && (
+                      <span className="retrieval-filters-badge">{activeFilterCount}</span>
+                    )}
+                  </button>
+                  {this.state.isFilterOpen && (
+                    <RetrievalFiltersPanel
+                      filters={retrievalFilters}
+                      documents={filterDocuments || []}
+                      onChange={onRetrievalFiltersChange}
+                      disabled={isLoading}
+                    />
+                  )}
+                </div>
+              )}
+
               <textarea
                 ref={inputRef}
                 value={inputText}
@@ -0,0 +1,110 @@
+import React from 'react';
+import { Collection } from '../chatViewTypes';
+
+interface CollectionScopeSelectorProps {
+  collections: Collection[];
+  selectedCollections: Collection[];
+  // The chat's own collection is always searched and cannot be removed
+  primaryCollectionId: string;
+  onChange: (collections: Collection[]) => void;
+  disabled?: boolean;
+}
+
+interface CollectionScopeSelectorState {
+  isOpen: boolean;
+}
+
+/**
+ * Multi-select of the collections a chat retrieves from
+ */
+class CollectionScopeSelector extends React.Component<CollectionScopeSelectorProps, CollectionScopeSelectorState> {
+  private containerRef: HTMLDivElement | null = null;
+
+  constructor(props: CollectionScopeSelectorProps) {
+    super(props);
+    this.state = { isOpen: false };
+  }
+
+  componentDidMount(): void {
+    document.addEventListener('mousedown', this.handleDocumentClick);
+  }
+
+  componentWillUnmount(): void {
+    document.removeEventListener('mousedown', this.handleDocumentClick);
+  }
+
+  handleDocumentClick = (e: MouseEvent) => {
+    if (this.state.isOpen && !this.containerRef?.contains(e.target as Node)) {
+      this.setState({ isOpen: false });
+    }
+  };
+
+  handleToggle = (collection: Collection) => {
+    const { collections, selectedCollections, primaryCollectionId, onChange } = this.props;
+    if (collection.id === primaryCollectionId) return;
+
+    const selectedIds = new Set(selectedCollections.map(c => c.id));
+    if (selectedIds.has(collection.id)) {
+      selectedIds.delete(collection.id);
+    } else {
+      selectedIds.add(collection.id);
+    }
+
+    // Keep the order of the collections list, primary collection first
+    onChange(
+      collections
+        .filter(c => selectedIds.has(c.id) || c.id === primaryCollectionId)
+        .sort((a, b) => Number(b.id === primaryCollectionId) - Number(a.id === primaryCollectionId))
+    );
+  };
+
+  getSummary(): string {
+    const { selectedCollections, primaryCollectionId } = this.props;
+    const primary = selectedCollections.find(c => c.id === primaryCollectionId) || selectedCollections[0];
+    const extra = selectedCollections.length - 1;
+    if (!primary) return 'Select collections';
+    return extra > 0 ? `${primary.name} +${extra}` : primary.name;
+  }
+
+  render() {
+    const { collections, selectedCollections, primaryCollectionId, disabled } = this.props;
+    const { isOpen } = this.state;
+    const selectedIds = new Set(selectedCollections.map(c => c.id));
+
+    return (
+      <div className="collection-scope-selector" ref={(el) => (this.containerRef = el)}>
+        <button
+          className="header-select collection-scope-trigger"
+          onClick={() => this.setState({ isOpen: !isOpen })}
+          disabled={disabled}
+          aria-haspopup="listbox"
+          aria-expanded={isOpen}
+          title={selectedCollections.map(c => c.name).join(', ')}
+        >
+          {this.getSummary()}
+        </button>
+        {isOpen && (
+          <div className="conversation-menu collection-scope-menu" role="listbox" aria-multiselectable="true">
+            {collections.map(collection => {
+              const isPrimary = collection.id === primaryCollectionId;
+              return (
+                <label key={collection.id} className="conversation-menu-item collection-scope-option">
+                  <input
+                    type="checkbox"
+                    checked={isPrimary || selectedIds.has(collection.id)}
+                    disabled={isPrimary}
+                    onChange={() => this.handleToggle(collection)}
+                  />
+                  <span>{collection.name}</span>
+                  {isPrimary && <span className="collection-scope-primary">current</span>}
+                </label>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    );
+  }
+}
+
+export default CollectionScopeSelector;
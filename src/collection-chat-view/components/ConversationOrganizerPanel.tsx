@@ -0,0 +1,351 @@
+import React from 'react';
+import { Archive, ArchiveRestore, FolderPlus, Pin, PinOff, Tag, Trash2, X } from 'lucide-react';
+import type { ConversationInfo } from '../../types';
+import { formatRelativeTimeByTimestamp } from '../../utils';
+import {
+  ConversationOrganizerService,
+  DEFAULT_CONVERSATION_FILTER,
+  type ConversationFilter,
+  type ConversationOrganization,
+} from '../../domain/conversations/ConversationOrganizerService';
+
+interface ConversationOrganizerPanelProps {
+  conversations: ConversationInfo[];
+  organization: ConversationOrganization;
+  selectedConversationId: string | null;
+  onChange: (organization: ConversationOrganization) => void;
+  onOpenConversation: (conversationId: string) => void;
+  onDeleteConversations: (conversationIds: string[]) => Promise<void>;
+  onClose: () => void;
+}
+
+interface ConversationOrganizerPanelState {
+  filter: ConversationFilter;
+  selectedIds: string[];
+  newFolderName: string;
+  tagInput: string;
+  error: string;
+}
+
+const UNFILED = '__unfiled__';
+const ALL = 'all';
+
+/**
+ * Folders, tags, pins and archive for the conversation history, with bulk
+ * actions on the conversations ticked in the list
+ */
+class ConversationOrganizerPanel extends React.Component<ConversationOrganizerPanelProps, ConversationOrganizerPanelState> {
+  constructor(props: ConversationOrganizerPanelProps) {
+    super(props);
+    this.state = {
+      filter: DEFAULT_CONVERSATION_FILTER,
+      selectedIds: [],
+      newFolderName: '',
+      tagInput: '',
+      error: '',
+    };
+  }
+
+  componentDidUpdate(prevProps: ConversationOrganizerPanelProps) {
+    const { conversations, organization } = this.props;
+
+    // Deleted conversations drop out of the selection, and a deleted folder out of the filter
+    if (prevProps.conversations !== conversations && this.state.selectedIds.length > 0) {
+      const selectedIds = this.state.selectedIds.filter(id => conversations.some(conv => conv.id === id));
+      if (selectedIds.length !== this.state.selectedIds.length) {
+        this.setState({ selectedIds });
+      }
+    }
+    const { folderId } = this.state.filter;
+    if (prevProps.organization !== organization && folderId && folderId !== ALL &&
+        !organization.folders.some(folder => folder.id === folderId)) {
+      this.setState({ filter: { ...this.state.filter, folderId: ALL } });
+    }
+  }
+
+  /**
+   * Apply a change built with ConversationOrganizerService, showing its error if it refuses
+   */
+  private update = (change: (organization: ConversationOrganization) => ConversationOrganization): boolean => {
+    try {
+      this.props.onChange(change(this.props.organization));
+      this.setState({ error: '' });
+      return true;
+    } catch (error) {
+      this.setState({ error: error instanceof Error ? error.message : 'Could not update conversations' });
+      return false;
+    }
+  };
+
+  private setFilter = (filter: Partial<ConversationFilter>) => {
+    this.setState({ filter: { ...this.state.filter, ...filter }, selectedIds: [] });
+  };
+
+  private toggleSelected = (conversationId: string) => {
+    const { selectedIds } = this.state;
+    this.setState({
+      selectedIds: selectedIds.indexOf(conversationId) === -1
+        ? selectedIds.concat(conversationId)
+        : selectedIds.filter(id => id !== conversationId),
+    });
+  };
+
+  private handleCreateFolder = (event: React.FormEvent) => {
+    event.preventDefault();
+    let folderId: string | null = null;
+    const created = this.update(organization => {
+      const result = ConversationOrganizerService.createFolder(organization, this.state.newFolderName);
+      folderId = result.folder.id;
+      return result.organization;
+    });
+    if (created) {
+      this.setState({ newFolderName: '' });
+      this.setFilter({ folderId });
+    }
+  };
+
+  private handleRenameFolder = (folderId: string, currentName: string) => {
+    const name = window.prompt('Rename folder', currentName);
+    if (name === null || name.trim() === currentName) return;
+    this.update(organization => ConversationOrganizerService.renameFolder(organization, folderId, name));
+  };
+
+  private handleDeleteFolder = (folderId: string, name: string) => {
+    if (!window.confirm(`Delete the folder "${name}"? Its conversations are kept and become unfiled.`)) return;
+    this.update(organization => ConversationOrganizerService.deleteFolder(organization, folderId));
+  };
+
+  private handleAddTag = (event: React.FormEvent) => {
+    event.preventDefault();
+    const { selectedIds, tagInput } = this.state;
+    if (this.update(organization => ConversationOrganizerService.addTag(organization, selectedIds, tagInput))) {
+      this.setState({ tagInput: '' });
+    }
+  };
+
+  private handleMove = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    const { value } = event.target;
+    if (!value) return;
+    const folderId = value === UNFILED ? null : value;
+    this.update(organization => ConversationOrganizerService.moveToFolder(organization, this.state.selectedIds, folderId));
+  };
+
+  private handleBulkDelete = async () => {
+    const { selectedIds } = this.state;
+    const noun = selectedIds.length === 1 ? 'conversation' : 'conversations';
+    if (!window.confirm(`Delete ${selectedIds.length} ${noun}? This cannot be undone. Archive them to keep them out of the list instead.`)) {
+      return;
+    }
+    this.setState({ selectedIds: [], error: '' });
+    try {
+      await this.props.onDeleteConversations(selectedIds);
+    } catch (error) {
+      this.setState({ error: error instanceof Error ? error.message : 'Could not delete conversations' });
+    }
+  };
+
+  private renderFilters() {
+    const { organization } = this.props;
+    const { filter } = this.state;
+    const tags = ConversationOrganizerService.getTags(organization);
+    const folder = filter.folderId && filter.folderId !== ALL
+      ? organization.folders.find(candidate => candidate.id === filter.folderId)
+      : null;
+
+    return (
+      <>
+        <div className="conversation-organizer-filters">
+          <select
+            value={filter.folderId === null ? UNFILED : filter.folderId}
+            onChange={event => this.setFilter({ folderId: event.target.value === UNFILED ? null : event.target.value })}
+            aria-label="Folder"
+          >
+            <option value={ALL}>All folders</option>
+            <option value={UNFILED}>Unfiled</option>
+            {organization.folders.map(item => (
+              <option key={item.id} value={item.id}>{item.name}</option>
+            ))}
+          </select>
+          <select
+            value={filter.tag || ''}
+            onChange={event => this.setFilter({ tag: event.target.value || null })}
+            aria-label="Tag"
+            disabled={tags.length === 0}
+          >
+            <option value="">Any tag</option>
+            {tags.map(tag => (
+              <option key={tag} value={tag}>#{tag}</option>
+            ))}
+          </select>
+          <label className="conversation-organizer-checkbox">
+            <input
+              type="checkbox"
+              checked={filter.includeArchived}
+              onChange={event => this.setFilter({ includeArchived: event.target.checked })}
+            />
+            Archived
+          </label>
+        </div>
+        <div className="conversation-organizer-folders">
+          <form onSubmit={this.handleCreateFolder} className="conversation-organizer-inline-form">
+            <input
+              type="text"
+              value={this.state.newFolderName}
+              onChange={event => this.setState({ newFolderName: event.target.value })}
+              placeholder="New folder"
+            />
+            <button type="submit" disabled={!this.state.newFolderName.trim()} title="Create folder">
+              <FolderPlus size={14} />
+            </button>
+          </form>
+          {folder && (
+            <div className="conversation-organizer-folder-actions">
+              <button onClick={() => this.handleRenameFolder(folder.id, folder.name)}>Rename folder</button>
+              <button className="danger" onClick={() => this.handleDeleteFolder(folder.id, folder.name)}>Delete folder</button>
+            </div>
+          )}
+        </div>
+      </>
+    );
+  }
+
+  private renderBulkActions() {
+    const { organization } = this.props;
+    const { selectedIds, tagInput } = this.state;
+    if (selectedIds.length === 0) return null;
+
+    const selectedTags: string[] = [];
+    selectedIds.forEach(id => {
+      ConversationOrganizerService.getEntry(organization, id).tags.forEach(tag => {
+        if (selectedTags.indexOf(tag) === -1) selectedTags.push(tag);
+      });
+    });
+
+    return (
+      <div className="conversation-organizer-bulk">
+        <span className="conversation-organizer-bulk-count">{selectedIds.length} selected</span>
+        <button onClick={() => this.update(org => ConversationOrganizerService.setPinned(org, selectedIds, true))} title="Pin">
+          <Pin size={14} />
+        </button>
+        <button onClick={() => this.update(org => ConversationOrganizerService.setPinned(org, selectedIds, false))} title="Unpin">
+          <PinOff size={14} />
+        </button>
+        <button onClick={() => this.update(org => ConversationOrganizerService.setArchived(org, selectedIds, true))} title="Archive">
+          <Archive size={14} />
+        </button>
+        <button onClick={() => this.update(org => ConversationOrganizerService.setArchived(org, selectedIds, false))} title="Unarchive">
+          <ArchiveRestore size={14} />
+        </button>
+        <select value="" onChange={this.handleMove} aria-label="Move to folder">
+          <option value="">Move to…</option>
+          <option value={UNFILED}>No folder</option>
+          {organization.folders.map(folder => (
+            <option key={folder.id} value={folder.id}>{folder.name}</option>
+          ))}
+        </select>
+        <form onSubmit={this.handleAddTag} className="conversation-organizer-inline-form">
+          <input
+            type="text"
+            value={tagInput}
+            onChange={event => this.setState({ tagInput: event.target.value })}
+            placeholder="Add tag"
+          />
+          <button type="submit" disabled={!tagInput.trim()} title="Add tag">
+            <Tag size={14} />
+          </button>
+        </form>
+        {selectedTags.length > 0 && (
+          <select
+            value=""
+            onChange={event => {
+              const tag = event.target.value;
+              if (tag) this.update(org => ConversationOrganizerService.removeTag(org, selectedIds, tag));
+            }}
+            aria-label="Remove tag"
+          >
+            <option value="">Remove tag…</option>
+            {selectedTags.sort().map(tag => (
+              <option key={tag} value={tag}>#{tag}</option>
+            ))}
+          </select>
+        )}
+        <button className="danger" onClick={this.handleBulkDelete} title="Delete">
+          <Trash2 size={14} />
+        </button>
+      </div>
+    );
+  }
+
+  render() {
+    const { conversations, organization, selectedConversationId, onOpenConversation, onClose } = this.props;
+    const { filter, selectedIds, error } = this.state;
+    const items = ConversationOrganizerService.arrange(conversations, organization, filter);
+    const allSelected = items.length > 0 && items.every(item => selectedIds.indexOf(item.conversation.id) !== -1);
+
+    return (
+      <div className="conversation-organizer-panel" role="dialog" aria-label="Organize conversations">
+        <div className="conversation-organizer-header">
+          <label className="conversation-organizer-checkbox">
+            <input
+              type="checkbox"
+              checked={allSelected}
+              disabled={items.length === 0}
+              onChange={() => this.setState({ selectedIds: allSelected ? [] : items.map(item => item.conversation.id) })}
+              aria-label="Select all"
+            />
+            <span className="conversation-organizer-title">Organize conversations</span>
+          </label>
+          <button className="conversation-organizer-close" onClick={onClose} aria-label="Close">
+            <X size={14} />
+          </button>
+        </div>
+        {this.renderFilters()}
+        {this.renderBulkActions()}
+        {error && <div className="conversation-organizer-error">{error}</div>}
+        {items.length === 0 ? (
+          <div className="conversation-organizer-empty">No conversations here</div>
+        ) : (
+          <ul className="conversation-organizer-list">
+            {items.map(({ conversation, entry, folder }) => {
+              const isArchived = ConversationOrganizerService.isArchived(organization, conversation.id);
+              return (
+                <li
+                  key={conversation.id}
+                  className={`conversation-organizer-item${conversation.id === selectedConversationId ? ' current' : ''}${isArchived ? ' archived' : ''}`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.indexOf(conversation.id) !== -1}
+                    onChange={() => this.toggleSelected(conversation.id)}
+                    aria-label={`Select ${conversation.title || 'Untitled conversation'}`}
+                  />
+                  <button
+                    className={`conversation-organizer-pin${entry.pinned ? ' active' : ''}`}
+                    onClick={() => this.update(org => ConversationOrganizerService.setPinned(org, [conversation.id], !entry.pinned))}
+                    title={entry.pinned ? 'Unpin' : 'Pin to top'}
+                    disabled={isArchived}
+                  >
+                    <Pin size={12} />
+                  </button>
+                  <button className="conversation-organizer-open" onClick={() => onOpenConversation(conversation.id)}>
+                    <span className="conversation-organizer-item-title">{conversation.title || 'Untitled conversation'}</span>
+                    <span className="conversation-organizer-item-meta">
+                      {folder && <span className="conversation-organizer-folder">{folder.name}</span>}
+                      {entry.tags.map(tag => (
+                        <span key={tag} className="conversation-organizer-tag">#{tag}</span>
+                      ))}
+                      {isArchived && <span className="conversation-organizer-tag">archived</span>}
+                      <span>{formatRelativeTimeByTimestamp(conversation.updated_at || conversation.created_at)}</span>
+                    </span>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    );
+  }
+}
+
+export default ConversationOrganizerPanel;
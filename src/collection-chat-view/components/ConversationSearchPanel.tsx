@@ -0,0 +1,216 @@
+import React from 'react';
+import { formatRelativeTimeByTimestamp } from '../../utils';
+import { debounce } from '../../utils/debounce';
+import { CloseIcon, SearchIcon } from '../icons';
+import type {
+  ConversationSearchMatch,
+  ConversationSearchOptions,
+  ConversationSearchProgress,
+  ConversationSearchResult,
+  SearchSnippet,
+} from '../../domain/conversations/ConversationSearchService';
+
+interface ConversationSearchPanelProps {
+  onSearch: (query: string, options: ConversationSearchOptions) => Promise<ConversationSearchResult[]>;
+  // `match` is the message to jump to, or null to open the conversation at its end
+  onOpenResult: (result: ConversationSearchResult, match: ConversationSearchMatch | null) => void;
+  onClose: () => void;
+}
+
+interface ConversationSearchPanelState {
+  query: string;
+  results: ConversationSearchResult[];
+  isSearching: boolean;
+  progress: ConversationSearchProgress | null;
+  visibleCount: number;
+  error: string;
+}
+
+const PAGE_SIZE = 20;
+const SEARCH_DELAY_MS = 300;
+
+const MATCH_LABELS: Record<ConversationSearchMatch['field'], string> = {
+  title: 'Title',
+  persona: 'Persona',
+  model: 'Model',
+  message: '',
+};
+
+const Snippet: React.FC<{ snippet: SearchSnippet }> = ({ snippet }) => (
+  <span className="conversation-search-snippet">
+    {snippet.before}
+    {snippet.match && <mark>{snippet.match}</mark>}
+    {snippet.after}
+  </span>
+);
+
+/**
+ * Search box over every conversation's title, persona, model and messages;
+ * a message hit opens its conversation scrolled to that message
+ */
+class ConversationSearchPanel extends React.Component<ConversationSearchPanelProps, ConversationSearchPanelState> {
+  // Bumped per search so results of an older, slower search are dropped
+  private searchId = 0;
+  private isUnmounted = false;
+
+  constructor(props: ConversationSearchPanelProps) {
+    super(props);
+    this.state = {
+      query: '',
+      results: [],
+      isSearching: false,
+      progress: null,
+      visibleCount: PAGE_SIZE,
+      error: '',
+    };
+  }
+
+  componentWillUnmount(): void {
+    this.isUnmounted = true;
+    this.searchId++;
+  }
+
+  private runSearch = async (query: string) => {
+    const searchId = ++this.searchId;
+    const isCancelled = () => searchId !== this.searchId;
+
+    if (!query.trim()) {
+      this.setState({ results: [], isSearching: false, progress: null, error: '' });
+      return;
+    }
+
+    this.setState({ isSearching: true, error: '' });
+    try {
+      const results = await this.props.onSearch(query, {
+        isCancelled,
+        onProgress: progress => {
+          if (!isCancelled()) this.setState({ progress });
+        },
+      });
+      if (!isCancelled()) {
+        this.setState({ results, isSearching: false, progress: null, visibleCount: PAGE_SIZE });
+      }
+    } catch (error) {
+      console.error('Error searching conversations:', error);
+      if (!isCancelled()) {
+        this.setState({ isSearching: false, progress: null, error: 'Could not search conversations' });
+      }
+    }
+  };
+
+  private debouncedSearch = debounce((query: string) => {
+    if (!this.isUnmounted) this.runSearch(query);
+  }, SEARCH_DELAY_MS);
+
+  private handleQueryChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const query = event.target.value;
+    this.setState({ query });
+    this.debouncedSearch(query);
+  };
+
+  private handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'Escape') {
+      event.stopPropagation();
+      this.props.onClose();
+    }
+  };
+
+  private renderStatus() {
+    const { query, results, isSearching, progress, error } = this.state;
+
+    if (error) {
+      return <div className="conversation-search-status error">{error}</div>;
+    }
+    if (isSearching) {
+      return (
+        <div className="conversation-search-status">
+          {progress && progress.indexed < progress.total
+            ? `Searching messages… ${progress.indexed} of ${progress.total} conversations`
+            : 'Searching…'}
+        </div>
+      );
+    }
+    if (!query.trim()) {
+      return <div className="conversation-search-status">Search titles, personas, models and messages</div>;
+    }
+    return (
+      <div className="conversation-search-status">
+        {results.length === 0
+          ? 'No conversations found'
+          : `${results.length} ${results.length === 1 ? 'conversation' : 'conversations'}`}
+      </div>
+    );
+  }
+
+  private renderResult(result: ConversationSearchResult) {
+    const { conversation, personaName, matches } = result;
+    const firstMessageMatch = matches.find(match => match.field === 'message') || null;
+    const updatedAt = conversation.last_message_at || conversation.updated_at || conversation.created_at;
+    const meta = [personaName, conversation.model, updatedAt ? formatRelativeTimeByTimestamp(updatedAt) : '']
+      .filter(Boolean)
+      .join(' · ');
+
+    return (
+      <li key={conversation.id} className="conversation-search-result">
+        <button
+          className="conversation-search-result-header"
+          onClick={() => this.props.onOpenResult(result, firstMessageMatch)}
+        >
+          <span className="conversation-search-result-title">{conversation.title || 'Untitled conversation'}</span>
+          {meta && <span className="conversation-search-result-meta">{meta}</span>}
+        </button>
+        {matches.map((match, index) => (
+          <button
+            key={`${match.field}-${match.messageId || index}`}
+            className="conversation-search-match"
+            onClick={() => this.props.onOpenResult(result, match.field === 'message' ? match : firstMessageMatch)}
+          >
+            <span className="conversation-search-match-label">
+              {match.field === 'message' ? (match.sender === 'user' ? 'You' : 'Assistant') : MATCH_LABELS[match.field]}
+            </span>
+            <Snippet snippet={match.snippet} />
+          </button>
+        ))}
+      </li>
+    );
+  }
+
+  render() {
+    const { query, results, visibleCount } = this.state;
+
+    return (
+      <div className="conversation-search-panel" role="dialog" aria-label="Search conversations" onKeyDown={this.handleKeyDown}>
+        <div className="conversation-search-input-row">
+          <SearchIcon />
+          <input
+            type="search"
+            className="conversation-search-input"
+            value={query}
+            onChange={this.handleQueryChange}
+            placeholder="Search all conversations"
+            autoFocus
+          />
+          <button className="conversation-search-close" onClick={this.props.onClose} aria-label="Close search">
+            <CloseIcon />
+          </button>
+        </div>
+        {this.renderStatus()}
+        {results.length > 0 && (
+          <ul className="conversation-search-results">
+            {results.slice(0, visibleCount).map(result => this.renderResult(result))}
+          </ul>
+        )}
+        {results.length > visibleCount && (
+          <button
+            className="conversation-search-more"
+            onClick={() => this.setState({ visibleCount: visibleCount + PAGE_SIZE })}
+          >
+            Show more ({results.length - visibleCount} more)
+          </button>
+        )}
+      </div>
+    );
+  }
+}
+
+export default ConversationSearchPanel;
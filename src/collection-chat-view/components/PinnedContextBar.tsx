@@ -0,0 +1,55 @@
+import React from 'react';
+import { Pin, X } from 'lucide-react';
+import type { PinnedContextItem } from '../../domain/context';
+
+interface PinnedContextBarProps {
+  pins: PinnedContextItem[];
+  onUnpin: (pin: PinnedContextItem) => void;
+  onClear: () => void;
+}
+
+const getPinLabel = (pin: PinnedContextItem) => {
+  const name = pin.documentName || pin.documentId;
+  return pin.type === 'chunk' && typeof pin.chunkIndex === 'number'
+    ? `${name} · chunk ${pin.chunkIndex + 1}`
+    : name;
+};
+
+/**
+ * Documents and chunks pinned to the conversation, always sent ahead of retrieved context
+ */
+const PinnedContextBar: React.FC<PinnedContextBarProps> = ({ pins, onUnpin, onClear }) => {
+  if (pins.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="pinned-context-bar">
+      <span className="pinned-context-title" title="Always included as context in this conversation">
+        <Pin size={14} />
+        Pinned
+      </span>
+      <div className="pinned-context-items">
+        {pins.map(pin => (
+          <span key={pin.id} className="pinned-context-item" title={getPinLabel(pin)}>
+            <span className="pinned-context-label">{getPinLabel(pin)}</span>
+            <button
+              onClick={() => onUnpin(pin)}
+              className="pinned-context-remove"
+              aria-label={`Unpin ${getPinLabel(pin)}`}
+            >
+              <X size={12} />
+            </button>
+          </span>
+        ))}
+      </div>
+      {pins.length > 1 && (
+        <button onClick={onClear} className="pinned-context-clear">
+          Clear all
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default PinnedContextBar;
@@ -0,0 +1,233 @@
+import React from 'react';
+import type { DocumentChunk, IntentResponse } from '../../braindrive-plugin/pluginTypes';
+import {
+  RetrievalDebugFormatter,
+  type RetrievalDebugRow,
+  type RetrievalDebugSortKey,
+  type SortDirection,
+  type CollectionRetrievalSummary,
+} from '../../domain/retrieval';
+import type { ContextBudgetReport } from '../../domain/context';
+
+interface RetrievalDebugPanelProps {
+  chunks: DocumentChunk[];
+  intent?: IntentResponse | null;
+  metadata?: Record<string, any>;
+}
+
+interface RetrievalDebugPanelState {
+  sortKey: RetrievalDebugSortKey;
+  sortDirection: SortDirection;
+}
+
+const COLUMNS: Array<{ key: RetrievalDebugSortKey; label: string; numeric?: boolean }> = [
+  { key: 'rank', label: '#', numeric: true },
+  { key: 'source', label: 'Source' },
+  { key: 'bm25Score', label: 'BM25', numeric: true },
+  { key: 'rrfScore', label: 'RRF', numeric: true },
+  { key: 'fusionMethod', label: 'Fusion' },
+  { key: 'foundInVector', label: 'Vector' },
+  { key: 'foundInBm25', label: 'Keyword' },
+];
+
+const renderFlag = (value: boolean | null) => {
+  if (value === null) return '—';
+  return value ? '✓' : '✗';
+};
+
+/**
+ * Sortable table of retrieval scores and fusion details for one retrieval
+ */
+class RetrievalDebugPanel extends React.Component<RetrievalDebugPanelProps, RetrievalDebugPanelState> {
+  constructor(props: RetrievalDebugPanelProps) {
+    super(props);
+    this.state = {
+      sortKey: 'rank',
+      sortDirection: 'asc',
+    };
+  }
+
+  handleSort = (key: RetrievalDebugSortKey) => {
+    this.setState(prevState => {
+      if (prevState.sortKey === key) {
+        return { sortKey: key, sortDirection: prevState.sortDirection === 'asc' ? 'desc' : 'asc' };
+      }
+      // Scores read best highest-first; rank and text columns ascending
+      const numericScore = key === 'bm25Score' || key === 'rrfScore';
+      return { sortKey: key, sortDirection: numericScore ? 'desc' : 'asc' };
+    });
+  };
+
+  renderCell(row: RetrievalDebugRow, key: RetrievalDebugSortKey) {
+    switch (key) {
+      case 'bm25Score':
+        return RetrievalDebugFormatter.formatScore(row.bm25Score, 3);
+      case 'rrfScore':
+        return RetrievalDebugFormatter.formatScore(row.rrfScore);
+      case 'foundInVector':
+        return renderFlag(row.foundInVector);
+      case 'foundInBm25':
+        return renderFlag(row.foundInBm25);
+      case 'fusionMethod':
+        return row.fusionMethod || '—';
+      default:
+        return row[key];
+    }
+  }
+
+  renderIntent() {
+    const { intent } = this.props;
+    if (!intent) return null;
+
+    return (
+      <div className="retrieval-debug-section">
+        <div className="retrieval-debug-title">Intent</div>
+        <div className="retrieval-debug-intent">
+          <span><strong>{intent.type}</strong></span>
+          <span>confidence {RetrievalDebugFormatter.formatConfidence(intent.confidence)}</span>
+          <span>retrieval {intent.requires_retrieval ? 'required' : 'not required'}</span>
+          {intent.requires_collection_scan && <span>collection scan</span>}
+        </div>
+        {intent.reasoning && (
+          <div className="retrieval-debug-reasoning">{intent.reasoning}</div>
+        )}
+      </div>
+    );
+  }
+
+  renderTransformedQueries() {
+    const { metadata } = this.props;
+    const queries: string[] = Array.isArray(metadata?.transformed_queries) ? metadata!.transformed_queries : [];
+    if (queries.length === 0) return null;
+
+    return (
+      <div className="retrieval-debug-section">
+        <div className="retrieval-debug-title">Transformed queries ({queries.length})</div>
+        <ol className="retrieval-debug-queries">
+          {queries.map((query, i) => (
+            <li key={i}>{query}</li>
+          ))}
+        </ol>
+      </div>
+    );
+  }
+
+  renderFilters() {
+    const { metadata } = this.props;
+    if (!metadata?.filters) return null;
+
+    return (
+      <div className="retrieval-debug-section">
+        <div className="retrieval-debug-title">Filters</div>
+        <div className="retrieval-debug-intent">{metadata.filters}</div>
+      </div>
+    );
+  }
+
+  renderContextBudget() {
+    const report: ContextBudgetReport | undefined = this.props.metadata?.context_budget;
+    if (!report) return null;
+
+    const leftOut = [
+      ...report.trimmed.map(item => ({ ...item, outcome: 'trimmed' })),
+      ...report.dropped.map(item => ({ ...item, outcome: 'dropped' })),
+    ];
+
+    return (
+      <div className="retrieval-debug-section">
+        <div className="retrieval-debug-title">Context budget</div>
+        <div className="retrieval-debug-intent">
+          <span>{report.used_tokens} of {report.budget_tokens} tokens used</span>
+          <span>context window {report.context_window}</span>
+        </div>
+        {leftOut.length > 0 && (
+          <ul className="retrieval-debug-queries">
+            {leftOut.map(item => (
+              <li key={`${item.outcome}-${item.rank}`}>
+                #{item.rank} {item.label}: {item.outcome} (~{item.tokens} tokens)
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    );
+  }
+
+  renderCollections() {
+    const { metadata } = this.props;
+    const collections: CollectionRetrievalSummary[] = Array.isArray(metadata?.collections) ? metadata!.collections : [];
+    if (collections.length < 2) return null;
+
+    return (
+      <div className="retrieval-debug-section">
+        <div className="retrieval-debug-title">Collections</div>
+        <ul className="retrieval-debug-queries">
+          {collections.map(collection => (
+            <li key={collection.collection_id}>
+              <strong>{collection.collection_name}</strong>: {collection.chunk_count} chunk{collection.chunk_count === 1 ? '' : 's'}
+              {collection.retrieval_profile && ` · ${collection.retrieval_profile}`}
+              {collection.error && ` · failed: ${collection.error}`}
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+  }
+
+  render() {
+    const { chunks } = this.props;
+    const { sortKey, sortDirection } = this.state;
+    const rows = RetrievalDebugFormatter.sortRows(
+      RetrievalDebugFormatter.buildRows(chunks || []),
+      sortKey,
+      sortDirection
+    );
+
+    return (
+      <div className="retrieval-debug-panel">
+        {this.renderIntent()}
+        {this.renderFilters()}
+        {this.renderContextBudget()}
+        {this.renderCollections()}
+        {this.renderTransformedQueries()}
+
+        <div className="retrieval-debug-section">
+          <div className="retrieval-debug-title">Chunk scores</div>
+          <div className="retrieval-debug-table-wrapper">
+            <table className="retrieval-debug-table">
+              <thead>
+                <tr>
+                  {COLUMNS.map(column => (
+                    <th
+                      key={column.key}
+                      className={column.numeric ? 'numeric' : ''}
+                      aria-sort={sortKey === column.key ? (sortDirection === 'asc' ? 'ascending' : 'descending') : 'none'}
+                    >
+                      <button onClick={() => this.handleSort(column.key)} className="retrieval-debug-sort-btn">
+                        {column.label}
+                        {sortKey === column.key && (sortDirection === 'asc' ? ' ▲' : ' ▼')}
+                      </button>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <tr key={row.chunkId || row.rank}>
+                    {COLUMNS.map(column => (
+                      <td key={column.key} className={column.numeric ? 'numeric' : ''}>
+                        {this.renderCell(row, column.key)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    );
+  }
+}
+
+export default RetrievalDebugPanel;
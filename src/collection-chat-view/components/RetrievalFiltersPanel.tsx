@@ -0,0 +1,110 @@
+import React from 'react';
+import type { Document } from '../../braindrive-plugin/pluginTypes';
+import {
+  RetrievalFilterBuilder,
+  EMPTY_RETRIEVAL_FILTERS,
+  FILTERABLE_DOCUMENT_TYPES,
+  type RetrievalFilterSelection,
+} from '../../domain/retrieval';
+
+interface RetrievalFiltersPanelProps {
+  filters: RetrievalFilterSelection;
+  documents: Document[];
+  onChange: (filters: RetrievalFilterSelection) => void;
+  disabled?: boolean;
+}
+
+const toggleValue = (values: string[], value: string): string[] =>
+  values.indexOf(value) === -1 ? [...values, value] : values.filter(v => v !== value);
+
+/**
+ * Scoping filters for retrieval: documents, document types and upload date range
+ */
+const RetrievalFiltersPanel: React.FC<RetrievalFiltersPanelProps> = ({ filters, documents, onChange, disabled }) => {
+  const validationError = RetrievalFilterBuilder.validate(filters);
+  const matchingCount = RetrievalFilterBuilder.matchDocuments(documents, filters).length;
+  const update = (patch: Partial<RetrievalFilterSelection>) => onChange({ ...filters, ...patch });
+
+  return (
+    <div className="retrieval-filters-panel" role="dialog" aria-label="Retrieval filters">
+      <div className="retrieval-filters-header">
+        <span className="retrieval-filters-title">Search only within</span>
+        <button
+          className="retrieval-filters-clear"
+          onClick={() => onChange(EMPTY_RETRIEVAL_FILTERS)}
+          disabled={disabled || RetrievalFilterBuilder.isEmpty(filters)}
+        >
+          Clear
+        </button>
+      </div>
+
+      <div className="retrieval-filters-section">
+        <div className="retrieval-filters-label">Document types</div>
+        <div className="retrieval-filters-types">
+          {FILTERABLE_DOCUMENT_TYPES.map(type => (
+            <label key={type} className="retrieval-filters-option">
+              <input
+                type="checkbox"
+                checked={filters.documentTypes.indexOf(type) !== -1}
+                onChange={() => update({ documentTypes: toggleValue(filters.documentTypes, type) })}
+                disabled={disabled}
+              />
+              <span>{type.toUpperCase()}</span>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="retrieval-filters-section">
+        <div className="retrieval-filters-label">Uploaded</div>
+        <div className="retrieval-filters-dates">
+          <input
+            type="date"
+            value={filters.uploadedAfter || ''}
+            onChange={(e) => update({ uploadedAfter: e.target.value || null })}
+            aria-label="Uploaded from"
+            disabled={disabled}
+          />
+          <span>to</span>
+          <input
+            type="date"
+            value={filters.uploadedBefore || ''}
+            onChange={(e) => update({ uploadedBefore: e.target.value || null })}
+            aria-label="Uploaded until"
+            disabled={disabled}
+          />
+        </div>
+        {validationError && <div className="retrieval-filters-error">{validationError}</div>}
+      </div>
+
+      <div className="retrieval-filters-section">
+        <div className="retrieval-filters-label">Documents</div>
+        {documents.length === 0 ? (
+          <div className="retrieval-filters-empty">No documents in the selected collections</div>
+        ) : (
+          <div className="retrieval-filters-documents">
+            {documents.map(document => (
+              <label key={document.id} className="retrieval-filters-option" title={document.original_filename}>
+                <input
+                  type="checkbox"
+                  checked={filters.documentIds.indexOf(document.id) !== -1}
+                  onChange={() => update({ documentIds: toggleValue(filters.documentIds, document.id) })}
+                  disabled={disabled}
+                />
+                <span className="retrieval-filters-document-name">{document.original_filename}</span>
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {!RetrievalFilterBuilder.isEmpty(filters) && documents.length > 0 && (
+        <div className="retrieval-filters-summary">
+          {matchingCount} of {documents.length} documents match
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RetrievalFiltersPanel;
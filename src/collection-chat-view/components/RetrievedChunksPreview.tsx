@@ -1,12 +1,22 @@
 import React from 'react';
+import { BookOpen, Pin } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import type { DocumentChunk, IntentResponse } from '../../braindrive-plugin/pluginTypes';
+import { CitationFormatter } from '../../domain/citations';
 
 interface RetrievedChunksPreviewProps {
   chunks: DocumentChunk[];
   intent?: IntentResponse | null;
   metadata?: Record<string, any>;
+  // Used to build data-chunk-key anchors for citation scrolling
+  messageId?: string;
+  highlightedIndex?: number | null;
+  // Opens the chunk in the document reader
+  onOpenChunk?: (chunk: DocumentChunk) => void;
+  // Pins the chunk to the conversation
+  pinnedChunkIds?: string[];
+  onTogglePinChunk?: (chunk: DocumentChunk) => void;
 }
 
 const truncate = (text: string, max = 280) => {
@@ -16,12 +26,18 @@ const truncate = (text: string, max = 280) => {
   return cleaned.slice(0, max) + '…';
 };
 
-const getChunkLabel = (chunk: DocumentChunk, index: number) => {
-  const idx = typeof chunk.chunk_index === 'number' ? `#${chunk.chunk_index}` : `#${index}`;
-  return `Excerpt ${idx}`;
-};
+export const getChunkAnchorKey = (messageId: string, index: number) => `${messageId}-${index}`;
 
-const RetrievedChunksPreview: React.FC<RetrievedChunksPreviewProps> = ({ chunks, intent, metadata }) => {
+const RetrievedChunksPreview: React.FC<RetrievedChunksPreviewProps> = ({
+  chunks,
+  intent,
+  metadata,
+  messageId,
+  highlightedIndex,
+  onOpenChunk,
+  pinnedChunkIds = [],
+  onTogglePinChunk,
+}) => {
   if (!Array.isArray(chunks) || chunks.length === 0) {
     return null;
   }
@@ -50,9 +66,36 @@ const RetrievedChunksPreview: React.FC<RetrievedChunksPreviewProps> = ({ chunks,
       </div>
       <div className="retrieved-chunks-list">
         {chunks.map((chunk, i) => (
-          <div key={chunk.id || i} className="retrieved-chunk-item">
+          <div
+            key={chunk.id || i}
+            className={`retrieved-chunk-item ${highlightedIndex === i ? 'retrieved-chunk-highlighted' : ''}`}
+            data-chunk-key={messageId ? getChunkAnchorKey(messageId, i) : undefined}
+          >
             <div className="retrieved-chunk-header">
-              <span className="retrieved-chunk-source">{getChunkLabel(chunk, i)}</span>
+              <span className="retrieved-chunk-number">[{i + 1}]</span>
+              <span className="retrieved-chunk-source">{CitationFormatter.getChunkLabel(chunk)}</span>
+              {chunk.metadata?.pinned && <span className="retrieved-chunk-pinned-tag">Pinned</span>}
+              {onOpenChunk && chunk.document_id && (
+                <button
+                  onClick={() => onOpenChunk(chunk)}
+                  className="retrieved-chunk-open-btn"
+                  title="Open in document"
+                >
+                  <BookOpen size={14} />
+                  <span>Open in document</span>
+                </button>
+              )}
+              {onTogglePinChunk && chunk.id && (
+                <button
+                  onClick={() => onTogglePinChunk(chunk)}
+                  className={`retrieved-chunk-open-btn ${pinnedChunkIds.indexOf(chunk.id) !== -1 ? 'active' : ''}`}
+                  title={pinnedChunkIds.indexOf(chunk.id) !== -1 ? 'Unpin from this conversation' : 'Pin to this conversation'}
+                  aria-pressed={pinnedChunkIds.indexOf(chunk.id) !== -1}
+                >
+                  <Pin size={14} />
+                  <span>{pinnedChunkIds.indexOf(chunk.id) !== -1 ? 'Unpin' : 'Pin'}</span>
+                </button>
+              )}
             </div>
             <div className="retrieved-chunk-content">
               <ReactMarkdown remarkPlugins={[remarkGfm]}>
@@ -4,3 +4,6 @@ export { default as ChatInput } from './ChatInput';
 export { default as LoadingStates } from './LoadingStates';
 export { default as EnhancedCodeBlock } from './EnhancedCodeBlock';
 export { default as FileUpload } from './FileUpload';
+export { default as PinnedContextBar } from './PinnedContextBar';
+export { default as ConversationSearchPanel } from './ConversationSearchPanel';
+export { default as ConversationOrganizerPanel } from './ConversationOrganizerPanel';
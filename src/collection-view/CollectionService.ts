@@ -1,5 +1,8 @@
 import type { DataRepository } from '../braindrive-plugin/DataRepository';
+import type { RetrievalProfileService, RetrievalProfile } from '../domain/retrieval';
+import type { RAGSearchConfig } from '../infrastructure/repositories';
 import type { 
+    Collection,
     CollectionFeatureState,
     CollectionViewStateUpdater,
     CollectionViewType,
@@ -15,6 +18,8 @@ interface ServiceDependencies {
     setError: (error: string | null) => void; 
     // Callback to refresh data in the parent component (PluginService)
     onCollectionsUpdated: () => Promise<void>; 
+    // Optional: only available when the host provides a settings service
+    retrievalProfileService?: RetrievalProfileService | null;
 }
 
 
@@ -102,4 +107,128 @@ export class CollectionService {
             this.updateState({ isCreating: false });
         }
     }
+
+    // --- Retrieval Profiles ---
+
+    public handleOpenRetrievalProfiles = async (collection: Collection): Promise<void> => {
+        const { retrievalProfileService } = this.deps;
+        if (!retrievalProfileService) {
+            this.deps.setError('Settings service not available; retrieval profiles cannot be edited.');
+            return;
+        }
+
+        this.deps.setError(null);
+        const retrievalSettings = await retrievalProfileService.loadSettings(collection.id);
+        const active = retrievalProfileService.getActiveProfile(retrievalSettings);
+        this.updateState({
+            profileCollection: collection,
+            retrievalSettings,
+            profileDraft: { ...active, config: { ...active.config } },
+        });
+    }
+
+    public handleCloseRetrievalProfiles = (): void => {
+        this.updateState({
+            profileCollection: null,
+            retrievalSettings: null,
+            profileDraft: null,
+        });
+    }
+
+    public handleSelectProfileDraft = (profileId: string): void => {
+        const { retrievalProfileService } = this.deps;
+        const { retrievalSettings } = this.state;
+        if (!retrievalProfileService || !retrievalSettings) return;
+
+        const profile = retrievalProfileService.listProfiles(retrievalSettings).find(p => p.id === profileId);
+        if (profile) {
+            this.updateState({ profileDraft: { ...profile, config: { ...profile.config } } });
+        }
+    }
+
+    public handleNewProfileDraft = (): void => {
+        const base = this.state.profileDraft;
+        this.updateState({
+            profileDraft: {
+                id: '',
+                name: '',
+                description: '',
+                config: base ? { ...base.config } : {},
+            },
+        });
+    }
+
+    public handleProfileDraftChange = (patch: Partial<RetrievalProfile>, configPatch: Partial<RAGSearchConfig> = {}): void => {
+        const draft = this.state.profileDraft;
+        if (!draft) return;
+
+        this.updateState({
+            profileDraft: {
+                ...draft,
+                ...patch,
+                config: { ...draft.config, ...configPatch },
+            },
+        });
+    }
+
+    public handleSaveProfile = async (): Promise<void> => {
+        const { retrievalProfileService } = this.deps;
+        const { profileCollection, profileDraft } = this.state;
+        if (!retrievalProfileService || !profileCollection || !profileDraft) return;
+
+        this.updateState({ isSavingProfile: true });
+        this.deps.setError(null);
+
+        try {
+            const { settings, profile } = await retrievalProfileService.saveProfile(profileCollection.id, profileDraft);
+            this.updateState({
+                retrievalSettings: settings,
+                profileDraft: { ...profile, config: { ...profile.config } },
+            });
+        } catch (err: any) {
+            this.deps.setError(err.message || 'Failed to save retrieval profile.');
+        } finally {
+            this.updateState({ isSavingProfile: false });
+        }
+    }
+
+    public handleDeleteProfile = async (profileId: string): Promise<void> => {
+        const { retrievalProfileService } = this.deps;
+        const { profileCollection } = this.state;
+        if (!retrievalProfileService || !profileCollection) return;
+
+        this.updateState({ isSavingProfile: true });
+        this.deps.setError(null);
+
+        try {
+            const retrievalSettings = await retrievalProfileService.deleteProfile(profileCollection.id, profileId);
+            const active = retrievalProfileService.getActiveProfile(retrievalSettings);
+            this.updateState({
+                retrievalSettings,
+                profileDraft: { ...active, config: { ...active.config } },
+            });
+        } catch (err: any) {
+            this.deps.setError(err.message || 'Failed to delete retrieval profile.');
+        } finally {
+            this.updateState({ isSavingProfile: false });
+        }
+    }
+
+    public handleSetActiveProfile = async (profileId: string): Promise<void> => {
+        const { retrievalProfileService } = this.deps;
+        const { profileCollection } = this.state;
+        if (!retrievalProfileService || !profileCollection) return;
+
+        this.updateState({ isSavingProfile: true });
+        this.deps.setError(null);
+
+        try {
+            const retrievalSettings = await retrievalProfileService.setActiveProfile(profileCollection.id, profileId);
+            this.updateState({ retrievalSettings });
+        } catch (err: any) {
+            this.deps.setError(err.message || 'Failed to activate retrieval profile.');
+        } finally {
+            this.updateState({ isSavingProfile: false });
+        }
+    }
 }
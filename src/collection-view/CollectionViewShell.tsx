@@ -7,7 +7,10 @@ import { CollectionForm } from './CollectionForm';
 import { CollectionsList } from './CollectionsList';
 import { CollectionViewModeToggle } from './CollectionViewModeToggle';
 import { NoCollections } from './NoCollections';
+import { RetrievalProfilesPanel } from './RetrievalProfilesPanel';
 import { Collection, CollectionFeatureState, CollectionViewType } from './collectionViewTypes';
+import { RetrievalProfileService } from '../domain/retrieval';
+import type { Services } from '../types';
 
 // Props received from the parent PluginShell
 interface CollectionsViewProps {
@@ -17,6 +20,7 @@ interface CollectionsViewProps {
     onCollectionCreate: () => Promise<void>; // Refreshes collection list in parent
     setError: (error: string | null) => void;
     dataRepository: any; // Using 'any' as a placeholder for the DataRepository instance
+    services?: Services; // Settings service backs per-collection retrieval profiles
 }
 
 // Initial state for the local Service
@@ -25,6 +29,10 @@ const initialState: CollectionFeatureState = {
     newCollection: { name: '', description: '', color: '#3B82F6' },
     isCreating: false,
     currentViewMode: CollectionViewType.LIST,
+    profileCollection: null,
+    retrievalSettings: null,
+    profileDraft: null,
+    isSavingProfile: false,
 };
 
 // State interface for this component (reflects the state managed by the local Service)
@@ -33,6 +41,7 @@ interface ComponentState extends CollectionFeatureState {}
 
 export class CollectionViewShell extends React.Component<CollectionsViewProps, ComponentState> {
     private collectionService: CollectionService;
+    private retrievalProfileService: RetrievalProfileService | null = null;
 
     constructor(props: CollectionsViewProps) {
         super(props);
@@ -40,6 +49,10 @@ export class CollectionViewShell extends React.Component<CollectionsViewProps, C
         // Initialize local component state from the service's initial state
         this.state = initialState;
 
+        if (props.services?.settings) {
+            this.retrievalProfileService = new RetrievalProfileService({ settings: props.services.settings });
+        }
+
         // Initialize the local Service, injecting the necessary dependencies
         this.collectionService = new CollectionService(
             initialState, 
@@ -47,6 +60,7 @@ export class CollectionViewShell extends React.Component<CollectionsViewProps, C
                 dataRepository: props.dataRepository,
                 setError: props.setError,
                 onCollectionsUpdated: props.onCollectionCreate,
+                retrievalProfileService: this.retrievalProfileService,
             },
             (newState) => this.setState((prev) => ({ ...prev, ...newState }))
         );
@@ -71,6 +85,29 @@ export class CollectionViewShell extends React.Component<CollectionsViewProps, C
         );
     }
 
+    private renderRetrievalProfiles() {
+        const { profileCollection, retrievalSettings, profileDraft, isSavingProfile } = this.state;
+
+        if (!profileCollection || !retrievalSettings || !profileDraft || !this.retrievalProfileService) return null;
+
+        return (
+            <RetrievalProfilesPanel
+                collection={profileCollection}
+                profiles={this.retrievalProfileService.listProfiles(retrievalSettings)}
+                retrievalSettings={retrievalSettings}
+                profileDraft={profileDraft}
+                isSaving={isSavingProfile}
+                onSelectProfile={this.collectionService.handleSelectProfileDraft}
+                onNewProfile={this.collectionService.handleNewProfileDraft}
+                onDraftChange={this.collectionService.handleProfileDraftChange}
+                onSaveProfile={this.collectionService.handleSaveProfile}
+                onDeleteProfile={this.collectionService.handleDeleteProfile}
+                onSetActiveProfile={this.collectionService.handleSetActiveProfile}
+                onClose={this.collectionService.handleCloseRetrievalProfiles}
+            />
+        );
+    }
+
     render() {
         const { collections, onCollectionSelect } = this.props;
         const { currentViewMode } = this.state;
@@ -107,6 +144,9 @@ export class CollectionViewShell extends React.Component<CollectionsViewProps, C
                 {/* Render the Form */}
                 {this.renderCreateForm()}
 
+                {/* Render the Retrieval Profile Editor */}
+                {this.renderRetrievalProfiles()}
+
                 {/* Collections Section */}
                 {collections.length === 0 ? (
                     <NoCollections />
@@ -114,6 +154,7 @@ export class CollectionViewShell extends React.Component<CollectionsViewProps, C
                     <CollectionsList 
                         collections={collections} 
                         onCollectionSelect={onCollectionSelect} 
+                        onCollectionSettings={this.retrievalProfileService ? this.collectionService.handleOpenRetrievalProfiles : undefined}
                         viewMode={currentViewMode} 
                     />
                 )}
@@ -1,11 +1,12 @@
 import React from "react";
-import { ChevronRight } from 'lucide-react';
+import { ChevronRight, SlidersHorizontal } from 'lucide-react';
 import { type Collection, CollectionViewType } from './collectionViewTypes';
 import { formatDate } from "../utils";
 
 interface ComponentProps {
     collections: Collection[];
     onCollectionSelect: (collection: Collection) => void;
+    onCollectionSettings?: (collection: Collection) => void;
     viewMode: CollectionViewType;
     maxHeight?: string;
 }
@@ -13,9 +14,28 @@ interface ComponentProps {
 export const CollectionsList: React.FC<ComponentProps> = ({
     collections,
     onCollectionSelect,
+    onCollectionSettings,
     viewMode,
     maxHeight = "max-h-96"
 }) => {
+    const renderSettingsButton = (collection: Collection) => {
+        if (!onCollectionSettings) return null;
+
+        return (
+            <button
+                onClick={(e) => {
+                    e.stopPropagation();
+                    onCollectionSettings(collection);
+                }}
+                className="p-1 rounded collection-item-meta hover:opacity-80"
+                title="Retrieval profiles"
+                aria-label={`Retrieval profiles for ${collection.name}`}
+            >
+                <SlidersHorizontal className="h-4 w-4" />
+            </button>
+        );
+    };
+
     const renderListItem = (collection: Collection) => {
         const collectionIndicatorStyle = {
             backgroundColor: collection.color
@@ -49,6 +69,7 @@ export const CollectionsList: React.FC<ComponentProps> = ({
                             <span className="text-xs collection-item-meta">
                                 {formatDate(collection.created_at)}
                             </span>
+                            {renderSettingsButton(collection)}
                             <ChevronRight className="h-4 w-4 collection-item-meta transition-colors" />
                         </div>
                     </div>
@@ -86,7 +107,10 @@ export const CollectionsList: React.FC<ComponentProps> = ({
                         <span className="font-medium collection-item-title">
                             {collection.document_count || 0} documents
                         </span>
-                        <span className="collection-item-meta">{formatDate(collection.created_at)}</span>
+                        <span className="flex items-center space-x-2">
+                            <span className="collection-item-meta">{formatDate(collection.created_at)}</span>
+                            {renderSettingsButton(collection)}
+                        </span>
                     </div>
                 </div>
             </div>
@@ -0,0 +1,257 @@
+import React from 'react';
+import { Check, Plus, Trash2, X } from 'lucide-react';
+
+import type { Collection } from './collectionViewTypes';
+import type { CollectionRetrievalSettings, RetrievalProfile } from '../domain/retrieval';
+import type { RAGSearchConfig } from '../infrastructure/repositories';
+
+interface RetrievalProfilesPanelProps {
+    collection: Collection;
+    profiles: RetrievalProfile[];
+    retrievalSettings: CollectionRetrievalSettings;
+    profileDraft: RetrievalProfile;
+    isSaving: boolean;
+    onSelectProfile: (profileId: string) => void;
+    onNewProfile: () => void;
+    onDraftChange: (patch: Partial<RetrievalProfile>, configPatch?: Partial<RAGSearchConfig>) => void;
+    onSaveProfile: () => Promise<void>;
+    onDeleteProfile: (profileId: string) => Promise<void>;
+    onSetActiveProfile: (profileId: string) => Promise<void>;
+    onClose: () => void;
+}
+
+const toNumber = (value: string): number => parseFloat(value);
+
+export const RetrievalProfilesPanel: React.FC<RetrievalProfilesPanelProps> = ({
+    collection,
+    profiles,
+    retrievalSettings,
+    profileDraft,
+    isSaving,
+    onSelectProfile,
+    onNewProfile,
+    onDraftChange,
+    onSaveProfile,
+    onDeleteProfile,
+    onSetActiveProfile,
+    onClose,
+}) => {
+    const { config } = profileDraft;
+    const isExisting = Boolean(profileDraft.id);
+    const isActive = isExisting && retrievalSettings.activeProfileId === profileDraft.id;
+    const canSave = profileDraft.name?.trim().length > 0 && !isSaving;
+
+    return (
+        <div className="collection-form-container rounded-lg shadow-sm border p-6 mb-6">
+            <div className="flex justify-between items-start mb-4">
+                <div>
+                    <h3 className="collection-form-title text-lg font-medium">Retrieval profiles</h3>
+                    <p className="text-sm collection-item-description">{collection.name}</p>
+                </div>
+                <button
+                    onClick={onClose}
+                    className="collection-form-button-cancel p-2 rounded-lg"
+                    aria-label="Close retrieval profiles"
+                >
+                    <X className="h-4 w-4" />
+                </button>
+            </div>
+
+            <div className="flex flex-col md:flex-row gap-6">
+                {/* Profile list */}
+                <ul className="md:w-1/3 space-y-1">
+                    {profiles.map((profile) => (
+                        <li key={profile.id}>
+                            <button
+                                onClick={() => onSelectProfile(profile.id)}
+                                className={`w-full text-left px-3 py-2 rounded-lg border text-sm ${profile.id === profileDraft.id ? 'cv-toggle-btn--active' : ''}`}
+                            >
+                                <span className="flex items-center justify-between">
+                                    <span className="collection-item-title">{profile.name}</span>
+                                    {retrievalSettings.activeProfileId === profile.id && (
+                                        <span className="text-xs collection-item-meta flex items-center">
+                                            <Check className="h-3 w-3 mr-1" /> Active
+                                        </span>
+                                    )}
+                                </span>
+                                {profile.description && (
+                                    <span className="block text-xs collection-item-description">{profile.description}</span>
+                                )}
+                            </button>
+                        </li>
+                    ))}
+                    <li>
+                        <button
+                            onClick={onNewProfile}
+                            className="collection-form-button-cancel w-full px-3 py-2 rounded-lg text-sm flex items-center"
+                            disabled={isSaving}
+                        >
+                            <Plus className="h-4 w-4 mr-2" /> New profile
+                        </button>
+                    </li>
+                </ul>
+
+                {/* Profile editor */}
+                <div className="md:w-2/3 space-y-4">
+                    {profileDraft.builtIn && (
+                        <p className="text-xs collection-item-meta">
+                            Built-in profile. Saving changes creates a custom copy.
+                        </p>
+                    )}
+                    <div>
+                        <label className="collection-form-label block text-sm font-medium mb-1">Name</label>
+                        <input
+                            type="text"
+                            value={profileDraft.name}
+                            onChange={(e) => onDraftChange({ name: e.target.value })}
+                            className="collection-form-input w-full px-3 py-2 border rounded-lg"
+                            placeholder="e.g. Legal PDFs"
+                            disabled={isSaving}
+                        />
+                    </div>
+                    <div>
+                        <label className="collection-form-label block text-sm font-medium mb-1">Description</label>
+                        <input
+                            type="text"
+                            value={profileDraft.description || ''}
+                            onChange={(e) => onDraftChange({ description: e.target.value })}
+                            className="collection-form-input w-full px-3 py-2 border rounded-lg"
+                            disabled={isSaving}
+                        />
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="collection-form-label block text-sm font-medium mb-1">Excerpts (top_k)</label>
+                            <input
+                                type="number"
+                                min={1}
+                                max={50}
+                                value={config.top_k ?? ''}
+                                onChange={(e) => onDraftChange({}, { top_k: toNumber(e.target.value) })}
+                                className="collection-form-input w-full px-3 py-2 border rounded-lg"
+                                disabled={isSaving}
+                            />
+                        </div>
+                        <div>
+                            <label className="collection-form-label block text-sm font-medium mb-1">Min similarity</label>
+                            <input
+                                type="number"
+                                min={0}
+                                max={1}
+                                step={0.05}
+                                value={config.filters?.min_similarity ?? ''}
+                                onChange={(e) => onDraftChange({}, {
+                                    filters: { ...config.filters, min_similarity: toNumber(e.target.value) },
+                                })}
+                                className="collection-form-input w-full px-3 py-2 border rounded-lg"
+                                disabled={isSaving}
+                            />
+                        </div>
+                        <div>
+                            <label className="collection-form-label block text-sm font-medium mb-1">
+                                Semantic weight (alpha): {(config.alpha ?? 0).toFixed(2)}
+                            </label>
+                            <input
+                                type="range"
+                                min={0}
+                                max={1}
+                                step={0.05}
+                                value={config.alpha ?? 0.5}
+                                onChange={(e) => onDraftChange({}, { alpha: toNumber(e.target.value) })}
+                                className="w-full"
+                                disabled={isSaving || config.use_hybrid === false}
+                            />
+                            <p className="text-xs collection-item-meta">0 = keyword (BM25) only, 1 = semantic only</p>
+                        </div>
+                        <div>
+                            <label className="collection-form-label block text-sm font-medium mb-1">History turns</label>
+                            <input
+                                type="number"
+                                min={0}
+                                max={10}
+                                value={config.max_history_turns ?? ''}
+                                onChange={(e) => onDraftChange({}, { max_history_turns: toNumber(e.target.value) })}
+                                className="collection-form-input w-full px-3 py-2 border rounded-lg"
+                                disabled={isSaving || config.use_chat_history === false}
+                            />
+                        </div>
+                    </div>
+                    <div className="flex flex-wrap gap-4 text-sm collection-form-label">
+                        <label className="flex items-center">
+                            <input
+                                type="checkbox"
+                                className="mr-2"
+                                checked={config.use_hybrid !== false}
+                                onChange={(e) => onDraftChange({}, { use_hybrid: e.target.checked })}
+                                disabled={isSaving}
+                            />
+                            Hybrid search
+                        </label>
+                        <label className="flex items-center">
+                            <input
+                                type="checkbox"
+                                className="mr-2"
+                                checked={config.use_chat_history !== false}
+                                onChange={(e) => onDraftChange({}, { use_chat_history: e.target.checked })}
+                                disabled={isSaving}
+                            />
+                            Use chat history
+                        </label>
+                        <label className="flex items-center">
+                            <input
+                                type="checkbox"
+                                className="mr-2"
+                                checked={config.use_intent_classification !== false}
+                                onChange={(e) => onDraftChange({}, { use_intent_classification: e.target.checked })}
+                                disabled={isSaving}
+                            />
+                            Intent classification
+                        </label>
+                        <label className="flex items-center">
+                            <input
+                                type="checkbox"
+                                className="mr-2"
+                                checked={config.query_transformation?.enabled !== false}
+                                onChange={(e) => onDraftChange({}, {
+                                    query_transformation: { ...config.query_transformation, enabled: e.target.checked },
+                                })}
+                                disabled={isSaving}
+                            />
+                            Query transformation
+                        </label>
+                    </div>
+
+                    {/* Actions */}
+                    <div className="flex space-x-3">
+                        <button
+                            onClick={onSaveProfile}
+                            disabled={!canSave}
+                            className="text-white px-4 py-2 rounded-lg transition-colors disabled:opacity-50"
+                            style={{ backgroundColor: 'var(--button-primary-bg)' }}
+                        >
+                            {profileDraft.builtIn ? 'Save as copy' : 'Save profile'}
+                        </button>
+                        {isExisting && !isActive && (
+                            <button
+                                onClick={() => onSetActiveProfile(profileDraft.id)}
+                                className="collection-form-button-cancel px-4 py-2 rounded-lg transition-colors"
+                                disabled={isSaving}
+                            >
+                                Use for this collection
+                            </button>
+                        )}
+                        {isExisting && !profileDraft.builtIn && (
+                            <button
+                                onClick={() => onDeleteProfile(profileDraft.id)}
+                                className="collection-form-button-cancel px-4 py-2 rounded-lg transition-colors flex items-center"
+                                disabled={isSaving}
+                            >
+                                <Trash2 className="h-4 w-4 mr-2" /> Delete
+                            </button>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
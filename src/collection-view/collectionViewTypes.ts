@@ -1,4 +1,5 @@
 import type { Collection as GlobalCollection } from '../braindrive-plugin/pluginTypes';
+import type { CollectionRetrievalSettings, RetrievalProfile } from '../domain/retrieval';
 
 // Use the Global type for the main data model
 export type Collection = GlobalCollection;
@@ -9,6 +10,11 @@ export interface CollectionFeatureState {
     newCollection: CreateCollectionForm;
     isCreating: boolean;
     currentViewMode: CollectionViewType;
+    // Retrieval profile editor
+    profileCollection: Collection | null;
+    retrievalSettings: CollectionRetrievalSettings | null;
+    profileDraft: RetrievalProfile | null;
+    isSavingProfile: boolean;
 }
 
 // Data Models (moved from existing)
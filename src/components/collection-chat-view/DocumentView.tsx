@@ -11,7 +11,6 @@
 // import { ChatSessions } from './ChatSessions';
 // import { ChatView } from '../chat-view/ChatView';
 // import { DocumentList } from './DocumentList';
-// import { stopAllPolling, pollDocumentStatus, stopPollingDocument } from '../../services/documentPolling';
 // import { validateFile, showToast, createPlaceholderDocument } from '../../helpers';
 
 
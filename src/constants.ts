@@ -31,6 +31,14 @@ export const DEFAULT_PLUGIN_SETTINGS = {
 // Settings and storage keys
 export const SETTINGS_KEYS = {
   STREAMING: 'ai_prompt_chat_streaming_enabled',
+  RETRIEVAL_PROFILES: 'chat_with_docs_retrieval_profiles',
+  PINNED_CONTEXT: 'chat_with_docs_pinned_context',
+  MESSAGE_PROVENANCE: 'chat_with_docs_message_provenance',
+  CONVERSATION_BRANCHES: 'chat_with_docs_conversation_branches',
+  CONVERSATION_ORGANIZATION: 'chat_with_docs_conversation_organization',
+  OLLAMA_CONTEXT_WINDOW: 'chat_with_docs_ollama_context_window',
+  EVALUATION_QUESTION_SETS: 'chat_with_docs_evaluation_question_sets',
+  EVALUATION_JUDGE_REVIEWS: 'chat_with_docs_evaluation_judge_reviews',
 } as const;
 
 // UI Configuration
@@ -7,12 +7,18 @@ import { NoDocuments } from './NoDocuments';
 interface ComponentProps {
     documents: Document[];
     onDocumentDelete: (docId: string, docFileName: string) => void;
+    onDocumentOpen?: (docId: string, docFileName: string) => void;
+    pinnedDocumentIds?: string[];
+    onDocumentPinToggle?: (document: Document) => void;
 	maxHeight?: string;
 }
 
 export const DocumentList: React.FC<ComponentProps> = ({
     documents,
     onDocumentDelete,
+    onDocumentOpen,
+    pinnedDocumentIds,
+    onDocumentPinToggle,
 	maxHeight = "max-h-96"
 }) => {
     return (
@@ -22,7 +28,14 @@ export const DocumentList: React.FC<ComponentProps> = ({
             ) : (
               <div className={`dlist-scroll ${maxHeight} space-y-3`}>
                 {documents.map((doc) => (
-                  <DocumentListItem key={doc.id} document={doc} onDocumentDelete={onDocumentDelete} />
+                  <DocumentListItem
+                    key={doc.id}
+                    document={doc}
+                    onDocumentDelete={onDocumentDelete}
+                    onDocumentOpen={onDocumentOpen}
+                    isPinned={pinnedDocumentIds ? pinnedDocumentIds.indexOf(doc.id) !== -1 : false}
+                    onDocumentPinToggle={onDocumentPinToggle}
+                  />
                 ))}
               </div>
             )}
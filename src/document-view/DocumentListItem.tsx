@@ -5,7 +5,9 @@ import {
     AlertCircle,
     CheckCircle,
     Clock,
-    Download
+    Download,
+    BookOpen,
+    Pin
 } from 'lucide-react';
 import { formatDate } from "../utils";
 import { DocumentStatus, type Document } from '../braindrive-plugin/pluginTypes';
@@ -13,9 +15,12 @@ import { DocumentStatus, type Document } from '../braindrive-plugin/pluginTypes'
 interface ComponentProps {
     document: Document;
     onDocumentDelete: (docId: string, docFileName: string) => void;
+    onDocumentOpen?: (docId: string, docFileName: string) => void;
+    isPinned?: boolean;
+    onDocumentPinToggle?: (document: Document) => void;
 }
 
-export const DocumentListItem: React.FC<ComponentProps> = ({document, onDocumentDelete}) => {
+export const DocumentListItem: React.FC<ComponentProps> = ({document, onDocumentDelete, onDocumentOpen, isPinned, onDocumentPinToggle}) => {
     const getStatusColor = (status: DocumentStatus) => {
         switch (status) {
             case DocumentStatus.PROCESSED:
@@ -54,6 +59,7 @@ export const DocumentListItem: React.FC<ComponentProps> = ({document, onDocument
     const statusColor = getStatusColor(document.status);
     const fileIcon = getFileIcon(document.document_type);
     const fileSize = formatFileSize(document.file_size);
+    const relativePath = (document.metadata as { relative_path?: string } | undefined)?.relative_path;
     const processedDate = document.processed_at ? formatDate(document.processed_at) : 'Processing...';
     
     // Return JSX elements instead of HTML strings
@@ -110,9 +116,12 @@ export const DocumentListItem: React.FC<ComponentProps> = ({document, onDocument
                         <i data-lucide={fileIcon} className="h-8 w-8 text-gray-400"></i>
                     </div>
                     <div className="flex-1 min-w-0">
-                        <h5 className="ditem-title truncate">
+                        <h5 className="ditem-title truncate" title={relativePath}>
                             {document.original_filename}
                         </h5>
+                        {relativePath && relativePath !== document.original_filename && (
+                            <div className="ditem-path truncate">{relativePath}</div>
+                        )}
                         <div className="ditem-meta">
                             <span>{fileSize}</span>
                             <span>{document.document_type.toUpperCase()}</span>
@@ -129,6 +138,27 @@ export const DocumentListItem: React.FC<ComponentProps> = ({document, onDocument
                 <div className="flex items-center space-x-2">
                     {getStatusElement()}
                     <div className="flex space-x-1">
+                        {onDocumentOpen && document.status === DocumentStatus.PROCESSED && (
+                            <button
+                                onClick={() => onDocumentOpen(document.id, document.original_filename)}
+                                className="ditem-action-btn"
+                                title={`Read ${document.original_filename}`}
+                            >
+                                <BookOpen className="h-4 w-4" />
+                            </button>
+                        )}
+                        {onDocumentPinToggle && document.status === DocumentStatus.PROCESSED && (
+                            <button
+                                onClick={() => onDocumentPinToggle(document)}
+                                className={`ditem-action-btn ${isPinned ? 'active' : ''}`}
+                                title={isPinned
+                                    ? `Unpin ${document.original_filename} from this conversation`
+                                    : `Pin ${document.original_filename} to this conversation`}
+                                aria-pressed={isPinned}
+                            >
+                                <Pin className="h-4 w-4" />
+                            </button>
+                        )}
                         <button
                             className="ditem-action-btn" 
                             title={`Download ${document.original_filename}`}
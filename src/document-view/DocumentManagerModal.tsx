@@ -1,26 +1,43 @@
-import React, { ChangeEvent } from 'react';
-import { Upload, Loader2, X } from 'lucide-react';
+import React, { ChangeEvent, DragEvent } from 'react';
+import { Upload, FolderUp, Loader2, X } from 'lucide-react';
 
 import { 
     DocumentManagerModalInjectedProps, 
     DocumentManagerModalState, 
+    DocumentServiceState,
     DocumentWithPlaceholder
 } from './DocumentsView.types'; 
 // Import components
 import { DocumentList } from './DocumentList';
+import { DocumentReaderPanel } from './DocumentReaderPanel';
+import { UploadQueuePanel } from './UploadQueuePanel';
+import { DocumentReaderService } from '../domain/documents';
 import { showToast } from '../helpers';
 import { DocumentService } from './DocumentService';
 import { allowedFileExtensions } from '../constants';
+import { ARCHIVE_EXTENSION } from '../domain/uploads';
+
+// Lets the folder input pick directories; the attribute is not in React's typings
+const FOLDER_INPUT_PROPS = { webkitdirectory: '', directory: '' } as React.InputHTMLAttributes<HTMLInputElement>;
 
 export class DocumentManagerModal extends React.Component<DocumentManagerModalInjectedProps, DocumentManagerModalState> {
     // service instance
     private documentService: DocumentService;
+    private readerService: DocumentReaderService;
     fileInputRef: React.RefObject<HTMLInputElement>;
+    folderInputRef: React.RefObject<HTMLInputElement>;
     private unsubscribeService?: () => void;
+    private reportedUploadSummary: DocumentServiceState['uploadQueue']['summary'] = null;
 
     constructor(props: DocumentManagerModalInjectedProps) {
         super(props);
-        this.documentService = new DocumentService(props.apiService);
+        this.documentService = new DocumentService(
+            props.apiService,
+            props.dataRepository.getDocumentRepository()
+        );
+        this.readerService = new DocumentReaderService({
+            documentRepository: props.dataRepository.getDocumentRepository(),
+        });
         const initialState = this.documentService.getState();
         
         // Local state is minimal, holding UI state (showModal) and a copy of relevant service state for rendering
@@ -28,9 +45,14 @@ export class DocumentManagerModal extends React.Component<DocumentManagerModalIn
             showModal: false,
             documents: initialState.documents,
             uploading: initialState.uploading,
+            uploadQueue: initialState.uploadQueue,
+            isDragOver: false,
+            preservePaths: true,
             selectedSession: initialState.selectedSession,
+            readerTarget: null,
         };
         this.fileInputRef = React.createRef();
+        this.folderInputRef = React.createRef();
     }
 
     /**
@@ -43,7 +65,7 @@ export class DocumentManagerModal extends React.Component<DocumentManagerModalIn
         try {
             // NOTE: You must implement this method in your DocumentService.ts
             const documents = await this.props.dataRepository.getDocuments(collectionId);
-            this.setState({documents: documents});
+            this.documentService.updateState({ documents });
         } catch (error) {
             // Error is handled via subscription, but this catch ensures the promise chain is complete.
             console.error("Failed to load data for collection:", error);
@@ -62,10 +84,17 @@ export class DocumentManagerModal extends React.Component<DocumentManagerModalIn
 
         // Subscribe to state changes from the service
         this.unsubscribeService = this.documentService.subscribe(serviceState => {
+            const finishedBatch = serviceState.uploadQueue.summary;
+            if (finishedBatch && finishedBatch !== this.reportedUploadSummary) {
+                this.reportedUploadSummary = finishedBatch;
+                this.handleUploadsFinished();
+            }
+
             // Map service state to component state
             this.setState({
                 documents: serviceState.documents,
                 uploading: serviceState.uploading,
+                uploadQueue: serviceState.uploadQueue,
                 selectedSession: serviceState.selectedSession,
             });
             
@@ -86,7 +115,7 @@ export class DocumentManagerModal extends React.Component<DocumentManagerModalIn
         if (prevProps.collectionId !== this.props.collectionId) {
             this.loadDataForCollection(this.props.collectionId);
             // Optionally close the modal if the collection changes
-            this.setState({ showModal: false });
+            this.setState({ showModal: false, readerTarget: null });
         }
     }
 
@@ -100,24 +129,72 @@ export class DocumentManagerModal extends React.Component<DocumentManagerModalIn
     // --- Handlers (Delegate to Service) ---
 
     handleFileSelect = (e: ChangeEvent<HTMLInputElement>) => {
-        const file = e.target.files?.[0];
-        if (!file) return;
+        const files = Array.from(e.target.files || []);
+        if (files.length === 0) return;
 
-        // Delegate entire upload logic to the service
-        this.documentService.uploadFile(file, this.props.collectionId)
-            .then(() => {
-                 this.props.onDocumentListChange(); // Notify parent on success/completion
-            });
+        // Delegate archive expansion, queueing, retries and status polling to the service
+        this.documentService.uploadFiles(files, this.props.collectionId, this.state.preservePaths);
 
         e.target.value = ''; // Reset file input
     }
+
+    handleDragOver = (e: DragEvent<HTMLDivElement>) => {
+        if (e.dataTransfer.types.indexOf('Files') === -1) return;
+        e.preventDefault();
+        if (!this.state.isDragOver) {
+            this.setState({ isDragOver: true });
+        }
+    }
+
+    handleDragLeave = (e: DragEvent<HTMLDivElement>) => {
+        if (e.currentTarget.contains(e.relatedTarget as Node)) return;
+        this.setState({ isDragOver: false });
+    }
+
+    handleDrop = (e: DragEvent<HTMLDivElement>) => {
+        e.preventDefault();
+        this.setState({ isDragOver: false });
+
+        // Folder entries are only readable during the drop event, so hand the DataTransfer over now
+        this.documentService.uploadDropped(e.dataTransfer, this.props.collectionId, this.state.preservePaths);
+    }
+
+    togglePreservePaths = () => {
+        this.setState((s) => ({ preservePaths: !s.preservePaths }));
+    }
+
+    /**
+     * Report the finished batch and let the parent refresh its document list
+     */
+    handleUploadsFinished = () => {
+        const summary = this.documentService.getState().uploadQueue.summary;
+        if (!summary) return;
+
+        const problems = summary.failed + summary.skipped;
+        showToast(
+            problems > 0
+                ? `Uploaded ${summary.completed} of ${summary.total} files; ${problems} could not be added`
+                : `Uploaded ${summary.completed} file${summary.completed === 1 ? '' : 's'}`,
+            problems > 0 ? 'error' : 'success'
+        );
+        this.props.onDocumentListChange();
+    }
     
     handleDocumentDelete = (id: string, name: string) => {
         this.documentService.deleteDocument(id, name)
             .then(() => {
+                 this.readerService.clearCache(id);
                  this.props.onDocumentListChange(); // Notify parent on success
             });
     }
+
+    handleDocumentOpen = (id: string, name: string) => {
+        this.setState({ readerTarget: { documentId: id, documentName: name } });
+    }
+
+    handleReaderClose = () => {
+        this.setState({ readerTarget: null });
+    }
     
     // --- UI State Management (Kept in component) ---
 
@@ -129,7 +206,11 @@ export class DocumentManagerModal extends React.Component<DocumentManagerModalIn
         const {
             documents,
             uploading,
+            uploadQueue,
+            isDragOver,
+            preservePaths,
             showModal,
+            readerTarget,
         } = this.state;
 
         return (
@@ -157,38 +238,89 @@ export class DocumentManagerModal extends React.Component<DocumentManagerModalIn
                                     </button>
                                 </div>
 
-                                <div className="dmm-body">
+                                <div
+                                    className={`dmm-body${isDragOver ? ' dmm-body-dragover' : ''}`}
+                                    onDragOver={this.handleDragOver}
+                                    onDragLeave={this.handleDragLeave}
+                                    onDrop={this.handleDrop}
+                                >
                                     <div className="flex justify-between items-center mb-4">
                                         <h4 className="text-md font-medium">Documents</h4>
-                                        <div>
+                                        <div className="dmm-upload-actions">
+                                            <label className="dmm-option" title="Store each file's folder or archive path with the document">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={preservePaths}
+                                                    onChange={this.togglePreservePaths}
+                                                />
+                                                Keep folder paths
+                                            </label>
                                             <input
                                                 type="file"
                                                 ref={this.fileInputRef}
                                                 onChange={this.handleFileSelect}
-                                                accept={allowedFileExtensions.join(',')}
+                                                multiple
+                                                accept={[...allowedFileExtensions, ARCHIVE_EXTENSION].join(',')}
+                                                className="hidden"
+                                            />
+                                            <input
+                                                type="file"
+                                                ref={this.folderInputRef}
+                                                onChange={this.handleFileSelect}
+                                                {...FOLDER_INPUT_PROPS}
                                                 className="hidden"
                                             />
+                                            <button
+                                                onClick={() => this.folderInputRef.current?.click()}
+                                                className="dmm-upload-btn"
+                                            >
+                                                <FolderUp className="h-4 w-4 mr-2" />
+                                                Upload Folder
+                                            </button>
                                             <button
                                                 onClick={() => this.fileInputRef.current?.click()}
-                                                disabled={uploading}
                                                 className="dmm-upload-btn"
                                             >
                                                 {uploading
                                                     ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
                                                     : <Upload className="h-4 w-4 mr-2" />
                                                 }
-                                                {uploading ? 'Uploading…' : 'Upload Document'}
+                                                {uploading ? 'Add more files' : 'Upload Documents'}
                                             </button>
                                         </div>
                                     </div>
+                                    {isDragOver && (
+                                        <div className="dmm-drop-hint">Drop files, folders or .zip archives to upload</div>
+                                    )}
+                                    <UploadQueuePanel
+                                        queue={uploadQueue}
+                                        onPause={this.documentService.pauseUploads}
+                                        onResume={this.documentService.resumeUploads}
+                                        onCancel={this.documentService.cancelUpload}
+                                        onCancelAll={this.documentService.cancelAllUploads}
+                                        onRetry={this.documentService.retryUpload}
+                                        onRetryFailed={this.documentService.retryFailedUploads}
+                                        onClearFinished={this.documentService.clearFinishedUploads}
+                                    />
                                     <DocumentList
                                         documents={documents}
                                         onDocumentDelete={this.handleDocumentDelete}
+                                        onDocumentOpen={this.handleDocumentOpen}
+                                        pinnedDocumentIds={this.props.pinnedDocumentIds}
+                                        onDocumentPinToggle={this.props.onDocumentPinToggle}
                                     />
                                 </div>
                             </div>
                         </div>
                     )}
+
+                    {readerTarget && (
+                        <DocumentReaderPanel
+                            readerService={this.readerService}
+                            target={readerTarget}
+                            onClose={this.handleReaderClose}
+                        />
+                    )}
                 </div>
             </div>
         );
@@ -0,0 +1,199 @@
+import React from 'react';
+import { ChevronLeft, ChevronRight, Loader2, X } from 'lucide-react';
+
+import type { DocumentChunk } from '../braindrive-plugin/pluginTypes';
+import { DocumentReaderService, type DocumentReaderTarget } from '../domain/documents';
+
+interface DocumentReaderPanelProps {
+    readerService: DocumentReaderService;
+    target: DocumentReaderTarget;
+    onClose: () => void;
+}
+
+interface DocumentReaderPanelState {
+    chunks: DocumentChunk[];
+    selectedIndex: number;
+    isLoading: boolean;
+    error: string | null;
+}
+
+/**
+ * Reads a document chunk by chunk, scrolled to and highlighting the selected chunk
+ */
+export class DocumentReaderPanel extends React.Component<DocumentReaderPanelProps, DocumentReaderPanelState> {
+    private containerRef = React.createRef<HTMLDivElement>();
+    private bodyRef = React.createRef<HTMLDivElement>();
+
+    constructor(props: DocumentReaderPanelProps) {
+        super(props);
+        this.state = {
+            chunks: [],
+            selectedIndex: 0,
+            isLoading: true,
+            error: null,
+        };
+    }
+
+    componentDidMount() {
+        // Focus the panel so keyboard navigation works without a click first
+        this.containerRef.current?.focus();
+        this.loadDocument();
+    }
+
+    componentDidUpdate(prevProps: DocumentReaderPanelProps, prevState: DocumentReaderPanelState) {
+        const { target } = this.props;
+        if (
+            prevProps.target.documentId !== target.documentId ||
+            prevProps.target.chunkId !== target.chunkId ||
+            prevProps.target.chunkIndex !== target.chunkIndex
+        ) {
+            this.loadDocument();
+            return;
+        }
+
+        if (prevState.selectedIndex !== this.state.selectedIndex || prevState.chunks !== this.state.chunks) {
+            this.scrollToSelected();
+        }
+    }
+
+    private loadDocument = async () => {
+        const { readerService, target } = this.props;
+        this.setState({ isLoading: true, error: null });
+
+        try {
+            const chunks = await readerService.loadChunks(target.documentId);
+            this.setState({
+                chunks,
+                selectedIndex: DocumentReaderService.findChunkPosition(chunks, target),
+                isLoading: false,
+            });
+        } catch (error) {
+            console.error('Failed to load document chunks:', error);
+            this.setState({
+                chunks: [],
+                isLoading: false,
+                error: 'Could not load this document. Please try again.',
+            });
+        }
+    };
+
+    private scrollToSelected = () => {
+        const element = this.bodyRef.current?.querySelector(
+            `[data-reader-index="${this.state.selectedIndex}"]`
+        ) as HTMLElement | null;
+        element?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    };
+
+    private selectChunk = (index: number) => {
+        const { chunks } = this.state;
+        if (index < 0 || index >= chunks.length) return;
+        this.setState({ selectedIndex: index });
+    };
+
+    private handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+        if (event.key === 'Escape') {
+            this.props.onClose();
+        } else if (event.key === 'ArrowLeft') {
+            this.selectChunk(this.state.selectedIndex - 1);
+        } else if (event.key === 'ArrowRight') {
+            this.selectChunk(this.state.selectedIndex + 1);
+        }
+    };
+
+    private getDocumentName(): string {
+        const { target } = this.props;
+        return target.documentName
+            || this.state.chunks[0]?.metadata?.document_filename
+            || 'Document';
+    }
+
+    private renderSelectedRange() {
+        const chunk = this.state.chunks[this.state.selectedIndex];
+        if (!chunk) return null;
+
+        const range = DocumentReaderService.getChunkRange(chunk);
+        return (
+            <span className="doc-reader-position">
+                Chunk #{chunk.chunk_index}
+                {range && ` · chars ${range.start.toLocaleString()}–${range.end.toLocaleString()}`}
+            </span>
+        );
+    }
+
+    private renderBody() {
+        const { chunks, selectedIndex, isLoading, error } = this.state;
+
+        if (isLoading) {
+            return (
+                <div className="doc-reader-status">
+                    <Loader2 className="h-5 w-5 mr-2 animate-spin" /> Loading document…
+                </div>
+            );
+        }
+
+        if (error) {
+            return <div className="doc-reader-status doc-reader-error">{error}</div>;
+        }
+
+        if (chunks.length === 0) {
+            return <div className="doc-reader-status">No chunks found for this document.</div>;
+        }
+
+        return chunks.map((chunk, index) => (
+            <div
+                key={chunk.id || index}
+                data-reader-index={index}
+                className={`doc-reader-chunk ${index === selectedIndex ? 'doc-reader-chunk-selected' : ''}`}
+                onClick={() => this.selectChunk(index)}
+            >
+                {DocumentReaderService.getVisibleText(chunk, chunks[index - 1])}
+            </div>
+        ));
+    }
+
+    render() {
+        const { onClose } = this.props;
+        const { chunks, selectedIndex, isLoading } = this.state;
+        const hasChunks = !isLoading && chunks.length > 0;
+
+        return (
+            <div className="dmm-backdrop" ref={this.containerRef} onKeyDown={this.handleKeyDown} tabIndex={-1}>
+                <div className="dmm-modal doc-reader-modal relative z-50">
+                    <div className="dmm-modal-header">
+                        <div className="min-w-0">
+                            <h3 className="dmm-title truncate">{this.getDocumentName()}</h3>
+                            {hasChunks && this.renderSelectedRange()}
+                        </div>
+                        <div className="flex items-center space-x-2">
+                            <button
+                                onClick={() => this.selectChunk(selectedIndex - 1)}
+                                disabled={!hasChunks || selectedIndex === 0}
+                                className="doc-reader-nav-btn"
+                                title="Previous chunk"
+                            >
+                                <ChevronLeft className="h-4 w-4" />
+                            </button>
+                            <span className="doc-reader-counter">
+                                {hasChunks ? `${selectedIndex + 1} / ${chunks.length}` : '–'}
+                            </span>
+                            <button
+                                onClick={() => this.selectChunk(selectedIndex + 1)}
+                                disabled={!hasChunks || selectedIndex >= chunks.length - 1}
+                                className="doc-reader-nav-btn"
+                                title="Next chunk"
+                            >
+                                <ChevronRight className="h-4 w-4" />
+                            </button>
+                            <button onClick={onClose} className="dmm-close" aria-label="Close document reader">
+                                <X className="h-5 w-5" />
+                            </button>
+                        </div>
+                    </div>
+                    <div className="dmm-body doc-reader-body" ref={this.bodyRef}>
+                        {this.renderBody()}
+                    </div>
+                </div>
+            </div>
+        );
+    }
+}
@@ -5,9 +5,10 @@ import {
     DocumentManagerModalProps
 } from './DocumentsView.types'; 
 import { Document, ChatSession } from '../braindrive-plugin/pluginTypes'; 
-import { validateFile, showToast, createPlaceholderDocument } from '../helpers';
-import { stopAllPolling, pollDocumentStatus, stopPollingDocument } from '../services/documentPolling';
-import { CHAT_SERVICE_API_BASE } from '../constants';
+import { validateFile, showToast } from '../helpers';
+import { CHAT_SERVICE_API_BASE, allowedFileExtensions } from '../constants';
+import { UploadQueue, UploadQueueSnapshot, UploadSource, UploadSourceCollector } from '../domain/uploads';
+import type { DocumentRepository } from '../infrastructure/repositories';
 
 // Use the ApiService defined in types.ts
 type ApiService = DocumentManagerModalProps['apiService'];
@@ -17,12 +18,24 @@ export class DocumentService implements IDocumentService {
     private state: DocumentServiceState;
     private listeners: Set<(state: DocumentServiceState) => void> = new Set();
     private apiService: ApiService;
+    private uploadQueue: UploadQueue;
+    private sourceCollector = new UploadSourceCollector({ allowedExtensions: allowedFileExtensions });
+    private unsubscribeQueue: () => void;
+    // Deleted while still tracked by the queue; kept out of the list
+    private deletedDocumentIds = new Set<string>();
 
-    constructor(apiService: ApiService) {
+    constructor(apiService: ApiService, documentRepository: Pick<DocumentRepository, 'upload' | 'findByCollection'>) {
         this.apiService = apiService;
+        this.uploadQueue = new UploadQueue({
+            upload: (file, collectionId, options) => documentRepository.upload(file, collectionId, options),
+            listDocuments: collectionId => documentRepository.findByCollection(collectionId),
+            validate: validateFile,
+        });
+        this.unsubscribeQueue = this.uploadQueue.subscribe(this.handleQueueChange);
         this.state = {
             documents: [],
             uploading: false,
+            uploadQueue: this.uploadQueue.getSnapshot(),
             error: null,
             selectedSession: null,
             selectedCollection: null,
@@ -58,98 +71,24 @@ export class DocumentService implements IDocumentService {
     }
 
     public cleanup(): void {
-        stopAllPolling();
+        this.unsubscribeQueue();
+        this.uploadQueue.dispose();
         this.listeners.clear();
     }
 
     // --- Document Methods ---
 
-    public uploadFile = async (file: File, collectionId: string): Promise<void> => {
-        // ... (File validation logic is now here) ...
-        const validation = validateFile(file);
-        if (!validation.isValid) {
-            showToast(validation.error!, 'error');
-            return;
-        }
-
-        const placeholderDoc = createPlaceholderDocument(file, collectionId);
-        this.updateState({ documents: [placeholderDoc, ...this.state.documents], uploading: true });
-
-        const formData = new FormData();
-        formData.append('file', file);
-        formData.append('collection_id', collectionId);
-
-        try {
-            // Use injected apiService for POST
-            // const uploadedDocument = await this.apiService?.post<Document>(
-            //     `${CHAT_SERVICE_API_BASE}/documents/`, 
-            //     formData
-            // );
-
-            const response = await fetch(`${CHAT_SERVICE_API_BASE}/documents/`, {
-                method: 'POST',
-                body: formData,
-            });
-
-            if (!response.ok) {
-                throw new Error(`Upload failed: ${response.statusText}`);
-            }
-
-            const uploadedDocument: Document = await response.json();
-            
-            if (uploadedDocument) {
-                showToast(`Successfully uploaded "${file.name}"`, 'success');
-
-                // 1. Replace placeholder and update state
-                this.updateState({
-                    documents: this.state.documents.map(doc => 
-                        doc.id === placeholderDoc.id ? { ...uploadedDocument, isPlaceholder: false } as DocumentWithPlaceholder : doc
-                    )
-                });
-
-                // 2. Start polling and update state on status change
-                pollDocumentStatus(
-                    uploadedDocument.id,
-                    (updatedDoc) => {
-                        this.updateState({
-                            documents: this.state.documents.map(doc =>
-                                doc.id === uploadedDocument.id ? { ...updatedDoc, isPlaceholder: false } as DocumentWithPlaceholder : doc
-                            )
-                        });
-                    },
-                    {
-                        apiBase: CHAT_SERVICE_API_BASE,
-                        onComplete: (finalDoc) => this.updateState({ uploading: false }),
-                        onError: (error) => {
-                            showToast(`Error polling status: ${error}`, 'error');
-                            this.updateState({ documents: this.state.documents.filter(doc => doc.id !== uploadedDocument.id) });
-                        }
-                    }
-                );
-            }
-        } catch (err: any) {
-            const errorMessage = err.message || 'Failed to upload document';
-            showToast(errorMessage, 'error');
-            this.updateState({ 
-                error: errorMessage, 
-                documents: this.state.documents.filter(doc => doc.id !== placeholderDoc.id),
-                uploading: false
-            });
-        }
-    }
-
     public deleteDocument = async (documentId: string, documentName: string): Promise<void> => {
         if (!confirm(`Are you sure you want to delete "${documentName}"?`)) return;
 
         try {
-            stopPollingDocument(documentId);
-
             // Use injected apiService for DELETE
             await this.apiService?.delete(`${CHAT_SERVICE_API_BASE}/documents/${documentId}`);
 
             showToast(`Successfully deleted "${documentName}"`, 'success');
 
             // Remove from local state immediately
+            this.deletedDocumentIds.add(documentId);
             this.updateState({ documents: this.state.documents.filter(doc => doc.id !== documentId) });
         } catch (err: any) {
             const errorMessage = err.message || 'Failed to delete document';
@@ -157,4 +96,76 @@ export class DocumentService implements IDocumentService {
             this.updateState({ error: errorMessage });
         }
     }
+
+    // --- Upload Queue ---
+
+    /**
+     * Queue picked files; folder picks and zip archives are expanded first
+     */
+    public uploadFiles = async (files: File[], collectionId: string, preservePaths = true): Promise<void> => {
+        this.enqueueSources(await this.collectSources(() => this.sourceCollector.fromFiles(files)), collectionId, preservePaths);
+    }
+
+    /**
+     * Queue dropped files and folders. Must be called from the drop handler, before it returns.
+     */
+    public uploadDropped = async (dataTransfer: DataTransfer, collectionId: string, preservePaths = true): Promise<void> => {
+        this.enqueueSources(await this.collectSources(() => this.sourceCollector.fromDataTransfer(dataTransfer)), collectionId, preservePaths);
+    }
+
+    public pauseUploads = (): void => this.uploadQueue.pause();
+
+    public resumeUploads = (): void => this.uploadQueue.resume();
+
+    public cancelUpload = (id: string): void => this.uploadQueue.cancel(id);
+
+    public cancelAllUploads = (): void => this.uploadQueue.cancelAll();
+
+    public retryUpload = (id: string): void => this.uploadQueue.retry(id);
+
+    public retryFailedUploads = (): void => this.uploadQueue.retryFailed();
+
+    public clearFinishedUploads = (): void => this.uploadQueue.clearFinished();
+
+    private async collectSources(collect: () => Promise<UploadSource[]>): Promise<UploadSource[]> {
+        try {
+            return await collect();
+        } catch (err: any) {
+            this.updateState({ error: err.message || 'Failed to read the dropped files' });
+            return [];
+        }
+    }
+
+    private enqueueSources(sources: UploadSource[], collectionId: string, preservePaths: boolean): void {
+        if (sources.length === 0) return;
+        this.uploadQueue.enqueue(
+            preservePaths ? sources : sources.map(source => ({ ...source, relativePath: undefined })),
+            collectionId
+        );
+    }
+
+    /**
+     * Mirror the queue into service state: uploaded documents join the list and
+     * pick up their processing status as the queue polls it.
+     */
+    private handleQueueChange = (snapshot: UploadQueueSnapshot): void => {
+        let documents = this.state.documents;
+
+        snapshot.items.forEach(item => {
+            if (!item.document || this.deletedDocumentIds.has(item.document.id)) return;
+            const uploaded = { ...item.document, isPlaceholder: false } as DocumentWithPlaceholder;
+            const existing = documents.find(doc => doc.id === uploaded.id);
+            if (!existing) {
+                documents = [uploaded, ...documents];
+            } else if (existing.status !== uploaded.status) {
+                documents = documents.map(doc => (doc.id === uploaded.id ? uploaded : doc));
+            }
+        });
+
+        this.updateState({
+            documents,
+            uploadQueue: snapshot,
+            uploading: snapshot.items.some(item => UploadQueue.isActive(item)),
+        });
+    }
 }
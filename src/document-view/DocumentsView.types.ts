@@ -1,6 +1,8 @@
 import { DataRepository } from '../braindrive-plugin/DataRepository';
 import { Document, ChatSession, ChatMessage, Collection } from '../braindrive-plugin/pluginTypes'; 
 import { ApiService } from '../types';
+import type { DocumentReaderTarget } from '../domain/documents';
+import type { UploadQueueSnapshot } from '../domain/uploads';
 
 export interface DocumentWithPlaceholder extends Document {
     isPlaceholder?: boolean;
@@ -10,6 +12,7 @@ export interface DocumentWithPlaceholder extends Document {
 export interface DocumentServiceState {
     documents: DocumentWithPlaceholder[];
     uploading: boolean;
+    uploadQueue: UploadQueueSnapshot;
     error: string | null;
     selectedSession: ChatSession | null;
     selectedCollection: Collection | null;
@@ -20,7 +23,11 @@ export interface DocumentManagerModalState {
     showModal: boolean; // Unique to the component (controls visibility)
     documents: DocumentWithPlaceholder[]; // Mirrored from service for rendering
     uploading: boolean; // Mirrored from service for rendering
+    uploadQueue: UploadQueueSnapshot; // Mirrored from service for rendering
+    isDragOver: boolean; // Files are being dragged over the modal
+    preservePaths: boolean; // Store folder/archive paths as document metadata
     selectedSession: ChatSession | null; // Mirrored from service for rendering
+    readerTarget: DocumentReaderTarget | null; // Document open in the reader panel
 }
 
 // 3. Service Interface: The contract for the business logic layer
@@ -37,8 +44,18 @@ export interface IDocumentService {
     cleanup(): void;
 
     // Document methods
-    uploadFile(file: File, collectionId: string): Promise<void>;
     deleteDocument(documentId: string, documentName: string): Promise<void>;
+
+    // Upload queue methods
+    uploadFiles(files: File[], collectionId: string, preservePaths?: boolean): Promise<void>;
+    uploadDropped(dataTransfer: DataTransfer, collectionId: string, preservePaths?: boolean): Promise<void>;
+    pauseUploads(): void;
+    resumeUploads(): void;
+    cancelUpload(id: string): void;
+    cancelAllUploads(): void;
+    retryUpload(id: string): void;
+    retryFailedUploads(): void;
+    clearFinishedUploads(): void;
 }
 
 // 3. Component Props Definition
@@ -48,6 +65,9 @@ export interface DocumentManagerModalProps {
     dataRepository: DataRepository;
     // Callbacks to notify the parent/main PluginController that a global list changed
     onDocumentListChange: () => void;
+    // Documents pinned to the current conversation, and the toggle to pin/unpin one
+    pinnedDocumentIds?: string[];
+    onDocumentPinToggle?: (document: Document) => void;
 }
 
 // Interface for component with the service injected
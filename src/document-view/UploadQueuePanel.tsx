@@ -0,0 +1,162 @@
+import React from 'react';
+import { Pause, Play, X, RotateCcw, CheckCircle, AlertCircle, Loader2, Clock } from 'lucide-react';
+
+import { UploadQueue } from '../domain/uploads';
+import type { UploadItemStatus, UploadQueueItem, UploadQueueSnapshot } from '../domain/uploads';
+
+interface ComponentProps {
+    queue: UploadQueueSnapshot;
+    onPause: () => void;
+    onResume: () => void;
+    onCancel: (id: string) => void;
+    onCancelAll: () => void;
+    onRetry: (id: string) => void;
+    onRetryFailed: () => void;
+    onClearFinished: () => void;
+}
+
+const STATUS_LABELS: Record<UploadItemStatus, string> = {
+    queued: 'Queued',
+    uploading: 'Uploading',
+    retrying: 'Retrying',
+    processing: 'Processing',
+    completed: 'Done',
+    failed: 'Failed',
+    cancelled: 'Cancelled',
+    skipped: 'Skipped',
+};
+
+const formatDuration = (ms: number) => {
+    const seconds = Math.round(ms / 1000);
+    return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+const getStatusIcon = (status: UploadItemStatus) => {
+    switch (status) {
+        case 'completed':
+            return <CheckCircle className="h-4 w-4 upq-icon-success" />;
+        case 'failed':
+        case 'skipped':
+            return <AlertCircle className="h-4 w-4 upq-icon-error" />;
+        case 'uploading':
+        case 'processing':
+            return <Loader2 className="h-4 w-4 animate-spin" />;
+        default:
+            return <Clock className="h-4 w-4" />;
+    }
+};
+
+const UploadQueueRow: React.FC<{
+    item: UploadQueueItem;
+    onCancel: (id: string) => void;
+    onRetry: (id: string) => void;
+}> = ({ item, onCancel, onRetry }) => {
+    const canCancel = item.status === 'queued' || item.status === 'uploading' || item.status === 'retrying';
+    const canRetry = item.status === 'failed' || item.status === 'cancelled';
+    const detail = item.status === 'retrying'
+        ? `attempt ${item.attempts} failed: ${item.error}`
+        : item.error;
+
+    return (
+        <li className={`upq-item upq-item-${item.status}`}>
+            <div className="upq-item-row">
+                {getStatusIcon(item.status)}
+                <span className="upq-item-name" title={UploadQueue.getDisplayName(item)}>
+                    {UploadQueue.getDisplayName(item)}
+                </span>
+                <span className="upq-item-status">
+                    {STATUS_LABELS[item.status]}
+                    {item.status === 'uploading' && ` ${Math.round(item.progress * 100)}%`}
+                </span>
+                {canCancel && (
+                    <button className="ditem-action-btn danger" onClick={() => onCancel(item.id)} title="Cancel upload">
+                        <X className="h-4 w-4" />
+                    </button>
+                )}
+                {canRetry && (
+                    <button className="ditem-action-btn" onClick={() => onRetry(item.id)} title="Retry upload">
+                        <RotateCcw className="h-4 w-4" />
+                    </button>
+                )}
+            </div>
+            {item.status === 'uploading' && (
+                <div className="upq-progress">
+                    <div className="upq-progress-bar" style={{ width: `${Math.round(item.progress * 100)}%` }} />
+                </div>
+            )}
+            {detail && <div className="upq-item-error">{detail}</div>}
+        </li>
+    );
+};
+
+/**
+ * Progress, controls and end-of-batch report for the bulk upload queue
+ */
+export const UploadQueuePanel: React.FC<ComponentProps> = ({
+    queue,
+    onPause,
+    onResume,
+    onCancel,
+    onCancelAll,
+    onRetry,
+    onRetryFailed,
+    onClearFinished,
+}) => {
+    const { items, paused, summary } = queue;
+    if (items.length === 0) {
+        return null;
+    }
+
+    const active = items.filter(item => UploadQueue.isActive(item)).length;
+    const settled = items.length - active;
+    const failed = items.filter(item => item.status === 'failed').length;
+    const overall = items.reduce((sum, item) => (
+        sum + (UploadQueue.isActive(item) ? item.progress * 0.5 + (item.status === 'processing' ? 0.5 : 0) : 1)
+    ), 0) / items.length;
+
+    return (
+        <div className="upq-panel">
+            <div className="upq-header">
+                <span className="upq-title">
+                    {active > 0
+                        ? `Uploading ${settled} of ${items.length} done${paused ? ' (paused)' : ''}`
+                        : `${items.length} file${items.length === 1 ? '' : 's'} finished`}
+                </span>
+                <div className="upq-actions">
+                    {active > 0 && (paused
+                        ? <button className="upq-btn" onClick={onResume}><Play className="h-3 w-3" /> Resume</button>
+                        : <button className="upq-btn" onClick={onPause}><Pause className="h-3 w-3" /> Pause</button>)}
+                    {active > 0 && <button className="upq-btn" onClick={onCancelAll}><X className="h-3 w-3" /> Cancel all</button>}
+                    {failed > 0 && <button className="upq-btn" onClick={onRetryFailed}><RotateCcw className="h-3 w-3" /> Retry failed</button>}
+                    {settled > 0 && <button className="upq-btn" onClick={onClearFinished}>Clear finished</button>}
+                </div>
+            </div>
+
+            <div className="upq-progress">
+                <div className="upq-progress-bar" style={{ width: `${Math.round(overall * 100)}%` }} />
+            </div>
+
+            {summary && (
+                <div className="upq-summary">
+                    <div>
+                        {summary.completed} uploaded · {summary.failed} failed · {summary.cancelled} cancelled
+                        · {summary.skipped} skipped in {formatDuration(summary.durationMs)}
+                    </div>
+                    {summary.failures.length > 0 && (
+                        <ul className="upq-summary-failures">
+                            {summary.failures.map((failure, index) => (
+                                <li key={index}><strong>{failure.fileName}</strong>: {failure.error}</li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            )}
+
+            <ul className="upq-list">
+                {items.map(item => (
+                    <UploadQueueRow key={item.id} item={item} onCancel={onCancel} onRetry={onRetry} />
+                ))}
+            </ul>
+        </div>
+    );
+};
@@ -69,6 +69,18 @@ describe('ModelMapper', () => {
 
             expect(result.name).toBe('model-id-123');
         });
+
+        it('should carry the context window reported in the model metadata', () => {
+            expect(mapper.mapToModelInfo({ name: 'gpt-4o', provider: 'openai', context_length: 128000 }).contextWindow).toBe(128000);
+            expect(mapper.mapToModelInfo({ name: 'qwen2', details: { num_ctx: '32768' } }).contextWindow).toBe(32768);
+            expect(mapper.mapToModelInfo({ name: 'mistral' })).not.toHaveProperty('contextWindow');
+        });
+
+        it('should only take num_ctx as the window of Ollama models', () => {
+            expect(mapper.mapToModelInfo({ name: 'llama3.1', context_length: 131072 })).not.toHaveProperty('contextWindow');
+            expect(mapper.mapToModelInfo({ name: 'gemma', model_info: { 'gemma.context_length': 8192 } })).not.toHaveProperty('contextWindow');
+            expect(mapper.mapToModelInfo({ name: 'llama3', parameters: 'num_ctx 4096\nstop "<|eot_id|>"' }).contextWindow).toBe(4096);
+        });
     });
 
     describe('mapToModelInfoArray', () => {
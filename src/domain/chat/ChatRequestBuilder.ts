@@ -0,0 +1,183 @@
+/**
+ * ChatRequestBuilder
+ *
+ * Assembles the provider chat request shared by the chat view and evaluations.
+ * Single Responsibility: Turn a question, its sources and the selected
+ * model/persona into the exact request body sent to the AI provider.
+ */
+
+import type { ModelInfo, PersonaInfo } from '../../components/chat-header/types';
+import type { DocumentChunk } from '../../braindrive-plugin/pluginTypes';
+import { CitationFormatter } from '../citations';
+import {
+  ContextBudgetBuilder,
+  DEFAULT_RESPONSE_TOKENS,
+  type ChunkContextResult,
+  type ContextBudget,
+} from '../context';
+
+export const CHAT_ENDPOINT = '/api/v1/ai/providers/chat';
+
+export const DEFAULT_GENERATION_PARAMS = {
+  temperature: 0.7,
+  max_tokens: DEFAULT_RESPONSE_TOKENS,
+};
+
+export interface ChatRequestOptions {
+  prompt: string;
+  // Numbered sources; sent as a system message so the stored user message stays the question
+  sourcesContext?: string;
+  model: ModelInfo;
+  persona?: PersonaInfo;
+  useStreaming: boolean;
+  conversationId: string | null;
+  conversationType: string;
+  userId: string | null;
+  pageContext?: any;
+}
+
+export interface ChatRequestParams {
+  provider: string;
+  settings_id: string;
+  server_id: string;
+  model: string;
+  messages: Array<{ role: string; content: string }>;
+  params: Record<string, any>;
+  stream: boolean;
+  user_id: string;
+  conversation_id: string | null;
+  conversation_type: string;
+  page_id?: string;
+  page_context?: string;
+  persona_id?: string;
+  persona_system_prompt?: string;
+  persona_model_settings?: PersonaInfo['model_settings'];
+  persona_sample_greeting?: string;
+}
+
+export interface GroundedChatRequestOptions extends Omit<ChatRequestOptions, 'sourcesContext'> {
+  // Ranked chunks to answer from; lower-ranked ones are trimmed or dropped to fit the window
+  chunks: DocumentChunk[];
+  history?: Array<{ content: string }>;
+  ollamaContextWindow?: number | null;
+}
+
+/**
+ * A request built from chunks, with the chunks that made it into the prompt
+ */
+export interface GroundedChatRequest {
+  request: ChatRequestParams;
+  sourcesContext: string;
+  budget: ContextBudget;
+  fitted: ChunkContextResult;
+}
+
+/**
+ * What was sent to the model for one answer, kept alongside evaluation results
+ */
+export interface AssembledPrompt {
+  provider: string;
+  model: string;
+  persona_id: string | null;
+  persona_name: string | null;
+  system_prompt: string | null;
+  user_prompt: string;
+  params: Record<string, any>;
+}
+
+export class ChatRequestBuilder {
+  /**
+   * Messages for a question: the citation instructions and sources, if any, then the question
+   */
+  static buildMessages(question: string, sourcesContext?: string): Array<{ role: string; content: string }> {
+    const messages = [{ role: 'user', content: question }];
+    return sourcesContext && sourcesContext.trim()
+      ? [{ role: 'system', content: CitationFormatter.buildSourcesMessage(sourcesContext) }].concat(messages)
+      : messages;
+  }
+
+  /**
+   * Generation params; persona model settings override the defaults
+   */
+  static buildGenerationParams(persona?: PersonaInfo): Record<string, any> {
+    return {
+      ...DEFAULT_GENERATION_PARAMS,
+      ...(persona?.model_settings || {}),
+    };
+  }
+
+  static build(options: ChatRequestOptions): ChatRequestParams {
+    const { model, persona, pageContext } = options;
+
+    const request: ChatRequestParams = {
+      provider: model.provider || 'ollama',
+      settings_id: model.providerId || 'ollama_servers_settings',
+      server_id: model.serverId,
+      model: model.name,
+      messages: this.buildMessages(options.prompt, options.sourcesContext),
+      params: this.buildGenerationParams(persona),
+      stream: options.useStreaming,
+      user_id: options.userId || 'current',
+      conversation_id: options.conversationId,
+      conversation_type: options.conversationType,
+    };
+
+    if (pageContext) {
+      request.page_id = pageContext.pageId;
+      request.page_context = JSON.stringify({
+        pageName: pageContext.pageName,
+        pageRoute: pageContext.pageRoute,
+        isStudioPage: pageContext.isStudioPage,
+      });
+    }
+
+    if (persona) {
+      request.persona_id = persona.id;
+      request.persona_system_prompt = persona.system_prompt;
+      request.persona_model_settings = persona.model_settings;
+      request.persona_sample_greeting = persona.sample_greeting;
+    }
+
+    return request;
+  }
+
+  /**
+   * Fit the chunks into the model's context window, number them as sources
+   * and build the request; the chat view and evaluations both answer this way
+   */
+  static buildGrounded(options: GroundedChatRequestOptions): GroundedChatRequest {
+    const { chunks, history, ollamaContextWindow, ...requestOptions } = options;
+
+    const budget = ContextBudgetBuilder.getBudget({
+      model: options.model,
+      persona: options.persona,
+      question: options.prompt,
+      history,
+      ollamaContextWindow,
+    });
+    const fitted = ContextBudgetBuilder.fitChunks(chunks, budget.availableTokens);
+    const sourcesContext = fitted.chunks.length > 0 ? CitationFormatter.buildSourcesContext(fitted.chunks) : '';
+
+    return {
+      request: this.build({ ...requestOptions, sourcesContext }),
+      sourcesContext,
+      budget,
+      fitted,
+    };
+  }
+
+  /**
+   * Record of the prompt-relevant parts of a request
+   */
+  static describe(request: ChatRequestParams, persona?: PersonaInfo): AssembledPrompt {
+    return {
+      provider: request.provider,
+      model: request.model,
+      persona_id: request.persona_id || null,
+      persona_name: persona?.name || null,
+      system_prompt: request.persona_system_prompt || null,
+      user_prompt: request.messages.map(message => message.content).join('\n\n'),
+      params: request.params,
+    };
+  }
+}
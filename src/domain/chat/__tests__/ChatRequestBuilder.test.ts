@@ -0,0 +1,123 @@
+import { ChatRequestBuilder, DEFAULT_GENERATION_PARAMS } from '../ChatRequestBuilder';
+import { CitationFormatter } from '../../citations';
+import type { ModelInfo, PersonaInfo } from '../../../components/chat-header/types';
+
+describe('ChatRequestBuilder', () => {
+  const model: ModelInfo = {
+    name: 'llama3',
+    provider: 'ollama',
+    providerId: 'ollama_servers_settings',
+    serverName: 'local',
+    serverId: 'server-1',
+  };
+
+  const persona: PersonaInfo = {
+    id: 'persona-1',
+    name: 'Analyst',
+    system_prompt: 'You are a careful analyst.',
+    model_settings: { temperature: 0.1, top_p: 0.9 },
+  };
+
+  const baseOptions = {
+    prompt: 'What is the refund policy?',
+    model,
+    useStreaming: false,
+    conversationId: null,
+    conversationType: 'chat',
+    userId: 'user-1',
+  };
+
+  describe('buildMessages', () => {
+    it('should send the sources as a system message ahead of the question', () => {
+      expect(ChatRequestBuilder.buildMessages('Why?', '[1] (a.pdf)\nBecause.')).toEqual([
+        { role: 'system', content: CitationFormatter.buildSourcesMessage('[1] (a.pdf)\nBecause.') },
+        { role: 'user', content: 'Why?' },
+      ]);
+    });
+
+    it('should send the bare question without sources', () => {
+      expect(ChatRequestBuilder.buildMessages('Why?', '  ')).toEqual([{ role: 'user', content: 'Why?' }]);
+    });
+  });
+
+  describe('build', () => {
+    it('should use default generation params without a persona', () => {
+      const request = ChatRequestBuilder.build(baseOptions);
+
+      expect(request).toMatchObject({
+        provider: 'ollama',
+        server_id: 'server-1',
+        model: 'llama3',
+        messages: [{ role: 'user', content: 'What is the refund policy?' }],
+        params: DEFAULT_GENERATION_PARAMS,
+        user_id: 'user-1',
+      });
+      expect(request.persona_id).toBeUndefined();
+    });
+
+    it('should apply the persona system prompt and model settings', () => {
+      const request = ChatRequestBuilder.build({ ...baseOptions, persona });
+
+      expect(request.persona_system_prompt).toBe('You are a careful analyst.');
+      expect(request.params).toEqual({
+        temperature: 0.1,
+        top_p: 0.9,
+        max_tokens: DEFAULT_GENERATION_PARAMS.max_tokens,
+      });
+    });
+  });
+
+  describe('buildGrounded', () => {
+    const makeChunk = (id: string, filename: string, tokens: number) => ({
+      id,
+      document_id: 'doc-1',
+      collection_id: 'coll-1',
+      content: 'word '.repeat(tokens * 4 / 5),
+      chunk_index: 0,
+      chunk_type: 'text',
+      metadata: { document_filename: filename, chunk_token_count: tokens },
+    });
+
+    it('should number the chunks that fit the window and send them as sources', () => {
+      const grounded = ChatRequestBuilder.buildGrounded({
+        ...baseOptions,
+        chunks: [makeChunk('c1', 'a.pdf', 900), makeChunk('c2', 'b.pdf', 500)],
+        ollamaContextWindow: 2048,
+      });
+
+      expect(grounded.budget.contextWindow).toBe(2048);
+      expect(grounded.fitted.chunks.map(chunk => chunk.id)).toEqual(['c1']);
+      expect(grounded.fitted.dropped.map(item => item.label)).toEqual(['b.pdf · chunk #0']);
+      expect(grounded.request.messages).toEqual([
+        { role: 'system', content: CitationFormatter.buildSourcesMessage(grounded.sourcesContext) },
+        { role: 'user', content: 'What is the refund policy?' },
+      ]);
+      expect(grounded.sourcesContext.indexOf('[1] (a.pdf · chunk #0)')).toBe(0);
+    });
+  });
+
+  describe('describe', () => {
+    it('should include the sources message in the recorded prompt', () => {
+      const request = ChatRequestBuilder.build({ ...baseOptions, sourcesContext: '[1] (a.pdf)\nRefunds within 30 days.' });
+
+      expect(request.messages[request.messages.length - 1]).toEqual({ role: 'user', content: 'What is the refund policy?' });
+      expect(ChatRequestBuilder.describe(request).user_prompt).toBe(
+        `${CitationFormatter.buildSourcesMessage('[1] (a.pdf)\nRefunds within 30 days.')}\n\nWhat is the refund policy?`
+      );
+    });
+
+    it('should record what the model was sent', () => {
+      const request = ChatRequestBuilder.build({ ...baseOptions, persona });
+
+      expect(ChatRequestBuilder.describe(request, persona)).toEqual({
+        provider: 'ollama',
+        model: 'llama3',
+        persona_id: 'persona-1',
+        persona_name: 'Analyst',
+        system_prompt: 'You are a careful analyst.',
+        user_prompt: 'What is the refund policy?',
+        params: request.params,
+      });
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { CitationFormatter } from './CitationFormatter';
+import type { DocumentChunk } from '../../braindrive-plugin/pluginTypes';
+
+const makeChunk = (overrides: Partial<DocumentChunk> = {}): DocumentChunk => ({
+  id: 'chunk-1',
+  document_id: 'doc-1',
+  collection_id: 'coll-1',
+  content: 'Revenue grew 12% in Q3.',
+  chunk_index: 4,
+  chunk_type: 'text',
+  metadata: { document_filename: 'q3-report.pdf' },
+  ...overrides,
+});
+
+describe('CitationFormatter', () => {
+  describe('getChunkLabel', () => {
+    it('should include filename and chunk index', () => {
+      expect(CitationFormatter.getChunkLabel(makeChunk())).toBe('q3-report.pdf · chunk #4');
+    });
+
+    it('should fall back when filename is missing', () => {
+      const chunk = makeChunk({ metadata: {} });
+      expect(CitationFormatter.getChunkLabel(chunk)).toBe('Unknown document · chunk #4');
+    });
+
+    it('should prefer the relative path of files uploaded from a folder', () => {
+      const chunk = makeChunk({ metadata: { document_filename: 'q3.pdf', relative_path: 'reports/2024/q3.pdf' } });
+      expect(CitationFormatter.getChunkLabel(chunk)).toBe('reports/2024/q3.pdf · chunk #4');
+    });
+
+    it('should prefix the collection name when present', () => {
+      const chunk = makeChunk({ metadata: { document_filename: 'q3-report.pdf', collection_name: 'Finance' } });
+      expect(CitationFormatter.getChunkLabel(chunk)).toBe('Finance · q3-report.pdf · chunk #4');
+    });
+  });
+
+  describe('buildPrompt', () => {
+    it('should number sources and keep the User Question marker', () => {
+      const context = CitationFormatter.buildSourcesContext([
+        makeChunk(),
+        makeChunk({ id: 'chunk-2', chunk_index: 9, content: 'Costs fell.' }),
+      ]);
+
+      const prompt = CitationFormatter.buildPrompt('How did Q3 go?', context);
+
+      expect(context).toContain('[1] (q3-report.pdf · chunk #4)\nRevenue grew 12% in Q3.');
+      expect(context).toContain('[2] (q3-report.pdf · chunk #9)\nCosts fell.');
+      expect(prompt).toContain('[1]');
+      expect(prompt.endsWith('\n\nUser Question: How did Q3 go?')).toBe(true);
+    });
+  });
+
+  describe('parsePrompt', () => {
+    it('should recover the question and sources from a built prompt', () => {
+      const context = '[1] (notes.md)\nQuoted:\n\nUser Question: not this one';
+      const prompt = CitationFormatter.buildPrompt('What changed?\n\nBe brief.', context);
+
+      expect(CitationFormatter.parsePrompt(prompt)).toEqual({
+        question: 'What changed?\n\nBe brief.',
+        sourcesContext: context,
+      });
+    });
+
+    it('should ignore text that was not built by buildPrompt', () => {
+      expect(CitationFormatter.parsePrompt('Summary:\n\nUser Question: Hi')).toBeNull();
+      expect(CitationFormatter.parsePrompt('')).toBeNull();
+    });
+  });
+
+  describe('linkifyCitations', () => {
+    it('should turn markers into citation links', () => {
+      expect(CitationFormatter.linkifyCitations('Revenue grew [1].', 2))
+        .toBe('Revenue grew [1](#citation-1).');
+    });
+
+    it('should split grouped and adjacent markers', () => {
+      expect(CitationFormatter.linkifyCitations('See [1, 2] and [2][1].', 2))
+        .toBe('See [1](#citation-1)[2](#citation-2) and [2](#citation-2)[1](#citation-1).');
+    });
+
+    it('should leave out-of-range markers untouched', () => {
+      expect(CitationFormatter.linkifyCitations('Claim [3].', 2)).toBe('Claim [3].');
+      expect(CitationFormatter.linkifyCitations('Claim [0].', 2)).toBe('Claim [0].');
+    });
+
+    it('should not touch code or existing links', () => {
+      const content = 'Use `arr[1]` and\n```\nx = a[1]\n```\n[1](http://example.com) [1]: ref';
+      expect(CitationFormatter.linkifyCitations(content, 2)).toBe(content);
+    });
+
+    it('should return content unchanged without sources', () => {
+      expect(CitationFormatter.linkifyCitations('Claim [1].', 0)).toBe('Claim [1].');
+    });
+  });
+
+  describe('parseCitationHref', () => {
+    it('should parse citation hrefs', () => {
+      expect(CitationFormatter.parseCitationHref('#citation-3')).toBe(3);
+    });
+
+    it('should ignore other hrefs', () => {
+      expect(CitationFormatter.parseCitationHref('https://example.com')).toBeNull();
+      expect(CitationFormatter.parseCitationHref(undefined)).toBeNull();
+    });
+  });
+
+  describe('extractCitationNumbers', () => {
+    it('should return unique numbers in order of first use', () => {
+      expect(CitationFormatter.extractCitationNumbers('A [2]. B [1, 2]. C [7].', 3)).toEqual([2, 1]);
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import type { DocumentChunk } from '../../braindrive-plugin/pluginTypes';
+
+/**
+ * Href prefix used for citation links inside rendered markdown
+ */
+export const CITATION_HREF_PREFIX = '#citation-';
+
+const CITATION_INSTRUCTIONS = [
+  'Answer the question using the numbered sources below.',
+  'After every sentence that relies on a source, cite it with its number in square brackets, e.g. [1] or [1][3].',
+  'Only cite numbers that appear in the sources. If the sources do not contain the answer, say so.',
+].join(' ');
+
+const SOURCES_HEADING = '\n\nSources:\n';
+const QUESTION_MARKER = '\n\nUser Question: ';
+
+/**
+ * CitationFormatter builds citation-aware prompts and turns [n] markers
+ * in model answers into links the chat renderer can display as chips.
+ *
+ * Citation numbers are 1-based positions in the retrieved chunk list.
+ */
+export class CitationFormatter {
+  /**
+   * Short human-readable label for a chunk, e.g. "report.pdf · chunk #4".
+   * Chunks from a multi-collection search are prefixed with their collection;
+   * a negative chunk_index means the position is unknown and is left out.
+   */
+  static getChunkLabel(chunk: DocumentChunk): string {
+    const filename = chunk.metadata?.relative_path || chunk.metadata?.document_filename || 'Unknown document';
+    const label = typeof chunk.chunk_index === 'number' && chunk.chunk_index >= 0
+      ? `${filename} · chunk #${chunk.chunk_index}`
+      : filename;
+    const collectionName = chunk.metadata?.collection_name;
+    return collectionName ? `${collectionName} · ${label}` : label;
+  }
+
+  /**
+   * Format chunks as numbered sources for the prompt
+   */
+  static buildSourcesContext(chunks: DocumentChunk[]): string {
+    return chunks
+      .map((chunk, idx) => `[${idx + 1}] (${this.getChunkLabel(chunk)})\n${chunk.content}`)
+      .join('\n\n');
+  }
+
+  /**
+   * Instructions and numbered sources, sent as a system message ahead of the
+   * question so the backend stores only the question as the user's message
+   */
+  static buildSourcesMessage(sourcesContext: string): string {
+    return `${CITATION_INSTRUCTIONS}${SOURCES_HEADING}${sourcesContext}`;
+  }
+
+  /**
+   * Sources and question in one user message, the format earlier versions
+   * sent; the backend stored it whole, so parsePrompt reads it back
+   */
+  static buildPrompt(question: string, sourcesContext: string): string {
+    return `${this.buildSourcesMessage(sourcesContext)}${QUESTION_MARKER}${question}`;
+  }
+
+  /**
+   * Split a prompt made by buildPrompt back into its parts, or null for any
+   * other text. The last marker wins, since sources may quote the marker.
+   */
+  static parsePrompt(prompt: string): { question: string; sourcesContext: string } | null {
+    const prefix = `${CITATION_INSTRUCTIONS}${SOURCES_HEADING}`;
+    if (!prompt || prompt.indexOf(prefix) !== 0) return null;
+
+    const markerIndex = prompt.lastIndexOf(QUESTION_MARKER);
+    if (markerIndex < prefix.length) return null;
+
+    return {
+      question: prompt.slice(markerIndex + QUESTION_MARKER.length),
+      sourcesContext: prompt.slice(prefix.length, markerIndex),
+    };
+  }
+
+  /**
+   * Rewrite [n] / [n, m] markers into markdown links (#citation-n) so the
+   * markdown renderer can replace them with citation chips. Fenced and inline
+   * code and existing markdown links are left untouched.
+   */
+  static linkifyCitations(content: string, sourceCount: number): string {
+    if (!content || sourceCount <= 0) return content;
+
+    // Odd segments are code (fenced blocks or inline spans)
+    const segments = content.split(/(```[\s\S]*?(?:```|$)|`[^`\n]*`)/);
+
+    return segments
+      .map((segment, index) => {
+        if (index % 2 === 1) return segment;
+
+        return segment.replace(/\[(\d+(?:\s*,\s*\d+)*)\](?![(:])/g, (match, group: string) => {
+          const numbers = group.split(',').map(n => parseInt(n.trim(), 10));
+          if (numbers.some(n => n < 1 || n > sourceCount)) {
+            return match;
+          }
+          return numbers.map(n => `[${n}](${CITATION_HREF_PREFIX}${n})`).join('');
+        });
+      })
+      .join('');
+  }
+
+  /**
+   * Parse a citation number from a link href, or null when it is not a citation link
+   */
+  static parseCitationHref(href: string | undefined): number | null {
+    if (!href || !href.startsWith(CITATION_HREF_PREFIX)) return null;
+    const value = parseInt(href.slice(CITATION_HREF_PREFIX.length), 10);
+    return isNaN(value) ? null : value;
+  }
+
+  /**
+   * Unique citation numbers referenced in an answer, in order of first use
+   */
+  static extractCitationNumbers(content: string, sourceCount: number): number[] {
+    const linked = this.linkifyCitations(content, sourceCount);
+    const seen = new Set<number>();
+    const pattern = new RegExp(`\\]\\(${CITATION_HREF_PREFIX}(\\d+)\\)`, 'g');
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(linked)) !== null) {
+      seen.add(parseInt(match[1], 10));
+    }
+    return Array.from(seen);
+  }
+}
@@ -0,0 +1 @@
+export { CitationFormatter, CITATION_HREF_PREFIX } from './CitationFormatter';
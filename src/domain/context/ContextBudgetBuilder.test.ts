@@ -0,0 +1,172 @@
+import {
+  ContextBudgetBuilder,
+  OLLAMA_DEFAULT_CONTEXT_WINDOW,
+  FALLBACK_CONTEXT_WINDOW,
+} from './ContextBudgetBuilder';
+import { ModelMapper, ProviderResolver } from '../models';
+import type { DocumentChunk } from '../../braindrive-plugin/pluginTypes';
+import type { ModelInfo, PersonaInfo } from '../../collection-chat-view/chatViewTypes';
+import type { DocumentProcessingResult } from '../../services/documentService';
+
+const makeModel = (name: string, provider = 'openai'): ModelInfo => ({
+  name,
+  provider,
+  providerId: `${provider}_servers_settings`,
+  serverName: 'Server',
+  serverId: 'server-1',
+});
+
+const makeChunk = (id: string, tokens: number, index = 0): DocumentChunk => ({
+  id,
+  document_id: 'doc-1',
+  collection_id: 'coll-1',
+  content: 'word '.repeat(tokens * 4 / 5),
+  chunk_index: index,
+  chunk_type: 'text',
+  metadata: { document_filename: 'report.pdf', chunk_token_count: tokens },
+});
+
+const makeResult = (filename: string, chars: number): DocumentProcessingResult => ({
+  filename,
+  file_type: 'txt',
+  content_type: 'text/plain',
+  file_size: chars,
+  extracted_text: 'a'.repeat(chars),
+  text_length: chars,
+  processing_success: true,
+});
+
+describe('ContextBudgetBuilder', () => {
+  describe('resolveContextWindow', () => {
+    it('should prefer the persona context_window', () => {
+      const persona = { id: 'p', name: 'P', system_prompt: '', model_settings: { context_window: 16000 } } as PersonaInfo;
+      expect(ContextBudgetBuilder.resolveContextWindow(makeModel('llama3.1', 'ollama'), persona)).toBe(16000);
+    });
+
+    it('should accept num_ctx as the persona override', () => {
+      const persona = { id: 'p', name: 'P', system_prompt: '', model_settings: { num_ctx: 32768 } } as PersonaInfo;
+      expect(ContextBudgetBuilder.resolveContextWindow(makeModel('llama3.1', 'ollama'), persona)).toBe(32768);
+    });
+
+    it('should use the window reported with the model', () => {
+      const model = { ...makeModel('gpt-4o'), contextWindow: 64000 };
+      expect(ContextBudgetBuilder.resolveContextWindow(model)).toBe(64000);
+    });
+
+    it('should use an Ollama num_ctx set on the model over the configured window', () => {
+      const raw = { name: 'llama3.1:8b', provider: 'ollama', parameters: 'stop "<|eot_id|>"\nnum_ctx 16384' };
+      const model = { ...makeModel('llama3.1:8b', 'ollama'), contextWindow: ModelMapper.extractContextWindow(raw, 'ollama')! };
+      expect(ContextBudgetBuilder.resolveContextWindow(model, null, 4096)).toBe(16384);
+    });
+
+    it('should not take the trained context_length of an Ollama model as its window', () => {
+      const raw = { name: 'llama3.1:8b', provider: 'ollama', model_info: { 'llama.context_length': 131072 } };
+      const model = new ModelMapper(new ProviderResolver()).mapToModelInfo(raw);
+
+      expect(model.contextWindow).toBeUndefined();
+      expect(ContextBudgetBuilder.resolveContextWindow(model)).toBe(OLLAMA_DEFAULT_CONTEXT_WINDOW);
+      expect(ContextBudgetBuilder.resolveContextWindow(model, null, 8192)).toBe(8192);
+      expect(ContextBudgetBuilder.getBudget({ model }).contextWindow).toBe(OLLAMA_DEFAULT_CONTEXT_WINDOW);
+    });
+
+    it('should use the Ollama default num_ctx for Ollama models that report no window', () => {
+      expect(ContextBudgetBuilder.resolveContextWindow(makeModel('llama3.1:8b', 'ollama')))
+        .toBe(OLLAMA_DEFAULT_CONTEXT_WINDOW);
+      expect(ContextBudgetBuilder.resolveContextWindow(makeModel('llama3.1:8b', 'ollama'), null, 8192)).toBe(8192);
+    });
+
+    it('should look up known model families', () => {
+      expect(ContextBudgetBuilder.resolveContextWindow(makeModel('gpt-4o-mini'))).toBe(128000);
+      expect(ContextBudgetBuilder.resolveContextWindow(makeModel('gpt-4'))).toBe(8192);
+      expect(ContextBudgetBuilder.resolveContextWindow(makeModel('something-new'))).toBe(FALLBACK_CONTEXT_WINDOW);
+      expect(ContextBudgetBuilder.resolveContextWindow(null)).toBe(FALLBACK_CONTEXT_WINDOW);
+    });
+  });
+
+  describe('getBudget', () => {
+    it('should reserve the response, question and history', () => {
+      const budget = ContextBudgetBuilder.getBudget({
+        model: makeModel('gpt-4'),
+        question: 'q'.repeat(400),
+        history: [{ content: 'h'.repeat(800) }],
+      });
+
+      expect(budget.responseTokens).toBe(2048);
+      expect(budget.reservedTokens).toBeGreaterThan(300);
+      expect(budget.availableTokens).toBe(8192 - 2048 - budget.reservedTokens);
+    });
+
+    it('should keep at most half the window for the response', () => {
+      const budget = ContextBudgetBuilder.getBudget({ model: makeModel('llama3', 'ollama') });
+      expect(budget.responseTokens).toBe(1024);
+    });
+
+    it('should size the budget from the configured Ollama window', () => {
+      const budget = ContextBudgetBuilder.getBudget({ model: makeModel('llama3', 'ollama'), ollamaContextWindow: 8192 });
+      expect(budget.contextWindow).toBe(8192);
+      expect(budget.responseTokens).toBe(2048);
+    });
+  });
+
+  describe('fitChunks', () => {
+    it('should keep everything that fits', () => {
+      const result = ContextBudgetBuilder.fitChunks([makeChunk('a', 100), makeChunk('b', 100)], 1000);
+
+      expect(result.chunks.map(c => c.id)).toEqual(['a', 'b']);
+      expect(result.usedTokens).toBe(224);
+      expect(result.dropped).toEqual([]);
+    });
+
+    it('should trim the first chunk that does not fit and drop the rest', () => {
+      const result = ContextBudgetBuilder.fitChunks(
+        [makeChunk('a', 300, 1), makeChunk('b', 400, 2), makeChunk('c', 20, 3)],
+        600
+      );
+
+      expect(result.chunks.map(c => c.id)).toEqual(['a', 'b']);
+      expect(result.chunks[1].metadata.context_trimmed).toBe(true);
+      expect(ContextBudgetBuilder.estimateTextTokens(result.chunks[1].content)).toBeLessThanOrEqual(276);
+      expect(result.trimmed).toEqual([{ label: 'report.pdf · chunk #2', rank: 2, tokens: 412 }]);
+      expect(result.dropped.map(item => item.rank)).toEqual([3]);
+      expect(result.usedTokens).toBe(600);
+    });
+
+    it('should drop rather than trim when too little room is left', () => {
+      const result = ContextBudgetBuilder.fitChunks([makeChunk('a', 300), makeChunk('b', 400)], 350);
+
+      expect(result.chunks.map(c => c.id)).toEqual(['a']);
+      expect(result.trimmed).toEqual([]);
+      expect(result.dropped.map(item => item.rank)).toEqual([2]);
+    });
+  });
+
+  describe('fitDocuments', () => {
+    it('should give unused share of short documents to longer ones', () => {
+      const result = ContextBudgetBuilder.fitDocuments(
+        [makeResult('long.txt', 8000), makeResult('short.txt', 400)],
+        1000
+      );
+
+      expect(result.results[1].extracted_text).toHaveLength(400);
+      expect(result.results[0].extracted_text.length).toBeLessThanOrEqual(900 * 4);
+      expect(result.results[0].text_length).toBe(8000);
+      expect(result.trimmed).toEqual([{ label: 'long.txt', rank: 1, tokens: 2000 }]);
+    });
+
+    it('should leave documents that fit untouched', () => {
+      const results = [makeResult('a.txt', 400)];
+      const fitted = ContextBudgetBuilder.fitDocuments(results, 1000);
+
+      expect(fitted.results[0]).toEqual(results[0]);
+      expect(fitted.trimmed).toEqual([]);
+    });
+  });
+
+  describe('truncateText', () => {
+    it('should cut at a word boundary and mark the cut', () => {
+      expect(ContextBudgetBuilder.truncateText('alpha beta gamma delta epsilon zeta', 6)).toBe('alpha beta gamma delta…');
+      expect(ContextBudgetBuilder.truncateText('a'.repeat(40), 5)).toBe(`${'a'.repeat(19)}…`);
+      expect(ContextBudgetBuilder.truncateText('short', 4)).toBe('short');
+    });
+  });
+});
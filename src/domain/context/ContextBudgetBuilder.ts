@@ -0,0 +1,272 @@
+import type { DocumentChunk } from '../../braindrive-plugin/pluginTypes';
+import type { ModelInfo, PersonaInfo } from '../../collection-chat-view/chatViewTypes';
+import type { DocumentProcessingResult } from '../../services/documentService';
+import { CitationFormatter } from '../citations';
+
+/**
+ * Tokens the model is asked to generate (AIService request default)
+ */
+export const DEFAULT_RESPONSE_TOKENS = 2048;
+
+/**
+ * Ollama runs models with this num_ctx unless it is overridden, whatever the model supports.
+ * Only assumed when neither the persona nor the model sets num_ctx; the settings can
+ * replace it (SETTINGS_KEYS.OLLAMA_CONTEXT_WINDOW).
+ */
+export const OLLAMA_DEFAULT_CONTEXT_WINDOW = 2048;
+
+/**
+ * Used when neither the persona nor the model name tells us the window
+ */
+export const FALLBACK_CONTEXT_WINDOW = 8192;
+
+/**
+ * Known context windows by model name, first match wins
+ */
+const MODEL_CONTEXT_WINDOWS: Array<{ pattern: RegExp; tokens: number }> = [
+  { pattern: /claude/i, tokens: 200000 },
+  { pattern: /gpt-4o|gpt-4\.1|gpt-4-turbo|o[134](-mini)?\b/i, tokens: 128000 },
+  { pattern: /gpt-4/i, tokens: 8192 },
+  { pattern: /gpt-3\.5/i, tokens: 16385 },
+  { pattern: /gemini/i, tokens: 1000000 },
+  { pattern: /llama-?3\.[123]|mistral-(large|nemo)|command-r/i, tokens: 128000 },
+  { pattern: /mistral|mixtral|qwen/i, tokens: 32768 },
+  { pattern: /llama-?3|gemma/i, tokens: 8192 },
+  { pattern: /phi|llama-?2/i, tokens: 4096 },
+];
+
+/**
+ * Formatting added around every chunk in the prompt ("[n] (label)" and separators)
+ */
+const CHUNK_OVERHEAD_TOKENS = 12;
+
+/**
+ * A lower-ranked chunk is trimmed instead of dropped when at least this many tokens are left
+ */
+const MIN_TRIMMED_CHUNK_TOKENS = 100;
+
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Tokens available for context after the question, history and response are accounted for
+ */
+export interface ContextBudget {
+  contextWindow: number;
+  responseTokens: number;
+  reservedTokens: number;
+  availableTokens: number;
+}
+
+export interface ContextBudgetOptions {
+  model: ModelInfo | null;
+  persona?: PersonaInfo | null;
+  question?: string;
+  history?: Array<{ content: string }>;
+  /** Window assumed for Ollama models that report none; defaults to OLLAMA_DEFAULT_CONTEXT_WINDOW */
+  ollamaContextWindow?: number | null;
+}
+
+/**
+ * Context left out (or shortened) to fit the budget
+ */
+export interface DroppedContextItem {
+  label: string;
+  /** 1-based rank in the original list */
+  rank: number;
+  tokens: number;
+}
+
+export interface ChunkContextResult {
+  chunks: DocumentChunk[];
+  usedTokens: number;
+  budgetTokens: number;
+  dropped: DroppedContextItem[];
+  trimmed: DroppedContextItem[];
+}
+
+export interface DocumentContextResult {
+  results: DocumentProcessingResult[];
+  usedTokens: number;
+  budgetTokens: number;
+  trimmed: DroppedContextItem[];
+}
+
+/**
+ * Budget report stored with the retrieval message (metadata.context_budget)
+ */
+export interface ContextBudgetReport {
+  context_window: number;
+  budget_tokens: number;
+  used_tokens: number;
+  dropped: DroppedContextItem[];
+  trimmed: DroppedContextItem[];
+}
+
+/**
+ * ContextBudgetBuilder fits prompt context into the selected model's context window.
+ *
+ * Chunks are kept in rank order until the budget runs out; the next chunk is
+ * trimmed when enough room is left, the rest are dropped and reported.
+ * Token counts come from chunk_token_count when the backend provides it.
+ */
+export class ContextBudgetBuilder {
+  static estimateTextTokens(text: string): number {
+    return Math.ceil((text || '').length / CHARS_PER_TOKEN);
+  }
+
+  /**
+   * Token count reported by the backend, or a chars/4 estimate
+   */
+  static estimateChunkTokens(chunk: DocumentChunk): number {
+    const counted = chunk.metadata?.chunk_token_count ?? chunk.metadata?.token_count;
+    if (typeof counted === 'number' && counted > 0) {
+      return counted;
+    }
+    return this.estimateTextTokens(chunk.content);
+  }
+
+  /**
+   * Context window for a model: persona override, then the model's reported window
+   * (for Ollama only an explicit num_ctx, see ModelMapper.extractContextWindow), then
+   * the configured or default num_ctx for Ollama models, then known model families
+   */
+  static resolveContextWindow(
+    model: ModelInfo | null,
+    persona?: PersonaInfo | null,
+    ollamaContextWindow?: number | null
+  ): number {
+    const settings = persona?.model_settings;
+    const override = settings?.context_window || settings?.num_ctx;
+    if (typeof override === 'number' && override > 0) {
+      return override;
+    }
+    if (!model) {
+      return FALLBACK_CONTEXT_WINDOW;
+    }
+    if (typeof model.contextWindow === 'number' && model.contextWindow > 0) {
+      return model.contextWindow;
+    }
+    if ((model.provider || '').toLowerCase() === 'ollama') {
+      return ollamaContextWindow && ollamaContextWindow > 0 ? ollamaContextWindow : OLLAMA_DEFAULT_CONTEXT_WINDOW;
+    }
+
+    const known = MODEL_CONTEXT_WINDOWS.find(entry => entry.pattern.test(model.name || ''));
+    return known ? known.tokens : FALLBACK_CONTEXT_WINDOW;
+  }
+
+  /**
+   * Tokens left for context. The response keeps at most half of the window.
+   */
+  static getBudget(options: ContextBudgetOptions): ContextBudget {
+    const contextWindow = this.resolveContextWindow(options.model, options.persona, options.ollamaContextWindow);
+    const requestedResponse = options.persona?.model_settings?.max_tokens || DEFAULT_RESPONSE_TOKENS;
+    const responseTokens = Math.min(requestedResponse, Math.floor(contextWindow / 2));
+
+    const reservedTokens =
+      this.estimateTextTokens(options.persona?.system_prompt || '') +
+      this.estimateTextTokens(CitationFormatter.buildSourcesMessage('')) +
+      this.estimateTextTokens(options.question || '') +
+      (options.history || []).reduce((sum, message) => sum + this.estimateTextTokens(message.content), 0);
+
+    return {
+      contextWindow,
+      responseTokens,
+      reservedTokens,
+      availableTokens: Math.max(0, contextWindow - responseTokens - reservedTokens),
+    };
+  }
+
+  /**
+   * Keep chunks in rank order within the budget, trimming the first one that does not fit
+   */
+  static fitChunks(chunks: DocumentChunk[], budgetTokens: number): ChunkContextResult {
+    const kept: DocumentChunk[] = [];
+    const dropped: DroppedContextItem[] = [];
+    const trimmed: DroppedContextItem[] = [];
+    let usedTokens = 0;
+
+    chunks.forEach((chunk, index) => {
+      const tokens = this.estimateChunkTokens(chunk) + CHUNK_OVERHEAD_TOKENS;
+      const item = { label: CitationFormatter.getChunkLabel(chunk), rank: index + 1, tokens };
+      const remaining = budgetTokens - usedTokens;
+
+      if (dropped.length === 0 && trimmed.length === 0 && tokens <= remaining) {
+        kept.push(chunk);
+        usedTokens += tokens;
+        return;
+      }
+
+      // Once a chunk does not fit, every lower-ranked chunk is left out too
+      const contentTokens = remaining - CHUNK_OVERHEAD_TOKENS;
+      if (dropped.length === 0 && trimmed.length === 0 && contentTokens >= MIN_TRIMMED_CHUNK_TOKENS) {
+        kept.push({
+          ...chunk,
+          content: this.truncateText(chunk.content, contentTokens),
+          metadata: { ...chunk.metadata, context_trimmed: true },
+        });
+        usedTokens += remaining;
+        trimmed.push(item);
+        return;
+      }
+
+      dropped.push(item);
+    });
+
+    return { chunks: kept, usedTokens, budgetTokens, dropped, trimmed };
+  }
+
+  /**
+   * Share the budget across uploaded documents; short documents leave their unused share to the others
+   */
+  static fitDocuments(results: DocumentProcessingResult[], budgetTokens: number): DocumentContextResult {
+    const trimmed: DroppedContextItem[] = [];
+    const fitted: DocumentProcessingResult[] = results.map(result => ({ ...result }));
+    const order = results
+      .map((result, index) => ({ index, tokens: this.estimateTextTokens(result.extracted_text) }))
+      .sort((a, b) => a.tokens - b.tokens);
+
+    let remaining = budgetTokens;
+    let usedTokens = 0;
+
+    order.forEach((entry, position) => {
+      const share = Math.floor(remaining / (order.length - position));
+      const result = results[entry.index];
+
+      if (entry.tokens > share) {
+        fitted[entry.index].extracted_text = this.truncateText(result.extracted_text, share);
+        trimmed.push({ label: result.filename, rank: entry.index + 1, tokens: entry.tokens });
+      }
+
+      const used = Math.min(entry.tokens, share);
+      remaining -= used;
+      usedTokens += used;
+    });
+
+    trimmed.sort((a, b) => a.rank - b.rank);
+    return { results: fitted, usedTokens, budgetTokens, trimmed };
+  }
+
+  static toReport(budget: ContextBudget, result: ChunkContextResult): ContextBudgetReport {
+    return {
+      context_window: budget.contextWindow,
+      budget_tokens: result.budgetTokens,
+      used_tokens: result.usedTokens,
+      dropped: result.dropped,
+      trimmed: result.trimmed,
+    };
+  }
+
+  /**
+   * Cut text to roughly the given number of tokens, preferring a word boundary
+   */
+  static truncateText(text: string, maxTokens: number): string {
+    const maxChars = Math.max(0, maxTokens) * CHARS_PER_TOKEN;
+    if (!text || text.length <= maxChars) {
+      return text;
+    }
+
+    const cut = text.slice(0, Math.max(0, maxChars - 1));
+    const lastSpace = cut.lastIndexOf(' ');
+    return `${lastSpace > maxChars * 0.8 ? cut.slice(0, lastSpace) : cut}…`;
+  }
+}
@@ -0,0 +1,137 @@
+import { PinnedContextService, PinnedContextItem } from './PinnedContextService';
+import type { DocumentChunk } from '../../braindrive-plugin/pluginTypes';
+
+const makeChunk = (id: string, documentId = 'doc-1', overrides: Partial<DocumentChunk> = {}): DocumentChunk => ({
+  id,
+  document_id: documentId,
+  collection_id: 'coll-1',
+  content: `content ${id}`,
+  chunk_index: 0,
+  chunk_type: 'text',
+  metadata: { chunk_token_count: 100 },
+  ...overrides,
+});
+
+describe('PinnedContextService', () => {
+  let settings: { getSetting: jest.Mock; setSetting: jest.Mock };
+  let documentReader: { loadChunks: jest.Mock };
+  let service: PinnedContextService;
+
+  const documentPin = PinnedContextService.createDocumentPin({
+    id: 'doc-1',
+    original_filename: 'q3-report.pdf',
+    collection_id: 'coll-1',
+  });
+  const chunkPin = PinnedContextService.createChunkPin(makeChunk('c7', 'doc-2'));
+
+  beforeEach(() => {
+    settings = { getSetting: jest.fn(), setSetting: jest.fn() };
+    documentReader = { loadChunks: jest.fn() };
+    service = new PinnedContextService({ settings, documentReader });
+  });
+
+  describe('loadPins / savePins', () => {
+    it('should persist pins under the conversation key', async () => {
+      await service.savePins('conv-1', [documentPin]);
+
+      expect(settings.setSetting).toHaveBeenCalledWith(
+        'chat_with_docs_pinned_context_conv-1',
+        { pins: [documentPin] }
+      );
+    });
+
+    it('should clear the pins of a deleted conversation', async () => {
+      await service.deletePins('conv-1');
+      settings.getSetting.mockResolvedValue(null);
+
+      expect(settings.setSetting).toHaveBeenCalledWith('chat_with_docs_pinned_context_conv-1', null);
+      expect(await service.loadPins('conv-1')).toEqual([]);
+    });
+
+    it('should drop malformed pins when loading', async () => {
+      settings.getSetting.mockResolvedValue({
+        pins: [documentPin, { id: 'chunk:x', type: 'chunk', documentId: 'doc-2' }, null],
+      });
+
+      expect(await service.loadPins('conv-1')).toEqual([documentPin]);
+    });
+
+    it('should return no pins when the setting cannot be read', async () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+      settings.getSetting.mockRejectedValue(new Error('offline'));
+
+      expect(await service.loadPins('conv-1')).toEqual([]);
+      errorSpy.mockRestore();
+    });
+  });
+
+  describe('resolveChunks', () => {
+    it('should expand document pins and select chunk pins', async () => {
+      documentReader.loadChunks.mockImplementation(async (documentId: string) => (
+        documentId === 'doc-1'
+          ? [makeChunk('c1'), makeChunk('c2')]
+          : [makeChunk('c6', 'doc-2'), makeChunk('c7', 'doc-2')]
+      ));
+
+      const chunks = await service.resolveChunks([chunkPin, documentPin]);
+
+      expect(chunks.map(c => c.id)).toEqual(['c7', 'c1', 'c2']);
+      expect(chunks.every(c => c.metadata.pinned)).toBe(true);
+      expect(chunks[1].metadata.document_filename).toBe('q3-report.pdf');
+    });
+
+    it('should skip pins whose document fails to load', async () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+      documentReader.loadChunks.mockImplementation(async (documentId: string) => {
+        if (documentId === 'doc-1') throw new Error('deleted');
+        return [makeChunk('c7', 'doc-2')];
+      });
+
+      const chunks = await service.resolveChunks([documentPin, chunkPin]);
+
+      expect(chunks.map(c => c.id)).toEqual(['c7']);
+      warnSpy.mockRestore();
+    });
+  });
+
+  describe('togglePin', () => {
+    it('should add and remove a pin', () => {
+      const pinned = PinnedContextService.togglePin([], documentPin);
+      expect(PinnedContextService.isDocumentPinned(pinned, 'doc-1')).toBe(true);
+
+      const unpinned = PinnedContextService.togglePin(pinned, { ...documentPin, pinnedAt: 'later' });
+      expect(unpinned).toEqual([]);
+    });
+
+    it('should track chunk pins separately from document pins', () => {
+      const pins: PinnedContextItem[] = [chunkPin];
+      expect(PinnedContextService.isChunkPinned(pins, 'c7')).toBe(true);
+      expect(PinnedContextService.isDocumentPinned(pins, 'doc-2')).toBe(false);
+    });
+  });
+
+  describe('mergeWithRetrieved', () => {
+    it('should put pinned chunks first and remove duplicates', () => {
+      const result = PinnedContextService.mergeWithRetrieved(
+        [makeChunk('p1'), makeChunk('p2'), makeChunk('p1')],
+        [makeChunk('r1'), makeChunk('p2'), makeChunk('r2')]
+      );
+
+      expect(result.chunks.map(c => c.id)).toEqual(['p1', 'p2', 'r1', 'r2']);
+      expect(result.pinnedCount).toBe(2);
+      expect(result.pinnedTokens).toBe(200);
+    });
+
+    it('should drop pinned chunks beyond the token budget but keep retrieved ones', () => {
+      const result = PinnedContextService.mergeWithRetrieved(
+        [makeChunk('p1'), makeChunk('p2'), makeChunk('p3')],
+        [makeChunk('p3'), makeChunk('r1')],
+        250
+      );
+
+      expect(result.chunks.map(c => c.id)).toEqual(['p1', 'p2', 'p3', 'r1']);
+      expect(result.pinnedCount).toBe(2);
+      expect(result.droppedPinnedCount).toBe(1);
+    });
+  });
+});
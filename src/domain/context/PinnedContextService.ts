@@ -0,0 +1,218 @@
+import type { Document, DocumentChunk } from '../../braindrive-plugin/pluginTypes';
+import type { DocumentReaderService } from '../documents';
+import { SETTINGS_KEYS } from '../../constants';
+import { ContextBudgetBuilder } from './ContextBudgetBuilder';
+
+/**
+ * Document or single chunk pinned to a conversation
+ */
+export interface PinnedContextItem {
+  id: string;
+  type: 'document' | 'chunk';
+  documentId: string;
+  documentName?: string;
+  collectionId?: string;
+  /** Set for chunk pins only */
+  chunkId?: string;
+  chunkIndex?: number;
+  pinnedAt: string;
+}
+
+/**
+ * Pinned chunks merged ahead of retrieved ones
+ */
+export interface PinnedContextMergeResult {
+  chunks: DocumentChunk[];
+  pinnedCount: number;
+  /** Pinned chunks left out because they did not fit the token budget */
+  droppedPinnedCount: number;
+  pinnedTokens: number;
+}
+
+/**
+ * Dependencies for PinnedContextService
+ */
+export interface PinnedContextServiceDeps {
+  settings: any;
+  documentReader: Pick<DocumentReaderService, 'loadChunks'>;
+}
+
+/**
+ * Tokens reserved for pinned chunks in each prompt
+ */
+export const DEFAULT_PINNED_TOKEN_BUDGET = 3000;
+
+/**
+ * PinnedContextService keeps documents and chunks pinned to a conversation.
+ *
+ * Responsibilities:
+ * - Load and save pins per conversation via the settings service
+ * - Resolve pins into chunks (a pinned document contributes all its chunks)
+ * - Place pinned chunks ahead of retrieved ones, de-duplicated and within a token budget
+ */
+export class PinnedContextService {
+  constructor(private deps: PinnedContextServiceDeps) {}
+
+  /**
+   * Settings key for a conversation's pins
+   */
+  getSettingKey(conversationId: string): string {
+    return `${SETTINGS_KEYS.PINNED_CONTEXT}_${conversationId}`;
+  }
+
+  /**
+   * Load a conversation's pins; an unreadable setting yields no pins
+   */
+  async loadPins(conversationId: string): Promise<PinnedContextItem[]> {
+    if (!this.deps.settings?.getSetting) {
+      return [];
+    }
+
+    try {
+      const saved = await this.deps.settings.getSetting(this.getSettingKey(conversationId));
+      const pins = saved && Array.isArray(saved.pins) ? saved.pins : [];
+      return pins.filter((pin: any) =>
+        pin && pin.id && pin.documentId && (pin.type === 'document' || (pin.type === 'chunk' && pin.chunkId))
+      );
+    } catch (error) {
+      console.error('Error loading pinned context:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Persist a conversation's pins
+   */
+  async savePins(conversationId: string, pins: PinnedContextItem[]): Promise<void> {
+    if (!this.deps.settings?.setSetting) {
+      throw new Error('Settings service not available');
+    }
+
+    await this.deps.settings.setSetting(this.getSettingKey(conversationId), { pins });
+  }
+
+  /**
+   * Drop a deleted conversation's pins. The settings service cannot remove
+   * a key, so its value is cleared.
+   */
+  async deletePins(conversationId: string): Promise<void> {
+    if (!this.deps.settings?.setSetting) {
+      throw new Error('Settings service not available');
+    }
+
+    await this.deps.settings.setSetting(this.getSettingKey(conversationId), null);
+  }
+
+  /**
+   * Resolve pins into chunks in pin order. Pins whose document cannot be loaded are skipped.
+   */
+  async resolveChunks(pins: PinnedContextItem[]): Promise<DocumentChunk[]> {
+    const resolved = await Promise.all(pins.map(async pin => {
+      try {
+        const chunks = await this.deps.documentReader.loadChunks(pin.documentId);
+        const selected = pin.type === 'document'
+          ? chunks
+          : chunks.filter(chunk => chunk.id === pin.chunkId);
+        return selected.map(chunk => PinnedContextService.markPinned(chunk, pin));
+      } catch (error) {
+        console.warn(`Failed to load pinned document ${pin.documentName || pin.documentId}:`, error);
+        return [];
+      }
+    }));
+
+    return resolved.reduce<DocumentChunk[]>((all, chunks) => all.concat(chunks), []);
+  }
+
+  static createDocumentPin(document: Pick<Document, 'id' | 'original_filename' | 'collection_id'>): PinnedContextItem {
+    return {
+      id: `document:${document.id}`,
+      type: 'document',
+      documentId: document.id,
+      documentName: document.original_filename,
+      collectionId: document.collection_id,
+      pinnedAt: new Date().toISOString(),
+    };
+  }
+
+  static createChunkPin(chunk: DocumentChunk): PinnedContextItem {
+    return {
+      id: `chunk:${chunk.id}`,
+      type: 'chunk',
+      documentId: chunk.document_id,
+      documentName: chunk.metadata?.document_filename,
+      collectionId: chunk.collection_id,
+      chunkId: chunk.id,
+      chunkIndex: chunk.chunk_index,
+      pinnedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Add the pin, or remove it when it is already pinned
+   */
+  static togglePin(pins: PinnedContextItem[], pin: PinnedContextItem): PinnedContextItem[] {
+    return pins.some(existing => existing.id === pin.id)
+      ? pins.filter(existing => existing.id !== pin.id)
+      : [...pins, pin];
+  }
+
+  static isDocumentPinned(pins: PinnedContextItem[], documentId: string): boolean {
+    return pins.some(pin => pin.type === 'document' && pin.documentId === documentId);
+  }
+
+  static isChunkPinned(pins: PinnedContextItem[], chunkId: string): boolean {
+    return pins.some(pin => pin.type === 'chunk' && pin.chunkId === chunkId);
+  }
+
+  /**
+   * Put pinned chunks first, drop duplicates, and stop adding pinned chunks once the budget is spent.
+   * Retrieved chunks are kept in their ranked order after the pinned ones.
+   */
+  static mergeWithRetrieved(
+    pinnedChunks: DocumentChunk[],
+    retrievedChunks: DocumentChunk[],
+    tokenBudget: number = DEFAULT_PINNED_TOKEN_BUDGET
+  ): PinnedContextMergeResult {
+    const seen = new Set<string>();
+    const pinned: DocumentChunk[] = [];
+    let pinnedTokens = 0;
+    let droppedPinnedCount = 0;
+
+    pinnedChunks.forEach(chunk => {
+      if (seen.has(chunk.id)) return;
+      const tokens = ContextBudgetBuilder.estimateChunkTokens(chunk);
+      if (pinnedTokens + tokens > tokenBudget) {
+        droppedPinnedCount++;
+        return;
+      }
+      seen.add(chunk.id);
+      pinned.push(chunk);
+      pinnedTokens += tokens;
+    });
+
+    const retrieved = retrievedChunks.filter(chunk => {
+      if (!chunk.id) return true;
+      if (seen.has(chunk.id)) return false;
+      seen.add(chunk.id);
+      return true;
+    });
+
+    return {
+      chunks: [...pinned, ...retrieved],
+      pinnedCount: pinned.length,
+      droppedPinnedCount,
+      pinnedTokens,
+    };
+  }
+
+  private static markPinned(chunk: DocumentChunk, pin: PinnedContextItem): DocumentChunk {
+    return {
+      ...chunk,
+      metadata: {
+        ...chunk.metadata,
+        document_filename: chunk.metadata?.document_filename || pin.documentName,
+        pinned: true,
+      },
+    };
+  }
+}
@@ -0,0 +1,20 @@
+export { PinnedContextService, DEFAULT_PINNED_TOKEN_BUDGET } from './PinnedContextService';
+export type {
+  PinnedContextItem,
+  PinnedContextMergeResult,
+  PinnedContextServiceDeps,
+} from './PinnedContextService';
+export {
+  ContextBudgetBuilder,
+  DEFAULT_RESPONSE_TOKENS,
+  OLLAMA_DEFAULT_CONTEXT_WINDOW,
+  FALLBACK_CONTEXT_WINDOW,
+} from './ContextBudgetBuilder';
+export type {
+  ContextBudget,
+  ContextBudgetOptions,
+  ContextBudgetReport,
+  ChunkContextResult,
+  DocumentContextResult,
+  DroppedContextItem,
+} from './ContextBudgetBuilder';
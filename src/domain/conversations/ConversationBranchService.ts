@@ -0,0 +1,241 @@
+import type { ChatMessage } from '../../braindrive-plugin/pluginTypes';
+import { SETTINGS_KEYS } from '../../constants';
+
+/**
+ * Anchor of branch points whose alternatives start the conversation
+ */
+export const ROOT_ANCHOR_ID = '__root__';
+
+/**
+ * Place where a conversation forked: the message the alternatives follow
+ * and every alternative tail from there to the end of the conversation
+ */
+export interface BranchPoint {
+  anchorId: string;
+  variants: ChatMessage[][];
+  activeIndex: number;
+}
+
+/**
+ * "< 2/3 >" navigation shown on the first message of an active tail
+ */
+export interface BranchNavigation {
+  anchorId: string;
+  index: number;
+  count: number;
+}
+
+/**
+ * Active path plus branch points, saved per conversation
+ */
+export interface ConversationBranchSnapshot {
+  messages: ChatMessage[];
+  branchPoints: BranchPoint[];
+  // Most recent answer in any branch; the backend's last message must match it
+  lastAnswer: string;
+  savedAt: string;
+}
+
+export interface BranchUpdate {
+  messages: ChatMessage[];
+  branchPoints: BranchPoint[];
+}
+
+/**
+ * Dependencies for ConversationBranchService
+ */
+export interface ConversationBranchServiceDeps {
+  settings: any;
+}
+
+/**
+ * ConversationBranchService keeps alternatives when a message is edited or
+ * an answer regenerated.
+ *
+ * The chat keeps showing a single active path; each branch point holds the
+ * other tails, including their retrieved context. The backend stores every
+ * message in order, so the tree is saved per conversation via the settings
+ * service and used on reload only while it still matches the backend.
+ */
+export class ConversationBranchService {
+  constructor(private deps: ConversationBranchServiceDeps) {}
+
+  /**
+   * Settings key for a conversation's branches
+   */
+  getSettingKey(conversationId: string): string {
+    return `${SETTINGS_KEYS.CONVERSATION_BRANCHES}_${conversationId}`;
+  }
+
+  async loadSnapshot(conversationId: string): Promise<ConversationBranchSnapshot | null> {
+    if (!this.deps.settings?.getSetting) {
+      return null;
+    }
+
+    try {
+      const saved = await this.deps.settings.getSetting(this.getSettingKey(conversationId));
+      return saved && Array.isArray(saved.messages) && Array.isArray(saved.branchPoints)
+        ? saved
+        : null;
+    } catch (error) {
+      console.error('Error loading conversation branches:', error);
+      return null;
+    }
+  }
+
+  async saveSnapshot(conversationId: string, update: BranchUpdate): Promise<void> {
+    if (!this.deps.settings?.setSetting) {
+      throw new Error('Settings service not available');
+    }
+
+    await this.deps.settings.setSetting(
+      this.getSettingKey(conversationId),
+      ConversationBranchService.createSnapshot(update)
+    );
+  }
+
+  /**
+   * Drop a deleted conversation's branches. The settings service cannot
+   * remove a key, so its value is cleared.
+   */
+  async deleteSnapshot(conversationId: string): Promise<void> {
+    if (!this.deps.settings?.setSetting) {
+      throw new Error('Settings service not available');
+    }
+
+    await this.deps.settings.setSetting(this.getSettingKey(conversationId), null);
+  }
+
+  /**
+   * Replace the tail starting at `tailStart` with `newTail`, keeping the
+   * current tail as a sibling
+   */
+  static fork(messages: ChatMessage[], branchPoints: BranchPoint[], tailStart: number, newTail: ChatMessage[]): BranchUpdate {
+    const anchorId = tailStart > 0 ? messages[tailStart - 1].id : ROOT_ANCHOR_ID;
+    const currentTail = messages.slice(tailStart);
+    const existing = branchPoints.find(point => point.anchorId === anchorId);
+
+    const variants = existing ? existing.variants.slice() : [];
+    if (existing) {
+      variants[existing.activeIndex] = currentTail;
+    } else {
+      variants.push(currentTail);
+    }
+    variants.push(newTail);
+
+    const point: BranchPoint = { anchorId, variants, activeIndex: variants.length - 1 };
+    return {
+      messages: messages.slice(0, tailStart).concat(newTail),
+      branchPoints: branchPoints.filter(other => other !== existing).concat(point),
+    };
+  }
+
+  /**
+   * Show another sibling at a branch point, or null when its anchor is not on the active path
+   */
+  static switchTo(messages: ChatMessage[], branchPoints: BranchPoint[], anchorId: string, index: number): BranchUpdate | null {
+    const point = branchPoints.find(candidate => candidate.anchorId === anchorId);
+    const tailStart = this.getTailStart(messages, anchorId);
+    if (!point || tailStart === -1 || index < 0 || index >= point.variants.length) {
+      return null;
+    }
+
+    const variants = point.variants.slice();
+    variants[point.activeIndex] = messages.slice(tailStart);
+    return {
+      messages: messages.slice(0, tailStart).concat(variants[index]),
+      branchPoints: branchPoints.map(candidate =>
+        candidate === point ? { anchorId, variants, activeIndex: index } : candidate
+      ),
+    };
+  }
+
+  /**
+   * Navigation per message id, on the first chat message of each active tail
+   */
+  static getNavigation(messages: ChatMessage[], branchPoints: BranchPoint[]): Record<string, BranchNavigation> {
+    const navigation: Record<string, BranchNavigation> = {};
+
+    branchPoints.forEach(point => {
+      const tailStart = this.getTailStart(messages, point.anchorId);
+      if (tailStart === -1 || point.variants.length < 2) return;
+
+      for (let i = tailStart; i < messages.length; i++) {
+        if (!this.isContextMessage(messages[i])) {
+          navigation[messages[i].id] = {
+            anchorId: point.anchorId,
+            index: point.activeIndex,
+            count: point.variants.length,
+          };
+          return;
+        }
+      }
+    });
+
+    return navigation;
+  }
+
+  /**
+   * Snapshot with the active tails brought up to date and streaming flags cleared
+   */
+  static createSnapshot(update: BranchUpdate, savedAt: Date = new Date()): ConversationBranchSnapshot {
+    const settle = (tail: ChatMessage[]) => tail.map(message =>
+      message.isStreaming ? { ...message, isStreaming: false } : message
+    );
+
+    const branchPoints = update.branchPoints.map(point => {
+      const tailStart = this.getTailStart(update.messages, point.anchorId);
+      const variants = point.variants.slice();
+      if (tailStart !== -1) {
+        variants[point.activeIndex] = update.messages.slice(tailStart);
+      }
+      return { ...point, variants: variants.map(settle) };
+    });
+
+    const answers = update.messages
+      .concat(...branchPoints.map(point => point.variants.reduce((all, tail) => all.concat(tail), [] as ChatMessage[])))
+      .filter(message => message.sender === 'ai' && !this.isContextMessage(message) && message.content);
+    const lastAnswer = answers.reduce<ChatMessage | null>(
+      (latest, message) => (!latest || message.timestamp > latest.timestamp ? message : latest),
+      null
+    );
+
+    return {
+      messages: settle(update.messages),
+      branchPoints,
+      lastAnswer: lastAnswer ? lastAnswer.content : '',
+      savedAt: savedAt.toISOString(),
+    };
+  }
+
+  /**
+   * The saved tree, if the backend's last answer is still the latest one it knows;
+   * a conversation continued elsewhere falls back to the backend's linear history
+   */
+  static restore(snapshot: ConversationBranchSnapshot | null, loadedMessages: ChatMessage[]): BranchUpdate | null {
+    if (!snapshot || snapshot.branchPoints.length === 0) return null;
+
+    const lastLoaded = loadedMessages
+      .filter(message => message.sender === 'ai' && !this.isContextMessage(message))
+      .pop();
+    if (!lastLoaded || this.normalize(lastLoaded.content) !== this.normalize(snapshot.lastAnswer)) {
+      return null;
+    }
+
+    return { messages: snapshot.messages, branchPoints: snapshot.branchPoints };
+  }
+
+  private static getTailStart(messages: ChatMessage[], anchorId: string): number {
+    if (anchorId === ROOT_ANCHOR_ID) return 0;
+    const anchorIndex = messages.findIndex(message => message.id === anchorId);
+    return anchorIndex === -1 ? -1 : anchorIndex + 1;
+  }
+
+  private static isContextMessage(message: ChatMessage): boolean {
+    return !!(message.isRetrievedContext || message.isDocumentContext || message.isSearchResults);
+  }
+
+  private static normalize(text: string): string {
+    return (text || '').replace(/\s+/g, ' ').trim();
+  }
+}
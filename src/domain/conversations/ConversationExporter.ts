@@ -0,0 +1,355 @@
+import type { ChatMessage, DocumentChunk } from '../../braindrive-plugin/pluginTypes';
+import type { ExportedFile } from '../../utils';
+import { CitationFormatter } from '../citations';
+
+export type ConversationExportFormat = 'markdown' | 'html' | 'json';
+
+/**
+ * Marks a JSON file as an exported conversation; bumped when the shape changes
+ */
+export const CONVERSATION_EXPORT_FORMAT = 'braindrive-chat-with-docs-conversation';
+export const CONVERSATION_EXPORT_VERSION = 1;
+
+/**
+ * A conversation as shown in the chat, with the model and persona it used
+ */
+export interface ConversationExportInput {
+  conversation: {
+    id: string;
+    title?: string;
+    created_at: string;
+    updated_at?: string;
+  };
+  model: { name: string; provider?: string; serverName?: string } | null;
+  persona: { id: string; name: string } | null;
+  messages: ChatMessage[];
+}
+
+/**
+ * A retrieved chunk an answer was given, numbered as the answer cites it
+ */
+export interface ExportedSource {
+  number: number;
+  cited: boolean;
+  chunk_id: string;
+  document_id: string;
+  document_name: string;
+  collection_id: string;
+  collection_name?: string;
+  chunk_index: number;
+  content: string;
+}
+
+export interface ExportedMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: string;
+  sources?: ExportedSource[];
+}
+
+/**
+ * The JSON export, which ConversationImportService can restore
+ */
+export interface ConversationExportData {
+  format: typeof CONVERSATION_EXPORT_FORMAT;
+  version: number;
+  exported_at: string;
+  conversation: {
+    id: string;
+    title: string;
+    created_at: string;
+    updated_at?: string;
+    model: string | null;
+    provider: string | null;
+    server: string | null;
+    persona: { id: string; name: string } | null;
+  };
+  messages: ExportedMessage[];
+}
+
+const FILE_EXTENSIONS: Record<ConversationExportFormat, string> = {
+  markdown: 'md',
+  html: 'html',
+  json: 'json',
+};
+
+const MIME_TYPES: Record<ConversationExportFormat, string> = {
+  markdown: 'text/markdown;charset=utf-8',
+  html: 'text/html;charset=utf-8',
+  json: 'application/json',
+};
+
+const EXCERPT_LENGTH = 300;
+
+const PRINT_STYLES = `
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; color: #111827; margin: 0; padding: 32px; line-height: 1.5; }
+  main { max-width: 760px; margin: 0 auto; }
+  h1 { font-size: 22px; margin: 0 0 8px; }
+  .meta { color: #6b7280; font-size: 13px; margin: 0 0 24px; }
+  .message { border-top: 1px solid #e5e7eb; padding: 12px 0; break-inside: avoid; page-break-inside: avoid; }
+  .role { font-size: 12px; font-weight: 600; text-transform: uppercase; color: #6b7280; }
+  .role time { font-weight: 400; text-transform: none; margin-left: 8px; }
+  .content { white-space: pre-wrap; font-size: 14px; margin-top: 4px; }
+  .user .content { font-weight: 500; }
+  .sources { margin: 8px 0 0; padding-left: 20px; font-size: 12px; color: #374151; }
+  .sources li { margin-bottom: 6px; }
+  .sources blockquote { margin: 2px 0 0; color: #6b7280; }
+  .uncited { color: #9ca3af; }
+  @page { margin: 2cm; }
+  @media print { body { padding: 0; } }
+`;
+
+/**
+ * ConversationExporter writes a conversation and the sources behind its
+ * answers to files that make sense outside BrainDrive: Markdown, an HTML
+ * page laid out for printing to PDF, and JSON that can be imported again.
+ */
+export class ConversationExporter {
+  static export(input: ConversationExportInput, format: ConversationExportFormat, exportedAt: Date = new Date()): ExportedFile {
+    const data = this.toData(input, exportedAt);
+    const content = format === 'json'
+      ? JSON.stringify(data, null, 2)
+      : format === 'markdown'
+        ? this.toMarkdown(data)
+        : this.toHtml(data);
+
+    return { content, fileName: this.getFileName(data, format), mimeType: MIME_TYPES[format] };
+  }
+
+  static getFileName(data: ConversationExportData, format: ConversationExportFormat): string {
+    const slug = data.conversation.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 50);
+    const date = (data.conversation.updated_at || data.conversation.created_at || '').slice(0, 10) || 'undated';
+    return `conversation-${slug || data.conversation.id.slice(0, 8)}-${date}.${FILE_EXTENSIONS[format]}`;
+  }
+
+  /**
+   * The chat's messages without context messages; each answer carries the
+   * chunks it was given and which of them it cited
+   */
+  static toData(input: ConversationExportInput, exportedAt: Date = new Date()): ConversationExportData {
+    const { conversation, model, persona, messages } = input;
+    const exported: ExportedMessage[] = [];
+
+    messages.forEach((message, index) => {
+      if (this.isContextMessage(message) || !message.content || !message.content.trim()) return;
+
+      const entry: ExportedMessage = {
+        role: message.sender === 'user' ? 'user' : 'assistant',
+        content: message.content,
+        timestamp: message.timestamp,
+      };
+      if (message.sender === 'ai') {
+        const chunks = this.getSourceChunks(messages, index);
+        if (chunks.length > 0) {
+          const cited = CitationFormatter.extractCitationNumbers(message.content, chunks.length);
+          entry.sources = chunks.map((chunk, chunkIndex) => this.toSource(chunk, chunkIndex + 1, cited));
+        }
+      }
+      exported.push(entry);
+    });
+
+    return {
+      format: CONVERSATION_EXPORT_FORMAT,
+      version: CONVERSATION_EXPORT_VERSION,
+      exported_at: exportedAt.toISOString(),
+      conversation: {
+        id: conversation.id,
+        title: conversation.title || 'Untitled conversation',
+        created_at: conversation.created_at,
+        updated_at: conversation.updated_at,
+        model: model ? model.name : null,
+        provider: model && model.provider ? model.provider : null,
+        server: model && model.serverName ? model.serverName : null,
+        persona: persona ? { id: persona.id, name: persona.name } : null,
+      },
+      messages: exported,
+    };
+  }
+
+  static toMarkdown(data: ConversationExportData): string {
+    const lines: string[] = [`# ${data.conversation.title}`, ''];
+    this.describe(data).forEach(entry => lines.push(`- **${entry.label}:** ${entry.value}`));
+
+    data.messages.forEach(message => {
+      lines.push('', `## ${message.role === 'user' ? 'You' : 'Assistant'} · ${this.formatDate(message.timestamp)}`, '', message.content);
+
+      const sources = message.sources || [];
+      if (sources.length > 0) {
+        lines.push('', '**Sources**', '');
+        sources.forEach(source => {
+          lines.push(`${source.number}. ${this.getSourceLabel(source)}${source.cited ? '' : ' _(not cited)_'}`);
+          if (source.cited) {
+            lines.push(`   > ${this.excerpt(source.content)}`);
+          }
+        });
+      }
+    });
+
+    return lines.join('\n') + '\n';
+  }
+
+  static toHtml(data: ConversationExportData): string {
+    const e = (value: string) => this.escapeHtml(value);
+    const meta = this.describe(data).map(entry => `${e(entry.label)}: ${e(entry.value)}`).join(' · ');
+
+    const messageBlocks = data.messages.map(message => {
+      const sources = message.sources || [];
+      const sourceList = sources.length === 0 ? '' : `<ol class="sources">${sources.map(source => {
+        const quote = source.cited ? `<blockquote>${e(this.excerpt(source.content))}</blockquote>` : '';
+        return `<li value="${source.number}"${source.cited ? '' : ' class="uncited"'}>${e(this.getSourceLabel(source))}${quote}</li>`;
+      }).join('')}</ol>`;
+
+      return `<section class="message ${message.role}"><div class="role">${message.role === 'user' ? 'You' : 'Assistant'}<time>${e(this.formatDate(message.timestamp))}</time></div><div class="content">${e(message.content)}</div>${sourceList}</section>`;
+    }).join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${e(data.conversation.title)}</title>
+<style>${PRINT_STYLES}</style>
+</head>
+<body>
+<main>
+<h1>${e(data.conversation.title)}</h1>
+<p class="meta">${meta}</p>
+${messageBlocks}
+</main>
+</body>
+</html>
+`;
+  }
+
+  /**
+   * Read a JSON export back, rejecting files that are not one
+   */
+  static parse(text: string): ConversationExportData {
+    let data: any;
+    try {
+      data = JSON.parse(text);
+    } catch (error) {
+      throw new Error('The file is not valid JSON');
+    }
+
+    if (!data || data.format !== CONVERSATION_EXPORT_FORMAT) {
+      throw new Error('The file is not an exported conversation');
+    }
+    if (typeof data.version !== 'number' || data.version > CONVERSATION_EXPORT_VERSION) {
+      throw new Error('The file was exported by a newer version of the plugin');
+    }
+    if (!data.conversation || typeof data.conversation !== 'object' || !Array.isArray(data.messages)) {
+      throw new Error('The file has no conversation or messages');
+    }
+
+    const messages: ExportedMessage[] = data.messages
+      .filter((message: any) =>
+        message &&
+        (message.role === 'user' || message.role === 'assistant') &&
+        typeof message.content === 'string' &&
+        message.content.trim()
+      )
+      .map((message: any) => ({
+        role: message.role,
+        content: message.content,
+        timestamp: typeof message.timestamp === 'string' ? message.timestamp : '',
+        sources: Array.isArray(message.sources)
+          ? message.sources.filter((source: any) => source && typeof source.content === 'string')
+          : undefined,
+      }));
+    if (messages.length === 0) {
+      throw new Error('The conversation has no messages');
+    }
+
+    return { ...data, messages };
+  }
+
+  /**
+   * Sources back in the shape retrieval returns them, for restoring provenance
+   */
+  static toChunks(sources: ExportedSource[]): DocumentChunk[] {
+    return sources
+      .slice()
+      .sort((a, b) => a.number - b.number)
+      .map(source => ({
+        id: source.chunk_id,
+        document_id: source.document_id,
+        collection_id: source.collection_id,
+        content: source.content,
+        chunk_index: source.chunk_index,
+        chunk_type: 'text',
+        metadata: {
+          document_filename: source.document_name,
+          collection_name: source.collection_name,
+        },
+      }));
+  }
+
+  /**
+   * Chunks of the retrieved-context message an answer cites, or of the one
+   * just before it
+   */
+  private static getSourceChunks(messages: ChatMessage[], answerIndex: number): DocumentChunk[] {
+    const answer = messages[answerIndex];
+    const source = answer.citationSourceId
+      ? messages.find(message => message.id === answer.citationSourceId)
+      : answerIndex > 0 && messages[answerIndex - 1].isRetrievedContext
+        ? messages[answerIndex - 1]
+        : undefined;
+    return source && source.retrievalData ? source.retrievalData.chunks || [] : [];
+  }
+
+  private static toSource(chunk: DocumentChunk, number: number, cited: number[]): ExportedSource {
+    const metadata = chunk.metadata || {};
+    return {
+      number,
+      cited: cited.indexOf(number) !== -1,
+      chunk_id: chunk.id,
+      document_id: chunk.document_id,
+      document_name: metadata.relative_path || metadata.document_filename || 'Unknown document',
+      collection_id: chunk.collection_id,
+      collection_name: metadata.collection_name,
+      chunk_index: chunk.chunk_index,
+      content: chunk.content,
+    };
+  }
+
+  private static getSourceLabel(source: ExportedSource): string {
+    const label = `${source.document_name} · chunk #${source.chunk_index}`;
+    return source.collection_name ? `${source.collection_name} · ${label}` : label;
+  }
+
+  private static describe(data: ConversationExportData): Array<{ label: string; value: string }> {
+    const { conversation } = data;
+    const model = [conversation.model, conversation.provider].filter(Boolean).join(' · ');
+    return [
+      { label: 'Model', value: model },
+      { label: 'Persona', value: conversation.persona ? conversation.persona.name : '' },
+      { label: 'Created', value: this.formatDate(conversation.created_at) },
+      { label: 'Exported', value: this.formatDate(data.exported_at) },
+    ].filter(entry => entry.value);
+  }
+
+  private static excerpt(content: string): string {
+    const flat = (content || '').replace(/\s+/g, ' ').trim();
+    return flat.length > EXCERPT_LENGTH ? `${flat.slice(0, EXCERPT_LENGTH)}…` : flat;
+  }
+
+  private static formatDate(timestamp: string): string {
+    const date = new Date(timestamp);
+    return isNaN(date.getTime()) ? timestamp || '' : date.toLocaleString();
+  }
+
+  private static isContextMessage(message: ChatMessage): boolean {
+    return !!(message.isRetrievedContext || message.isDocumentContext || message.isSearchResults);
+  }
+
+  private static escapeHtml(value: string): string {
+    return (value || '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#039;');
+  }
+}
@@ -0,0 +1,128 @@
+import type { PersonaInfo } from '../../types';
+import { ConversationExporter, type ConversationExportData } from './ConversationExporter';
+import type { MessageProvenanceService, RetrievalProvenance } from './MessageProvenanceService';
+
+export interface ImportConversationOptions {
+  userId: string;
+  conversationType?: string;
+  pageId?: string | null;
+  // The exported persona is kept only when one with the same id exists here
+  personas?: PersonaInfo[];
+}
+
+export interface ImportConversationResult {
+  conversationId: string;
+  title: string;
+  messageCount: number;
+  sourceCount: number;
+}
+
+/**
+ * Dependencies for ConversationImportService
+ */
+export interface ConversationImportServiceDeps {
+  api: any;
+  provenanceService?: MessageProvenanceService;
+}
+
+/**
+ * ConversationImportService restores a conversation from a JSON export.
+ *
+ * The conversation and its messages are recreated through the conversations
+ * API in their original order; the sources of each answer are saved as
+ * retrieval provenance, so citations work again when it is opened.
+ */
+export class ConversationImportService {
+  constructor(private deps: ConversationImportServiceDeps) {}
+
+  async importConversation(data: ConversationExportData, options: ImportConversationOptions): Promise<ImportConversationResult> {
+    if (!this.deps.api) {
+      throw new Error('API service not available');
+    }
+
+    const { conversation } = data;
+    const persona = conversation.persona && (options.personas || []).some(item => item.id === conversation.persona!.id)
+      ? conversation.persona
+      : null;
+
+    const payload: Record<string, any> = {
+      user_id: options.userId,
+      title: conversation.title,
+      conversation_type: options.conversationType || 'chat',
+      model: conversation.model || undefined,
+      server: conversation.server || undefined,
+    };
+    if (options.pageId) {
+      payload.page_id = options.pageId;
+    }
+    if (persona) {
+      payload.persona_id = persona.id;
+    }
+
+    const created: any = await this.deps.api.post('/api/v1/conversations', payload);
+    const conversationId = created && (created.id || (created.data && created.data.id));
+    if (!conversationId) {
+      throw new Error('The conversation could not be created');
+    }
+
+    // One at a time: the backend orders messages by when they were stored
+    try {
+      for (const message of data.messages) {
+        await this.deps.api.post(`/api/v1/conversations/${conversationId}/messages`, {
+          sender: message.role === 'user' ? 'user' : 'llm',
+          message: message.content,
+        });
+      }
+    } catch (error) {
+      // Don't leave a half-imported conversation in the history
+      try {
+        await this.deps.api.delete(`/api/v1/conversations/${conversationId}`);
+      } catch (cleanupError) {
+        console.error(`Error removing partly imported conversation ${conversationId}:`, cleanupError);
+      }
+      throw error;
+    }
+
+    const turns = ConversationImportService.getProvenance(data);
+    if (turns.length > 0 && this.deps.provenanceService) {
+      try {
+        await this.deps.provenanceService.saveProvenance(conversationId, turns);
+      } catch (error) {
+        // The messages are already imported; only the source chips are lost
+        console.error('Error restoring sources of imported conversation:', error);
+      }
+    }
+
+    return {
+      conversationId,
+      title: conversation.title,
+      messageCount: data.messages.length,
+      sourceCount: turns.reduce((count, turn) => count + turn.chunks.length, 0),
+    };
+  }
+
+  /**
+   * A provenance turn for each answer with sources, keyed by the question before it
+   */
+  static getProvenance(data: ConversationExportData): RetrievalProvenance[] {
+    const turns: RetrievalProvenance[] = [];
+    let question: string | null = null;
+
+    data.messages.forEach(message => {
+      if (message.role === 'user') {
+        question = message.content;
+        return;
+      }
+      if (question !== null && message.sources && message.sources.length > 0) {
+        turns.push({
+          question,
+          chunks: ConversationExporter.toChunks(message.sources),
+          createdAt: message.timestamp || data.exported_at,
+        });
+      }
+      question = null;
+    });
+
+    return turns;
+  }
+}
@@ -5,6 +5,8 @@ import {
   PersonaInfo,
   ConversationWithPersona,
 } from './ConversationLoader';
+import { MessageProvenanceService } from './MessageProvenanceService';
+import { CitationFormatter } from '../citations';
 
 describe('ConversationLoader', () => {
   let loader: ConversationLoader;
@@ -57,6 +59,34 @@ describe('ConversationLoader', () => {
       expect(loader.cleanMessageContent(null as any)).toBe(null);
       expect(loader.cleanMessageContent(undefined as any)).toBe(undefined);
     });
+
+    it('should leave answers that mention the question marker alone', () => {
+      const answer = 'Use this template:\n\nUser Question: <your question>';
+      expect(loader.cleanMessageContent(answer)).toBe(answer);
+    });
+  });
+
+  describe('extractUserText', () => {
+    it('should recover the question from a stored citation prompt', () => {
+      const prompt = CitationFormatter.buildPrompt('How did Q3 go?', '[1] (report.pdf)\nRevenue grew.');
+      expect(loader.extractUserText(prompt)).toBe('How did Q3 go?');
+    });
+
+    it('should strip legacy document and web search context', () => {
+      expect(loader.extractUserText('Document Context:\nNotes\n\nUser Question: What is due?'))
+        .toBe('What is due?');
+      expect(loader.extractUserText('Latest news?\n\n[WEB SEARCH CONTEXT]\nResults'))
+        .toBe('Latest news?');
+    });
+
+    it('should strip the excerpt context stored by earlier versions', () => {
+      const stored = '\nExcerpt: 0\nRefunds take 30 days.\n\n, Excerpt: 1\nContact billing.\n\n\n\nUser Question: How long do refunds take?';
+      expect(loader.extractUserText(stored)).toBe('How long do refunds take?');
+    });
+
+    it('should keep plain questions unchanged', () => {
+      expect(loader.extractUserText('What is due on Friday?\nList them.')).toBe('What is due on Friday?\nList them.');
+    });
   });
 
   describe('loadConversationHistory', () => {
@@ -98,6 +128,23 @@ describe('ConversationLoader', () => {
       });
     });
 
+    it('should show only the question of a message stored with excerpt context', async () => {
+      mockApi.get.mockResolvedValue({
+        messages: [
+          {
+            id: 'msg1',
+            sender: 'user',
+            message: '\nExcerpt: 0\nInvoices are due on Friday.\n\n\n\nUser Question: When are invoices due?',
+            created_at: '2024-01-01T00:00:00Z',
+          },
+        ],
+      });
+
+      const result = await loader.loadConversationHistory('conv123');
+
+      expect(result.messages[0].content).toBe('When are invoices due?');
+    });
+
     it('should convert llm sender to ai', async () => {
       const mockResponse = {
         messages: [
@@ -152,6 +199,36 @@ describe('ConversationLoader', () => {
       expect(result.messages[0].content).toBe('Hello\n\nWorld');
     });
 
+    it('should restore retrieved context and citations from provenance', async () => {
+      const chunk = { id: 'chunk-1', document_id: 'doc-1', content: 'Revenue grew.', chunk_index: 0 } as any;
+      const provenanceService = new MessageProvenanceService({ settings: null });
+      jest.spyOn(provenanceService, 'loadProvenance').mockResolvedValue([
+        { question: 'How did Q3 go?', chunks: [chunk], intent: null, metadata: { top_k: 5 }, createdAt: '2024-01-01T00:00:00Z' },
+      ]);
+      const loaderWithProvenance = new ConversationLoader({ api: mockApi, aiService: mockAiService, provenanceService });
+      mockApi.get.mockResolvedValue({
+        messages: [
+          {
+            sender: 'user',
+            message: CitationFormatter.buildPrompt('How did Q3 go?', '[1] (report.pdf)\nRevenue grew.'),
+            created_at: '2024-01-01T00:00:00Z',
+          },
+          { sender: 'llm', message: 'It grew [1].', created_at: '2024-01-01T00:00:01Z' },
+        ],
+      });
+
+      const result = await loaderWithProvenance.loadConversationHistory('conv123');
+
+      expect(provenanceService.loadProvenance).toHaveBeenCalledWith('conv123');
+      expect(result.messages).toHaveLength(3);
+      expect(result.messages[0].content).toBe('How did Q3 go?');
+      expect(result.messages[1]).toMatchObject({
+        isRetrievedContext: true,
+        retrievalData: { chunks: [chunk], metadata: { top_k: 5 } },
+      });
+      expect(result.messages[2].citationSourceId).toBe(result.messages[1].id);
+    });
+
     it('should handle empty messages array', async () => {
       mockApi.get.mockResolvedValue({ messages: [] });
 
@@ -1,6 +1,9 @@
 import { generateId } from '../../utils';
 import { ModelKeyHelper } from '../../utils/ModelKeyHelper';
 import type { PersonaInfo } from '../../types';
+import type { DocumentChunk, IntentResponse } from '../../braindrive-plugin/pluginTypes';
+import { CitationFormatter } from '../citations';
+import { MessageProvenanceService } from './MessageProvenanceService';
 
 export type { PersonaInfo };
 
@@ -23,6 +26,14 @@ export interface ChatMessage {
   content: string;
   timestamp: string;
   isStreaming?: boolean;
+  isRetrievedContext?: boolean;
+  retrievalData?: {
+    chunks: DocumentChunk[];
+    context: string;
+    intent?: IntentResponse | null;
+    metadata?: Record<string, any>;
+  };
+  citationSourceId?: string;
 }
 
 /**
@@ -79,8 +90,16 @@ export interface LoadConversationOptions {
 export interface ConversationLoaderDeps {
   api: any;
   aiService: any;
+  // Restores the retrieved context of each answer; without it only text is loaded
+  provenanceService?: MessageProvenanceService;
 }
 
+/**
+ * Markers of the context older versions stored along with the user's question
+ */
+const LEGACY_QUESTION_MARKER = '\n\nUser Question: ';
+const LEGACY_WEB_SEARCH_MARKER = '\n\n[WEB SEARCH CONTEXT';
+
 /**
  * ConversationLoader handles loading conversation history and metadata.
  *
@@ -90,30 +109,46 @@ export interface ConversationLoaderDeps {
  * - Resolve model and persona from conversation data
  * - Update conversation persona
  * - Clean message content for display
+ * - Recover the user's question from stored prompts and restore retrieval provenance
  */
 export class ConversationLoader {
   constructor(private deps: ConversationLoaderDeps) {}
 
   /**
    * Clean message content for display.
-   * Normalizes line endings, removes excessive whitespace, and cleans legacy context.
+   * Normalizes line endings and removes excessive whitespace.
    */
   cleanMessageContent(content: string): string {
     if (!content) return content;
 
-    let cleanedContent = content
+    return content
       .replace(/\r\n/g, '\n')      // Normalize line endings
       .replace(/\n{3,}/g, '\n\n')  // Replace 3+ newlines with 2 (paragraph break)
       .trim();                     // Remove leading/trailing whitespace
+  }
 
-    // Remove web search context that might have been stored in old messages
-    cleanedContent = cleanedContent.replace(/\n\n\[WEB SEARCH CONTEXT[^]*$/, '');
+  /**
+   * The question the user typed, from a stored user message. Sources are now
+   * sent in their own message, but older messages were stored as the whole
+   * prompt with the question after the last "User Question:" marker.
+   */
+  extractUserText(content: string): string {
+    if (!content) return content;
 
-    // Remove document context that might have been stored in old messages
-    cleanedContent = cleanedContent.replace(/^Document Context:[^]*?\n\nUser Question: /, '');
-    cleanedContent = cleanedContent.replace(/^[^]*?\n\nUser Question: /, '');
+    const parsed = CitationFormatter.parsePrompt(content.replace(/\r\n/g, '\n'));
+    if (parsed) return parsed.question;
 
-    return cleanedContent.trim();
+    let text = content;
+    const webSearchIndex = text.indexOf(LEGACY_WEB_SEARCH_MARKER);
+    if (webSearchIndex !== -1) {
+      text = text.slice(0, webSearchIndex);
+    }
+    // Any context before the marker, e.g. "Document Context:" or bare "Excerpt: n" blocks
+    const markerIndex = text.lastIndexOf(LEGACY_QUESTION_MARKER);
+    if (markerIndex !== -1) {
+      text = text.slice(markerIndex + LEGACY_QUESTION_MARKER.length);
+    }
+    return text;
   }
 
   /**
@@ -141,18 +176,28 @@ export class ConversationLoader {
 
       if (response && response.messages && Array.isArray(response.messages)) {
         // Convert API message format to ChatMessage format
-        messages.push(...response.messages.map((msg: ApiMessage) => ({
-          id: msg.id || generateId('history'),
-          sender: msg.sender === 'llm' ? 'ai' : 'user' as 'ai' | 'user',
-          content: this.cleanMessageContent(msg.message),
-          timestamp: msg.created_at
-        })));
+        messages.push(...response.messages.map((msg: ApiMessage) => {
+          const sender = msg.sender === 'llm' ? 'ai' : 'user' as 'ai' | 'user';
+          return {
+            id: msg.id || generateId('history'),
+            sender,
+            content: this.cleanMessageContent(sender === 'user' ? this.extractUserText(msg.message) : msg.message),
+            timestamp: msg.created_at
+          };
+        }));
+      }
+
+      // Put each answer's retrieved context back in front of it
+      let restoredMessages = messages;
+      if (this.deps.provenanceService && messages.length > 0) {
+        const provenance = await this.deps.provenanceService.loadProvenance(conversationId);
+        restoredMessages = MessageProvenanceService.attachToMessages(messages, provenance);
       }
 
       console.log(`✅ Conversation history loaded: ${conversationId}, ${messages.length} messages`);
 
       return {
-        messages,
+        messages: restoredMessages,
         conversationId
       };
     } catch (error) {
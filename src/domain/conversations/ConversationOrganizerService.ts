@@ -0,0 +1,319 @@
+import { ChatSessionStatus } from '../../braindrive-plugin/pluginTypes';
+import { SETTINGS_KEYS } from '../../constants';
+import { generateId } from '../../utils';
+import type { Conversation } from './ConversationRepository';
+
+export interface ConversationFolder {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+/**
+ * How a conversation is filed; conversations without an entry are active and unfiled
+ */
+export interface ConversationOrganizationEntry {
+  folderId: string | null;
+  tags: string[];
+  pinned: boolean;
+  status: ChatSessionStatus;
+}
+
+export interface ConversationOrganization {
+  folders: ConversationFolder[];
+  entries: Record<string, ConversationOrganizationEntry>;
+}
+
+/**
+ * Which conversations to list: a folder ('all' for any, null for unfiled),
+ * a tag, and whether archived ones are included
+ */
+export interface ConversationFilter {
+  folderId: string | 'all' | null;
+  tag: string | null;
+  includeArchived: boolean;
+}
+
+export interface OrganizedConversation {
+  conversation: Conversation;
+  entry: ConversationOrganizationEntry;
+  folder: ConversationFolder | null;
+}
+
+export const EMPTY_CONVERSATION_ORGANIZATION: ConversationOrganization = { folders: [], entries: {} };
+
+export const DEFAULT_CONVERSATION_FILTER: ConversationFilter = { folderId: 'all', tag: null, includeArchived: false };
+
+/**
+ * Dependencies for ConversationOrganizerService
+ */
+export interface ConversationOrganizerServiceDeps {
+  settings: any;
+}
+
+const MAX_TAG_LENGTH = 32;
+
+/**
+ * ConversationOrganizerService keeps user-defined folders, tags, pins and
+ * archive state for the conversation history.
+ *
+ * The backend knows nothing of these, so they are saved via the settings
+ * service per history scope (the page conversations belong to). The static
+ * helpers return a new organization for every change, so several selected
+ * conversations can be updated at once and saved in one write.
+ */
+export class ConversationOrganizerService {
+  constructor(private deps: ConversationOrganizerServiceDeps) {}
+
+  /**
+   * Settings key for a history scope's organization
+   */
+  getSettingKey(scopeId: string): string {
+    return `${SETTINGS_KEYS.CONVERSATION_ORGANIZATION}_${scopeId}`;
+  }
+
+  /**
+   * Load a scope's organization; an unreadable setting yields an empty one
+   */
+  async loadOrganization(scopeId: string): Promise<ConversationOrganization> {
+    if (!this.deps.settings?.getSetting) {
+      return EMPTY_CONVERSATION_ORGANIZATION;
+    }
+
+    try {
+      const saved = await this.deps.settings.getSetting(this.getSettingKey(scopeId));
+      if (!saved || !Array.isArray(saved.folders) || !saved.entries || typeof saved.entries !== 'object') {
+        return EMPTY_CONVERSATION_ORGANIZATION;
+      }
+
+      const folders: ConversationFolder[] = saved.folders.filter((folder: any) =>
+        folder && typeof folder.id === 'string' && typeof folder.name === 'string'
+      );
+      const entries: Record<string, ConversationOrganizationEntry> = {};
+      Object.keys(saved.entries).forEach(conversationId => {
+        const entry = saved.entries[conversationId];
+        if (!entry || typeof entry !== 'object') return;
+        entries[conversationId] = {
+          folderId: folders.some(folder => folder.id === entry.folderId) ? entry.folderId : null,
+          tags: Array.isArray(entry.tags) ? entry.tags.filter((tag: any) => typeof tag === 'string') : [],
+          pinned: !!entry.pinned,
+          status: entry.status === ChatSessionStatus.ARCHIVED ? ChatSessionStatus.ARCHIVED : ChatSessionStatus.ACTIVE,
+        };
+      });
+      return { folders, entries };
+    } catch (error) {
+      console.error('Error loading conversation organization:', error);
+      return EMPTY_CONVERSATION_ORGANIZATION;
+    }
+  }
+
+  async saveOrganization(scopeId: string, organization: ConversationOrganization): Promise<void> {
+    if (!this.deps.settings?.setSetting) {
+      throw new Error('Settings service not available');
+    }
+
+    await this.deps.settings.setSetting(
+      this.getSettingKey(scopeId),
+      ConversationOrganizerService.compact(organization)
+    );
+  }
+
+  static getEntry(organization: ConversationOrganization, conversationId: string): ConversationOrganizationEntry {
+    return organization.entries[conversationId] || {
+      folderId: null,
+      tags: [],
+      pinned: false,
+      status: ChatSessionStatus.ACTIVE,
+    };
+  }
+
+  static isArchived(organization: ConversationOrganization, conversationId: string): boolean {
+    return this.getEntry(organization, conversationId).status === ChatSessionStatus.ARCHIVED;
+  }
+
+  /**
+   * Add a folder; the name must be new (ignoring case)
+   */
+  static createFolder(
+    organization: ConversationOrganization,
+    name: string,
+    createdAt: Date = new Date()
+  ): { organization: ConversationOrganization; folder: ConversationFolder } {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error('Folder name is required');
+    }
+    this.assertUniqueFolderName(organization, trimmed);
+
+    const folder: ConversationFolder = { id: generateId('folder'), name: trimmed, createdAt: createdAt.toISOString() };
+    return { organization: { ...organization, folders: organization.folders.concat(folder) }, folder };
+  }
+
+  static renameFolder(organization: ConversationOrganization, folderId: string, name: string): ConversationOrganization {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error('Folder name is required');
+    }
+    this.assertUniqueFolderName(organization, trimmed, folderId);
+
+    return {
+      ...organization,
+      folders: organization.folders.map(folder => (folder.id === folderId ? { ...folder, name: trimmed } : folder)),
+    };
+  }
+
+  /**
+   * Remove a folder; its conversations become unfiled
+   */
+  static deleteFolder(organization: ConversationOrganization, folderId: string): ConversationOrganization {
+    const entries: Record<string, ConversationOrganizationEntry> = {};
+    Object.keys(organization.entries).forEach(conversationId => {
+      const entry = organization.entries[conversationId];
+      entries[conversationId] = entry.folderId === folderId ? { ...entry, folderId: null } : entry;
+    });
+    return { folders: organization.folders.filter(folder => folder.id !== folderId), entries };
+  }
+
+  static moveToFolder(organization: ConversationOrganization, conversationIds: string[], folderId: string | null): ConversationOrganization {
+    if (folderId && !organization.folders.some(folder => folder.id === folderId)) {
+      throw new Error('Folder not found');
+    }
+    return this.updateEntries(organization, conversationIds, entry => ({ ...entry, folderId }));
+  }
+
+  static setPinned(organization: ConversationOrganization, conversationIds: string[], pinned: boolean): ConversationOrganization {
+    return this.updateEntries(organization, conversationIds, entry => ({ ...entry, pinned }));
+  }
+
+  /**
+   * Archiving also unpins, so archived conversations never sit at the top
+   */
+  static setArchived(organization: ConversationOrganization, conversationIds: string[], archived: boolean): ConversationOrganization {
+    return this.updateEntries(organization, conversationIds, entry => ({
+      ...entry,
+      pinned: archived ? false : entry.pinned,
+      status: archived ? ChatSessionStatus.ARCHIVED : ChatSessionStatus.ACTIVE,
+    }));
+  }
+
+  static addTag(organization: ConversationOrganization, conversationIds: string[], tag: string): ConversationOrganization {
+    const normalized = this.normalizeTag(tag);
+    if (!normalized) {
+      throw new Error('Tag is required');
+    }
+    return this.updateEntries(organization, conversationIds, entry =>
+      entry.tags.indexOf(normalized) === -1 ? { ...entry, tags: entry.tags.concat(normalized).sort() } : entry
+    );
+  }
+
+  static removeTag(organization: ConversationOrganization, conversationIds: string[], tag: string): ConversationOrganization {
+    return this.updateEntries(organization, conversationIds, entry => ({
+      ...entry,
+      tags: entry.tags.filter(existing => existing !== tag),
+    }));
+  }
+
+  /**
+   * Drop entries of deleted conversations
+   */
+  static forget(organization: ConversationOrganization, conversationIds: string[]): ConversationOrganization {
+    const entries = { ...organization.entries };
+    conversationIds.forEach(conversationId => {
+      delete entries[conversationId];
+    });
+    return { ...organization, entries };
+  }
+
+  /**
+   * Every tag in use, alphabetically
+   */
+  static getTags(organization: ConversationOrganization): string[] {
+    const tags = new Set<string>();
+    Object.keys(organization.entries).forEach(conversationId => {
+      organization.entries[conversationId].tags.forEach(tag => tags.add(tag));
+    });
+    return Array.from(tags).sort();
+  }
+
+  /**
+   * Conversations matching the filter, pinned first; each group keeps the
+   * order it was given in (most recent first)
+   */
+  static arrange(
+    conversations: Conversation[],
+    organization: ConversationOrganization,
+    filter: ConversationFilter = DEFAULT_CONVERSATION_FILTER
+  ): OrganizedConversation[] {
+    const organized = conversations
+      .map(conversation => {
+        const entry = this.getEntry(organization, conversation.id);
+        const folder = entry.folderId ? organization.folders.find(candidate => candidate.id === entry.folderId) || null : null;
+        return { conversation, entry, folder };
+      })
+      .filter(({ entry, folder }) =>
+        (filter.includeArchived || entry.status !== ChatSessionStatus.ARCHIVED) &&
+        (filter.folderId === 'all' || (folder ? folder.id : null) === filter.folderId) &&
+        (!filter.tag || entry.tags.indexOf(filter.tag) !== -1)
+      );
+
+    return organized.filter(item => item.entry.pinned).concat(organized.filter(item => !item.entry.pinned));
+  }
+
+  /**
+   * The recent conversations followed by the older ones only `all` has;
+   * recent copies win since they are refreshed more often
+   */
+  static merge(recent: Conversation[], all: Conversation[]): Conversation[] {
+    const recentIds = new Set(recent.map(conversation => conversation.id));
+    return recent.concat(all.filter(conversation => !recentIds.has(conversation.id)));
+  }
+
+  /**
+   * The recent conversations plus older ones that are pinned, filed, tagged
+   * or archived, so organizing never depends on the first page of history
+   */
+  static withOrganized(
+    recent: Conversation[],
+    all: Conversation[],
+    organization: ConversationOrganization
+  ): Conversation[] {
+    return this.merge(recent, all.filter(conversation => !!organization.entries[conversation.id]));
+  }
+
+  static normalizeTag(tag: string): string {
+    return (tag || '').trim().replace(/^#+/, '').replace(/\s+/g, '-').toLowerCase().slice(0, MAX_TAG_LENGTH);
+  }
+
+  private static updateEntries(
+    organization: ConversationOrganization,
+    conversationIds: string[],
+    update: (entry: ConversationOrganizationEntry) => ConversationOrganizationEntry
+  ): ConversationOrganization {
+    const entries = { ...organization.entries };
+    conversationIds.forEach(conversationId => {
+      entries[conversationId] = update(this.getEntry(organization, conversationId));
+    });
+    return { ...organization, entries };
+  }
+
+  /**
+   * Organization without entries that say nothing beyond the defaults
+   */
+  private static compact(organization: ConversationOrganization): ConversationOrganization {
+    const entries: Record<string, ConversationOrganizationEntry> = {};
+    Object.keys(organization.entries).forEach(conversationId => {
+      const entry = organization.entries[conversationId];
+      if (entry.folderId || entry.tags.length > 0 || entry.pinned || entry.status === ChatSessionStatus.ARCHIVED) {
+        entries[conversationId] = entry;
+      }
+    });
+    return { folders: organization.folders, entries };
+  }
+
+  private static assertUniqueFolderName(organization: ConversationOrganization, name: string, exceptId?: string): void {
+    const lower = name.toLowerCase();
+    if (organization.folders.some(folder => folder.id !== exceptId && folder.name.toLowerCase() === lower)) {
+      throw new Error(`A folder named "${name}" already exists`);
+    }
+  }
+}
@@ -68,6 +68,33 @@ export class ConversationRepository {
     return this.extractConversationsFromResponse(response);
   }
 
+  /**
+   * Fetch every conversation, page by page, up to `maxConversations`.
+   * Stops at the first page shorter than `pageSize`.
+   */
+  async fetchAllConversations(
+    params: Omit<FetchConversationsParams, 'skip' | 'limit'>,
+    pageSize: number = 50,
+    maxConversations: number = 1000
+  ): Promise<Conversation[]> {
+    const conversations: Conversation[] = [];
+    const seen = new Set<string>();
+
+    for (let skip = 0; skip < maxConversations; skip += pageSize) {
+      const page = await this.fetchConversations({ ...params, skip, limit: pageSize });
+      page.forEach(conversation => {
+        if (!seen.has(conversation.id)) {
+          seen.add(conversation.id);
+          conversations.push(conversation);
+        }
+      });
+
+      if (page.length < pageSize) break;
+    }
+
+    return conversations.slice(0, maxConversations);
+  }
+
   /**
    * Extract conversations array from various API response formats
    */
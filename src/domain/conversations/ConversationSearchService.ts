@@ -0,0 +1,268 @@
+import type { PersonaInfo } from '../../types';
+import type { ChatMessage, ConversationLoader } from './ConversationLoader';
+import type { Conversation, ConversationRepository, FetchConversationsParams } from './ConversationRepository';
+
+export type SearchField = 'title' | 'persona' | 'model' | 'message';
+
+/**
+ * Text around a match; `match` is the part to highlight
+ */
+export interface SearchSnippet {
+  before: string;
+  match: string;
+  after: string;
+}
+
+export interface ConversationSearchMatch {
+  field: SearchField;
+  snippet: SearchSnippet;
+  messageId?: string;
+  messageIndex?: number;
+  sender?: 'ai' | 'user';
+}
+
+export interface ConversationSearchResult {
+  conversation: Conversation;
+  personaName: string;
+  matches: ConversationSearchMatch[];
+  score: number;
+}
+
+export interface ConversationSearchProgress {
+  indexed: number;
+  total: number;
+}
+
+export interface ConversationSearchOptions {
+  personas?: PersonaInfo[];
+  onProgress?: (progress: ConversationSearchProgress) => void;
+  // Checked between batches; a newer search cancels an older one this way
+  isCancelled?: () => boolean;
+}
+
+/**
+ * Dependencies for ConversationSearchService
+ */
+export interface ConversationSearchServiceDeps {
+  repository: Pick<ConversationRepository, 'fetchAllConversations'>;
+  loader: Pick<ConversationLoader, 'loadConversationHistory'>;
+}
+
+const SNIPPET_RADIUS = 60;
+const MAX_MESSAGE_MATCHES = 3;
+const FETCH_BATCH_SIZE = 4;
+
+interface IndexedConversation {
+  stamp: string;
+  messages: ChatMessage[];
+}
+
+/**
+ * ConversationSearchService finds conversations by what was said in them,
+ * not only by title.
+ *
+ * The backend has no message search, so the first search pages through all
+ * of the user's conversations and loads their messages; messages are kept
+ * per conversation and reloaded only when the conversation has changed.
+ */
+export class ConversationSearchService {
+  private index = new Map<string, IndexedConversation>();
+
+  constructor(private deps: ConversationSearchServiceDeps) {}
+
+  /**
+   * Every conversation of the user, beyond the first page the history menu shows
+   */
+  async listConversations(params: Omit<FetchConversationsParams, 'skip' | 'limit'>): Promise<Conversation[]> {
+    return this.deps.repository.fetchAllConversations(params);
+  }
+
+  /**
+   * Conversations whose title, persona, model or messages contain every term
+   * of the query, best matches first
+   */
+  async search(
+    query: string,
+    conversations: Conversation[],
+    options: ConversationSearchOptions = {}
+  ): Promise<ConversationSearchResult[]> {
+    const terms = ConversationSearchService.getTerms(query);
+    if (terms.length === 0) return [];
+
+    await this.indexConversations(conversations, options);
+    if (options.isCancelled && options.isCancelled()) return [];
+
+    const personaNames = new Map<string, string>();
+    (options.personas || []).forEach(persona => personaNames.set(String(persona.id), persona.name));
+
+    const results: ConversationSearchResult[] = [];
+    conversations.forEach(conversation => {
+      const personaName = conversation.persona_id ? personaNames.get(String(conversation.persona_id)) || '' : '';
+      const indexed = this.index.get(conversation.id);
+      const result = ConversationSearchService.matchConversation(
+        conversation,
+        personaName,
+        indexed ? indexed.messages : [],
+        terms
+      );
+      if (result) results.push(result);
+    });
+
+    return results.sort((a, b) =>
+      b.score - a.score || ConversationSearchService.getTimestamp(b.conversation) - ConversationSearchService.getTimestamp(a.conversation)
+    );
+  }
+
+  /**
+   * Forget a conversation's messages, or all of them
+   */
+  invalidate(conversationId?: string): void {
+    if (conversationId) {
+      this.index.delete(conversationId);
+    } else {
+      this.index.clear();
+    }
+  }
+
+  /**
+   * Load messages of conversations not indexed yet or changed since, a few at a time
+   */
+  private async indexConversations(conversations: Conversation[], options: ConversationSearchOptions): Promise<void> {
+    const stale = conversations.filter(conversation => {
+      const indexed = this.index.get(conversation.id);
+      return !indexed || indexed.stamp !== ConversationSearchService.getStamp(conversation);
+    });
+    const total = conversations.length;
+    let indexed = total - stale.length;
+    options.onProgress?.({ indexed, total });
+
+    for (let i = 0; i < stale.length; i += FETCH_BATCH_SIZE) {
+      if (options.isCancelled && options.isCancelled()) return;
+
+      await Promise.all(stale.slice(i, i + FETCH_BATCH_SIZE).map(async conversation => {
+        try {
+          const history = await this.deps.loader.loadConversationHistory(conversation.id);
+          this.index.set(conversation.id, {
+            stamp: ConversationSearchService.getStamp(conversation),
+            messages: history.messages.filter(message => !message.isRetrievedContext),
+          });
+        } catch (error) {
+          // Still searchable by title; retried on the next search
+          console.error(`Error indexing conversation ${conversation.id}:`, error);
+        }
+      }));
+
+      indexed += Math.min(FETCH_BATCH_SIZE, stale.length - i);
+      options.onProgress?.({ indexed, total });
+    }
+  }
+
+  /**
+   * Lowercased query words, without duplicates
+   */
+  static getTerms(query: string): string[] {
+    const terms: string[] = [];
+    (query || '').toLowerCase().split(/\s+/).forEach(term => {
+      if (term && terms.indexOf(term) === -1) terms.push(term);
+    });
+    return terms;
+  }
+
+  /**
+   * A result when every term is found somewhere in the conversation, or null
+   */
+  static matchConversation(
+    conversation: Conversation,
+    personaName: string,
+    messages: ChatMessage[],
+    terms: string[]
+  ): ConversationSearchResult | null {
+    const found = new Set<string>();
+    const matches: ConversationSearchMatch[] = [];
+    let score = 0;
+
+    const fields: Array<{ field: SearchField; text: string; weight: number }> = [
+      { field: 'title', text: conversation.title || '', weight: 5 },
+      { field: 'persona', text: personaName, weight: 2 },
+      { field: 'model', text: conversation.model || '', weight: 2 },
+    ];
+    fields.forEach(({ field, text, weight }) => {
+      const hits = this.findTerms(text, terms);
+      if (hits.length === 0) return;
+      hits.forEach(term => found.add(term));
+      matches.push({ field, snippet: this.buildSnippet(text, hits[0]) });
+      score += hits.length * weight;
+    });
+
+    const messageMatches: Array<ConversationSearchMatch & { hits: number }> = [];
+    messages.forEach((message, messageIndex) => {
+      const hits = this.findTerms(message.content, terms);
+      if (hits.length === 0) return;
+      hits.forEach(term => found.add(term));
+      score += hits.length;
+      messageMatches.push({
+        field: 'message',
+        snippet: this.buildSnippet(message.content, hits[0]),
+        messageId: message.id,
+        messageIndex,
+        sender: message.sender,
+        hits: hits.length,
+      });
+    });
+
+    if (found.size < terms.length) return null;
+
+    // Messages with the most terms first, then in conversation order
+    messageMatches
+      .sort((a, b) => b.hits - a.hits || a.messageIndex! - b.messageIndex!)
+      .slice(0, MAX_MESSAGE_MATCHES)
+      .forEach(({ hits, ...match }) => matches.push(match));
+
+    return { conversation, personaName, matches, score };
+  }
+
+  /**
+   * Up to SNIPPET_RADIUS characters either side of the first occurrence of
+   * `term`, cut at word boundaries and collapsed to one line
+   */
+  static buildSnippet(text: string, term: string): SearchSnippet {
+    const flat = (text || '').replace(/\s+/g, ' ').trim();
+    const start = flat.toLowerCase().indexOf(term.toLowerCase());
+    if (start === -1) {
+      return { before: '', match: '', after: flat.slice(0, SNIPPET_RADIUS * 2) };
+    }
+    const end = start + term.length;
+
+    let from = Math.max(0, start - SNIPPET_RADIUS);
+    let to = Math.min(flat.length, end + SNIPPET_RADIUS);
+    if (from > 0) {
+      const space = flat.indexOf(' ', from);
+      if (space !== -1 && space < start) from = space + 1;
+    }
+    if (to < flat.length) {
+      const space = flat.lastIndexOf(' ', to);
+      if (space >= end) to = space;
+    }
+
+    return {
+      before: (from > 0 ? '…' : '') + flat.slice(from, start),
+      match: flat.slice(start, end),
+      after: flat.slice(end, to) + (to < flat.length ? '…' : ''),
+    };
+  }
+
+  private static findTerms(text: string, terms: string[]): string[] {
+    if (!text) return [];
+    const lower = text.toLowerCase();
+    return terms.filter(term => lower.indexOf(term) !== -1);
+  }
+
+  private static getStamp(conversation: Conversation): string {
+    return conversation.last_message_at || conversation.updated_at || conversation.created_at || '';
+  }
+
+  private static getTimestamp(conversation: Conversation): number {
+    const time = new Date(this.getStamp(conversation)).getTime();
+    return isNaN(time) ? 0 : time;
+  }
+}
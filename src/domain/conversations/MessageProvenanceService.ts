@@ -0,0 +1,157 @@
+import type { DocumentChunk, IntentResponse } from '../../braindrive-plugin/pluginTypes';
+import { SETTINGS_KEYS } from '../../constants';
+import { generateId } from '../../utils';
+import { CitationFormatter } from '../citations';
+import type { ChatMessage } from './ConversationLoader';
+
+/**
+ * What was retrieved to answer one question in a conversation
+ */
+export interface RetrievalProvenance {
+  question: string;
+  chunks: DocumentChunk[];
+  intent?: IntentResponse | null;
+  metadata?: Record<string, any>;
+  createdAt: string;
+}
+
+/**
+ * Dependencies for MessageProvenanceService
+ */
+export interface MessageProvenanceServiceDeps {
+  settings: any;
+}
+
+/**
+ * Turns kept per conversation; the oldest are dropped first
+ */
+export const MAX_PROVENANCE_TURNS = 100;
+
+/**
+ * MessageProvenanceService keeps the retrieved context behind each answer.
+ *
+ * The backend stores only message text, so the chunks, intent and retrieval
+ * metadata of every turn are saved per conversation via the settings service
+ * and matched back to the user's questions when the conversation is reloaded.
+ */
+export class MessageProvenanceService {
+  constructor(private deps: MessageProvenanceServiceDeps) {}
+
+  /**
+   * Settings key for a conversation's provenance
+   */
+  getSettingKey(conversationId: string): string {
+    return `${SETTINGS_KEYS.MESSAGE_PROVENANCE}_${conversationId}`;
+  }
+
+  /**
+   * Load a conversation's provenance, oldest turn first; an unreadable setting yields none
+   */
+  async loadProvenance(conversationId: string): Promise<RetrievalProvenance[]> {
+    if (!this.deps.settings?.getSetting) {
+      return [];
+    }
+
+    try {
+      const saved = await this.deps.settings.getSetting(this.getSettingKey(conversationId));
+      const turns = saved && Array.isArray(saved.turns) ? saved.turns : [];
+      return turns.filter((turn: any) => turn && typeof turn.question === 'string' && Array.isArray(turn.chunks));
+    } catch (error) {
+      console.error('Error loading message provenance:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Record the retrieval for a new turn
+   */
+  async appendProvenance(conversationId: string, turn: RetrievalProvenance): Promise<void> {
+    if (!this.deps.settings?.setSetting) {
+      throw new Error('Settings service not available');
+    }
+
+    const turns = (await this.loadProvenance(conversationId)).concat(turn).slice(-MAX_PROVENANCE_TURNS);
+    await this.deps.settings.setSetting(this.getSettingKey(conversationId), { turns });
+  }
+
+  /**
+   * Replace a conversation's provenance, e.g. for an imported conversation
+   */
+  async saveProvenance(conversationId: string, turns: RetrievalProvenance[]): Promise<void> {
+    if (!this.deps.settings?.setSetting) {
+      throw new Error('Settings service not available');
+    }
+
+    await this.deps.settings.setSetting(this.getSettingKey(conversationId), {
+      turns: turns.slice(-MAX_PROVENANCE_TURNS),
+    });
+  }
+
+  /**
+   * Drop a deleted conversation's provenance. The settings service cannot
+   * remove a key, so its value is cleared.
+   */
+  async deleteProvenance(conversationId: string): Promise<void> {
+    if (!this.deps.settings?.setSetting) {
+      throw new Error('Settings service not available');
+    }
+
+    await this.deps.settings.setSetting(this.getSettingKey(conversationId), null);
+  }
+
+  /**
+   * Insert a retrieved-context message after each user question that has
+   * provenance and point the answer that follows at it for citations.
+   * Questions are matched in order, so a repeated question takes the next turn.
+   */
+  static attachToMessages(messages: ChatMessage[], provenance: RetrievalProvenance[]): ChatMessage[] {
+    const result: ChatMessage[] = [];
+    let nextTurn = 0;
+    let citationSourceId: string | undefined;
+
+    messages.forEach(message => {
+      if (message.sender === 'user') {
+        citationSourceId = undefined;
+        result.push(message);
+
+        const question = this.normalize(message.content);
+        let index = nextTurn;
+        while (index < provenance.length && this.normalize(provenance[index].question) !== question) {
+          index++;
+        }
+        if (index === provenance.length) return;
+
+        const turn = provenance[index];
+        nextTurn = index + 1;
+        citationSourceId = generateId('retrieval');
+        result.push({
+          id: citationSourceId,
+          sender: 'ai',
+          content: '',
+          timestamp: message.timestamp,
+          isRetrievedContext: true,
+          retrievalData: {
+            chunks: turn.chunks,
+            context: CitationFormatter.buildSourcesContext(turn.chunks),
+            intent: turn.intent || null,
+            metadata: turn.metadata,
+          },
+        });
+        return;
+      }
+
+      if (citationSourceId) {
+        result.push({ ...message, citationSourceId });
+        citationSourceId = undefined;
+      } else {
+        result.push(message);
+      }
+    });
+
+    return result;
+  }
+
+  private static normalize(text: string): string {
+    return (text || '').replace(/\s+/g, ' ').trim();
+  }
+}
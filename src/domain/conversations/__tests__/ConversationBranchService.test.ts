@@ -0,0 +1,135 @@
+import {
+  ConversationBranchService,
+  ROOT_ANCHOR_ID,
+  BranchPoint,
+} from '../ConversationBranchService';
+import type { ChatMessage } from '../../../braindrive-plugin/pluginTypes';
+
+const makeMessage = (id: string, sender: 'user' | 'ai', content: string, extra: Partial<ChatMessage> = {}): ChatMessage => ({
+  id,
+  sender,
+  content,
+  timestamp: `2024-01-01T00:00:0${id.slice(-1)}Z`,
+  ...extra,
+});
+
+const u1 = makeMessage('u1', 'user', 'What is due?');
+const r1 = makeMessage('r1', 'ai', '', { isRetrievedContext: true });
+const a1 = makeMessage('a1', 'ai', 'The report [1].');
+const a2 = makeMessage('a2', 'ai', 'A second answer.');
+
+describe('ConversationBranchService', () => {
+  let service: ConversationBranchService;
+  let mockSettings: any;
+  let store: Record<string, any>;
+
+  beforeEach(() => {
+    store = {};
+    mockSettings = {
+      getSetting: jest.fn(async (key: string) => store[key] ?? null),
+      setSetting: jest.fn(async (key: string, value: any) => {
+        store[key] = value;
+      }),
+    };
+
+    service = new ConversationBranchService({ settings: mockSettings });
+  });
+
+  describe('fork', () => {
+    it('should keep a regenerated answer and its retrieved context as a sibling', () => {
+      const update = ConversationBranchService.fork([u1, r1, a1], [], 1, []);
+
+      expect(update.messages).toEqual([u1]);
+      expect(update.branchPoints).toEqual([{ anchorId: 'u1', variants: [[r1, a1], []], activeIndex: 1 }]);
+    });
+
+    it('should add further siblings to an existing branch point', () => {
+      const first = ConversationBranchService.fork([u1, r1, a1], [], 1, []);
+      const second = ConversationBranchService.fork(first.messages.concat(a2), first.branchPoints, 1, []);
+
+      expect(second.branchPoints).toHaveLength(1);
+      expect(second.branchPoints[0].variants).toEqual([[r1, a1], [a2], []]);
+      expect(second.branchPoints[0].activeIndex).toBe(2);
+    });
+
+    it('should anchor an edit of the first message at the root', () => {
+      const edited = makeMessage('u2', 'user', 'What is overdue?');
+      const update = ConversationBranchService.fork([u1, a1], [], 0, [edited]);
+
+      expect(update.messages).toEqual([edited]);
+      expect(update.branchPoints[0].anchorId).toBe(ROOT_ANCHOR_ID);
+    });
+  });
+
+  describe('switchTo', () => {
+    it('should swap tails and keep what the active tail became', () => {
+      const forked = ConversationBranchService.fork([u1, r1, a1], [], 1, []);
+
+      const back = ConversationBranchService.switchTo(forked.messages.concat(a2), forked.branchPoints, 'u1', 0)!;
+
+      expect(back.messages).toEqual([u1, r1, a1]);
+      expect(back.branchPoints[0].variants[1]).toEqual([a2]);
+
+      const again = ConversationBranchService.switchTo(back.messages, back.branchPoints, 'u1', 1)!;
+      expect(again.messages).toEqual([u1, a2]);
+    });
+
+    it('should ignore anchors that are not on the active path', () => {
+      const points: BranchPoint[] = [{ anchorId: 'gone', variants: [[a1], [a2]], activeIndex: 0 }];
+      expect(ConversationBranchService.switchTo([u1], points, 'gone', 1)).toBeNull();
+      expect(ConversationBranchService.switchTo([u1], points, 'u1', 1)).toBeNull();
+    });
+  });
+
+  describe('getNavigation', () => {
+    it('should show navigation on the first chat message of the active tail', () => {
+      const forked = ConversationBranchService.fork([u1, r1, a1], [], 1, [r1, a2]);
+
+      expect(ConversationBranchService.getNavigation(forked.messages, forked.branchPoints)).toEqual({
+        a2: { anchorId: 'u1', index: 1, count: 2 },
+      });
+    });
+  });
+
+  describe('persistence', () => {
+    it('should save the active tails and the latest answer', async () => {
+      const forked = ConversationBranchService.fork([u1, r1, a1], [], 1, []);
+      const streaming = makeMessage('a2', 'ai', 'A second answer.', { isStreaming: true });
+
+      await service.saveSnapshot('conv-1', {
+        messages: forked.messages.concat(streaming),
+        branchPoints: forked.branchPoints,
+      });
+
+      const saved = await service.loadSnapshot('conv-1');
+      expect(mockSettings.setSetting.mock.calls[0][0]).toBe('chat_with_docs_conversation_branches_conv-1');
+      expect(saved!.lastAnswer).toBe('A second answer.');
+      expect(saved!.messages[1].isStreaming).toBe(false);
+      expect(saved!.branchPoints[0].variants[1]).toEqual([{ ...streaming, isStreaming: false }]);
+    });
+
+    it('should clear the branches of a deleted conversation', async () => {
+      const forked = ConversationBranchService.fork([u1, r1, a1], [], 1, [a2]);
+      await service.saveSnapshot('conv-1', forked);
+      await service.deleteSnapshot('conv-1');
+
+      expect(store['chat_with_docs_conversation_branches_conv-1']).toBeNull();
+      expect(await service.loadSnapshot('conv-1')).toBeNull();
+    });
+
+    it('should restore only while the backend ends with the latest answer', () => {
+      const forked = ConversationBranchService.fork([u1, r1, a1], [], 1, [a2]);
+      const snapshot = ConversationBranchService.createSnapshot(forked);
+      const backend = [
+        makeMessage('h1', 'user', 'What is due?'),
+        makeMessage('h2', 'ai', 'The report [1].'),
+        makeMessage('h3', 'user', 'What is due?'),
+        makeMessage('h4', 'ai', ' A second\nanswer. '),
+      ];
+
+      expect(ConversationBranchService.restore(snapshot, backend)).toEqual(forked);
+      expect(ConversationBranchService.restore(snapshot, backend.concat(makeMessage('h5', 'ai', 'Newer')))).toBeNull();
+      expect(ConversationBranchService.restore(null, backend)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import {
+  ConversationExporter,
+  CONVERSATION_EXPORT_FORMAT,
+  type ConversationExportInput,
+} from '../ConversationExporter';
+import type { ChatMessage, DocumentChunk } from '../../../braindrive-plugin/pluginTypes';
+
+const makeChunk = (id: string, filename: string, chunkIndex: number): DocumentChunk => ({
+  id,
+  document_id: `doc-${id}`,
+  collection_id: 'col-1',
+  content: `Text of ${id}`,
+  chunk_index: chunkIndex,
+  chunk_type: 'text',
+  metadata: { document_filename: filename },
+});
+
+const messages: ChatMessage[] = [
+  { id: 'greeting', sender: 'ai', content: '', timestamp: '2024-05-01T09:00:00Z' },
+  { id: 'u1', sender: 'user', content: 'How long do refunds take?', timestamp: '2024-05-01T09:01:00Z' },
+  {
+    id: 'ctx1',
+    sender: 'ai',
+    content: '',
+    timestamp: '2024-05-01T09:01:00Z',
+    isRetrievedContext: true,
+    retrievalData: {
+      chunks: [makeChunk('c1', 'policy.pdf', 2), makeChunk('c2', 'faq.md', 0)],
+      context: '',
+    },
+  },
+  {
+    id: 'a1',
+    sender: 'ai',
+    content: 'Refunds take 14 days [2].',
+    timestamp: '2024-05-01T09:01:05Z',
+    citationSourceId: 'ctx1',
+  },
+  { id: 'u2', sender: 'user', content: 'Thanks <3', timestamp: '2024-05-01T09:02:00Z' },
+  { id: 'a2', sender: 'ai', content: 'You are welcome.', timestamp: '2024-05-01T09:02:03Z' },
+];
+
+const input: ConversationExportInput = {
+  conversation: { id: 'conv-12345678', title: 'Refund questions', created_at: '2024-05-01T09:00:00Z' },
+  model: { name: 'llama3', provider: 'ollama', serverName: 'local' },
+  persona: { id: 'p1', name: 'Support' },
+  messages,
+};
+
+describe('ConversationExporter', () => {
+  const exportedAt = new Date('2024-05-02T00:00:00Z');
+
+  it('should export messages with the sources each answer was given', () => {
+    const data = ConversationExporter.toData(input, exportedAt);
+
+    expect(data.format).toBe(CONVERSATION_EXPORT_FORMAT);
+    expect(data.conversation).toMatchObject({ model: 'llama3', provider: 'ollama', server: 'local', persona: { name: 'Support' } });
+    expect(data.messages.map(message => message.role)).toEqual(['user', 'assistant', 'user', 'assistant']);
+    expect(data.messages[1].sources).toEqual([
+      expect.objectContaining({ number: 1, cited: false, document_name: 'policy.pdf', chunk_index: 2 }),
+      expect.objectContaining({ number: 2, cited: true, document_name: 'faq.md', content: 'Text of c2' }),
+    ]);
+    expect(data.messages[3].sources).toBeUndefined();
+  });
+
+  it('should name files after the title and date', () => {
+    const file = ConversationExporter.export(input, 'markdown', exportedAt);
+
+    expect(file.fileName).toBe('conversation-refund-questions-2024-05-01.md');
+    expect(file.mimeType).toBe('text/markdown;charset=utf-8');
+  });
+
+  it('should write Markdown with an excerpt of cited sources only', () => {
+    const markdown = ConversationExporter.export(input, 'markdown', exportedAt).content;
+
+    expect(markdown.startsWith('# Refund questions\n')).toBe(true);
+    expect(markdown).toContain('- **Persona:** Support');
+    expect(markdown).toContain('1. policy.pdf · chunk #2 _(not cited)_');
+    expect(markdown).toContain('2. faq.md · chunk #0\n   > Text of c2');
+  });
+
+  it('should write a print-ready, escaped HTML page', () => {
+    const html = ConversationExporter.export(input, 'html', exportedAt).content;
+
+    expect(html).toContain('<!DOCTYPE html>');
+    expect(html).toContain('@page');
+    expect(html).not.toMatch(/<(script|link)\b/);
+    expect(html).toContain('Thanks &lt;3');
+    expect(html).toContain('<li value="2">faq.md · chunk #0<blockquote>Text of c2</blockquote></li>');
+  });
+
+  it('should parse its own JSON export and turn sources back into chunks', () => {
+    const json = ConversationExporter.export(input, 'json', exportedAt).content;
+    const parsed = ConversationExporter.parse(json);
+
+    expect(parsed.messages).toHaveLength(4);
+    expect(ConversationExporter.toChunks(parsed.messages[1].sources!)).toEqual([
+      expect.objectContaining({ id: 'c1', document_id: 'doc-c1', metadata: expect.objectContaining({ document_filename: 'policy.pdf' }) }),
+      expect.objectContaining({ id: 'c2', chunk_index: 0 }),
+    ]);
+  });
+
+  it('should reject files that are not conversation exports', () => {
+    expect(() => ConversationExporter.parse('not json')).toThrow('not valid JSON');
+    expect(() => ConversationExporter.parse('{"format":"other"}')).toThrow('not an exported conversation');
+    expect(() => ConversationExporter.parse(JSON.stringify({
+      format: CONVERSATION_EXPORT_FORMAT,
+      version: 99,
+      conversation: {},
+      messages: [],
+    }))).toThrow('newer version');
+    expect(() => ConversationExporter.parse(JSON.stringify({
+      format: CONVERSATION_EXPORT_FORMAT,
+      version: 1,
+      conversation: {},
+      messages: [{ role: 'system', content: 'x' }],
+    }))).toThrow('no messages');
+  });
+});
@@ -0,0 +1,114 @@
+import { ConversationImportService } from '../ConversationImportService';
+import { CONVERSATION_EXPORT_FORMAT, type ConversationExportData } from '../ConversationExporter';
+
+const data: ConversationExportData = {
+  format: CONVERSATION_EXPORT_FORMAT,
+  version: 1,
+  exported_at: '2024-05-02T00:00:00Z',
+  conversation: {
+    id: 'old-conv',
+    title: 'Refund questions',
+    created_at: '2024-05-01T09:00:00Z',
+    model: 'llama3',
+    provider: 'ollama',
+    server: 'local',
+    persona: { id: 'p1', name: 'Support' },
+  },
+  messages: [
+    { role: 'user', content: 'How long do refunds take?', timestamp: '2024-05-01T09:01:00Z' },
+    {
+      role: 'assistant',
+      content: 'Refunds take 14 days [1].',
+      timestamp: '2024-05-01T09:01:05Z',
+      sources: [{
+        number: 1,
+        cited: true,
+        chunk_id: 'c1',
+        document_id: 'doc-1',
+        document_name: 'policy.pdf',
+        collection_id: 'col-1',
+        chunk_index: 2,
+        content: 'Refunds are processed within 14 days.',
+      }],
+    },
+    { role: 'user', content: 'Thanks', timestamp: '2024-05-01T09:02:00Z' },
+    { role: 'assistant', content: 'You are welcome.', timestamp: '2024-05-01T09:02:03Z' },
+  ],
+};
+
+describe('ConversationImportService', () => {
+  let mockApi: any;
+  let provenanceService: any;
+  let service: ConversationImportService;
+
+  beforeEach(() => {
+    mockApi = {
+      post: jest.fn(async (url: string) => (url === '/api/v1/conversations' ? { id: 'new-conv' } : {})),
+      delete: jest.fn(async () => undefined),
+    };
+    provenanceService = { saveProvenance: jest.fn(async () => undefined) };
+    service = new ConversationImportService({ api: mockApi, provenanceService });
+  });
+
+  it('should recreate the conversation and its messages in order', async () => {
+    const result = await service.importConversation(data, {
+      userId: 'user-1',
+      pageId: 'page-1',
+      personas: [{ id: 'p1', name: 'Support', system_prompt: '' } as any],
+    });
+
+    expect(mockApi.post).toHaveBeenNthCalledWith(1, '/api/v1/conversations', {
+      user_id: 'user-1',
+      title: 'Refund questions',
+      conversation_type: 'chat',
+      model: 'llama3',
+      server: 'local',
+      page_id: 'page-1',
+      persona_id: 'p1',
+    });
+    expect(mockApi.post.mock.calls.slice(1).map((call: any[]) => call[1])).toEqual([
+      { sender: 'user', message: 'How long do refunds take?' },
+      { sender: 'llm', message: 'Refunds take 14 days [1].' },
+      { sender: 'user', message: 'Thanks' },
+      { sender: 'llm', message: 'You are welcome.' },
+    ]);
+    expect(mockApi.post).toHaveBeenLastCalledWith('/api/v1/conversations/new-conv/messages', expect.anything());
+    expect(result).toEqual({ conversationId: 'new-conv', title: 'Refund questions', messageCount: 4, sourceCount: 1 });
+  });
+
+  it('should restore sources as provenance keyed by the question', async () => {
+    await service.importConversation(data, { userId: 'user-1' });
+
+    expect(provenanceService.saveProvenance).toHaveBeenCalledWith('new-conv', [
+      expect.objectContaining({
+        question: 'How long do refunds take?',
+        chunks: [expect.objectContaining({ id: 'c1', content: 'Refunds are processed within 14 days.' })],
+      }),
+    ]);
+  });
+
+  it('should drop a persona that does not exist in this instance', async () => {
+    await service.importConversation(data, { userId: 'user-1', personas: [] });
+
+    expect(mockApi.post.mock.calls[0][1]).not.toHaveProperty('persona_id');
+  });
+
+  it('should fail when the conversation is not created', async () => {
+    mockApi.post.mockResolvedValueOnce({});
+
+    await expect(service.importConversation(data, { userId: 'user-1' })).rejects.toThrow('could not be created');
+    expect(mockApi.post).toHaveBeenCalledTimes(1);
+  });
+
+  it('should delete the conversation when a message fails to import', async () => {
+    mockApi.post
+      .mockResolvedValueOnce({ id: 'new-conv' })
+      .mockResolvedValueOnce({})
+      .mockRejectedValueOnce(new Error('Server error'));
+
+    await expect(service.importConversation(data, { userId: 'user-1' })).rejects.toThrow('Server error');
+    expect(mockApi.delete).toHaveBeenCalledWith('/api/v1/conversations/new-conv');
+    expect(mockApi.post).toHaveBeenCalledTimes(3);
+    expect(provenanceService.saveProvenance).not.toHaveBeenCalled();
+  });
+});
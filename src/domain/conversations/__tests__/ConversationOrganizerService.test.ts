@@ -0,0 +1,170 @@
+import {
+  ConversationOrganizerService,
+  EMPTY_CONVERSATION_ORGANIZATION,
+  type ConversationOrganization,
+} from '../ConversationOrganizerService';
+import type { Conversation } from '../ConversationRepository';
+import { ChatSessionStatus } from '../../../braindrive-plugin/pluginTypes';
+
+const makeConversation = (id: string): Conversation => ({
+  id,
+  user_id: 'user-1',
+  conversation_type: 'chat',
+  created_at: '2024-01-01T00:00:00Z',
+  title: `Conversation ${id}`,
+});
+
+const conversations = ['c1', 'c2', 'c3', 'c4'].map(makeConversation);
+const ids = (items: Array<{ conversation: Conversation }>) => items.map(item => item.conversation.id);
+
+describe('ConversationOrganizerService', () => {
+  let service: ConversationOrganizerService;
+  let mockSettings: any;
+  let store: Record<string, any>;
+
+  beforeEach(() => {
+    store = {};
+    mockSettings = {
+      getSetting: jest.fn(async (key: string) => store[key] ?? null),
+      setSetting: jest.fn(async (key: string, value: any) => {
+        store[key] = value;
+      }),
+    };
+    service = new ConversationOrganizerService({ settings: mockSettings });
+  });
+
+  describe('persistence', () => {
+    it('should save per scope without default entries and load it back', async () => {
+      let organization = ConversationOrganizerService.setPinned(EMPTY_CONVERSATION_ORGANIZATION, ['c1', 'c2'], true);
+      organization = ConversationOrganizerService.setPinned(organization, ['c2'], false);
+
+      await service.saveOrganization('page-1', organization);
+
+      expect(Object.keys(store['chat_with_docs_conversation_organization_page-1'].entries)).toEqual(['c1']);
+      expect(await service.loadOrganization('page-1')).toEqual({
+        folders: [],
+        entries: { c1: { folderId: null, tags: [], pinned: true, status: ChatSessionStatus.ACTIVE } },
+      });
+    });
+
+    it('should drop unknown folders and survive a failing settings service', async () => {
+      store['chat_with_docs_conversation_organization_page-1'] = {
+        folders: [{ id: 'f1', name: 'Billing' }, null],
+        entries: { c1: { folderId: 'gone', tags: ['a', 3], status: 'archived' }, c2: null },
+      };
+
+      expect(await service.loadOrganization('page-1')).toEqual({
+        folders: [{ id: 'f1', name: 'Billing' }],
+        entries: { c1: { folderId: null, tags: ['a'], pinned: false, status: ChatSessionStatus.ARCHIVED } },
+      });
+
+      mockSettings.getSetting.mockRejectedValue(new Error('offline'));
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      expect(await service.loadOrganization('page-1')).toEqual(EMPTY_CONVERSATION_ORGANIZATION);
+    });
+
+    it('should throw when saving without a settings service', async () => {
+      const withoutSettings = new ConversationOrganizerService({ settings: null });
+      await expect(withoutSettings.saveOrganization('page-1', EMPTY_CONVERSATION_ORGANIZATION))
+        .rejects.toThrow('Settings service not available');
+    });
+  });
+
+  describe('folders', () => {
+    it('should create, rename and delete folders, unfiling their conversations', () => {
+      const { organization: withFolder, folder } = ConversationOrganizerService.createFolder(EMPTY_CONVERSATION_ORGANIZATION, ' Billing ');
+      expect(folder.name).toBe('Billing');
+      expect(() => ConversationOrganizerService.createFolder(withFolder, 'billing')).toThrow('already exists');
+
+      let organization = ConversationOrganizerService.moveToFolder(withFolder, ['c1', 'c2'], folder.id);
+      organization = ConversationOrganizerService.renameFolder(organization, folder.id, 'Invoices');
+      expect(organization.folders[0].name).toBe('Invoices');
+
+      organization = ConversationOrganizerService.deleteFolder(organization, folder.id);
+      expect(organization.folders).toEqual([]);
+      expect(ConversationOrganizerService.getEntry(organization, 'c1').folderId).toBeNull();
+    });
+
+    it('should refuse to move into a missing folder', () => {
+      expect(() => ConversationOrganizerService.moveToFolder(EMPTY_CONVERSATION_ORGANIZATION, ['c1'], 'nope'))
+        .toThrow('Folder not found');
+    });
+  });
+
+  describe('tags', () => {
+    it('should normalize tags and list those in use', () => {
+      let organization = ConversationOrganizerService.addTag(EMPTY_CONVERSATION_ORGANIZATION, ['c1', 'c2'], '#Follow Up');
+      organization = ConversationOrganizerService.addTag(organization, ['c2'], 'legal');
+      organization = ConversationOrganizerService.addTag(organization, ['c2'], 'legal');
+
+      expect(ConversationOrganizerService.getEntry(organization, 'c2').tags).toEqual(['follow-up', 'legal']);
+      expect(ConversationOrganizerService.getTags(organization)).toEqual(['follow-up', 'legal']);
+
+      organization = ConversationOrganizerService.removeTag(organization, ['c1', 'c2'], 'follow-up');
+      expect(ConversationOrganizerService.getTags(organization)).toEqual(['legal']);
+      expect(() => ConversationOrganizerService.addTag(organization, ['c1'], '  ')).toThrow('Tag is required');
+    });
+  });
+
+  describe('arrange', () => {
+    let organization: ConversationOrganization;
+
+    beforeEach(() => {
+      const created = ConversationOrganizerService.createFolder(EMPTY_CONVERSATION_ORGANIZATION, 'Billing');
+      organization = ConversationOrganizerService.moveToFolder(created.organization, ['c2', 'c3'], created.folder.id);
+      organization = ConversationOrganizerService.setPinned(organization, ['c3'], true);
+      organization = ConversationOrganizerService.addTag(organization, ['c1', 'c3'], 'urgent');
+      organization = ConversationOrganizerService.setArchived(organization, ['c4'], true);
+    });
+
+    it('should list pinned conversations first and hide archived ones', () => {
+      expect(ids(ConversationOrganizerService.arrange(conversations, organization))).toEqual(['c3', 'c1', 'c2']);
+    });
+
+    it('should filter by folder, unfiled and tag', () => {
+      const folderId = organization.folders[0].id;
+
+      expect(ids(ConversationOrganizerService.arrange(conversations, organization, { folderId, tag: null, includeArchived: false })))
+        .toEqual(['c3', 'c2']);
+      expect(ids(ConversationOrganizerService.arrange(conversations, organization, { folderId: null, tag: null, includeArchived: true })))
+        .toEqual(['c1', 'c4']);
+      expect(ids(ConversationOrganizerService.arrange(conversations, organization, { folderId: 'all', tag: 'urgent', includeArchived: false })))
+        .toEqual(['c3', 'c1']);
+    });
+
+    it('should unpin when archiving and restore on unarchive', () => {
+      let updated = ConversationOrganizerService.setArchived(organization, ['c3'], true);
+      expect(ConversationOrganizerService.getEntry(updated, 'c3')).toMatchObject({ pinned: false, status: ChatSessionStatus.ARCHIVED });
+
+      updated = ConversationOrganizerService.setArchived(updated, ['c3', 'c4'], false);
+      expect(ConversationOrganizerService.isArchived(updated, 'c4')).toBe(false);
+      expect(ids(ConversationOrganizerService.arrange(conversations, updated))).toEqual(['c1', 'c2', 'c3', 'c4']);
+    });
+
+    it('should forget deleted conversations', () => {
+      const updated = ConversationOrganizerService.forget(organization, ['c3', 'c4']);
+      expect(Object.keys(updated.entries).sort()).toEqual(['c1', 'c2']);
+    });
+  });
+
+  describe('beyond the first page', () => {
+    const firstPage = ['c1', 'c2'].map(makeConversation);
+    const everyConversation = ['c1', 'c2', 'c3', 'c4', 'c5'].map(makeConversation);
+
+    it('should keep a pinned conversation that sits beyond the first page', () => {
+      const organization = ConversationOrganizerService.setPinned(EMPTY_CONVERSATION_ORGANIZATION, ['c4'], true);
+      const listed = ConversationOrganizerService.withOrganized(firstPage, everyConversation, organization);
+
+      expect(listed.map(conversation => conversation.id)).toEqual(['c1', 'c2', 'c4']);
+      expect(ids(ConversationOrganizerService.arrange(listed, organization))).toEqual(['c4', 'c1', 'c2']);
+    });
+
+    it('should merge the full list after the recent copies', () => {
+      const renamed = { ...makeConversation('c1'), title: 'Renamed' };
+      const merged = ConversationOrganizerService.merge([renamed, makeConversation('c6')], everyConversation);
+
+      expect(merged.map(conversation => conversation.id)).toEqual(['c1', 'c6', 'c2', 'c3', 'c4', 'c5']);
+      expect(merged[0].title).toBe('Renamed');
+    });
+  });
+});
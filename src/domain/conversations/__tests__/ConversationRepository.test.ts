@@ -153,6 +153,45 @@ describe('ConversationRepository', () => {
     });
   });
 
+  describe('fetchAllConversations', () => {
+    const makePage = (start: number, count: number): Conversation[] =>
+      Array.from({ length: count }, (_, i) => ({
+        id: `conv-${start + i}`,
+        user_id: 'user-123',
+        conversation_type: 'chat',
+        created_at: '2024-01-01T00:00:00Z'
+      }));
+
+    it('should keep fetching pages until a short page', async () => {
+      mockApi.get
+        .mockResolvedValueOnce(makePage(0, 2))
+        .mockResolvedValueOnce(makePage(2, 2))
+        .mockResolvedValueOnce(makePage(4, 1));
+
+      const result = await repository.fetchAllConversations({ userId: 'user-123', pageId: 'page-1' }, 2);
+
+      expect(mockApi.get).toHaveBeenCalledTimes(3);
+      expect(mockApi.get.mock.calls[2][1].params).toEqual({
+        skip: 4,
+        limit: 2,
+        conversation_type: 'chat',
+        page_id: 'page-1'
+      });
+      expect(result.map(conv => conv.id)).toEqual(['conv-0', 'conv-1', 'conv-2', 'conv-3', 'conv-4']);
+    });
+
+    it('should stop at the conversation limit and skip duplicates', async () => {
+      mockApi.get
+        .mockResolvedValueOnce(makePage(0, 2))
+        .mockResolvedValueOnce(makePage(1, 2));
+
+      const result = await repository.fetchAllConversations({ userId: 'user-123' }, 2, 4);
+
+      expect(mockApi.get).toHaveBeenCalledTimes(2);
+      expect(result.map(conv => conv.id)).toEqual(['conv-0', 'conv-1', 'conv-2']);
+    });
+  });
+
   describe('sortByRecency', () => {
     it('should sort by last_message_at (highest priority)', () => {
       const conversations: Conversation[] = [
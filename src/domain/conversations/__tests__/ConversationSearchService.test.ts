@@ -0,0 +1,123 @@
+import { ConversationSearchService } from '../ConversationSearchService';
+import type { ChatMessage } from '../ConversationLoader';
+import type { Conversation } from '../ConversationRepository';
+
+const makeConversation = (id: string, overrides: Partial<Conversation> = {}): Conversation => ({
+  id,
+  user_id: 'user-1',
+  conversation_type: 'chat',
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+  ...overrides,
+});
+
+const makeMessage = (id: string, sender: 'user' | 'ai', content: string): ChatMessage => ({
+  id,
+  sender,
+  content,
+  timestamp: '2024-01-01T00:00:00Z',
+});
+
+describe('ConversationSearchService', () => {
+  let histories: Record<string, ChatMessage[]>;
+  let loader: { loadConversationHistory: jest.Mock };
+  let service: ConversationSearchService;
+
+  beforeEach(() => {
+    histories = {
+      'conv-1': [
+        makeMessage('m1', 'user', 'How long is the refund window?'),
+        makeMessage('m2', 'ai', 'Refunds are accepted within 14 days of purchase.'),
+      ],
+      'conv-2': [
+        makeMessage('m3', 'user', 'Which cards do you accept?'),
+        { ...makeMessage('ctx', 'ai', 'refund policy chunk'), isRetrievedContext: true },
+      ],
+    };
+    loader = {
+      loadConversationHistory: jest.fn(async (id: string) => ({ messages: histories[id] || [], conversationId: id })),
+    };
+    service = new ConversationSearchService({
+      repository: { fetchAllConversations: jest.fn() },
+      loader,
+    });
+  });
+
+  it('should find conversations by message content and point to the message', async () => {
+    const results = await service.search('refund days', [makeConversation('conv-1'), makeConversation('conv-2')]);
+
+    expect(results).toHaveLength(1);
+    expect(results[0].conversation.id).toBe('conv-1');
+    expect(results[0].matches[0]).toMatchObject({ field: 'message', messageId: 'm2', messageIndex: 1, sender: 'ai' });
+    expect(results[0].matches[0].snippet.match).toBe('Refund');
+  });
+
+  it('should match title, persona and model without message hits', async () => {
+    const results = await service.search('analyst llama', [
+      makeConversation('conv-2', { title: 'Card questions', persona_id: 'p1', model: 'llama3' }),
+    ], {
+      personas: [{ id: 'p1', name: 'Billing Analyst', system_prompt: '' } as any],
+    });
+
+    expect(results).toHaveLength(1);
+    expect(results[0].personaName).toBe('Billing Analyst');
+    expect(results[0].matches.map(match => match.field)).toEqual(['persona', 'model']);
+  });
+
+  it('should rank title matches above message matches', async () => {
+    const results = await service.search('refund', [
+      makeConversation('conv-1'),
+      makeConversation('conv-2', { title: 'Refund policy' }),
+    ]);
+
+    expect(results.map(result => result.conversation.id)).toEqual(['conv-2', 'conv-1']);
+  });
+
+  it('should only reload conversations that changed since they were indexed', async () => {
+    await service.search('refund', [makeConversation('conv-1'), makeConversation('conv-2')]);
+    await service.search('cards', [
+      makeConversation('conv-1'),
+      makeConversation('conv-2', { updated_at: '2024-02-01T00:00:00Z' }),
+    ]);
+
+    expect(loader.loadConversationHistory).toHaveBeenCalledTimes(3);
+    expect(loader.loadConversationHistory).toHaveBeenLastCalledWith('conv-2');
+  });
+
+  it('should keep searching titles when a conversation fails to load', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    loader.loadConversationHistory.mockRejectedValueOnce(new Error('offline'));
+    const progress: number[] = [];
+
+    const results = await service.search('refund', [makeConversation('conv-1', { title: 'Refund' })], {
+      onProgress: ({ indexed }) => progress.push(indexed),
+    });
+
+    expect(results).toHaveLength(1);
+    expect(progress).toEqual([0, 1]);
+  });
+
+  it('should return nothing for an empty query', async () => {
+    expect(await service.search('   ', [makeConversation('conv-1')])).toEqual([]);
+    expect(loader.loadConversationHistory).not.toHaveBeenCalled();
+  });
+
+  describe('buildSnippet', () => {
+    it('should trim long text to whole words around the match', () => {
+      const text = `${'alpha '.repeat(20)}needle ${'omega '.repeat(20)}`;
+      const snippet = ConversationSearchService.buildSnippet(text, 'NEEDLE');
+
+      expect(snippet.match).toBe('needle');
+      expect(snippet.before.startsWith('…alpha')).toBe(true);
+      expect(snippet.after.endsWith('omega…')).toBe(true);
+    });
+
+    it('should keep short text whole and collapse whitespace', () => {
+      expect(ConversationSearchService.buildSnippet('The\nrefund   window', 'refund')).toEqual({
+        before: 'The ',
+        match: 'refund',
+        after: ' window',
+      });
+    });
+  });
+});
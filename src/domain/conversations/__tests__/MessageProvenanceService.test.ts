@@ -0,0 +1,115 @@
+import { MessageProvenanceService, MAX_PROVENANCE_TURNS, RetrievalProvenance } from '../MessageProvenanceService';
+import type { ChatMessage } from '../ConversationLoader';
+
+const makeTurn = (question: string, chunkId: string = 'chunk-1'): RetrievalProvenance => ({
+  question,
+  chunks: [{ id: chunkId, document_id: 'doc-1', content: `Content of ${chunkId}`, chunk_index: 0 } as any],
+  intent: null,
+  createdAt: '2024-01-01T00:00:00Z',
+});
+
+const makeMessage = (id: string, sender: 'user' | 'ai', content: string): ChatMessage => ({
+  id,
+  sender,
+  content,
+  timestamp: '2024-01-01T00:00:00Z',
+});
+
+describe('MessageProvenanceService', () => {
+  let service: MessageProvenanceService;
+  let mockSettings: any;
+  let store: Record<string, any>;
+
+  beforeEach(() => {
+    store = {};
+    mockSettings = {
+      getSetting: jest.fn(async (key: string) => store[key] ?? null),
+      setSetting: jest.fn(async (key: string, value: any) => {
+        store[key] = value;
+      }),
+    };
+
+    service = new MessageProvenanceService({ settings: mockSettings });
+  });
+
+  describe('appendProvenance', () => {
+    it('should save turns per conversation in order', async () => {
+      await service.appendProvenance('conv-1', makeTurn('First?'));
+      await service.appendProvenance('conv-1', makeTurn('Second?'));
+
+      expect(mockSettings.setSetting).toHaveBeenLastCalledWith(
+        'chat_with_docs_message_provenance_conv-1',
+        { turns: [makeTurn('First?'), makeTurn('Second?')] }
+      );
+      expect(await service.loadProvenance('conv-2')).toEqual([]);
+    });
+
+    it('should keep only the most recent turns', async () => {
+      store['chat_with_docs_message_provenance_conv-1'] = {
+        turns: Array.from({ length: MAX_PROVENANCE_TURNS }, (_v, i) => makeTurn(`Q${i}?`)),
+      };
+
+      await service.appendProvenance('conv-1', makeTurn('Latest?'));
+
+      const turns = await service.loadProvenance('conv-1');
+      expect(turns).toHaveLength(MAX_PROVENANCE_TURNS);
+      expect(turns[0].question).toBe('Q1?');
+      expect(turns[turns.length - 1].question).toBe('Latest?');
+    });
+
+    it('should drop malformed turns and survive a failing settings service', async () => {
+      store['chat_with_docs_message_provenance_conv-1'] = { turns: [{ question: 'No chunks?' }, null] };
+      expect(await service.loadProvenance('conv-1')).toEqual([]);
+
+      mockSettings.getSetting.mockRejectedValue(new Error('offline'));
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      expect(await service.loadProvenance('conv-1')).toEqual([]);
+    });
+  });
+
+  describe('saveProvenance', () => {
+    it('should replace existing turns', async () => {
+      await service.appendProvenance('conv-1', makeTurn('Old?'));
+      await service.saveProvenance('conv-1', [makeTurn('Imported?')]);
+
+      const turns = await service.loadProvenance('conv-1');
+      expect(turns.map(turn => turn.question)).toEqual(['Imported?']);
+    });
+  });
+
+  describe('deleteProvenance', () => {
+    it('should clear the turns of a deleted conversation', async () => {
+      await service.appendProvenance('conv-1', makeTurn('Gone?'));
+      await service.deleteProvenance('conv-1');
+
+      expect(store['chat_with_docs_message_provenance_conv-1']).toBeNull();
+      expect(await service.loadProvenance('conv-1')).toEqual([]);
+    });
+  });
+
+  describe('attachToMessages', () => {
+    it('should match repeated questions to their turns in order', () => {
+      const messages = MessageProvenanceService.attachToMessages(
+        [
+          makeMessage('u1', 'user', 'Same question?'),
+          makeMessage('a1', 'ai', 'First answer [1].'),
+          makeMessage('u2', 'user', 'Thanks'),
+          makeMessage('a2', 'ai', 'You are welcome.'),
+          makeMessage('u3', 'user', ' Same   question? '),
+          makeMessage('a3', 'ai', 'Second answer [1].'),
+        ],
+        [makeTurn('Same question?', 'chunk-1'), makeTurn('Same question?', 'chunk-2')]
+      );
+
+      expect(messages.map(message => message.id.split('_')[0])).toEqual(
+        ['u1', 'retrieval', 'a1', 'u2', 'a2', 'u3', 'retrieval', 'a3']
+      );
+      expect(messages[1].retrievalData?.chunks[0].id).toBe('chunk-1');
+      expect(messages[1].retrievalData?.context).toContain('[1]');
+      expect(messages[2].citationSourceId).toBe(messages[1].id);
+      expect(messages[4].citationSourceId).toBeUndefined();
+      expect(messages[6].retrievalData?.chunks[0].id).toBe('chunk-2');
+      expect(messages[7].citationSourceId).toBe(messages[6].id);
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { DocumentReaderService } from './DocumentReaderService';
+import type { DocumentChunk } from '../../braindrive-plugin/pluginTypes';
+
+const makeChunk = (overrides: Partial<DocumentChunk> = {}): DocumentChunk => ({
+  id: 'chunk-0',
+  document_id: 'doc-1',
+  collection_id: 'coll-1',
+  content: 'Hello world',
+  chunk_index: 0,
+  chunk_type: 'text',
+  metadata: {},
+  ...overrides,
+});
+
+describe('DocumentReaderService', () => {
+  let mockRepository: { findChunks: jest.Mock };
+  let service: DocumentReaderService;
+
+  beforeEach(() => {
+    mockRepository = { findChunks: jest.fn() };
+    service = new DocumentReaderService({ documentRepository: mockRepository });
+  });
+
+  describe('loadChunks', () => {
+    it('should load chunks in order and cache them', async () => {
+      mockRepository.findChunks.mockResolvedValue([
+        makeChunk({ id: 'b', chunk_index: 1 }),
+        makeChunk({ id: 'a', chunk_index: 0 }),
+      ]);
+
+      const first = await service.loadChunks('doc-1');
+      const second = await service.loadChunks('doc-1');
+
+      expect(first.map(c => c.id)).toEqual(['a', 'b']);
+      expect(second).toBe(first);
+      expect(mockRepository.findChunks).toHaveBeenCalledTimes(1);
+      expect(mockRepository.findChunks).toHaveBeenCalledWith('doc-1');
+    });
+
+    it('should reload after the cache is cleared', async () => {
+      mockRepository.findChunks.mockResolvedValue([makeChunk()]);
+
+      await service.loadChunks('doc-1');
+      service.clearCache('doc-1');
+      await service.loadChunks('doc-1');
+
+      expect(mockRepository.findChunks).toHaveBeenCalledTimes(2);
+    });
+
+    it('should treat a non-array response as no chunks', async () => {
+      mockRepository.findChunks.mockResolvedValue(null);
+
+      expect(await service.loadChunks('doc-1')).toEqual([]);
+    });
+  });
+
+  describe('sortChunks', () => {
+    it('should prefer start_char when every chunk has a range', () => {
+      const sorted = DocumentReaderService.sortChunks([
+        makeChunk({ id: 'late', chunk_index: 0, metadata: { start_char: 100, end_char: 200 } }),
+        makeChunk({ id: 'early', chunk_index: 1, metadata: { start_char: 0, end_char: 100 } }),
+      ]);
+
+      expect(sorted.map(c => c.id)).toEqual(['early', 'late']);
+    });
+
+    it('should fall back to chunk_index when ranges are missing', () => {
+      const sorted = DocumentReaderService.sortChunks([
+        makeChunk({ id: 'second', chunk_index: 2, metadata: { start_char: 0, end_char: 10 } }),
+        makeChunk({ id: 'first', chunk_index: 1 }),
+      ]);
+
+      expect(sorted.map(c => c.id)).toEqual(['first', 'second']);
+    });
+  });
+
+  describe('findChunkPosition', () => {
+    const chunks = [
+      makeChunk({ id: 'a', chunk_index: 0 }),
+      makeChunk({ id: 'b', chunk_index: 1 }),
+      makeChunk({ id: 'c', chunk_index: 2 }),
+    ];
+
+    it('should match by id first', () => {
+      expect(DocumentReaderService.findChunkPosition(chunks, { chunkId: 'c', chunkIndex: 0 })).toBe(2);
+    });
+
+    it('should fall back to chunk_index', () => {
+      expect(DocumentReaderService.findChunkPosition(chunks, { chunkId: 'missing', chunkIndex: 1 })).toBe(1);
+    });
+
+    it('should default to the first chunk', () => {
+      expect(DocumentReaderService.findChunkPosition(chunks, {})).toBe(0);
+    });
+  });
+
+  describe('getVisibleText', () => {
+    it('should trim text overlapping the previous chunk', () => {
+      const previous = makeChunk({ content: 'Hello wor', metadata: { start_char: 0, end_char: 9 } });
+      const chunk = makeChunk({ content: 'world!', metadata: { start_char: 6, end_char: 12 } });
+
+      expect(DocumentReaderService.getVisibleText(chunk, previous)).toBe('ld!');
+    });
+
+    it('should keep content that is not an exact slice of its range', () => {
+      const previous = makeChunk({ metadata: { start_char: 0, end_char: 9 } });
+      const chunk = makeChunk({ content: 'Context: world!', metadata: { start_char: 6, end_char: 12 } });
+
+      expect(DocumentReaderService.getVisibleText(chunk, previous)).toBe('Context: world!');
+    });
+
+    it('should return full content for the first chunk', () => {
+      expect(DocumentReaderService.getVisibleText(makeChunk())).toBe('Hello world');
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import type { DocumentChunk } from '../../braindrive-plugin/pluginTypes';
+import type { DocumentRepository } from '../../infrastructure/repositories';
+
+/**
+ * Document (and optionally chunk) to open in the document reader
+ */
+export interface DocumentReaderTarget {
+  documentId: string;
+  documentName?: string;
+  chunkId?: string;
+  chunkIndex?: number;
+}
+
+/**
+ * Character range of a chunk within its source document
+ */
+export interface ChunkRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Dependencies for DocumentReaderService
+ */
+export interface DocumentReaderServiceDeps {
+  documentRepository: Pick<DocumentRepository, 'findChunks'>;
+}
+
+/**
+ * DocumentReaderService loads a document's chunks for reading in order.
+ *
+ * Responsibilities:
+ * - Fetch and cache chunks per document
+ * - Order chunks by their position in the source document
+ * - Locate a cited chunk and trim overlap between neighbouring chunks
+ */
+export class DocumentReaderService {
+  private cache = new Map<string, DocumentChunk[]>();
+
+  constructor(private deps: DocumentReaderServiceDeps) {}
+
+  /**
+   * Load a document's chunks in reading order
+   */
+  async loadChunks(documentId: string): Promise<DocumentChunk[]> {
+    const cached = this.cache.get(documentId);
+    if (cached) {
+      return cached;
+    }
+
+    const chunks = await this.deps.documentRepository.findChunks(documentId);
+    const ordered = DocumentReaderService.sortChunks(Array.isArray(chunks) ? chunks : []);
+    this.cache.set(documentId, ordered);
+    return ordered;
+  }
+
+  /**
+   * Drop cached chunks, e.g. after a document is re-processed or deleted
+   */
+  clearCache(documentId?: string): void {
+    if (documentId) {
+      this.cache.delete(documentId);
+    } else {
+      this.cache.clear();
+    }
+  }
+
+  /**
+   * Character range of a chunk, or null when the backend did not provide one
+   */
+  static getChunkRange(chunk: DocumentChunk): ChunkRange | null {
+    const start = chunk.metadata?.start_char;
+    const end = chunk.metadata?.end_char;
+    if (typeof start !== 'number' || typeof end !== 'number' || end < start) {
+      return null;
+    }
+    return { start, end };
+  }
+
+  /**
+   * Order chunks by start_char when every chunk has a range, otherwise by chunk_index
+   */
+  static sortChunks(chunks: DocumentChunk[]): DocumentChunk[] {
+    const allRanged = chunks.every(chunk => this.getChunkRange(chunk) !== null);
+
+    return [...chunks].sort((a, b) => {
+      if (allRanged) {
+        const diff = this.getChunkRange(a)!.start - this.getChunkRange(b)!.start;
+        if (diff !== 0) return diff;
+      }
+      return (a.chunk_index ?? 0) - (b.chunk_index ?? 0);
+    });
+  }
+
+  /**
+   * Position of the target chunk, matched by id and then by chunk_index. Defaults to the first chunk.
+   */
+  static findChunkPosition(chunks: DocumentChunk[], target: Pick<DocumentReaderTarget, 'chunkId' | 'chunkIndex'>): number {
+    if (target.chunkId) {
+      const byId = chunks.findIndex(chunk => chunk.id === target.chunkId);
+      if (byId !== -1) return byId;
+    }
+
+    if (typeof target.chunkIndex === 'number') {
+      const byIndex = chunks.findIndex(chunk => chunk.chunk_index === target.chunkIndex);
+      if (byIndex !== -1) return byIndex;
+    }
+
+    return 0;
+  }
+
+  /**
+   * Text of a chunk without the part already shown at the end of the previous chunk.
+   * Overlap is only trimmed when the chunk content is an exact slice of its range.
+   */
+  static getVisibleText(chunk: DocumentChunk, previous?: DocumentChunk): string {
+    const content = chunk.content || '';
+    if (!previous) return content;
+
+    const range = this.getChunkRange(chunk);
+    const previousRange = this.getChunkRange(previous);
+    if (!range || !previousRange || content.length !== range.end - range.start) {
+      return content;
+    }
+
+    const overlap = previousRange.end - range.start;
+    if (overlap <= 0) return content;
+    return content.slice(Math.min(overlap, content.length));
+  }
+}
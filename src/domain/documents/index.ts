@@ -0,0 +1,6 @@
+export { DocumentReaderService } from './DocumentReaderService';
+export type {
+  DocumentReaderTarget,
+  DocumentReaderServiceDeps,
+  ChunkRange,
+} from './DocumentReaderService';
@@ -0,0 +1,59 @@
+import { AdaptivePoller } from './AdaptivePoller';
+
+const createClock = () => {
+  const clock = {
+    time: 0,
+    sleeps: [] as number[],
+    now: () => clock.time,
+    sleep: async (ms: number) => {
+      clock.sleeps.push(ms);
+      clock.time += ms;
+    },
+  };
+  return clock;
+};
+
+describe('AdaptivePoller', () => {
+  it('should back off while stalled and reset once progress resumes', async () => {
+    const clock = createClock();
+    const judged = [1, 1, 1, 2, 5];
+    let call = 0;
+
+    const result = await AdaptivePoller.poll(
+      async () => judged[call++],
+      value => ({ done: value >= 5, progress: value }),
+      { initialDelayMs: 1000, maxDelayMs: 2000, backoffFactor: 1.5, now: clock.now, sleep: clock.sleep }
+    );
+
+    expect(result).toBe(5);
+    expect(clock.sleeps).toEqual([1000, 1000, 1500, 2000, 1000]);
+  });
+
+  it('should give up when progress stalls for too long', async () => {
+    const clock = createClock();
+
+    await expect(
+      AdaptivePoller.poll(
+        async () => 3,
+        value => ({ done: false, progress: value }),
+        { initialDelayMs: 1000, maxDelayMs: 60000, stallTimeoutMs: 120000, now: clock.now, sleep: clock.sleep }
+      )
+    ).rejects.toThrow('No progress for 2 minutes');
+  });
+
+  it('should return null when aborted', async () => {
+    const clock = createClock();
+    const controller = new AbortController();
+    controller.abort();
+    const fetch = jest.fn(async () => 0);
+
+    const result = await AdaptivePoller.poll(fetch, () => ({ done: false, progress: 0 }), {
+      signal: controller.signal,
+      now: clock.now,
+      sleep: clock.sleep,
+    });
+
+    expect(result).toBeNull();
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,71 @@
+export interface AdaptivePollOptions {
+  // Delay before the first poll, and after any poll that saw progress
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  // Delay multiplier after a poll without progress
+  backoffFactor?: number;
+  // Give up after this long without progress
+  stallTimeoutMs?: number;
+  signal?: AbortSignal;
+  now?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export interface PollCheck {
+  done: boolean;
+  // Any number that grows as work gets done, e.g. judged answers
+  progress: number;
+}
+
+const DEFAULT_OPTIONS = {
+  initialDelayMs: 2000,
+  maxDelayMs: 15000,
+  backoffFactor: 1.5,
+  stallTimeoutMs: 5 * 60 * 1000,
+};
+
+/**
+ * AdaptivePoller polls quickly while work is moving and backs off while it
+ * is not. It only times out when progress stalls, so long runs that keep
+ * moving are never cut off.
+ */
+export class AdaptivePoller {
+  /**
+   * Poll until `check` reports done.
+   * @returns The last value fetched, or null when aborted
+   * @throws When there has been no progress for `stallTimeoutMs`
+   */
+  static async poll<T>(
+    fetch: () => Promise<T>,
+    check: (value: T) => PollCheck,
+    options: AdaptivePollOptions = {}
+  ): Promise<T | null> {
+    const { initialDelayMs, maxDelayMs, backoffFactor, stallTimeoutMs } = { ...DEFAULT_OPTIONS, ...options };
+    const now = options.now || Date.now;
+    const sleep = options.sleep || ((ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms)));
+
+    let delay = initialDelayMs;
+    let lastProgress = -Infinity;
+    let lastProgressAt = now();
+
+    while (true) {
+      await sleep(delay);
+      if (options.signal?.aborted) return null;
+
+      const value = await fetch();
+      const { done, progress } = check(value);
+      if (done) return value;
+
+      if (progress > lastProgress) {
+        lastProgress = progress;
+        lastProgressAt = now();
+        delay = initialDelayMs;
+      } else {
+        if (now() - lastProgressAt >= stallTimeoutMs) {
+          throw new Error(`No progress for ${Math.round(stallTimeoutMs / 60000)} minutes`);
+        }
+        delay = Math.min(Math.ceil(delay * backoffFactor), maxDelayMs);
+      }
+    }
+  }
+}
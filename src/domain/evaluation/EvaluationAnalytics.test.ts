@@ -0,0 +1,104 @@
+import { EvaluationAnalytics } from './EvaluationAnalytics';
+import type {
+  DetailedEvaluationResult,
+  EvaluationRun,
+  GetEvaluationResultsResponse,
+} from '../../evaluation-view/evaluationViewTypes';
+
+const makeResult = (id: string, overrides: Partial<DetailedEvaluationResult> = {}): DetailedEvaluationResult => ({
+  test_case_id: id,
+  question: `Question ${id}?`,
+  llm_answer: `Answer ${id}`,
+  judge_correct: true,
+  judge_reasoning: '',
+  retrieved_context: '',
+  ...overrides,
+});
+
+const makeRun = (id: string, runDate: string, results: DetailedEvaluationResult[]): GetEvaluationResultsResponse => {
+  const correct = results.filter(result => result.judge_correct).length;
+  const run: EvaluationRun = {
+    id,
+    total_questions: results.length,
+    correct_count: correct,
+    incorrect_count: results.length - correct,
+    evaluated_count: results.length,
+    accuracy: (correct / results.length) * 100,
+    started_at: runDate,
+    is_completed: true,
+    progress: 1,
+    status: 'completed',
+    duration_seconds: 10,
+    run_date: runDate,
+    config_snapshot: { llm_model: 'llama3', persona: { name: 'Analyst' } },
+  };
+  return { evaluation_run: run, results };
+};
+
+describe('EvaluationAnalytics', () => {
+  it('should break accuracy down by category, largest first', () => {
+    const breakdown = EvaluationAnalytics.categoryBreakdown([
+      makeResult('1', { category: 'billing' }),
+      makeResult('2', { category: 'billing', judge_correct: false }),
+      makeResult('3', { category: 'shipping' }),
+      makeResult('4', { category: '  ' }),
+    ]);
+
+    expect(breakdown.map(entry => entry.category)).toEqual(['billing', 'shipping', 'Uncategorized']);
+    expect(breakdown[0]).toEqual({ category: 'billing', total: 2, correct: 1, accuracy: 50 });
+  });
+
+  it('should count reviewers\' overrides instead of the judge\'s label', () => {
+    const breakdown = EvaluationAnalytics.categoryBreakdown([
+      makeResult('1', {
+        judge_correct: false,
+        review: { testCaseId: '1', verdict: 'disagree', note: 'Answer is right', reviewedAt: '2024-03-01T00:00:00Z' },
+      }),
+    ]);
+
+    expect(breakdown[0].correct).toBe(1);
+  });
+
+  it('should find terms that recur across failure notes', () => {
+    const results = [
+      makeResult('1', { category: 'billing', judge_correct: false, judge_missing_info: ['Refund window is missing'] }),
+      makeResult('2', { category: 'returns', judge_correct: false, judge_missing_info: ['Does not mention the refund fee'] }),
+      makeResult('3', { judge_correct: false, judge_factual_errors: ['Wrong warranty length'] }),
+    ];
+
+    const themes = EvaluationAnalytics.failureThemes(results, 'missing_info');
+
+    expect(themes[0]).toEqual({
+      theme: 'refund',
+      count: 2,
+      examples: ['Refund window is missing', 'Does not mention the refund fee'],
+      categories: ['billing', 'returns'],
+    });
+    expect(themes.map(theme => theme.theme)).not.toContain('missing');
+    expect(themes.map(theme => theme.theme)).not.toContain('warranty');
+  });
+
+  it('should give the same key to a question set in any order', () => {
+    const a = [makeResult('1'), makeResult('2')];
+    const b = [makeResult('2', { question: '  question 2? ' }), makeResult('1')];
+
+    expect(EvaluationAnalytics.questionSetKey(a)).toBe(EvaluationAnalytics.questionSetKey(b));
+    expect(EvaluationAnalytics.questionSetKey(a)).not.toBe(EvaluationAnalytics.questionSetKey([makeResult('1')]));
+  });
+
+  it('should trend accuracy across runs of the same questions, oldest first', () => {
+    const target = makeRun('run-3', '2024-03-03T00:00:00Z', [makeResult('1'), makeResult('2')]);
+    const trend = EvaluationAnalytics.accuracyTrend(target, [
+      makeRun('run-2', '2024-03-02T00:00:00Z', [makeResult('2'), makeResult('1', { judge_correct: false })]),
+      makeRun('other', '2024-03-01T12:00:00Z', [makeResult('1'), makeResult('9')]),
+      makeRun('run-1', '2024-03-01T00:00:00Z', [
+        makeResult('1', { judge_correct: false }),
+        makeResult('2', { judge_correct: false }),
+      ]),
+    ]);
+
+    expect(trend.map(point => point.runId)).toEqual(['run-1', 'run-2', 'run-3']);
+    expect(trend.map(point => point.accuracy)).toEqual([0, 50, 100]);
+    expect(trend[0].label).toBe('llama3 · Analyst');
+  });
+});
@@ -0,0 +1,183 @@
+import type {
+  DetailedEvaluationResult,
+  GetEvaluationResultsResponse,
+} from '../../evaluation-view/evaluationViewTypes';
+import { RetrievalMetrics } from './RetrievalMetrics';
+import { JudgeReviewService } from './JudgeReviewService';
+
+export interface CategoryBreakdown {
+  category: string;
+  total: number;
+  correct: number;
+  accuracy: number;
+}
+
+export type FailureNoteKind = 'factual_errors' | 'missing_info';
+
+/**
+ * A word that keeps coming up in the judge's notes, with the notes it came from
+ */
+export interface FailureTheme {
+  theme: string;
+  // Results whose notes mention the theme
+  count: number;
+  examples: string[];
+  categories: string[];
+}
+
+/**
+ * One run of a question set, for accuracy trends
+ */
+export interface AccuracyTrendPoint {
+  runId: string;
+  runDate: string;
+  label: string;
+  accuracy: number;
+  correct: number;
+  total: number;
+  categories: CategoryBreakdown[];
+}
+
+const UNCATEGORIZED = 'Uncategorized';
+const MAX_EXAMPLES = 3;
+
+/**
+ * Words the judge uses in nearly every note; they say nothing about the topic
+ */
+const GENERIC_TERMS = new Set([
+  'about', 'also', 'answer', 'claims', 'context', 'correct', 'correctly', 'does', 'expected', 'fails', 'ground',
+  'incorrect', 'incorrectly', 'include', 'included', 'includes', 'info', 'information', 'instead', 'mention',
+  'mentioned', 'mentions', 'missing', 'model', 'not', 'omits', 'provide', 'provided', 'provides', 'question',
+  'response', 'said', 'says', 'should', 'stated', 'states', 'than', 'truth', 'what', 'would',
+]);
+
+/**
+ * EvaluationAnalytics summarizes results beyond overall accuracy:
+ * accuracy per category, recurring themes in the judge's failure notes and
+ * accuracy across runs of the same question set.
+ */
+export class EvaluationAnalytics {
+  /**
+   * Accuracy per category, largest categories first; reviewers' overrides
+   * take precedence over the judge
+   */
+  static categoryBreakdown(results: DetailedEvaluationResult[]): CategoryBreakdown[] {
+    const byCategory = new Map<string, CategoryBreakdown>();
+    results.forEach(result => {
+      const category = this.getCategory(result);
+      const entry = byCategory.get(category) || { category, total: 0, correct: 0, accuracy: 0 };
+      entry.total++;
+      if (JudgeReviewService.isCorrect(result)) entry.correct++;
+      entry.accuracy = (entry.correct / entry.total) * 100;
+      byCategory.set(category, entry);
+    });
+
+    return Array.from(byCategory.values())
+      .sort((a, b) => b.total - a.total || a.category.localeCompare(b.category));
+  }
+
+  /**
+   * Most frequent terms in the judge's factual-error or missing-info notes,
+   * counted once per result
+   */
+  static failureThemes(results: DetailedEvaluationResult[], kind: FailureNoteKind, limit: number = 8): FailureTheme[] {
+    const themes = new Map<string, { results: Set<string>; examples: string[]; categories: Set<string> }>();
+
+    results.forEach(result => {
+      const notes = (kind === 'factual_errors' ? result.judge_factual_errors : result.judge_missing_info) || [];
+
+      notes.forEach(note => {
+        RetrievalMetrics.keyTerms(note)
+          .filter(term => !GENERIC_TERMS.has(term) && !/^\d/.test(term))
+          .forEach(term => {
+            const theme = themes.get(term) || { results: new Set<string>(), examples: [], categories: new Set<string>() };
+            theme.results.add(result.test_case_id);
+            theme.categories.add(this.getCategory(result));
+            if (theme.examples.length < MAX_EXAMPLES && theme.examples.indexOf(note) === -1) {
+              theme.examples.push(note);
+            }
+            themes.set(term, theme);
+          });
+      });
+    });
+
+    return Array.from(themes.keys())
+      .map(term => {
+        const theme = themes.get(term)!;
+        return {
+          theme: term,
+          count: theme.results.size,
+          examples: theme.examples,
+          categories: Array.from(theme.categories).sort(),
+        };
+      })
+      // A theme needs two results to be a pattern, unless there is little data
+      .filter(theme => theme.count >= 2 || results.length < 10)
+      .sort((a, b) => b.count - a.count || a.theme.localeCompare(b.theme))
+      .slice(0, limit);
+  }
+
+  /**
+   * Identity of a question set: the same questions in any order give the same key
+   */
+  static questionSetKey(results: Array<{ question: string }>): string {
+    const questions = results
+      .map(result => result.question.replace(/\s+/g, ' ').trim().toLowerCase())
+      .sort();
+
+    // djb2 over the joined questions; collisions only merge trend lines
+    let hash = 5381;
+    const text = questions.join('\n');
+    for (let i = 0; i < text.length; i++) {
+      hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+    }
+    return `${questions.length}-${(hash >>> 0).toString(36)}`;
+  }
+
+  /**
+   * Runs that asked the same questions as `target`, oldest first
+   */
+  static accuracyTrend(
+    target: GetEvaluationResultsResponse,
+    history: GetEvaluationResultsResponse[]
+  ): AccuracyTrendPoint[] {
+    const key = this.questionSetKey(target.results);
+    const runs = new Map<string, GetEvaluationResultsResponse>();
+    history.concat(target).forEach(entry => {
+      if (entry.results.length > 0 && this.questionSetKey(entry.results) === key) {
+        runs.set(entry.evaluation_run.id, entry);
+      }
+    });
+
+    return Array.from(runs.values())
+      .sort((a, b) => (a.evaluation_run.run_date < b.evaluation_run.run_date ? -1 : 1))
+      .map(entry => {
+        const correct = entry.results.filter(result => JudgeReviewService.isCorrect(result)).length;
+        return {
+          runId: entry.evaluation_run.id,
+          runDate: entry.evaluation_run.run_date,
+          label: this.describeRun(entry.evaluation_run.config_snapshot),
+          accuracy: (correct / entry.results.length) * 100,
+          correct,
+          total: entry.results.length,
+          categories: this.categoryBreakdown(entry.results),
+        };
+      });
+  }
+
+  private static getCategory(result: DetailedEvaluationResult): string {
+    return (result.category || '').trim() || UNCATEGORIZED;
+  }
+
+  /**
+   * "model · persona" from a run's config snapshot
+   */
+  private static describeRun(configSnapshot?: Record<string, any>): string {
+    if (!configSnapshot) return '';
+    const model = configSnapshot.llm_model || configSnapshot.model || '';
+    const persona = configSnapshot.persona && typeof configSnapshot.persona === 'object'
+      ? configSnapshot.persona.name
+      : '';
+    return [model, persona].filter(Boolean).join(' · ');
+  }
+}
@@ -0,0 +1,80 @@
+import { EvaluationLeaderboard } from './EvaluationLeaderboard';
+import type { ModelInfo, PersonaInfo } from '../../components/chat-header/types';
+import type { EvaluationRun, MatrixCell } from '../../evaluation-view/evaluationViewTypes';
+
+const makeModel = (name: string): ModelInfo => ({
+  name,
+  provider: 'ollama',
+  providerId: 'ollama_servers_settings',
+  serverName: 'local',
+  serverId: 'server-1',
+});
+
+const persona: PersonaInfo = { id: 'p1', name: 'Analyst', system_prompt: 'Be precise.' };
+
+const makeRun = (accuracy: number): EvaluationRun => ({
+  id: `run-${accuracy}`,
+  total_questions: 10,
+  correct_count: accuracy / 10,
+  incorrect_count: 10 - accuracy / 10,
+  evaluated_count: 10,
+  accuracy,
+  started_at: '2024-01-01T00:00:00Z',
+  is_completed: true,
+  progress: 1,
+  status: 'completed',
+  duration_seconds: 60,
+  run_date: '2024-01-01T00:00:00Z',
+});
+
+const makeCell = (key: string, overrides: Partial<MatrixCell>): MatrixCell => ({
+  key,
+  model: makeModel(key),
+  persona: null,
+  status: 'completed',
+  runId: `run-${key}`,
+  run: null,
+  latenciesMs: [],
+  answerLengths: [],
+  ...overrides,
+});
+
+describe('EvaluationLeaderboard', () => {
+  it('should pair every model with every persona, including no persona', () => {
+    const combinations = EvaluationLeaderboard.combinations([makeModel('a'), makeModel('b')], [null, persona]);
+
+    expect(combinations.map(c => c.key)).toEqual([
+      'ollama-server-1-a::none',
+      'ollama-server-1-a::p1',
+      'ollama-server-1-b::none',
+      'ollama-server-1-b::p1',
+    ]);
+    expect(EvaluationLeaderboard.combinations([makeModel('a')], [])).toHaveLength(1);
+  });
+
+  it('should rank by accuracy, then latency, and list unfinished runs last', () => {
+    const rows = EvaluationLeaderboard.build([
+      makeCell('slow', { run: makeRun(80), latenciesMs: [3000, 5000], answerLengths: [100, 300] }),
+      makeCell('failed', { status: 'failed', runId: null, error: 'boom' }),
+      makeCell('fast', { run: makeRun(80), latenciesMs: [1000, 1000] }),
+      makeCell('best', { run: makeRun(90), persona }),
+    ]);
+
+    expect(rows.map(row => [row.key, row.rank])).toEqual([
+      ['best', 1],
+      ['fast', 2],
+      ['slow', 3],
+      ['failed', null],
+    ]);
+    expect(rows[0].personaName).toBe('Analyst');
+    expect(rows[2]).toMatchObject({ avgLatencyMs: 4000, p95LatencyMs: 5000, avgAnswerLength: 200 });
+  });
+
+  it('should compute nearest-rank percentiles', () => {
+    const values = [5, 1, 4, 2, 3, 6, 7, 8, 9, 10];
+
+    expect(EvaluationLeaderboard.percentile(values, 50)).toBe(5);
+    expect(EvaluationLeaderboard.percentile(values, 95)).toBe(10);
+    expect(EvaluationLeaderboard.percentile([], 95)).toBeNull();
+  });
+});
@@ -0,0 +1,107 @@
+import type { ModelInfo, PersonaInfo } from '../../components/chat-header/types';
+import type { MatrixCell, MatrixCellStatus } from '../../evaluation-view/evaluationViewTypes';
+
+/**
+ * Upper bound on model × persona combinations in one matrix run
+ */
+export const MAX_MATRIX_COMBINATIONS = 12;
+
+export interface LeaderboardRow {
+  key: string;
+  rank: number | null;
+  modelName: string;
+  serverName: string;
+  personaName: string;
+  status: MatrixCellStatus;
+  runId: string | null;
+  accuracy: number | null;
+  correctCount: number;
+  totalQuestions: number;
+  avgLatencyMs: number | null;
+  p95LatencyMs: number | null;
+  avgAnswerLength: number | null;
+  error?: string;
+}
+
+/**
+ * EvaluationLeaderboard plans matrix evaluations and ranks their results.
+ *
+ * Completed combinations rank by accuracy, ties going to the faster one;
+ * unfinished combinations follow in schedule order without a rank.
+ */
+export class EvaluationLeaderboard {
+  /**
+   * Every model paired with every persona; a null persona means "no persona"
+   */
+  static combinations(
+    models: ModelInfo[],
+    personas: Array<PersonaInfo | null>
+  ): Array<{ key: string; model: ModelInfo; persona: PersonaInfo | null }> {
+    const personaList = personas.length > 0 ? personas : [null];
+    const combinations: Array<{ key: string; model: ModelInfo; persona: PersonaInfo | null }> = [];
+
+    models.forEach(model => {
+      personaList.forEach(persona => {
+        combinations.push({
+          key: `${model.provider}-${model.serverId}-${model.name}::${persona ? persona.id : 'none'}`,
+          model,
+          persona,
+        });
+      });
+    });
+
+    return combinations;
+  }
+
+  static build(cells: MatrixCell[]): LeaderboardRow[] {
+    const rows = cells.map(cell => this.toRow(cell));
+    const ranked = rows
+      .filter(row => row.status === 'completed' && row.accuracy !== null)
+      .sort((a, b) => (b.accuracy! - a.accuracy!) || this.compareLatency(a, b));
+    ranked.forEach((row, index) => {
+      row.rank = index + 1;
+    });
+
+    return ranked.concat(rows.filter(row => row.rank === null));
+  }
+
+  static average(values: number[]): number | null {
+    if (values.length === 0) return null;
+    return values.reduce((sum, value) => sum + value, 0) / values.length;
+  }
+
+  /**
+   * Nearest-rank percentile
+   */
+  static percentile(values: number[], percentile: number): number | null {
+    if (values.length === 0) return null;
+    const sorted = values.slice().sort((a, b) => a - b);
+    const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil((percentile / 100) * sorted.length) - 1));
+    return sorted[index];
+  }
+
+  private static toRow(cell: MatrixCell): LeaderboardRow {
+    return {
+      key: cell.key,
+      rank: null,
+      modelName: cell.model.name,
+      serverName: cell.model.serverName,
+      personaName: cell.persona ? cell.persona.name : 'No persona',
+      status: cell.status,
+      runId: cell.runId,
+      accuracy: cell.run ? cell.run.accuracy : null,
+      correctCount: cell.run ? cell.run.correct_count : 0,
+      totalQuestions: cell.run ? cell.run.total_questions : 0,
+      avgLatencyMs: this.average(cell.latenciesMs),
+      p95LatencyMs: this.percentile(cell.latenciesMs, 95),
+      avgAnswerLength: this.average(cell.answerLengths),
+      error: cell.error,
+    };
+  }
+
+  private static compareLatency(a: LeaderboardRow, b: LeaderboardRow): number {
+    if (a.avgLatencyMs === null) return b.avgLatencyMs === null ? 0 : 1;
+    if (b.avgLatencyMs === null) return -1;
+    return a.avgLatencyMs - b.avgLatencyMs;
+  }
+}
@@ -0,0 +1,129 @@
+import { EvaluationReportExporter, type EvaluationReport } from './EvaluationReportExporter';
+import { QuestionSetCodec } from './QuestionSetCodec';
+import type { DetailedEvaluationResult, EvaluationRun } from '../../evaluation-view/evaluationViewTypes';
+
+const run: EvaluationRun = {
+  id: 'a1b2c3d4e5f6',
+  total_questions: 3,
+  correct_count: 2,
+  incorrect_count: 1,
+  evaluated_count: 3,
+  accuracy: 66.7,
+  started_at: '2024-03-05T10:00:00Z',
+  is_completed: true,
+  progress: 1,
+  status: 'completed',
+  duration_seconds: 42,
+  run_date: '2024-03-05T10:00:00Z',
+  config_snapshot: { llm_model: 'llama3', persona: { name: 'Analyst' }, top_k: 5 },
+};
+
+const makeResult = (id: string, overrides: Partial<DetailedEvaluationResult>): DetailedEvaluationResult => ({
+  test_case_id: id,
+  question: `Question ${id}?`,
+  llm_answer: `Answer ${id}`,
+  judge_correct: true,
+  judge_reasoning: 'Matches the source.',
+  retrieved_context: 'Some context',
+  ...overrides,
+});
+
+const report: EvaluationReport = {
+  run,
+  results: [
+    makeResult('1', { category: 'billing', ground_truth: '14 days' }),
+    makeResult('2', {
+      category: 'billing',
+      judge_correct: false,
+      judge_reasoning: 'Says "30 days", <wrong>',
+      judge_factual_errors: ['Wrong period', 'Wrong card'],
+      review: { testCaseId: '2', verdict: 'agree', note: '', reviewedAt: '2024-03-05T11:00:00Z' },
+    }),
+    makeResult('3', {}),
+  ],
+};
+
+describe('EvaluationReportExporter', () => {
+  it('should write one CSV row per result with the configuration on each row', () => {
+    const csv = EvaluationReportExporter.toCsv(report);
+    const rows = QuestionSetCodec['readCsvRows'](csv);
+
+    expect(rows[0].slice(-4)).toEqual(['run_id', 'config.llm_model', 'config.persona', 'config.top_k']);
+    expect(rows).toHaveLength(4);
+    expect(rows[2][6]).toBe('Says "30 days", <wrong>');
+    expect(rows[2][7]).toBe('Wrong period; Wrong card');
+    expect(rows[2][10]).toBe('agree');
+    expect(rows[3].slice(-4)).toEqual(['a1b2c3d4e5f6', 'llama3', 'Analyst', '5']);
+  });
+
+  it('should keep CSV cells that look like formulas as text', () => {
+    const csv = EvaluationReportExporter.toCsv({
+      run: { ...run, config_snapshot: { temperature_offset: -0.5 } },
+      results: [makeResult('4', {
+        question: '=HYPERLINK("http://example.com","click")',
+        llm_answer: '+1 refund',
+        judge_reasoning: '@SUM(A1:A2)',
+        retrieved_context: '-2+3',
+      })],
+    });
+    const rows = QuestionSetCodec['readCsvRows'](csv);
+
+    expect(rows[1][1]).toBe('\'=HYPERLINK("http://example.com","click")');
+    expect(rows[1][4]).toBe('\'+1 refund');
+    expect(rows[1][6]).toBe('\'@SUM(A1:A2)');
+    expect(rows[1][9]).toBe('\'-2+3');
+    expect(rows[1][rows[1].length - 1]).toBe('-0.5');
+  });
+
+  it('should export JSON with the config snapshot and summary', () => {
+    const file = EvaluationReportExporter.export(report, 'json', new Date('2024-03-06T00:00:00Z'));
+    const parsed = JSON.parse(file.content);
+
+    expect(file.fileName).toBe('evaluation-2024-03-05-a1b2c3d4.json');
+    expect(file.mimeType).toBe('application/json');
+    expect(parsed.exported_at).toBe('2024-03-06T00:00:00.000Z');
+    expect(parsed.config_snapshot.top_k).toBe(5);
+    expect(parsed.summary.categories).toHaveLength(2);
+    expect(parsed.summary.retrieval).toBeNull();
+    expect(parsed.summary.judge_review).toMatchObject({ reviewedCount: 1, agreementRate: 1 });
+    expect(parsed.results).toHaveLength(3);
+  });
+
+  it('should build a self-contained, escaped HTML report', () => {
+    const html = EvaluationReportExporter.toHtml({
+      ...report,
+      retrieval: { k: 5, scoredCount: 2, hitRate: 0.5, recallAtK: 0.5, mrr: 0.25, contextPrecision: 0.1 },
+    });
+
+    expect(html).toContain('<!DOCTYPE html>');
+    expect(html).not.toMatch(/<(script|link)\b/);
+    expect(html).toContain('Says &quot;30 days&quot;, &lt;wrong&gt;');
+    expect(html).toContain('<li>Wrong card</li>');
+    expect(html).toContain('<th>persona</th><td>Analyst</td>');
+    expect(html).toContain('Recall@5');
+    expect(html).toContain('<td>billing</td><td>1 / 2</td><td>50.0%</td>');
+  });
+
+  it('should show reviewed accuracy, verdicts and notes consistently in the HTML report', () => {
+    const html = EvaluationReportExporter.toHtml({
+      run,
+      results: [
+        makeResult('1', { category: 'billing' }),
+        makeResult('2', {
+          category: 'billing',
+          judge_correct: false,
+          review: { testCaseId: '2', verdict: 'disagree', note: 'Cites the right policy', reviewedAt: '2024-03-05T11:00:00Z' },
+        }),
+        makeResult('3', {}),
+      ],
+    });
+
+    expect(html).toContain('<dt>Accuracy (reviewed)</dt><dd>100.0%</dd>');
+    expect(html).toContain('<dt>Correct</dt><dd>3 / 3</dd>');
+    expect(html).toContain('<dt>Judge Accuracy</dt><dd>66.7%</dd>');
+    expect(html).toContain('<td>billing</td><td>2 / 2</td><td>100.0%</td>');
+    expect(html).not.toContain('badge incorrect');
+    expect(html).toContain('<span class="badge overridden">Judge overridden</span>');
+    expect(html).toContain('Disagreed with the judge (judged incorrect): Cites the right policy');
+  });
+});
@@ -0,0 +1,244 @@
+import type { DetailedEvaluationResult, EvaluationRun } from '../../evaluation-view/evaluationViewTypes';
+import { escapeCsvCell, type ExportedFile } from '../../utils';
+import type { RetrievalMetricsSummary } from './RetrievalMetrics';
+import { EvaluationAnalytics } from './EvaluationAnalytics';
+import { JudgeReviewService } from './JudgeReviewService';
+
+export type EvaluationReportFormat = 'csv' | 'json' | 'html';
+
+/**
+ * A run and its per-question results, as loaded for the results tab
+ */
+export interface EvaluationReport {
+  run: EvaluationRun;
+  results: DetailedEvaluationResult[];
+  retrieval?: RetrievalMetricsSummary | null;
+}
+
+const MIME_TYPES: Record<EvaluationReportFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  json: 'application/json',
+  html: 'text/html;charset=utf-8',
+};
+
+const RESULT_COLUMNS: Array<{ header: string; value: (result: DetailedEvaluationResult) => string }> = [
+  { header: 'test_case_id', value: result => result.test_case_id },
+  { header: 'question', value: result => result.question },
+  { header: 'category', value: result => result.category || '' },
+  { header: 'judge_correct', value: result => (result.judge_correct ? 'true' : 'false') },
+  { header: 'llm_answer', value: result => result.llm_answer },
+  { header: 'ground_truth', value: result => result.ground_truth || '' },
+  { header: 'judge_reasoning', value: result => result.judge_reasoning },
+  { header: 'judge_factual_errors', value: result => (result.judge_factual_errors || []).join('; ') },
+  { header: 'judge_missing_info', value: result => (result.judge_missing_info || []).join('; ') },
+  { header: 'retrieved_context', value: result => result.retrieved_context },
+  { header: 'review_verdict', value: result => (result.review ? result.review.verdict : '') },
+  { header: 'review_note', value: result => (result.review ? result.review.note : '') },
+  { header: 'correct', value: result => (JudgeReviewService.isCorrect(result) ? 'true' : 'false') },
+];
+
+const REPORT_STYLES = `
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; color: #111827; background: #f9fafb; margin: 0; padding: 32px; }
+  main { max-width: 960px; margin: 0 auto; }
+  h1 { font-size: 24px; margin: 0 0 4px; }
+  h2 { font-size: 18px; margin: 32px 0 12px; }
+  .muted { color: #6b7280; font-size: 14px; }
+  .cards { display: grid; grid-template-columns: repeat(auto-fit, minmax(160px, 1fr)); gap: 12px; margin-top: 16px; }
+  .card { background: #fff; border: 1px solid #e5e7eb; border-radius: 8px; padding: 12px 16px; }
+  .card dt { color: #6b7280; font-size: 13px; }
+  .card dd { margin: 4px 0 0; font-size: 22px; font-weight: 600; }
+  table { width: 100%; border-collapse: collapse; background: #fff; border: 1px solid #e5e7eb; font-size: 14px; }
+  th, td { text-align: left; padding: 8px 12px; border-bottom: 1px solid #e5e7eb; vertical-align: top; }
+  th { background: #f3f4f6; font-weight: 600; }
+  details { background: #fff; border: 1px solid #e5e7eb; border-radius: 8px; margin-bottom: 8px; }
+  summary { cursor: pointer; padding: 12px 16px; font-weight: 500; }
+  .result { padding: 0 16px 16px; }
+  .result h3 { font-size: 13px; color: #6b7280; margin: 12px 0 4px; }
+  .result p, .result pre { margin: 0; font-size: 14px; white-space: pre-wrap; }
+  .result pre { background: #f3f4f6; padding: 8px; border-radius: 4px; max-height: 240px; overflow: auto; }
+  .badge { display: inline-block; border-radius: 9999px; padding: 1px 8px; font-size: 12px; margin-right: 8px; }
+  .correct { background: #dcfce7; color: #166534; }
+  .incorrect { background: #fee2e2; color: #991b1b; }
+  .overridden { background: #fef3c7; color: #92400e; }
+`;
+
+/**
+ * EvaluationReportExporter turns a run's results into files that can be
+ * shared outside BrainDrive: CSV for spreadsheets, JSON for scripts and a
+ * self-contained HTML report.
+ */
+export class EvaluationReportExporter {
+  static export(report: EvaluationReport, format: EvaluationReportFormat, exportedAt: Date = new Date()): ExportedFile {
+    const content = format === 'csv'
+      ? this.toCsv(report)
+      : format === 'json'
+        ? this.toJson(report, exportedAt)
+        : this.toHtml(report, exportedAt);
+
+    return { content, fileName: this.getFileName(report.run, format), mimeType: MIME_TYPES[format] };
+  }
+
+  static getFileName(run: EvaluationRun, format: EvaluationReportFormat): string {
+    const date = (run.run_date || run.started_at || '').slice(0, 10) || 'undated';
+    return `evaluation-${date}-${run.id.slice(0, 8)}.${format}`;
+  }
+
+  /**
+   * Configuration as label/value pairs; a persona is shown by name
+   */
+  static describeConfig(configSnapshot?: Record<string, any>): Array<{ key: string; value: string }> {
+    return Object.keys(configSnapshot || {}).map(key => {
+      const value = configSnapshot![key];
+      if (key === 'persona' && value && typeof value === 'object' && 'name' in value) {
+        return { key, value: String(value.name) };
+      }
+      if (value !== null && typeof value === 'object') {
+        return { key, value: JSON.stringify(value) };
+      }
+      return { key, value: value === null || value === undefined ? '' : String(value) };
+    });
+  }
+
+  /**
+   * One row per question, followed by the run id and configuration repeated
+   * on every row so the file stands alone in a spreadsheet
+   */
+  static toCsv(report: EvaluationReport): string {
+    const config = this.describeConfig(report.run.config_snapshot);
+    const header = RESULT_COLUMNS.map(column => column.header)
+      .concat('run_id', config.map(entry => `config.${entry.key}`));
+
+    const rows = report.results.map(result =>
+      RESULT_COLUMNS.map(column => column.value(result))
+        .concat(report.run.id, config.map(entry => entry.value))
+    );
+
+    return [header].concat(rows)
+      .map(row => row.map(cell => escapeCsvCell(cell)).join(','))
+      .join('\r\n') + '\r\n';
+  }
+
+  static toJson(report: EvaluationReport, exportedAt: Date = new Date()): string {
+    const { results } = report;
+    // Summary counts follow reviewers' overrides; evaluation_run keeps the judge's
+    const run = JudgeReviewService.applyToRun(report.run, results);
+    return JSON.stringify(
+      {
+        exported_at: exportedAt.toISOString(),
+        evaluation_run: report.run,
+        config_snapshot: run.config_snapshot || {},
+        summary: {
+          accuracy: run.accuracy,
+          total_questions: run.total_questions,
+          correct_count: run.correct_count,
+          incorrect_count: run.incorrect_count,
+          duration_seconds: run.duration_seconds,
+          categories: EvaluationAnalytics.categoryBreakdown(results),
+          retrieval: report.retrieval || null,
+          judge_review: JudgeReviewService.summarize(results),
+        },
+        results,
+      },
+      null,
+      2
+    );
+  }
+
+  static toHtml(report: EvaluationReport, exportedAt: Date = new Date()): string {
+    const { results, retrieval } = report;
+    const run = JudgeReviewService.applyToRun(report.run, results);
+    const review = JudgeReviewService.summarize(results);
+    const e = (value: string) => this.escapeHtml(value);
+    const percent = (value: number) => `${value.toFixed(1)}%`;
+
+    const cards = [
+      { label: review.reviewedCount > 0 ? 'Accuracy (reviewed)' : 'Accuracy', value: percent(run.accuracy) },
+      { label: 'Correct', value: `${run.correct_count} / ${run.total_questions}` },
+      { label: 'Incorrect', value: String(run.incorrect_count) },
+      { label: 'Duration', value: run.duration_seconds === null ? 'N/A' : `${Math.round(run.duration_seconds)}s` },
+    ];
+    if (review.reviewedCount > 0) {
+      cards.push(
+        { label: 'Judge Accuracy', value: percent(review.judgeAccuracy) },
+        { label: 'Judge Agreement', value: `${review.agreedCount} / ${review.reviewedCount}` }
+      );
+    }
+    if (retrieval) {
+      cards.push(
+        { label: 'Retrieval Hit Rate', value: percent(retrieval.hitRate * 100) },
+        { label: `Recall@${retrieval.k}`, value: percent(retrieval.recallAtK * 100) },
+        { label: 'MRR', value: retrieval.mrr.toFixed(2) },
+        { label: 'Context Precision', value: percent(retrieval.contextPrecision * 100) }
+      );
+    }
+
+    const config = this.describeConfig(run.config_snapshot);
+    const configTable = config.length === 0
+      ? '<p class="muted">No configuration recorded.</p>'
+      : `<table><tbody>${config.map(entry => `<tr><th>${e(entry.key)}</th><td>${e(entry.value)}</td></tr>`).join('')}</tbody></table>`;
+
+    const categoryRows = EvaluationAnalytics.categoryBreakdown(results)
+      .map(entry => `<tr><td>${e(entry.category)}</td><td>${entry.correct} / ${entry.total}</td><td>${percent(entry.accuracy)}</td></tr>`)
+      .join('');
+
+    const list = (items?: string[]) =>
+      items && items.length > 0 ? `<ul>${items.map(item => `<li>${e(item)}</li>`).join('')}</ul>` : '';
+
+    const resultBlocks = results.map(result => {
+      const overridden = !!result.review && result.review.verdict === 'disagree';
+      const verdict = (JudgeReviewService.isCorrect(result)
+        ? '<span class="badge correct">Correct</span>'
+        : '<span class="badge incorrect">Incorrect</span>')
+        + (overridden ? '<span class="badge overridden">Judge overridden</span>' : '');
+      const reviewSection = result.review
+        ? `<h3>Review</h3><p>${overridden
+          ? `Disagreed with the judge (judged ${result.judge_correct ? 'correct' : 'incorrect'})`
+          : 'Agreed with the judge'}${result.review.note ? `: ${e(result.review.note)}` : ''}</p>`
+        : '';
+      const sections = [
+        `<h3>Answer</h3><p>${e(result.llm_answer)}</p>`,
+        result.ground_truth ? `<h3>Expected answer</h3><p>${e(result.ground_truth)}</p>` : '',
+        `<h3>Judge reasoning</h3><p>${e(result.judge_reasoning)}</p>`,
+        reviewSection,
+        result.judge_factual_errors?.length ? `<h3>Factual errors</h3>${list(result.judge_factual_errors)}` : '',
+        result.judge_missing_info?.length ? `<h3>Missing information</h3>${list(result.judge_missing_info)}` : '',
+        result.retrieved_context ? `<h3>Retrieved context</h3><pre>${e(result.retrieved_context)}</pre>` : '',
+      ];
+      const category = result.category ? ` <span class="muted">· ${e(result.category)}</span>` : '';
+      return `<details><summary>${verdict}${e(result.question)}${category}</summary><div class="result">${sections.join('')}</div></details>`;
+    }).join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Evaluation Report · ${e(run.run_date.slice(0, 10))}</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+<main>
+<h1>Evaluation Report</h1>
+<p class="muted">Run ${e(run.id)} · ${e(new Date(run.run_date).toLocaleString())} · exported ${e(exportedAt.toLocaleString())}</p>
+<dl class="cards">${cards.map(card => `<div class="card"><dt>${e(card.label)}</dt><dd>${e(card.value)}</dd></div>`).join('')}</dl>
+<h2>Configuration</h2>
+${configTable}
+<h2>By Category</h2>
+<table><thead><tr><th>Category</th><th>Correct</th><th>Accuracy</th></tr></thead><tbody>${categoryRows}</tbody></table>
+<h2>Results (${results.length})</h2>
+${resultBlocks}
+</main>
+</body>
+</html>
+`;
+  }
+
+  private static escapeHtml(value: string): string {
+    return (value || '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#039;');
+  }
+}
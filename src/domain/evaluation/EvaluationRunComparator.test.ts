@@ -0,0 +1,108 @@
+import { EvaluationRunComparator } from './EvaluationRunComparator';
+import type {
+  DetailedEvaluationResult,
+  EvaluationRun,
+  GetEvaluationResultsResponse,
+} from '../../evaluation-view/evaluationViewTypes';
+
+const makeRun = (id: string, overrides: Partial<EvaluationRun> = {}): EvaluationRun => ({
+  id,
+  total_questions: 4,
+  correct_count: 2,
+  incorrect_count: 2,
+  evaluated_count: 4,
+  accuracy: 50,
+  started_at: '2024-01-01T00:00:00Z',
+  is_completed: true,
+  progress: 100,
+  status: 'completed',
+  duration_seconds: 60,
+  run_date: '2024-01-01T00:00:00Z',
+  ...overrides,
+});
+
+const makeResult = (testCaseId: string, question: string, correct: boolean): DetailedEvaluationResult => ({
+  test_case_id: testCaseId,
+  question,
+  llm_answer: `answer to ${question}`,
+  judge_correct: correct,
+  judge_reasoning: correct ? 'Matches the source' : 'Contradicts the source',
+  retrieved_context: '',
+});
+
+const makeResponse = (run: EvaluationRun, results: DetailedEvaluationResult[]): GetEvaluationResultsResponse => ({
+  evaluation_run: run,
+  results,
+});
+
+describe('EvaluationRunComparator', () => {
+  const base = makeResponse(
+    makeRun('run-a', { accuracy: 50, config_snapshot: { llm_model: 'llama3', persona: { name: 'Analyst' }, top_k: 5 } }),
+    [
+      makeResult('a1', 'What was Q3 revenue?', true),
+      makeResult('a2', 'Who is the CFO?', false),
+      makeResult('a3', 'When was the company founded?', true),
+      makeResult('a4', 'Where is HQ?', false),
+    ]
+  );
+  const candidate = makeResponse(
+    makeRun('run-b', { accuracy: 75, run_date: '2024-02-01T00:00:00Z', config_snapshot: { llm_model: 'qwen2', persona: { name: 'Analyst' }, top_k: 5 } }),
+    [
+      makeResult('b1', 'what was  Q3 revenue?', false),
+      makeResult('b2', 'Who is the CFO?', true),
+      makeResult('b3', 'When was the company founded?', true),
+      makeResult('b5', 'How many employees?', true),
+    ]
+  );
+
+  it('should match questions across runs by their text', () => {
+    const comparison = EvaluationRunComparator.compare(base, candidate);
+
+    expect(comparison.questions.map(q => [q.change, q.base?.test_case_id, q.candidate?.test_case_id])).toEqual([
+      ['regressed', 'a1', 'b1'],
+      ['improved', 'a2', 'b2'],
+      ['still-correct', 'a3', 'b3'],
+      ['base-only', 'a4', undefined],
+      ['candidate-only', undefined, 'b5'],
+    ]);
+  });
+
+  it('should report overall and shared-question accuracy deltas', () => {
+    const comparison = EvaluationRunComparator.compare(base, candidate);
+
+    expect(comparison.accuracyDelta).toBe(25);
+    expect(comparison.shared.count).toBe(3);
+    expect(comparison.shared.baseAccuracy).toBeCloseTo(66.67, 1);
+    expect(comparison.shared.candidateAccuracy).toBeCloseTo(66.67, 1);
+    expect(comparison.shared.accuracyDelta).toBeCloseTo(0);
+    expect(comparison.counts).toMatchObject({ regressed: 1, improved: 1, 'still-correct': 1 });
+  });
+
+  it('should compare the labels as reviewed', () => {
+    const reviewedBase = {
+      ...base,
+      results: base.results.map(result => (result.test_case_id === 'a1'
+        ? { ...result, review: { testCaseId: 'a1', verdict: 'disagree' as const, note: 'Wrong figure', reviewedAt: '2024-01-02T00:00:00Z' } }
+        : result)),
+    };
+    const comparison = EvaluationRunComparator.compare(reviewedBase, candidate);
+
+    expect(comparison.questions.find(q => q.base?.test_case_id === 'a1')!.change).toBe('still-incorrect');
+    expect(comparison.counts).toMatchObject({ regressed: 0, improved: 1 });
+  });
+
+  it('should list only config_snapshot entries that changed', () => {
+    const comparison = EvaluationRunComparator.compare(base, candidate);
+
+    expect(comparison.configDifferences).toEqual([
+      { key: 'llm_model', base: 'llama3', candidate: 'qwen2' },
+    ]);
+  });
+
+  it('should order runs oldest first', () => {
+    const [older, newer] = EvaluationRunComparator.orderRuns(candidate, base);
+
+    expect(older.evaluation_run.id).toBe('run-a');
+    expect(newer.evaluation_run.id).toBe('run-b');
+  });
+});
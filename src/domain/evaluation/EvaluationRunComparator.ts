@@ -0,0 +1,188 @@
+import type {
+  DetailedEvaluationResult,
+  EvaluationRun,
+  GetEvaluationResultsResponse,
+} from '../../evaluation-view/evaluationViewTypes';
+import { JudgeReviewService } from './JudgeReviewService';
+
+/**
+ * How a question's verdict changed from the base run to the candidate run
+ */
+export type QuestionChange =
+  | 'regressed'
+  | 'improved'
+  | 'still-correct'
+  | 'still-incorrect'
+  | 'base-only'
+  | 'candidate-only';
+
+/**
+ * One question answered in either or both runs
+ */
+export interface ComparedQuestion {
+  key: string;
+  question: string;
+  change: QuestionChange;
+  base?: DetailedEvaluationResult;
+  candidate?: DetailedEvaluationResult;
+}
+
+/**
+ * config_snapshot entry that differs between the runs
+ */
+export interface ConfigDifference {
+  key: string;
+  base: string;
+  candidate: string;
+}
+
+export interface RunComparison {
+  base: EvaluationRun;
+  candidate: EvaluationRun;
+  /** Candidate accuracy minus base accuracy, in percentage points */
+  accuracyDelta: number;
+  /** Accuracy over questions answered in both runs */
+  shared: {
+    count: number;
+    baseAccuracy: number;
+    candidateAccuracy: number;
+    accuracyDelta: number;
+  };
+  counts: Record<QuestionChange, number>;
+  questions: ComparedQuestion[];
+  configDifferences: ConfigDifference[];
+}
+
+/**
+ * Flipped questions first (regressions before improvements), then the rest
+ */
+const CHANGE_ORDER: QuestionChange[] = [
+  'regressed',
+  'improved',
+  'still-incorrect',
+  'still-correct',
+  'base-only',
+  'candidate-only',
+];
+
+/**
+ * EvaluationRunComparator diffs two evaluation runs question by question.
+ *
+ * Each run generates its own test case ids, so questions are matched on their
+ * normalised text. The older run is the base unless the caller says otherwise.
+ */
+export class EvaluationRunComparator {
+  static compare(base: GetEvaluationResultsResponse, candidate: GetEvaluationResultsResponse): RunComparison {
+    const baseByKey = this.indexResults(base.results || []);
+    const candidateByKey = this.indexResults(candidate.results || []);
+
+    const keys: string[] = [];
+    baseByKey.forEach((_result, key) => keys.push(key));
+    candidateByKey.forEach((_result, key) => {
+      if (!baseByKey.has(key)) keys.push(key);
+    });
+
+    const questions = keys.map(key => {
+      const baseResult = baseByKey.get(key);
+      const candidateResult = candidateByKey.get(key);
+      return {
+        key,
+        question: (candidateResult || baseResult)!.question,
+        change: this.getChange(baseResult, candidateResult),
+        base: baseResult,
+        candidate: candidateResult,
+      };
+    });
+    questions.sort((a, b) => CHANGE_ORDER.indexOf(a.change) - CHANGE_ORDER.indexOf(b.change));
+
+    const counts = CHANGE_ORDER.reduce((all, change) => {
+      all[change] = questions.filter(question => question.change === change).length;
+      return all;
+    }, {} as Record<QuestionChange, number>);
+
+    const sharedCount = questions.length - counts['base-only'] - counts['candidate-only'];
+    const sharedBaseCorrect = counts['regressed'] + counts['still-correct'];
+    const sharedCandidateCorrect = counts['improved'] + counts['still-correct'];
+    const baseAccuracy = this.percent(sharedBaseCorrect, sharedCount);
+    const candidateAccuracy = this.percent(sharedCandidateCorrect, sharedCount);
+
+    return {
+      base: base.evaluation_run,
+      candidate: candidate.evaluation_run,
+      accuracyDelta: (candidate.evaluation_run.accuracy || 0) - (base.evaluation_run.accuracy || 0),
+      shared: {
+        count: sharedCount,
+        baseAccuracy,
+        candidateAccuracy,
+        accuracyDelta: candidateAccuracy - baseAccuracy,
+      },
+      counts,
+      questions,
+      configDifferences: this.diffConfig(base.evaluation_run.config_snapshot, candidate.evaluation_run.config_snapshot),
+    };
+  }
+
+  /**
+   * Order two runs' results as [older, newer]
+   */
+  static orderRuns(
+    a: GetEvaluationResultsResponse,
+    b: GetEvaluationResultsResponse
+  ): [GetEvaluationResultsResponse, GetEvaluationResultsResponse] {
+    const aTime = new Date(a.evaluation_run.run_date).getTime();
+    const bTime = new Date(b.evaluation_run.run_date).getTime();
+    return aTime <= bTime ? [a, b] : [b, a];
+  }
+
+  static normalizeQuestion(question: string): string {
+    return (question || '').trim().replace(/\s+/g, ' ').toLowerCase();
+  }
+
+  /**
+   * Readable config value; personas are shown by name
+   */
+  static formatConfigValue(value: any): string {
+    if (value === undefined || value === null) return '—';
+    if (typeof value === 'object') {
+      return 'name' in value && value.name ? String(value.name) : JSON.stringify(value);
+    }
+    return String(value);
+  }
+
+  private static diffConfig(base: Record<string, any> = {}, candidate: Record<string, any> = {}): ConfigDifference[] {
+    const keys = Object.keys(base).concat(Object.keys(candidate).filter(key => !(key in base)));
+
+    return keys
+      .filter(key => JSON.stringify(base[key]) !== JSON.stringify(candidate[key]))
+      .map(key => ({
+        key,
+        base: this.formatConfigValue(base[key]),
+        candidate: this.formatConfigValue(candidate[key]),
+      }));
+  }
+
+  private static indexResults(results: DetailedEvaluationResult[]): Map<string, DetailedEvaluationResult> {
+    const byKey = new Map<string, DetailedEvaluationResult>();
+    results.forEach(result => {
+      const key = this.normalizeQuestion(result.question) || result.test_case_id;
+      if (!byKey.has(key)) {
+        byKey.set(key, result);
+      }
+    });
+    return byKey;
+  }
+
+  private static getChange(base?: DetailedEvaluationResult, candidate?: DetailedEvaluationResult): QuestionChange {
+    if (!candidate) return 'base-only';
+    if (!base) return 'candidate-only';
+    const baseCorrect = JudgeReviewService.isCorrect(base);
+    const candidateCorrect = JudgeReviewService.isCorrect(candidate);
+    if (baseCorrect && !candidateCorrect) return 'regressed';
+    if (!baseCorrect && candidateCorrect) return 'improved';
+    return candidateCorrect ? 'still-correct' : 'still-incorrect';
+  }
+
+  private static percent(part: number, total: number): number {
+    return total > 0 ? (part / total) * 100 : 0;
+  }
+}
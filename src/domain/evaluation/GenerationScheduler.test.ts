@@ -0,0 +1,135 @@
+import { GenerationScheduler, TokenBucket } from './GenerationScheduler';
+
+/**
+ * Clock whose sleep advances time instantly
+ */
+const createClock = () => {
+  const clock = {
+    time: 0,
+    sleeps: [] as number[],
+    now: () => clock.time,
+    sleep: async (ms: number) => {
+      clock.sleeps.push(ms);
+      clock.time += ms;
+    },
+  };
+  return clock;
+};
+
+describe('TokenBucket', () => {
+  it('should allow a burst up to capacity, then refill at the rate', () => {
+    const clock = createClock();
+    const bucket = new TokenBucket(2, 60, clock.now);
+
+    expect(bucket.tryTake()).toBe(0);
+    expect(bucket.tryTake()).toBe(0);
+    expect(bucket.tryTake()).toBe(1000);
+
+    clock.time += 500;
+    expect(bucket.tryTake()).toBe(500);
+
+    clock.time += 500;
+    expect(bucket.tryTake()).toBe(0);
+  });
+});
+
+describe('GenerationScheduler', () => {
+  it('should keep results in item order and never exceed the concurrency', async () => {
+    const scheduler = new GenerationScheduler();
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    const results = await scheduler.run(
+      [30, 10, 20, 5, 15],
+      async (delay, index) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise(resolve => setTimeout(resolve, delay));
+        inFlight--;
+        return `answer-${index}`;
+      },
+      { providerKey: 'ollama', settings: { concurrency: 2, requestsPerMinute: 600 } }
+    );
+
+    expect(results).toEqual(['answer-0', 'answer-1', 'answer-2', 'answer-3', 'answer-4']);
+    expect(maxInFlight).toBe(2);
+  });
+
+  it('should hold a provider to its requests per minute', async () => {
+    const clock = createClock();
+    const scheduler = new GenerationScheduler({ now: clock.now, sleep: clock.sleep });
+    const startedAt: number[] = [];
+
+    await scheduler.run(
+      [1, 2, 3, 4],
+      async item => {
+        startedAt.push(clock.time);
+        return item;
+      },
+      { providerKey: 'openai', settings: { concurrency: 1, requestsPerMinute: 30 } }
+    );
+
+    expect(startedAt).toEqual([0, 2000, 4000, 6000]);
+  });
+
+  it('should stop starting items once aborted and report finished ones', async () => {
+    const scheduler = new GenerationScheduler();
+    const controller = new AbortController();
+    const seen: number[] = [];
+
+    const results = await scheduler.run(
+      [1, 2, 3, 4],
+      async item => {
+        if (item === 2) controller.abort();
+        return item;
+      },
+      {
+        providerKey: 'ollama',
+        settings: { concurrency: 1, requestsPerMinute: 600 },
+        signal: controller.signal,
+        onResult: result => {
+          seen.push(result);
+        },
+      }
+    );
+
+    expect(results).toEqual([1, 2]);
+    expect(seen).toEqual([1, 2]);
+  });
+
+  it('should stop every lane on the first error and rethrow it', async () => {
+    const scheduler = new GenerationScheduler();
+    const started: number[] = [];
+
+    await expect(scheduler.run(
+      [1, 2, 3, 4, 5, 6],
+      async item => {
+        started.push(item);
+        await new Promise(resolve => setTimeout(resolve, item === 1 ? 0 : 10));
+        if (item === 1) throw new Error('429 Too Many Requests');
+        return item;
+      },
+      { providerKey: 'openai', settings: { concurrency: 2, requestsPerMinute: 600 } }
+    )).rejects.toThrow('429 Too Many Requests');
+
+    expect(started).toEqual([1, 2]);
+  });
+
+  it('should clamp settings', () => {
+    expect(GenerationScheduler.normalizeSettings({ concurrency: 50, requestsPerMinute: 0 })).toEqual({
+      concurrency: 8,
+      requestsPerMinute: 1,
+    });
+    expect(GenerationScheduler.normalizeSettings()).toEqual({ concurrency: 3, requestsPerMinute: 60 });
+  });
+
+  it('should estimate time left from answer times, bounded by the rate limit', () => {
+    const settings = { concurrency: 4, requestsPerMinute: 60 };
+
+    expect(GenerationScheduler.estimateRemainingMs(8, 4000, settings)).toBe(8000);
+    expect(GenerationScheduler.estimateRemainingMs(8, 400, settings)).toBe(8000);
+    expect(GenerationScheduler.estimateRemainingMs(8, 20000, settings)).toBe(40000);
+    expect(GenerationScheduler.estimateRemainingMs(8, null, settings)).toBeNull();
+    expect(GenerationScheduler.estimateRemainingMs(0, null, settings)).toBe(0);
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * How evaluation answers are generated: answers in flight at once and the
+ * request rate allowed per provider
+ */
+export interface GenerationSettings {
+  concurrency: number;
+  requestsPerMinute: number;
+}
+
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+  concurrency: 3,
+  requestsPerMinute: 60,
+};
+
+export const MAX_GENERATION_CONCURRENCY = 8;
+export const MAX_REQUESTS_PER_MINUTE = 600;
+
+/**
+ * Dependencies for GenerationScheduler, replaceable for deterministic tests
+ */
+export interface GenerationSchedulerDeps {
+  now?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export interface ScheduleOptions<T, R> {
+  // Requests to the same provider share one rate limit
+  providerKey: string;
+  settings: GenerationSettings;
+  signal?: AbortSignal;
+  onResult?: (result: R, item: T, index: number) => void | Promise<void>;
+}
+
+/**
+ * Token bucket refilled continuously at `ratePerMinute`, holding up to `capacity` tokens
+ */
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt: number;
+
+  constructor(
+    readonly capacity: number,
+    readonly ratePerMinute: number,
+    private now: () => number = Date.now
+  ) {
+    this.tokens = capacity;
+    this.updatedAt = now();
+  }
+
+  /**
+   * Take a token if one is available.
+   * @returns 0 when a token was taken, otherwise milliseconds until the next one
+   */
+  tryTake(): number {
+    this.refill();
+    if (this.tokens >= 1) {
+      this.tokens -= 1;
+      return 0;
+    }
+    return Math.ceil((1 - this.tokens) * (60000 / this.ratePerMinute));
+  }
+
+  private refill(): void {
+    const now = this.now();
+    const elapsed = Math.max(0, now - this.updatedAt);
+    this.tokens = Math.min(this.capacity, this.tokens + (elapsed * this.ratePerMinute) / 60000);
+    this.updatedAt = now;
+  }
+}
+
+/**
+ * GenerationScheduler runs evaluation answer generation in parallel.
+ *
+ * Responsibilities:
+ * - Keep up to `concurrency` answers in flight
+ * - Hold each provider to its requests-per-minute with a shared token bucket
+ * - Estimate the time left from measured answer times
+ */
+export class GenerationScheduler {
+  private buckets = new Map<string, TokenBucket>();
+  private now: () => number;
+  private sleep: (ms: number) => Promise<void>;
+
+  constructor(deps: GenerationSchedulerDeps = {}) {
+    this.now = deps.now || Date.now;
+    this.sleep = deps.sleep || (ms => new Promise(resolve => setTimeout(resolve, ms)));
+  }
+
+  static normalizeSettings(settings?: Partial<GenerationSettings>): GenerationSettings {
+    const clamp = (value: number | undefined, fallback: number, max: number) =>
+      typeof value === 'number' && isFinite(value) ? Math.max(1, Math.min(Math.floor(value), max)) : fallback;
+
+    return {
+      concurrency: clamp(settings?.concurrency, DEFAULT_GENERATION_SETTINGS.concurrency, MAX_GENERATION_CONCURRENCY),
+      requestsPerMinute: clamp(
+        settings?.requestsPerMinute,
+        DEFAULT_GENERATION_SETTINGS.requestsPerMinute,
+        MAX_REQUESTS_PER_MINUTE
+      ),
+    };
+  }
+
+  /**
+   * Estimated milliseconds to generate `remaining` answers: answers run
+   * `concurrency` at a time but never faster than the rate limit allows
+   */
+  static estimateRemainingMs(remaining: number, averageMs: number | null, settings: GenerationSettings): number | null {
+    if (remaining <= 0) return 0;
+    if (averageMs === null) return null;
+
+    const byConcurrency = (remaining * averageMs) / settings.concurrency;
+    const byRateLimit = (remaining * 60000) / settings.requestsPerMinute;
+    return Math.ceil(Math.max(byConcurrency, byRateLimit));
+  }
+
+  /**
+   * Wait for the provider's rate limit to allow another request.
+   * @returns false when aborted while waiting
+   */
+  async acquire(providerKey: string, settings: GenerationSettings, signal?: AbortSignal): Promise<boolean> {
+    const bucket = this.getBucket(providerKey, settings);
+    while (!signal?.aborted) {
+      const waitMs = bucket.tryTake();
+      if (waitMs === 0) return true;
+      await this.sleep(waitMs);
+    }
+    return false;
+  }
+
+  /**
+   * Run `worker` over `items` in parallel. Results keep the items' order;
+   * items not started before an abort are left out. The first error from
+   * `worker` or `onResult` stops every lane and is rethrown once the
+   * answers already in flight have settled.
+   */
+  async run<T, R>(
+    items: T[],
+    worker: (item: T, index: number) => Promise<R>,
+    options: ScheduleOptions<T, R>
+  ): Promise<R[]> {
+    const settings = GenerationScheduler.normalizeSettings(options.settings);
+    const results: R[] = [];
+    const completed: boolean[] = [];
+    let next = 0;
+
+    // Aborted by the caller's signal or by the first failing lane
+    const controller = new AbortController();
+    const signal = controller.signal;
+    const abort = () => controller.abort();
+    if (options.signal?.aborted) abort();
+    options.signal?.addEventListener('abort', abort);
+    const failures: unknown[] = [];
+
+    const lane = async () => {
+      try {
+        while (next < items.length && !signal.aborted) {
+          const index = next++;
+          if (!(await this.acquire(options.providerKey, settings, signal))) return;
+
+          const result = await worker(items[index], index);
+          results[index] = result;
+          completed[index] = true;
+          await options.onResult?.(result, items[index], index);
+        }
+      } catch (error) {
+        failures.push(error);
+        abort();
+      }
+    };
+
+    const lanes: Array<Promise<void>> = [];
+    for (let i = 0; i < Math.min(settings.concurrency, items.length); i++) {
+      lanes.push(lane());
+    }
+    await Promise.all(lanes);
+    options.signal?.removeEventListener('abort', abort);
+
+    if (failures.length > 0) throw failures[0];
+    return results.filter((_, index) => completed[index]);
+  }
+
+  /**
+   * One bucket per provider; a changed rate replaces it. Bursts are capped
+   * at the concurrency so a fresh bucket does not fire every request at once.
+   */
+  private getBucket(providerKey: string, settings: GenerationSettings): TokenBucket {
+    const existing = this.buckets.get(providerKey);
+    if (existing && existing.ratePerMinute === settings.requestsPerMinute) {
+      return existing;
+    }
+
+    const capacity = Math.max(1, Math.min(settings.concurrency, settings.requestsPerMinute));
+    const bucket = new TokenBucket(capacity, settings.requestsPerMinute, this.now);
+    this.buckets.set(providerKey, bucket);
+    return bucket;
+  }
+}
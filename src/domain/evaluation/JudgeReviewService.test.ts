@@ -0,0 +1,110 @@
+import { JudgeReviewService } from './JudgeReviewService';
+import type { DetailedEvaluationResult } from '../../evaluation-view/evaluationViewTypes';
+
+const makeResult = (id: string, judgeCorrect: boolean): DetailedEvaluationResult => ({
+  test_case_id: id,
+  question: `Question ${id}?`,
+  llm_answer: `Answer ${id}`,
+  judge_correct: judgeCorrect,
+  judge_reasoning: '',
+  retrieved_context: '',
+});
+
+describe('JudgeReviewService', () => {
+  let service: JudgeReviewService;
+  let mockSettings: any;
+  let store: Record<string, any>;
+
+  beforeEach(() => {
+    store = {};
+    mockSettings = {
+      getSetting: jest.fn(async (key: string) => store[key] ?? null),
+      setSetting: jest.fn(async (key: string, value: any) => {
+        store[key] = value;
+      }),
+    };
+
+    service = new JudgeReviewService({ settings: mockSettings });
+  });
+
+  it('should save one review per result and run', async () => {
+    await service.saveReview('run-1', { testCaseId: 'tc-1', verdict: 'agree' });
+    const saved = await service.saveReview('run-1', {
+      testCaseId: 'tc-1',
+      verdict: 'disagree',
+      note: ' The answer quotes the policy ',
+      reviewedBy: 'user-1',
+    });
+
+    expect(mockSettings.setSetting).toHaveBeenLastCalledWith(
+      'chat_with_docs_evaluation_judge_reviews_run-1',
+      { reviews: [saved] }
+    );
+    expect(saved).toMatchObject({ verdict: 'disagree', note: 'The answer quotes the policy', reviewedBy: 'user-1' });
+    expect(await service.listReviews('run-2')).toEqual([]);
+  });
+
+  it('should require a note when disagreeing with the judge', async () => {
+    await expect(service.saveReview('run-1', { testCaseId: 'tc-1', verdict: 'disagree', note: ' ' }))
+      .rejects.toThrow('Add a note');
+  });
+
+  it('should clear a review and drop malformed ones', async () => {
+    await service.saveReview('run-1', { testCaseId: 'tc-1', verdict: 'agree' });
+    await service.clearReview('run-1', 'tc-1');
+    expect(await service.listReviews('run-1')).toEqual([]);
+
+    store['chat_with_docs_evaluation_judge_reviews_run-1'] = { reviews: [{ testCaseId: 'tc-2', verdict: 'maybe' }, null] };
+    expect(await service.listReviews('run-1')).toEqual([]);
+  });
+
+  it('should recompute accuracy from overridden labels and report judge agreement', () => {
+    const results = JudgeReviewService.applyReviews(
+      [makeResult('1', true), makeResult('2', false), makeResult('3', true), makeResult('4', false)],
+      [
+        { testCaseId: '1', verdict: 'agree', note: '', reviewedAt: '2024-01-01T00:00:00Z' },
+        { testCaseId: '2', verdict: 'disagree', note: 'Answer is right', reviewedAt: '2024-01-01T00:00:00Z' },
+        { testCaseId: '3', verdict: 'disagree', note: 'Wrong date', reviewedAt: '2024-01-01T00:00:00Z' },
+      ]
+    );
+
+    expect(results[3].review).toBeNull();
+    expect(results.map(result => JudgeReviewService.isCorrect(result))).toEqual([true, true, false, false]);
+    expect(JudgeReviewService.summarize(results)).toEqual({
+      totalCount: 4,
+      reviewedCount: 3,
+      agreedCount: 1,
+      agreementRate: 1 / 3,
+      judgeCorrectCount: 2,
+      correctCount: 2,
+      judgeAccuracy: 50,
+      accuracy: 50,
+    });
+  });
+
+  it('should recount the run from reviewed labels and leave unreviewed runs alone', () => {
+    const run = {
+      id: 'run-1',
+      total_questions: 2,
+      correct_count: 1,
+      incorrect_count: 1,
+      evaluated_count: 2,
+      accuracy: 50,
+      started_at: '2024-01-01T00:00:00Z',
+      is_completed: true,
+      progress: 1,
+      status: 'completed',
+      duration_seconds: 10,
+      run_date: '2024-01-01T00:00:00Z',
+    };
+    const results = [makeResult('1', true), makeResult('2', false)];
+
+    expect(JudgeReviewService.applyToResponse({ evaluation_run: run, results }, []).evaluation_run).toBe(run);
+
+    const reviewed = JudgeReviewService.applyToResponse({ evaluation_run: run, results }, [
+      { testCaseId: '2', verdict: 'disagree', note: 'Answer is right', reviewedAt: '2024-01-01T00:00:00Z' },
+    ]);
+    expect(reviewed.evaluation_run).toMatchObject({ correct_count: 2, incorrect_count: 0, accuracy: 100 });
+    expect(reviewed.results[1].review).toMatchObject({ verdict: 'disagree' });
+  });
+});
@@ -0,0 +1,179 @@
+import { SETTINGS_KEYS } from '../../constants';
+import type {
+  DetailedEvaluationResult,
+  EvaluationRun,
+  GetEvaluationResultsResponse,
+} from '../../evaluation-view/evaluationViewTypes';
+
+export type JudgeReviewVerdict = 'agree' | 'disagree';
+
+/**
+ * A reviewer's verdict on the judge's label for one result
+ */
+export interface JudgeReview {
+  testCaseId: string;
+  verdict: JudgeReviewVerdict;
+  note: string;
+  reviewedAt: string;
+  reviewedBy?: string;
+}
+
+/**
+ * Accuracy of a run once reviews are applied, and how often reviewers agreed with the judge
+ */
+export interface JudgeReviewSummary {
+  totalCount: number;
+  reviewedCount: number;
+  agreedCount: number;
+  // null until at least one result has been reviewed
+  agreementRate: number | null;
+  judgeCorrectCount: number;
+  correctCount: number;
+  judgeAccuracy: number;
+  accuracy: number;
+}
+
+/**
+ * Dependencies for JudgeReviewService
+ */
+export interface JudgeReviewServiceDeps {
+  settings: any;
+}
+
+/**
+ * JudgeReviewService records reviewers' overrides of the LLM judge.
+ *
+ * Responsibilities:
+ * - Load and save reviews per evaluation run via the settings service
+ * - Attach reviews to results and recompute accuracy from the overridden labels
+ * - Report how often reviewers agree with the judge
+ */
+export class JudgeReviewService {
+  constructor(private deps: JudgeReviewServiceDeps) {}
+
+  /**
+   * Settings key for a run's reviews
+   */
+  getSettingKey(runId: string): string {
+    return `${SETTINGS_KEYS.EVALUATION_JUDGE_REVIEWS}_${runId}`;
+  }
+
+  async listReviews(runId: string): Promise<JudgeReview[]> {
+    if (!this.deps.settings?.getSetting) {
+      return [];
+    }
+
+    try {
+      const saved = await this.deps.settings.getSetting(this.getSettingKey(runId));
+      return saved && Array.isArray(saved.reviews)
+        ? saved.reviews.filter((review: any) =>
+            review && review.testCaseId && (review.verdict === 'agree' || review.verdict === 'disagree'))
+        : [];
+    } catch (error) {
+      console.error('Error loading judge reviews:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Create or replace the review of one result
+   */
+  async saveReview(
+    runId: string,
+    draft: { testCaseId: string; verdict: JudgeReviewVerdict; note?: string; reviewedBy?: string }
+  ): Promise<JudgeReview> {
+    const note = (draft.note || '').trim();
+    if (draft.verdict === 'disagree' && !note) {
+      throw new Error('Add a note explaining why the judge is wrong');
+    }
+
+    const saved: JudgeReview = {
+      testCaseId: draft.testCaseId,
+      verdict: draft.verdict,
+      note,
+      reviewedAt: new Date().toISOString(),
+    };
+    if (draft.reviewedBy) {
+      saved.reviewedBy = draft.reviewedBy;
+    }
+
+    const reviews = await this.listReviews(runId);
+    await this.writeReviews(runId, reviews.filter(review => review.testCaseId !== saved.testCaseId).concat(saved));
+    return saved;
+  }
+
+  async clearReview(runId: string, testCaseId: string): Promise<void> {
+    const reviews = await this.listReviews(runId);
+    await this.writeReviews(runId, reviews.filter(review => review.testCaseId !== testCaseId));
+  }
+
+  /**
+   * Results with their reviews attached; results without one get `review: null`
+   */
+  static applyReviews(results: DetailedEvaluationResult[], reviews: JudgeReview[]): DetailedEvaluationResult[] {
+    const byTestCase = new Map<string, JudgeReview>();
+    reviews.forEach(review => byTestCase.set(review.testCaseId, review));
+    return results.map(result => ({ ...result, review: byTestCase.get(result.test_case_id) || null }));
+  }
+
+  /**
+   * A run and its results with reviews applied, so the run's counts match the results
+   */
+  static applyToResponse(data: GetEvaluationResultsResponse, reviews: JudgeReview[]): GetEvaluationResultsResponse {
+    const results = this.applyReviews(data.results || [], reviews);
+    return { ...data, evaluation_run: this.applyToRun(data.evaluation_run, results), results };
+  }
+
+  /**
+   * The run's accuracy and counts after review; unchanged until a result has been reviewed
+   */
+  static applyToRun(run: EvaluationRun, results: DetailedEvaluationResult[]): EvaluationRun {
+    const summary = this.summarize(results);
+    if (summary.reviewedCount === 0) {
+      return run;
+    }
+
+    return {
+      ...run,
+      correct_count: summary.correctCount,
+      incorrect_count: summary.totalCount - summary.correctCount,
+      accuracy: summary.accuracy,
+    };
+  }
+
+  /**
+   * The result's label after review: a disagreement flips the judge's verdict
+   */
+  static isCorrect(result: DetailedEvaluationResult): boolean {
+    return result.review && result.review.verdict === 'disagree'
+      ? !result.judge_correct
+      : result.judge_correct;
+  }
+
+  static summarize(results: DetailedEvaluationResult[]): JudgeReviewSummary {
+    const reviewed = results.filter(result => !!result.review);
+    const agreedCount = reviewed.filter(result => result.review!.verdict === 'agree').length;
+    const judgeCorrectCount = results.filter(result => result.judge_correct).length;
+    const correctCount = results.filter(result => this.isCorrect(result)).length;
+    const percent = (count: number) => (results.length > 0 ? (count / results.length) * 100 : 0);
+
+    return {
+      totalCount: results.length,
+      reviewedCount: reviewed.length,
+      agreedCount,
+      agreementRate: reviewed.length > 0 ? agreedCount / reviewed.length : null,
+      judgeCorrectCount,
+      correctCount,
+      judgeAccuracy: percent(judgeCorrectCount),
+      accuracy: percent(correctCount),
+    };
+  }
+
+  private async writeReviews(runId: string, reviews: JudgeReview[]): Promise<void> {
+    if (!this.deps.settings?.setSetting) {
+      throw new Error('Settings service not available');
+    }
+
+    await this.deps.settings.setSetting(this.getSettingKey(runId), { reviews });
+  }
+}
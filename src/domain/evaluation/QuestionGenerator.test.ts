@@ -0,0 +1,167 @@
+import { QuestionGenerator } from './QuestionGenerator';
+import { DocumentStatus } from '../../braindrive-plugin/pluginTypes';
+import type { Document, DocumentChunk } from '../../braindrive-plugin/pluginTypes';
+import type { ModelInfo } from '../../components/chat-header/types';
+
+const model: ModelInfo = {
+  name: 'llama3',
+  provider: 'ollama',
+  providerId: 'ollama_servers_settings',
+  serverName: 'local',
+  serverId: 'server-1',
+};
+
+const makeDocument = (id: string, status = DocumentStatus.PROCESSED): Document => ({
+  id,
+  original_filename: `${id}.pdf`,
+  file_size: 100,
+  document_type: 'pdf',
+  collection_id: 'coll-1',
+  status,
+  created_at: '2024-01-01T00:00:00Z',
+  processed_at: '2024-01-01T00:00:00Z',
+  chunk_count: 2,
+});
+
+const makeChunk = (documentId: string, index: number, length = 250): DocumentChunk => ({
+  id: `${documentId}-c${index}`,
+  document_id: documentId,
+  collection_id: 'coll-1',
+  content: `${documentId} fact ${index} `.padEnd(length, '.'),
+  chunk_index: index,
+  chunk_type: 'text',
+  metadata: {},
+});
+
+describe('QuestionGenerator', () => {
+  let chunksByDocument: Record<string, DocumentChunk[]>;
+  let documentRepository: { findByCollection: jest.Mock; findChunks: jest.Mock };
+  let aiService: { sendPrompt: jest.Mock };
+  let replies: string[];
+
+  const createGenerator = () => new QuestionGenerator({
+    documentRepository: documentRepository as any,
+    aiService: aiService as any,
+    random: () => 0,
+  });
+
+  beforeEach(() => {
+    chunksByDocument = {
+      a: [makeChunk('a', 0), makeChunk('a', 1), makeChunk('a', 2, 50)],
+      b: [makeChunk('b', 0)],
+    };
+    documentRepository = {
+      findByCollection: jest.fn().mockResolvedValue([
+        makeDocument('a'),
+        makeDocument('b'),
+        makeDocument('c', DocumentStatus.PROCESSING),
+      ]),
+      findChunks: jest.fn(async (documentId: string) => chunksByDocument[documentId] || []),
+    };
+    replies = [];
+    aiService = {
+      sendPrompt: jest.fn(async (_prompt, _model, _stream, _conv, _type, onChunk) => {
+        onChunk(replies.shift() || '[]');
+        return true;
+      }),
+    };
+  });
+
+  it('should sample processed documents round-robin and skip short chunks', async () => {
+    const { chunks } = await createGenerator().sampleChunks('coll-1', 10);
+
+    expect(documentRepository.findChunks).not.toHaveBeenCalledWith('c');
+    expect(chunks.map(chunk => chunk.id).sort()).toEqual(['a-c0', 'a-c1', 'b-c0']);
+    expect(chunks[0].document_id).not.toBe(chunks[1].document_id);
+  });
+
+  it('should load chunks a few documents at a time and stop once enough are sampled', async () => {
+    const documents = Array.from({ length: 20 }, (_, index) => makeDocument(`d${index}`));
+    documents.forEach(document => {
+      chunksByDocument[document.id] = [makeChunk(document.id, 0)];
+    });
+    documentRepository.findByCollection.mockResolvedValue(documents);
+    let inFlight = 0;
+    let maxInFlight = 0;
+    documentRepository.findChunks.mockImplementation(async (documentId: string) => {
+      maxInFlight = Math.max(maxInFlight, ++inFlight);
+      await Promise.resolve();
+      inFlight--;
+      return chunksByDocument[documentId];
+    });
+
+    const { chunks } = await createGenerator().sampleChunks('coll-1', 4);
+
+    expect(chunks).toHaveLength(5);
+    expect(new Set(chunks.map(chunk => chunk.document_id)).size).toBe(5);
+    expect(documentRepository.findChunks).toHaveBeenCalledTimes(8);
+    expect(maxInFlight).toBe(4);
+  });
+
+  it('should turn the model reply into candidates tied to their chunks', async () => {
+    replies.push('```json\n[{"excerpt": 2, "question": "What is fact one?", "answer": "One"},'
+      + ' {"excerpt": 1, "question": "What is fact zero?", "answer": "Zero"}]\n```');
+
+    const onProgress = jest.fn();
+    const { chunks } = await createGenerator().sampleChunks('coll-1', 2);
+    const generated = await createGenerator().generate('coll-1', model, { count: 2, onProgress });
+
+    expect(generated).toEqual([
+      expect.objectContaining({ question: 'What is fact one?', ground_truth: 'One', sourceChunkId: chunks[1].id }),
+      expect.objectContaining({ question: 'What is fact zero?', ground_truth: 'Zero', sourceChunkId: chunks[0].id }),
+    ]);
+    expect(generated[0].category).toBe(generated[0].sourceDocumentName);
+    expect(onProgress).toHaveBeenLastCalledWith({ generated: 2, requested: 2 });
+  });
+
+  it('should fail when the collection has nothing to sample', async () => {
+    documentRepository.findByCollection.mockResolvedValue([]);
+
+    await expect(createGenerator().generate('coll-1', model, { count: 5 }))
+      .rejects.toThrow('No processed documents');
+  });
+
+  it('should surface a model error when nothing was generated', async () => {
+    aiService.sendPrompt.mockImplementation(async (_p, _m, _s, _c, _t, onChunk) => {
+      onChunk('Error: model not found');
+      return false;
+    });
+
+    await expect(createGenerator().generate('coll-1', model, { count: 2 })).rejects.toThrow('model not found');
+  });
+
+  it('should stop waiting on the model and drop its abort listener when cancelled', async () => {
+    const controller = new AbortController();
+    const removeListener = jest.spyOn(controller.signal, 'removeEventListener');
+    let requestSignal: AbortSignal | undefined;
+    aiService.sendPrompt.mockImplementation((...args: any[]) => {
+      requestSignal = args[9].signal;
+      return new Promise(() => {});
+    });
+
+    const generating = createGenerator().generate('coll-1', model, { count: 2, signal: controller.signal });
+    await new Promise(resolve => setTimeout(resolve, 0));
+    controller.abort();
+
+    await expect(generating).resolves.toEqual([]);
+    expect(requestSignal?.aborted).toBe(true);
+    expect(removeListener).toHaveBeenCalledWith('abort', expect.any(Function));
+  });
+
+  describe('parseReply', () => {
+    it('should fall back to Question/Answer lines', () => {
+      const reply = 'Question 1: What is A?\nAnswer 1: A.\nQ2: What is B?\nA2: B.';
+
+      expect(QuestionGenerator.parseReply(reply, 2)).toEqual([
+        { excerpt: 1, question: 'What is A?', answer: 'A.' },
+        { excerpt: 2, question: 'What is B?', answer: 'B.' },
+      ]);
+    });
+
+    it('should drop incomplete pairs and unknown excerpts', () => {
+      const reply = '[{"excerpt": 9, "question": "Q?", "answer": "A"}, {"question": "Only a question?"}]';
+
+      expect(QuestionGenerator.parseReply(reply, 2)).toEqual([{ excerpt: 1, question: 'Q?', answer: 'A' }]);
+    });
+  });
+});
@@ -0,0 +1,275 @@
+import type { Document, DocumentChunk } from '../../braindrive-plugin/pluginTypes';
+import { DocumentStatus } from '../../braindrive-plugin/pluginTypes';
+import type { ModelInfo } from '../../components/chat-header/types';
+import type { DocumentRepository } from '../../infrastructure/repositories';
+import type { AIService } from '../../services/aiService';
+import { MAX_EVALUATION_QUESTIONS, type EvaluationQuestion } from './QuestionSetCodec';
+
+/**
+ * Question/answer pair proposed by the model, with the chunk it came from
+ */
+export interface GeneratedQuestion extends EvaluationQuestion {
+  ground_truth: string;
+  sourceDocumentId: string;
+  sourceDocumentName: string;
+  sourceChunkId: string;
+}
+
+export interface QuestionGenerationProgress {
+  generated: number;
+  requested: number;
+}
+
+export interface QuestionGenerationOptions {
+  count: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: QuestionGenerationProgress) => void;
+}
+
+/**
+ * Dependencies for QuestionGenerator
+ */
+export interface QuestionGeneratorDeps {
+  documentRepository: Pick<DocumentRepository, 'findByCollection' | 'findChunks'>;
+  aiService: Pick<AIService, 'sendPrompt'>;
+  /** Random source, replaceable for deterministic sampling */
+  random?: () => number;
+}
+
+/** Excerpts sent to the model per request */
+const CHUNKS_PER_REQUEST = 4;
+/** Chunks shorter than this rarely hold a checkable fact */
+const MIN_CHUNK_CHARS = 200;
+const MAX_CHUNK_CHARS = 2000;
+/** Documents whose chunks are requested at once while sampling */
+const CHUNK_LOAD_CONCURRENCY = 4;
+
+const GENERATION_INSTRUCTIONS = [
+  'You write test questions for evaluating a document question-answering system.',
+  'For each numbered excerpt below, write one question that the excerpt alone fully answers, and the correct answer.',
+  'Questions must be self-contained: never refer to "the excerpt", "the text" or "the document".',
+  'Answers must be short and only use facts stated in the excerpt.',
+  'Reply with only a JSON array, one object per excerpt: [{"excerpt": 1, "question": "...", "answer": "..."}]',
+].join(' ');
+
+/**
+ * QuestionGenerator drafts evaluation questions from a collection's documents.
+ *
+ * Responsibilities:
+ * - Sample chunks across the collection's processed documents
+ * - Ask the model for one question/answer pair per chunk, a few chunks per request
+ * - Parse the model's reply into candidates for review
+ */
+export class QuestionGenerator {
+  private random: () => number;
+
+  constructor(private deps: QuestionGeneratorDeps) {
+    this.random = deps.random || Math.random;
+  }
+
+  async generate(
+    collectionId: string,
+    model: ModelInfo,
+    options: QuestionGenerationOptions
+  ): Promise<GeneratedQuestion[]> {
+    const requested = Math.max(1, Math.min(options.count, MAX_EVALUATION_QUESTIONS));
+    const { documents, chunks } = await this.sampleChunks(collectionId, requested);
+    if (chunks.length === 0) {
+      throw new Error('No processed documents with enough text to generate questions from');
+    }
+
+    const documentNames = new Map<string, string>();
+    documents.forEach(document => documentNames.set(document.id, document.original_filename));
+
+    const generated: GeneratedQuestion[] = [];
+    const seen = new Set<string>();
+
+    for (let start = 0; start < chunks.length && generated.length < requested; start += CHUNKS_PER_REQUEST) {
+      if (options.signal?.aborted) break;
+
+      const group = chunks.slice(start, start + CHUNKS_PER_REQUEST);
+      let reply: string;
+      try {
+        reply = await this.complete(QuestionGenerator.buildPrompt(group), model, options.signal);
+      } catch (error) {
+        // Keep what we have when a later request fails; fail outright only without results
+        if (generated.length > 0 || options.signal?.aborted) break;
+        throw error;
+      }
+
+      QuestionGenerator.parseReply(reply, group.length).forEach(pair => {
+        const chunk = group[pair.excerpt - 1];
+        const key = pair.question.toLowerCase();
+        if (!chunk || seen.has(key) || generated.length >= requested) return;
+        seen.add(key);
+        const documentName = documentNames.get(chunk.document_id)
+          || chunk.metadata?.document_filename
+          || 'Unknown document';
+
+        generated.push({
+          question: pair.question,
+          ground_truth: pair.answer,
+          category: documentName,
+          sourceDocumentId: chunk.document_id,
+          sourceDocumentName: documentName,
+          sourceChunkId: chunk.id,
+        });
+      });
+
+      options.onProgress?.({ generated: generated.length, requested });
+    }
+
+    return generated;
+  }
+
+  /**
+   * Pick chunks spread across documents: a round-robin over documents in random
+   * order, taking a random unused chunk from each in turn. Chunks are loaded a
+   * few documents at a time, stopping once every sampled chunk can come from a
+   * different document.
+   */
+  async sampleChunks(
+    collectionId: string,
+    count: number
+  ): Promise<{ documents: Document[]; chunks: DocumentChunk[] }> {
+    const documents = (await this.deps.documentRepository.findByCollection(collectionId) || [])
+      .filter(document => document.status === DocumentStatus.PROCESSED);
+
+    // Sample a few spare chunks for replies that come back short
+    const target = Math.ceil(count * 1.25);
+    const shuffled = this.shuffle(documents);
+    let remaining: DocumentChunk[][] = [];
+    for (let start = 0; start < shuffled.length && remaining.length < target; start += CHUNK_LOAD_CONCURRENCY) {
+      const pools = await Promise.all(shuffled.slice(start, start + CHUNK_LOAD_CONCURRENCY).map(async document => {
+        try {
+          const chunks = await this.deps.documentRepository.findChunks(document.id);
+          return this.shuffle((chunks || []).filter(chunk => (chunk.content || '').trim().length >= MIN_CHUNK_CHARS));
+        } catch (error) {
+          console.error(`Could not load chunks for ${document.original_filename}:`, error);
+          return [];
+        }
+      }));
+      remaining = remaining.concat(pools.filter(pool => pool.length > 0));
+    }
+
+    const sampled: DocumentChunk[] = [];
+    while (sampled.length < target && remaining.length > 0) {
+      remaining.forEach(pool => {
+        if (sampled.length < target) sampled.push(pool.pop()!);
+      });
+      remaining = remaining.filter(pool => pool.length > 0);
+    }
+
+    return { documents, chunks: sampled };
+  }
+
+  static buildPrompt(chunks: DocumentChunk[]): string {
+    const excerpts = chunks
+      .map((chunk, index) => {
+        const content = chunk.content.trim();
+        const text = content.length > MAX_CHUNK_CHARS ? `${content.slice(0, MAX_CHUNK_CHARS)}…` : content;
+        return `Excerpt ${index + 1}:\n${text}`;
+      })
+      .join('\n\n');
+    return `${GENERATION_INSTRUCTIONS}\n\n${excerpts}`;
+  }
+
+  /**
+   * Read question/answer pairs from a reply. Accepts a JSON array (optionally
+   * inside a code fence) and falls back to "Question:/Answer:" lines.
+   */
+  static parseReply(reply: string, excerptCount: number): Array<{ excerpt: number; question: string; answer: string }> {
+    const pairs: Array<{ excerpt: number; question: string; answer: string }> = [];
+    const add = (excerpt: any, question: any, answer: any, index: number) => {
+      const q = typeof question === 'string' ? question.replace(/\s+/g, ' ').trim() : '';
+      const a = typeof answer === 'string' ? answer.trim() : '';
+      const n = typeof excerpt === 'number' && excerpt >= 1 && excerpt <= excerptCount ? excerpt : index + 1;
+      if (q && a && n <= excerptCount) pairs.push({ excerpt: n, question: q, answer: a });
+    };
+
+    const start = reply.indexOf('[');
+    const end = reply.lastIndexOf(']');
+    if (start !== -1 && end > start) {
+      try {
+        const parsed = JSON.parse(reply.slice(start, end + 1));
+        if (Array.isArray(parsed)) {
+          parsed.forEach((item, index) => {
+            if (item && typeof item === 'object') {
+              add(Number(item.excerpt) || undefined, item.question, item.answer ?? item.ground_truth, index);
+            }
+          });
+          return pairs;
+        }
+      } catch {
+        // Not JSON; try the line format below
+      }
+    }
+
+    const pattern = /Q(?:uestion)?\s*\d*\s*[:.]\s*([\s\S]+?)\n\s*A(?:nswer)?\s*\d*\s*[:.]\s*([\s\S]+?)(?=\n\s*Q(?:uestion)?\s*\d*\s*[:.]|$)/gi;
+    let match: RegExpExecArray | null;
+    let index = 0;
+    while ((match = pattern.exec(reply)) !== null) {
+      add(undefined, match[1], match[2], index++);
+    }
+    return pairs;
+  }
+
+  /**
+   * Send one generation request; cancelling rejects at once and aborts the
+   * request in flight
+   */
+  private async complete(prompt: string, model: ModelInfo, signal?: AbortSignal): Promise<string> {
+    if (signal?.aborted) {
+      throw new Error('Question generation cancelled');
+    }
+
+    let reply = '';
+    const abortController = new AbortController();
+    let onAbort = () => {};
+    const cancelled = new Promise<never>((_, reject) => {
+      onAbort = () => {
+        abortController.abort();
+        reject(new Error('Question generation cancelled'));
+      };
+    });
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      const succeeded = await Promise.race([
+        this.deps.aiService.sendPrompt(
+          prompt,
+          model,
+          false, // non-streaming
+          null, // no conversation_id
+          'evaluation',
+          (chunk: string) => {
+            reply += chunk;
+          },
+          () => {},
+          undefined,
+          undefined,
+          abortController
+        ),
+        cancelled,
+      ]);
+
+      if (!succeeded) {
+        throw new Error(reply.replace(/^Error:\s*/, '') || 'The model did not return any questions');
+      }
+      return reply;
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  private shuffle<T>(items: T[]): T[] {
+    const shuffled = items.slice();
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(this.random() * (i + 1));
+      const swap = shuffled[i];
+      shuffled[i] = shuffled[j];
+      shuffled[j] = swap;
+    }
+    return shuffled;
+  }
+}
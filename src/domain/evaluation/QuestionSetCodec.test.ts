@@ -0,0 +1,85 @@
+import { QuestionSetCodec } from './QuestionSetCodec';
+
+describe('QuestionSetCodec', () => {
+  describe('parseCsv', () => {
+    it('should read columns by header, including quoted commas and newlines', () => {
+      const csv = [
+        'Category,Question,Expected Answer',
+        'billing,"How do refunds work, exactly?","Within 30 days.\nNo questions asked."',
+        'support,"Who do I call?",',
+      ].join('\r\n');
+
+      expect(QuestionSetCodec.parseCsv(csv)).toEqual([
+        {
+          question: 'How do refunds work, exactly?',
+          ground_truth: 'Within 30 days.\nNo questions asked.',
+          category: 'billing',
+        },
+        { question: 'Who do I call?', category: 'support' },
+      ]);
+    });
+
+    it('should read headerless files by position and drop duplicates', () => {
+      const csv = 'What is X?,X is a thing\nwhat is x?,duplicate\n\nWhat is Y?';
+
+      expect(QuestionSetCodec.parseCsv(csv)).toEqual([
+        { question: 'What is X?', ground_truth: 'X is a thing' },
+        { question: 'What is Y?' },
+      ]);
+    });
+  });
+
+  describe('parseJsonl', () => {
+    it('should read objects and bare strings', () => {
+      const jsonl = '{"question":"A?","ground_truth":"a","category":"c"}\n\n"B?"\n{"query":"C?","answer":"c"}';
+
+      expect(QuestionSetCodec.parseJsonl(jsonl)).toEqual([
+        { question: 'A?', ground_truth: 'a', category: 'c' },
+        { question: 'B?' },
+        { question: 'C?', ground_truth: 'c' },
+      ]);
+    });
+
+    it('should report the line of invalid JSON', () => {
+      expect(() => QuestionSetCodec.parseJsonl('{"question":"A?"}\n{oops')).toThrow('Line 2 is not valid JSON');
+    });
+  });
+
+  it('should round-trip through CSV and JSONL', () => {
+    const questions = [
+      { question: 'Say "hi", please', ground_truth: 'hi', category: 'greeting' },
+      { question: 'Where is the refund policy?', expected_source: 'policies/refunds.pdf; faq.md' },
+      { question: 'Plain?' },
+    ];
+
+    expect(QuestionSetCodec.parse(QuestionSetCodec.serialize(questions, 'csv'), 'csv')).toEqual(questions);
+    expect(QuestionSetCodec.parse(QuestionSetCodec.serialize(questions, 'jsonl'), 'jsonl')).toEqual(questions);
+  });
+
+  it('should keep formula-like cells as text in CSV and restore them on import', () => {
+    const questions = [
+      { question: '=HYPERLINK("http://example.com","click")', ground_truth: '-5' },
+      { question: '@SUM(A1:A2)?', ground_truth: '+1 for refunds' },
+    ];
+    const csv = QuestionSetCodec.toCsv(questions);
+
+    expect(csv.split('\r\n')[1]).toBe('"\'=HYPERLINK(""http://example.com"",""click"")",-5,,');
+    expect(csv.split('\r\n')[2]).toBe('\'@SUM(A1:A2)?,\'+1 for refunds,,');
+    expect(QuestionSetCodec.parseCsv(csv)).toEqual(questions);
+  });
+
+  it('should keep ground truth for known lines when reading typed questions', () => {
+    const known = [{ question: 'A?', ground_truth: 'a' }];
+
+    expect(QuestionSetCodec.fromLines('A?\n\n  B?  ', known)).toEqual([
+      { question: 'A?', ground_truth: 'a' },
+      { question: 'B?' },
+    ]);
+  });
+
+  it('should detect formats from file names', () => {
+    expect(QuestionSetCodec.getFormat('set.CSV')).toBe('csv');
+    expect(QuestionSetCodec.getFormat('set.jsonl')).toBe('jsonl');
+    expect(QuestionSetCodec.getFormat('set.txt')).toBeNull();
+  });
+});
@@ -0,0 +1,219 @@
+import { escapeCsvCell, unescapeCsvCell } from '../../utils';
+
+/**
+ * Evaluation question with its optional expected answer and category,
+ * matching TestCase.ground_truth and TestCase.category. `expected_source`
+ * names the document(s) retrieval should find, separated by ";".
+ */
+export interface EvaluationQuestion {
+  question: string;
+  ground_truth?: string;
+  category?: string;
+  expected_source?: string;
+}
+
+export type QuestionSetFormat = 'csv' | 'jsonl';
+
+export const MAX_EVALUATION_QUESTIONS = 100;
+
+const CSV_COLUMNS: Array<keyof EvaluationQuestion> = ['question', 'ground_truth', 'category', 'expected_source'];
+
+/**
+ * Header aliases accepted on import
+ */
+const COLUMN_ALIASES: Record<string, keyof EvaluationQuestion> = {
+  question: 'question',
+  query: 'question',
+  ground_truth: 'ground_truth',
+  groundtruth: 'ground_truth',
+  expected_answer: 'ground_truth',
+  answer: 'ground_truth',
+  category: 'category',
+  expected_source: 'expected_source',
+  source: 'expected_source',
+  source_document: 'expected_source',
+  expected_document: 'expected_source',
+};
+
+/**
+ * QuestionSetCodec reads and writes evaluation questions as CSV or JSONL.
+ *
+ * CSV files use a `question,ground_truth,category,expected_source` header; a
+ * file without a recognised header is read in that column order.
+ * JSONL files hold one object per line with the same keys.
+ */
+export class QuestionSetCodec {
+  static getFormat(fileName: string): QuestionSetFormat | null {
+    const lower = fileName.toLowerCase();
+    if (/\.csv$/.test(lower)) return 'csv';
+    if (/\.(jsonl|ndjson)$/.test(lower)) return 'jsonl';
+    return null;
+  }
+
+  static parse(text: string, format: QuestionSetFormat): EvaluationQuestion[] {
+    return format === 'csv' ? this.parseCsv(text) : this.parseJsonl(text);
+  }
+
+  static serialize(questions: EvaluationQuestion[], format: QuestionSetFormat): string {
+    return format === 'csv' ? this.toCsv(questions) : this.toJsonl(questions);
+  }
+
+  static parseCsv(text: string): EvaluationQuestion[] {
+    const rows = this.readCsvRows(text.replace(/^﻿/, ''))
+      .filter(row => row.some(cell => cell.trim().length > 0));
+    if (rows.length === 0) return [];
+
+    const header = rows[0].map(cell => COLUMN_ALIASES[cell.trim().toLowerCase().replace(/[\s-]+/g, '_')]);
+    const hasHeader = header.indexOf('question') !== -1;
+    const columns = hasHeader ? header : CSV_COLUMNS;
+
+    return this.clean((hasHeader ? rows.slice(1) : rows).map(row => {
+      const item: EvaluationQuestion = { question: '' };
+      row.forEach((cell, index) => {
+        const column = columns[index];
+        if (column) item[column] = unescapeCsvCell(cell);
+      });
+      return item;
+    }));
+  }
+
+  static parseJsonl(text: string): EvaluationQuestion[] {
+    const items: EvaluationQuestion[] = [];
+    text.split(/\r?\n/).forEach((line, index) => {
+      if (!line.trim()) return;
+
+      let value: any;
+      try {
+        value = JSON.parse(line);
+      } catch {
+        throw new Error(`Line ${index + 1} is not valid JSON`);
+      }
+
+      if (typeof value === 'string') {
+        items.push({ question: value });
+        return;
+      }
+      if (!value || typeof value !== 'object') {
+        throw new Error(`Line ${index + 1} must be an object with a "question" field`);
+      }
+
+      const item: EvaluationQuestion = { question: '' };
+      Object.keys(value).forEach(key => {
+        const column = COLUMN_ALIASES[key.toLowerCase()];
+        if (column && value[key] !== null && value[key] !== undefined) {
+          item[column] = String(value[key]);
+        }
+      });
+      items.push(item);
+    });
+    return this.clean(items);
+  }
+
+  static toCsv(questions: EvaluationQuestion[]): string {
+    const lines = [CSV_COLUMNS.join(',')].concat(
+      questions.map(item => CSV_COLUMNS.map(column => escapeCsvCell(item[column] || '')).join(','))
+    );
+    return `${lines.join('\r\n')}\r\n`;
+  }
+
+  static toJsonl(questions: EvaluationQuestion[]): string {
+    return questions
+      .map(item => {
+        const record: EvaluationQuestion = { question: item.question };
+        if (item.ground_truth) record.ground_truth = item.ground_truth;
+        if (item.category) record.category = item.category;
+        if (item.expected_source) record.expected_source = item.expected_source;
+        return JSON.stringify(record);
+      })
+      .join('\n') + '\n';
+  }
+
+  /**
+   * Questions typed one per line. Lines matching a known question keep its
+   * ground truth and category, so editing a loaded set does not lose them.
+   */
+  static fromLines(text: string, known: EvaluationQuestion[] = []): EvaluationQuestion[] {
+    const byQuestion = new Map<string, EvaluationQuestion>();
+    known.forEach(item => byQuestion.set(item.question.trim(), item));
+
+    return text
+      .split('\n')
+      .map(line => line.trim())
+      .filter(line => line.length > 0)
+      .map(line => byQuestion.get(line) || { question: line });
+  }
+
+  static toLines(questions: EvaluationQuestion[]): string {
+    return questions.map(item => item.question).join('\n');
+  }
+
+  /**
+   * Trim fields, drop rows without a question and collapse duplicates
+   */
+  private static clean(items: EvaluationQuestion[]): EvaluationQuestion[] {
+    const seen = new Set<string>();
+    const cleaned: EvaluationQuestion[] = [];
+
+    items.forEach(item => {
+      const question = (item.question || '').replace(/\s+/g, ' ').trim();
+      if (!question || seen.has(question.toLowerCase())) return;
+      seen.add(question.toLowerCase());
+
+      const result: EvaluationQuestion = { question };
+      const groundTruth = (item.ground_truth || '').trim();
+      const category = (item.category || '').trim();
+      const expectedSource = (item.expected_source || '').trim();
+      if (groundTruth) result.ground_truth = groundTruth;
+      if (category) result.category = category;
+      if (expectedSource) result.expected_source = expectedSource;
+      cleaned.push(result);
+    });
+
+    return cleaned;
+  }
+
+  /**
+   * RFC 4180 rows: quoted fields may contain commas, quotes and newlines
+   */
+  private static readCsvRows(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text.charAt(i);
+
+      if (inQuotes) {
+        if (char === '"' && text.charAt(i + 1) === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        inQuotes = true;
+      } else if (char === ',') {
+        row.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text.charAt(i + 1) === '\n') i++;
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+
+    if (field || row.length > 0) {
+      row.push(field);
+      rows.push(row);
+    }
+
+    return rows;
+  }
+}
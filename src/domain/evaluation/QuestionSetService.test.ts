@@ -0,0 +1,66 @@
+import { QuestionSetService } from './QuestionSetService';
+
+describe('QuestionSetService', () => {
+  let service: QuestionSetService;
+  let mockSettings: any;
+  let store: Record<string, any>;
+
+  beforeEach(() => {
+    store = {};
+    mockSettings = {
+      getSetting: jest.fn(async (key: string) => store[key] ?? null),
+      setSetting: jest.fn(async (key: string, value: any) => {
+        store[key] = value;
+      }),
+    };
+
+    service = new QuestionSetService({ settings: mockSettings });
+  });
+
+  it('should save sets per collection', async () => {
+    const saved = await service.saveSet('coll-1', { name: ' Onboarding ', questions: [{ question: 'A?' }] });
+
+    expect(mockSettings.setSetting).toHaveBeenCalledWith(
+      'chat_with_docs_evaluation_question_sets_coll-1',
+      { sets: [saved] }
+    );
+    expect(saved).toMatchObject({ name: 'Onboarding', collectionId: 'coll-1' });
+    expect(await service.listSets('coll-2')).toEqual([]);
+  });
+
+  it('should replace a set saved under the same name', async () => {
+    const first = await service.saveSet('coll-1', { name: 'Smoke', questions: [{ question: 'A?' }] });
+    const second = await service.saveSet('coll-1', { name: 'smoke', questions: [{ question: 'B?' }] });
+
+    const sets = await service.listSets('coll-1');
+    expect(second.id).toBe(first.id);
+    expect(sets).toHaveLength(1);
+    expect(sets[0].questions).toEqual([{ question: 'B?' }]);
+  });
+
+  it('should reject sets without a name or with too many questions', async () => {
+    await expect(service.saveSet('coll-1', { name: ' ', questions: [{ question: 'A?' }] }))
+      .rejects.toThrow('Question set name is required');
+
+    const questions = Array.from({ length: 101 }, (_v, i) => ({ question: `Q${i}?` }));
+    await expect(service.saveSet('coll-1', { name: 'Big', questions }))
+      .rejects.toThrow('at most 100 questions');
+  });
+
+  it('should delete a set', async () => {
+    const saved = await service.saveSet('coll-1', { name: 'Smoke', questions: [{ question: 'A?' }] });
+
+    await service.deleteSet('coll-1', saved.id);
+
+    expect(await service.listSets('coll-1')).toEqual([]);
+  });
+
+  it('should drop malformed sets and survive a failing settings service', async () => {
+    store['chat_with_docs_evaluation_question_sets_coll-1'] = { sets: [{ id: 'x' }, null] };
+    expect(await service.listSets('coll-1')).toEqual([]);
+
+    mockSettings.getSetting.mockRejectedValue(new Error('offline'));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    expect(await service.listSets('coll-1')).toEqual([]);
+  });
+});
@@ -0,0 +1,109 @@
+import { SETTINGS_KEYS } from '../../constants';
+import { generateId } from '../../utils';
+import { MAX_EVALUATION_QUESTIONS, type EvaluationQuestion } from './QuestionSetCodec';
+
+/**
+ * Named list of evaluation questions saved for a collection
+ */
+export interface QuestionSet {
+  id: string;
+  name: string;
+  collectionId: string;
+  questions: EvaluationQuestion[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Dependencies for QuestionSetService
+ */
+export interface QuestionSetServiceDeps {
+  settings: any;
+}
+
+/**
+ * QuestionSetService keeps the evaluation question-set library.
+ *
+ * Responsibilities:
+ * - Load and save question sets per collection via the settings service
+ * - Validate names and question counts before saving
+ */
+export class QuestionSetService {
+  constructor(private deps: QuestionSetServiceDeps) {}
+
+  /**
+   * Settings key for a collection's question sets
+   */
+  getSettingKey(collectionId: string): string {
+    return `${SETTINGS_KEYS.EVALUATION_QUESTION_SETS}_${collectionId}`;
+  }
+
+  /**
+   * Load a collection's question sets, most recently updated first
+   */
+  async listSets(collectionId: string): Promise<QuestionSet[]> {
+    if (!this.deps.settings?.getSetting) {
+      return [];
+    }
+
+    try {
+      const saved = await this.deps.settings.getSetting(this.getSettingKey(collectionId));
+      const sets: QuestionSet[] = saved && Array.isArray(saved.sets)
+        ? saved.sets.filter((set: any) => set && set.id && set.name && Array.isArray(set.questions))
+        : [];
+      return sets.sort((a, b) => (a.updatedAt < b.updatedAt ? 1 : a.updatedAt > b.updatedAt ? -1 : 0));
+    } catch (error) {
+      console.error('Error loading question sets:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Create a set, or replace the one with the same id or name
+   */
+  async saveSet(
+    collectionId: string,
+    draft: { id?: string; name: string; questions: EvaluationQuestion[] }
+  ): Promise<QuestionSet> {
+    const name = (draft.name || '').trim();
+    if (!name) {
+      throw new Error('Question set name is required');
+    }
+    if (draft.questions.length === 0) {
+      throw new Error('A question set needs at least one question');
+    }
+    if (draft.questions.length > MAX_EVALUATION_QUESTIONS) {
+      throw new Error(`A question set can hold at most ${MAX_EVALUATION_QUESTIONS} questions`);
+    }
+
+    const sets = await this.listSets(collectionId);
+    const existing = sets.find(set => set.id === draft.id)
+      || sets.find(set => set.name.toLowerCase() === name.toLowerCase());
+    const now = new Date().toISOString();
+
+    const saved: QuestionSet = {
+      id: existing ? existing.id : generateId('qset'),
+      name,
+      collectionId,
+      questions: draft.questions,
+      createdAt: existing ? existing.createdAt : now,
+      updatedAt: now,
+    };
+
+    await this.writeSets(collectionId, [saved].concat(sets.filter(set => set.id !== saved.id)));
+    return saved;
+  }
+
+  async deleteSet(collectionId: string, setId: string): Promise<void> {
+    const sets = await this.listSets(collectionId);
+    await this.writeSets(collectionId, sets.filter(set => set.id !== setId));
+  }
+
+  private async writeSets(collectionId: string, sets: QuestionSet[]): Promise<void> {
+    if (!this.deps.settings?.setSetting) {
+      throw new Error('Settings service not available');
+    }
+
+    await this.deps.settings.setSetting(this.getSettingKey(collectionId), { sets });
+  }
+}
@@ -0,0 +1,120 @@
+import { RetrievalMetrics } from './RetrievalMetrics';
+
+const numberedContext = [
+  '[1] (Handbook · handbook.pdf · chunk #2)',
+  'Employees accrue vacation monthly.',
+  '',
+  '[2] (Handbook · policies/refunds.pdf · chunk #0)',
+  'Refunds are issued within 14 days of purchase to the original card.',
+  '',
+  '[3] (faq.md)',
+  'Contact support by email.',
+].join('\n');
+
+describe('RetrievalMetrics', () => {
+  describe('splitPassages', () => {
+    it('should read numbered sources with their labels', () => {
+      const passages = RetrievalMetrics.splitPassages(numberedContext);
+
+      expect(passages.map(p => p.rank)).toEqual([1, 2, 3]);
+      expect(passages[1].source).toBe('Handbook · policies/refunds.pdf · chunk #0');
+      expect(passages[2].text).toContain('Contact support by email.');
+    });
+
+    it('should fall back to separators, then paragraphs', () => {
+      expect(RetrievalMetrics.splitPassages('Source: a.pdf\nOne\n---\nTwo')).toEqual([
+        { rank: 1, source: 'a.pdf', text: 'Source: a.pdf\nOne', content: 'Source: a.pdf\nOne' },
+        { rank: 2, source: null, text: 'Two', content: 'Two' },
+      ]);
+      expect(RetrievalMetrics.splitPassages('One\n\nTwo\n\n\nThree')).toHaveLength(3);
+      expect(RetrievalMetrics.splitPassages('   ')).toEqual([]);
+    });
+  });
+
+  describe('score', () => {
+    it('should score against expected source documents', () => {
+      const score = RetrievalMetrics.score(numberedContext, { expected_source: 'refunds.pdf; missing.docx' });
+
+      expect(score).toEqual({
+        basis: 'source',
+        k: 5,
+        passageCount: 3,
+        relevantRanks: [2],
+        hit: true,
+        recallAtK: 0.5,
+        reciprocalRank: 0.5,
+        contextPrecision: 1 / 3,
+      });
+    });
+
+    it('should match expected sources by whole file name', () => {
+      const context = '[1] (Reports · q3-report.pdf · chunk #1)\nRevenue grew.\n\n[2] (Reports/report.pdf)\nCosts fell.';
+
+      expect(RetrievalMetrics.score(context, { expected_source: 'report.pdf' })).toEqual(
+        expect.objectContaining({ relevantRanks: [2], recallAtK: 1 })
+      );
+      expect(RetrievalMetrics.score(context, { expected_source: 'port.pdf' })).toEqual(
+        expect.objectContaining({ hit: false, recallAtK: 0 })
+      );
+    });
+
+    it('should score against the ground truth when no source is given', () => {
+      const score = RetrievalMetrics.score(numberedContext, { ground_truth: 'Refunds are issued within 14 days.' });
+
+      expect(score!.basis).toBe('ground_truth');
+      expect(score!.relevantRanks).toEqual([2]);
+      expect(score!.recallAtK).toBe(1);
+      expect(score!.reciprocalRank).toBe(0.5);
+    });
+
+    it('should only look at the top k passages', () => {
+      const score = RetrievalMetrics.score(numberedContext, { expected_source: 'faq.md' }, 2);
+
+      expect(score!.hit).toBe(false);
+      expect(score!.reciprocalRank).toBe(0);
+      expect(score!.contextPrecision).toBe(0);
+    });
+
+    it('should use the ground truth when passages do not name their documents', () => {
+      const score = RetrievalMetrics.score('The warranty lasts 2 years.', {
+        expected_source: 'warranty.pdf',
+        ground_truth: 'Two years; the warranty lasts 2 years',
+      });
+
+      expect(score!.basis).toBe('ground_truth');
+      expect(score!.hit).toBe(true);
+    });
+
+    it('should count empty context as a miss and skip questions without expectations', () => {
+      expect(RetrievalMetrics.score('', { ground_truth: 'Anything at all' })).toMatchObject({
+        hit: false,
+        recallAtK: 0,
+        contextPrecision: 0,
+      });
+      expect(RetrievalMetrics.score(numberedContext, {})).toBeNull();
+    });
+  });
+
+  describe('summarize', () => {
+    it('should average the scored questions only', () => {
+      const summary = RetrievalMetrics.summarizeItems([
+        { retrieved_context: numberedContext, expected_source: 'refunds.pdf' },
+        { retrieved_context: numberedContext, expected_source: 'faq.md' },
+        { retrieved_context: numberedContext },
+      ]);
+
+      expect(summary).toEqual({
+        k: 5,
+        scoredCount: 2,
+        hitRate: 1,
+        recallAtK: 1,
+        mrr: (1 / 2 + 1 / 3) / 2,
+        contextPrecision: 1 / 3,
+      });
+    });
+
+    it('should return null when nothing could be scored', () => {
+      expect(RetrievalMetrics.summarize([null, undefined])).toBeNull();
+    });
+  });
+});
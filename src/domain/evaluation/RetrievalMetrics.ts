@@ -0,0 +1,247 @@
+/**
+ * Number of top passages the retrieval metrics look at
+ */
+export const DEFAULT_RETRIEVAL_K = 5;
+
+/**
+ * Share of the ground truth's key terms a passage must contain to count as relevant
+ */
+const RELEVANCE_THRESHOLD = 0.5;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have', 'in', 'is', 'it',
+  'its', 'of', 'on', 'or', 'that', 'the', 'their', 'there', 'they', 'this', 'to', 'was', 'were', 'which',
+  'will', 'with',
+]);
+
+/**
+ * One retrieved passage, in retrieval order
+ */
+export interface RetrievedPassage {
+  rank: number;
+  source: string | null;
+  text: string;
+  // The text without its "[n] (label)" header
+  content: string;
+}
+
+/**
+ * Retrieval scores for one question. `basis` says what relevance was judged
+ * against: the expected source document(s) or the ground truth answer.
+ */
+export interface QuestionRetrievalScore {
+  basis: 'source' | 'ground_truth';
+  k: number;
+  passageCount: number;
+  relevantRanks: number[];
+  hit: boolean;
+  recallAtK: number;
+  reciprocalRank: number;
+  contextPrecision: number;
+}
+
+/**
+ * Retrieval scores averaged over the questions that could be scored
+ */
+export interface RetrievalMetricsSummary {
+  k: number;
+  scoredCount: number;
+  hitRate: number;
+  recallAtK: number;
+  mrr: number;
+  contextPrecision: number;
+}
+
+/**
+ * RetrievalMetrics grades retrieved context independently of the answer.
+ *
+ * With an expected source document, a passage is relevant when it comes from
+ * that document and recall@k is the share of expected documents found. With
+ * only a ground truth, a passage is relevant when it holds most of the ground
+ * truth's key terms and recall@k is the share of those terms the top k cover.
+ */
+export class RetrievalMetrics {
+  /**
+   * Score one question's retrieved context, or null when there is nothing to
+   * judge relevance against
+   */
+  static score(
+    retrievedContext: string,
+    expected: { ground_truth?: string; expected_source?: string },
+    k: number = DEFAULT_RETRIEVAL_K
+  ): QuestionRetrievalScore | null {
+    const passages = this.splitPassages(retrievedContext);
+    const top = passages.slice(0, k);
+    const sources = this.splitSources(expected.expected_source);
+    const terms = this.keyTerms(expected.ground_truth || '');
+
+    // Source matching needs passages that name their document
+    if (sources.length > 0 && (passages.length === 0 || passages.some(passage => passage.source))) {
+      const found = sources.filter(source => top.some(passage => this.matchesSource(passage, source)));
+      const relevantRanks = top
+        .filter(passage => sources.some(source => this.matchesSource(passage, source)))
+        .map(passage => passage.rank);
+      return this.toScore('source', k, passages.length, relevantRanks, found.length / sources.length);
+    }
+
+    if (terms.length > 0) {
+      const relevantRanks = top
+        .filter(passage => this.termCoverage(terms, this.keyTerms(passage.text)) >= RELEVANCE_THRESHOLD)
+        .map(passage => passage.rank);
+      const covered = this.termCoverage(terms, this.keyTerms(top.map(passage => passage.text).join(' ')));
+      return this.toScore('ground_truth', k, passages.length, relevantRanks, covered);
+    }
+
+    return null;
+  }
+
+  static summarize(
+    scores: Array<QuestionRetrievalScore | null | undefined>,
+    k: number = DEFAULT_RETRIEVAL_K
+  ): RetrievalMetricsSummary | null {
+    const scored = scores.filter((score): score is QuestionRetrievalScore => !!score);
+    if (scored.length === 0) return null;
+
+    const mean = (pick: (score: QuestionRetrievalScore) => number) =>
+      scored.reduce((sum, score) => sum + pick(score), 0) / scored.length;
+
+    return {
+      k,
+      scoredCount: scored.length,
+      hitRate: mean(score => (score.hit ? 1 : 0)),
+      recallAtK: mean(score => score.recallAtK),
+      mrr: mean(score => score.reciprocalRank),
+      contextPrecision: mean(score => score.contextPrecision),
+    };
+  }
+
+  /**
+   * Summarize evaluation items, reusing scores already attached to them
+   */
+  static summarizeItems(
+    items: Array<{
+      retrieved_context: string;
+      ground_truth?: string;
+      expected_source?: string;
+      retrieval_metrics?: QuestionRetrievalScore | null;
+    }>,
+    k: number = DEFAULT_RETRIEVAL_K
+  ): RetrievalMetricsSummary | null {
+    return this.summarize(
+      items.map(item => item.retrieval_metrics || this.score(item.retrieved_context, item, k)),
+      k
+    );
+  }
+
+  /**
+   * Split retrieved context into passages. Numbered "[n] (label)" headers are
+   * used when present, then separator lines, then blank-line paragraphs.
+   */
+  static splitPassages(retrievedContext: string): RetrievedPassage[] {
+    const text = (retrievedContext || '').replace(/\r\n/g, '\n').trim();
+    if (!text) return [];
+
+    let blocks: Array<{ header: string | null; body: string }>;
+    if (/^\s*\[\d+\]/m.test(text)) {
+      blocks = text
+        .split(/\n(?=\s*\[\d+\])/)
+        .map(block => {
+          // Anything before the first "[1]" is a preamble without a source
+          if (!/^\s*\[\d+\]/.test(block)) return { header: null, body: block };
+          const newline = block.indexOf('\n');
+          const header = (newline === -1 ? block : block.slice(0, newline)).replace(/^\s*\[\d+\]\s*/, '');
+          return { header, body: newline === -1 ? '' : block.slice(newline + 1) };
+        });
+    } else {
+      const separated = text.split(/\n\s*(?:-{3,}|\*{3,}|={3,})\s*\n/);
+      blocks = (separated.length > 1 ? separated : text.split(/\n\s*\n/))
+        .map(block => ({ header: null, body: block }));
+    }
+
+    return blocks
+      .map(block => {
+        const sourceLine = block.body.match(/^\s*(?:source|document|file|from)\s*:\s*(.+)$/im);
+        const source = block.header
+          ? block.header.replace(/^\(|\)$/g, '').trim()
+          : sourceLine ? sourceLine[1].trim() : null;
+        return {
+          source: source || null,
+          text: `${block.header || ''}\n${block.body}`.trim(),
+          content: block.body.trim(),
+        };
+      })
+      .filter(passage => passage.text.length > 0)
+      .map((passage, index) => ({ rank: index + 1, ...passage }));
+  }
+
+  /**
+   * Lowercased words without stop words; numbers of any length are kept
+   */
+  static keyTerms(text: string): string[] {
+    const words = (text || '').toLowerCase().match(/[a-z0-9]+(?:[.,][0-9]+)*/g) || [];
+    const terms: string[] = [];
+    const seen = new Set<string>();
+    words.forEach(word => {
+      if (seen.has(word) || STOP_WORDS.has(word) || (word.length < 3 && !/^\d/.test(word))) return;
+      seen.add(word);
+      terms.push(word);
+    });
+    return terms;
+  }
+
+  private static termCoverage(terms: string[], available: string[]): number {
+    if (terms.length === 0) return 0;
+    const set = new Set(available);
+    return terms.filter(term => set.has(term)).length / terms.length;
+  }
+
+  /**
+   * Expected sources are separated by ";" or "|"
+   */
+  private static splitSources(expectedSource?: string): string[] {
+    return (expectedSource || '')
+      .split(/[;|]/)
+      .map(source => this.normalizeSource(source))
+      .filter(source => source.length > 0);
+  }
+
+  /**
+   * Whether a passage comes from the expected file. Labels such as
+   * "Handbook · policies/refunds.pdf · chunk #0" are compared part by part, so
+   * report.pdf never matches q3-report.pdf.
+   */
+  private static matchesSource(passage: RetrievedPassage, source: string): boolean {
+    if (!passage.source) return false;
+    return passage.source
+      .split(/\s+·\s+/)
+      .some(part => this.normalizeSource(part) === source);
+  }
+
+  /**
+   * Compare by file name only, ignoring folders and case
+   */
+  private static normalizeSource(source: string): string {
+    const trimmed = source.trim().toLowerCase();
+    return trimmed.slice(Math.max(trimmed.lastIndexOf('/'), trimmed.lastIndexOf('\\')) + 1);
+  }
+
+  private static toScore(
+    basis: QuestionRetrievalScore['basis'],
+    k: number,
+    passageCount: number,
+    relevantRanks: number[],
+    recallAtK: number
+  ): QuestionRetrievalScore {
+    const considered = Math.min(k, passageCount);
+    return {
+      basis,
+      k,
+      passageCount,
+      relevantRanks,
+      hit: relevantRanks.length > 0,
+      recallAtK,
+      reciprocalRank: relevantRanks.length > 0 ? 1 / relevantRanks[0] : 0,
+      contextPrecision: considered > 0 ? relevantRanks.length / considered : 0,
+    };
+  }
+}
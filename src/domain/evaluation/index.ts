@@ -0,0 +1,48 @@
+export { EvaluationRunComparator } from './EvaluationRunComparator';
+export type {
+  QuestionChange,
+  ComparedQuestion,
+  ConfigDifference,
+  RunComparison,
+} from './EvaluationRunComparator';
+export { QuestionSetCodec, MAX_EVALUATION_QUESTIONS } from './QuestionSetCodec';
+export type { EvaluationQuestion, QuestionSetFormat } from './QuestionSetCodec';
+export { QuestionSetService } from './QuestionSetService';
+export type { QuestionSet, QuestionSetServiceDeps } from './QuestionSetService';
+export { QuestionGenerator } from './QuestionGenerator';
+export type {
+  GeneratedQuestion,
+  QuestionGenerationOptions,
+  QuestionGenerationProgress,
+  QuestionGeneratorDeps,
+} from './QuestionGenerator';
+export { EvaluationLeaderboard, MAX_MATRIX_COMBINATIONS } from './EvaluationLeaderboard';
+export type { LeaderboardRow } from './EvaluationLeaderboard';
+export { RetrievalMetrics, DEFAULT_RETRIEVAL_K } from './RetrievalMetrics';
+export type { RetrievedPassage, QuestionRetrievalScore, RetrievalMetricsSummary } from './RetrievalMetrics';
+export {
+  GenerationScheduler,
+  TokenBucket,
+  DEFAULT_GENERATION_SETTINGS,
+  MAX_GENERATION_CONCURRENCY,
+  MAX_REQUESTS_PER_MINUTE,
+} from './GenerationScheduler';
+export type { GenerationSettings, GenerationSchedulerDeps, ScheduleOptions } from './GenerationScheduler';
+export { AdaptivePoller } from './AdaptivePoller';
+export type { AdaptivePollOptions, PollCheck } from './AdaptivePoller';
+export { EvaluationReportExporter } from './EvaluationReportExporter';
+export type { EvaluationReport, EvaluationReportFormat } from './EvaluationReportExporter';
+export { EvaluationAnalytics } from './EvaluationAnalytics';
+export type {
+  AccuracyTrendPoint,
+  CategoryBreakdown,
+  FailureNoteKind,
+  FailureTheme,
+} from './EvaluationAnalytics';
+export { JudgeReviewService } from './JudgeReviewService';
+export type {
+  JudgeReview,
+  JudgeReviewVerdict,
+  JudgeReviewSummary,
+  JudgeReviewServiceDeps,
+} from './JudgeReviewService';
@@ -115,12 +115,14 @@ export class ModelConfigLoader {
                         const serverModels = Array.isArray(modelResponse) ? modelResponse : [];
 
                         for (const m of serverModels) {
+                            const contextWindow = ModelMapper.extractContextWindow(m, 'ollama');
                             fallbackModels.push({
                                 name: m.name,
                                 provider: 'ollama',
                                 providerId: 'ollama_servers_settings',
                                 serverName: server.serverName,
                                 serverId: server.id,
+                                ...(contextWindow ? { contextWindow } : {}),
                             });
                         }
                     } catch (innerErr) {
@@ -24,6 +24,7 @@ export class ModelMapper {
         const serverId = rawModel.server_id || rawModel.serverId || 'unknown';
         const serverName = rawModel.server_name || rawModel.serverName || 'Unknown Server';
         const name = rawModel.name || rawModel.id || '';
+        const contextWindow = ModelMapper.extractContextWindow(rawModel, provider);
 
         return {
             name,
@@ -31,9 +32,57 @@ export class ModelMapper {
             providerId,
             serverName,
             serverId,
+            ...(contextWindow ? { contextWindow } : {}),
         };
     }
 
+    /**
+     * Context window from the model's metadata, if the provider reports one.
+     * Looks at the model itself, then metadata/details/options, then
+     * model_info keys such as "llama.context_length".
+     *
+     * Ollama reports the trained maximum as context_length but runs models
+     * with num_ctx, so only an explicit num_ctx counts for Ollama models.
+     */
+    static extractContextWindow(rawModel: any, provider?: string): number | null {
+        if (!rawModel || typeof rawModel !== 'object') {
+            return null;
+        }
+
+        const isOllama = (provider || rawModel.provider || 'ollama').toLowerCase() === 'ollama';
+        const keys = isOllama ? ['num_ctx'] : ['num_ctx', 'context_length', 'context_window'];
+
+        // Ollama's /api/show gives parameters as Modelfile lines, e.g. "num_ctx 8192"
+        if (typeof rawModel.parameters === 'string') {
+            const match = /(^|\n)\s*num_ctx\s+(\d+)/.exec(rawModel.parameters);
+            if (match && Number(match[2]) > 0) {
+                return Number(match[2]);
+            }
+        }
+
+        const sources = [rawModel, rawModel.metadata, rawModel.details, rawModel.options, rawModel.parameters];
+        for (const source of sources) {
+            if (!source || typeof source !== 'object') continue;
+            for (const key of keys) {
+                const value = Number(source[key]);
+                if (value > 0) {
+                    return value;
+                }
+            }
+        }
+
+        const modelInfo = rawModel.model_info;
+        if (!isOllama && modelInfo && typeof modelInfo === 'object') {
+            const key = Object.keys(modelInfo).find(candidate => /(^|\.)context_length$/.test(candidate));
+            const value = key ? Number(modelInfo[key]) : 0;
+            if (value > 0) {
+                return value;
+            }
+        }
+
+        return null;
+    }
+
     /**
      * Map array of raw models to ModelInfo array
      * @param rawModels - Array of raw model data
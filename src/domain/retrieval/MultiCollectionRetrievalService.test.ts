@@ -0,0 +1,161 @@
+import { MultiCollectionRetrievalService } from './MultiCollectionRetrievalService';
+import { RetrievalProfileService } from './RetrievalProfileService';
+import type {
+  Collection,
+  ContextRetrievalResult,
+  DocumentChunk,
+} from '../../braindrive-plugin/pluginTypes';
+
+const makeCollection = (id: string, name: string): Collection => ({
+  id,
+  name,
+  description: '',
+  color: '#000',
+  created_at: '',
+  updated_at: '',
+  document_count: 1,
+});
+
+const makeChunk = (id: string, collectionId: string): DocumentChunk => ({
+  id,
+  document_id: `doc-${id}`,
+  collection_id: collectionId,
+  content: `content ${id}`,
+  chunk_index: 0,
+  chunk_type: 'text',
+  metadata: { document_filename: `${id}.md` },
+});
+
+const makeResult = (
+  chunks: DocumentChunk[],
+  overrides: Partial<ContextRetrievalResult> = {}
+): ContextRetrievalResult => ({
+  chunks,
+  intent: null,
+  requires_generation: true,
+  generation_type: 'qa',
+  metadata: {},
+  ...overrides,
+});
+
+describe('MultiCollectionRetrievalService', () => {
+  const hr = makeCollection('hr', 'HR');
+  const eng = makeCollection('eng', 'Engineering');
+  let search: jest.Mock;
+  let service: MultiCollectionRetrievalService;
+
+  beforeEach(() => {
+    search = jest.fn();
+    service = new MultiCollectionRetrievalService({ search });
+  });
+
+  it('should pass a single collection through and label its chunks', async () => {
+    search.mockResolvedValue(makeResult([makeChunk('a', 'hr'), makeChunk('b', 'hr')], {
+      metadata: { transformed_queries: ['q1'] },
+    }));
+
+    const result = await service.retrieve('leave policy', [hr]);
+
+    expect(search).toHaveBeenCalledWith('leave policy', 'hr', [], undefined);
+    expect(result.chunks.map(c => c.id)).toEqual(['a', 'b']);
+    expect(result.chunks[0].metadata.collection_name).toBe('HR');
+    expect(result.metadata.transformed_queries).toEqual(['q1']);
+    expect(result.metadata.collections).toEqual([
+      { collection_id: 'hr', collection_name: 'HR', chunk_count: 2 },
+    ]);
+  });
+
+  it('should fan out and interleave results by rank across collections', async () => {
+    search.mockImplementation(async (_q: string, collectionId: string) => (
+      collectionId === 'hr'
+        ? makeResult([makeChunk('h1', 'hr'), makeChunk('h2', 'hr')], {
+          intent: { type: 'retrieval', confidence: 0.6, reasoning: '', requires_retrieval: true, requires_collection_scan: false },
+          metadata: { transformed_queries: ['a', 'b'] },
+        })
+        : makeResult([makeChunk('e1', 'eng')], {
+          intent: { type: 'retrieval', confidence: 0.9, reasoning: 'best', requires_retrieval: true, requires_collection_scan: false },
+          metadata: { transformed_queries: ['b', 'c'] },
+        })
+    ));
+
+    const result = await service.retrieve('onboarding', [hr, eng]);
+
+    expect(search).toHaveBeenCalledTimes(2);
+    expect(result.chunks.map(c => c.id)).toEqual(['h1', 'e1', 'h2']);
+    expect(result.chunks.map(c => c.metadata.collection_name)).toEqual(['HR', 'Engineering', 'HR']);
+    expect(result.chunks[0].metadata.cross_collection_score).toBeCloseTo(1 / 61);
+    expect(result.intent?.reasoning).toBe('best');
+    expect(result.metadata.fusion_method).toBe('cross_collection_rrf');
+    expect(result.metadata.transformed_queries).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should trim merged results to the largest top_k of the collection profiles', async () => {
+    const store: Record<string, any> = {
+      'chat_with_docs_retrieval_profiles_hr': { activeProfileId: 'custom', profiles: [{ id: 'custom', name: 'Tiny', config: { top_k: 1 } }] },
+      'chat_with_docs_retrieval_profiles_eng': { activeProfileId: 'custom', profiles: [{ id: 'custom', name: 'Small', config: { top_k: 2 } }] },
+    };
+    const retrievalProfileService = new RetrievalProfileService({
+      settings: { getSetting: jest.fn(async (key: string) => store[key] ?? null) },
+    });
+    service = new MultiCollectionRetrievalService({ search, retrievalProfileService });
+    search.mockImplementation(async (_q: string, collectionId: string) =>
+      makeResult([makeChunk(`${collectionId}1`, collectionId), makeChunk(`${collectionId}2`, collectionId)])
+    );
+
+    const result = await service.retrieve('q', [hr, eng]);
+
+    expect(search.mock.calls[0][3].top_k).toBe(1);
+    expect(result.chunks).toHaveLength(2);
+    expect(result.metadata.collections.map((c: any) => c.retrieval_profile)).toEqual(['Tiny', 'Small']);
+  });
+
+  it('should keep results from collections that succeed', async () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+    search.mockImplementation(async (_q: string, collectionId: string) => {
+      if (collectionId === 'eng') throw new Error('timeout');
+      return makeResult([makeChunk('h1', 'hr')]);
+    });
+
+    const result = await service.retrieve('q', [hr, eng]);
+
+    expect(result.chunks.map(c => c.id)).toEqual(['h1']);
+    expect(result.metadata.collections[1]).toMatchObject({ collection_id: 'eng', chunk_count: 0, error: 'timeout' });
+    warnSpy.mockRestore();
+  });
+
+  it('should throw when every collection fails', async () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation();
+    search.mockRejectedValue(new Error('offline'));
+
+    await expect(service.retrieve('q', [hr, eng])).rejects.toThrow('offline');
+    warnSpy.mockRestore();
+  });
+
+  it('should apply metadata filters to every collection search', async () => {
+    search.mockResolvedValue(makeResult([]));
+
+    await service.retrieve('q', [hr, eng], [], {
+      documentIds: [],
+      documentTypes: ['pdf'],
+      uploadedAfter: null,
+      uploadedBefore: null,
+    });
+
+    expect(search.mock.calls[0][3].filters).toEqual({ min_similarity: 0.8, document_types: ['pdf'] });
+    expect(search.mock.calls[1][3].filters).toEqual({ min_similarity: 0.8, document_types: ['pdf'] });
+  });
+
+  it('should refuse filters whose start date is after the end date', async () => {
+    await expect(service.retrieve('q', [hr], [], {
+      documentIds: [],
+      documentTypes: [],
+      uploadedAfter: '2024-06-01',
+      uploadedBefore: '2024-05-01',
+    })).rejects.toThrow('The start date must be before the end date');
+    expect(search).not.toHaveBeenCalled();
+  });
+
+  it('should require at least one collection', async () => {
+    await expect(service.retrieve('q', [])).rejects.toThrow('At least one collection is required');
+  });
+});
@@ -0,0 +1,226 @@
+import type {
+  Collection,
+  ContextRetrievalResult,
+  DocumentChunk,
+  IntentResponse,
+} from '../../braindrive-plugin/pluginTypes';
+import type { RAGSearchConfig } from '../../infrastructure/repositories';
+import {
+  RetrievalProfileService,
+  DEFAULT_RETRIEVAL_CONFIG,
+  type RetrievalProfile,
+} from './RetrievalProfileService';
+import {
+  RetrievalFilterBuilder,
+  EMPTY_RETRIEVAL_FILTERS,
+  type RetrievalFilterSelection,
+} from './RetrievalFilterBuilder';
+
+type ChatHistory = Array<{ role: 'user' | 'assistant'; content: string }>;
+
+/**
+ * Constant used by reciprocal rank fusion; dampens the weight of top ranks
+ */
+export const CROSS_COLLECTION_RRF_K = 60;
+
+/**
+ * Outcome of the search against one collection
+ */
+export interface CollectionRetrievalSummary {
+  collection_id: string;
+  collection_name: string;
+  chunk_count: number;
+  retrieval_profile?: string;
+  error?: string;
+}
+
+/**
+ * Dependencies for MultiCollectionRetrievalService
+ */
+export interface MultiCollectionRetrievalServiceDeps {
+  search: (
+    query: string,
+    collectionId: string,
+    chatHistory: ChatHistory,
+    config?: RAGSearchConfig
+  ) => Promise<ContextRetrievalResult>;
+  retrievalProfileService?: RetrievalProfileService | null;
+}
+
+/**
+ * Search result (or error) for one collection
+ */
+export interface CollectionSearchOutcome {
+  collection: Collection;
+  profile: RetrievalProfile | null;
+  result: ContextRetrievalResult | null;
+  error?: string;
+}
+
+/**
+ * MultiCollectionRetrievalService grounds a chat in several collections.
+ *
+ * Responsibilities:
+ * - Fan a query out to every selected collection using its own retrieval profile
+ * - Label each chunk with the collection it came from
+ * - Re-rank the merged chunks with reciprocal rank fusion across collections
+ */
+export class MultiCollectionRetrievalService {
+  constructor(private deps: MultiCollectionRetrievalServiceDeps) {}
+
+  /**
+   * Retrieve context for a query from one or more collections, optionally scoped by metadata filters
+   */
+  async retrieve(
+    query: string,
+    collections: Collection[],
+    chatHistory: ChatHistory = [],
+    filters: RetrievalFilterSelection = EMPTY_RETRIEVAL_FILTERS
+  ): Promise<ContextRetrievalResult> {
+    if (collections.length === 0) {
+      throw new Error('At least one collection is required');
+    }
+
+    // An impossible filter would only match nothing and leave the answer ungrounded
+    const filterError = RetrievalFilterBuilder.validate(filters);
+    if (filterError) {
+      throw new Error(filterError);
+    }
+
+    const outcomes = await Promise.all(
+      collections.map(collection => this.searchCollection(query, collection, chatHistory, filters))
+    );
+
+    const succeeded = outcomes.filter(outcome => outcome.result !== null);
+    if (succeeded.length === 0) {
+      throw new Error(outcomes[0].error || 'Retrieval failed');
+    }
+
+    const topK = Math.max(
+      ...succeeded.map(outcome => outcome.profile?.config.top_k ?? DEFAULT_RETRIEVAL_CONFIG.top_k!)
+    );
+
+    return MultiCollectionRetrievalService.mergeResults(outcomes, topK);
+  }
+
+  private async searchCollection(
+    query: string,
+    collection: Collection,
+    chatHistory: ChatHistory,
+    filters: RetrievalFilterSelection
+  ): Promise<CollectionSearchOutcome> {
+    try {
+      const profile = this.deps.retrievalProfileService
+        ? await this.deps.retrievalProfileService.resolveActiveProfile(collection.id)
+        : null;
+      const config = RetrievalFilterBuilder.isEmpty(filters)
+        ? profile?.config
+        : RetrievalFilterBuilder.applyToConfig(profile?.config ?? DEFAULT_RETRIEVAL_CONFIG, filters);
+      const result = await this.deps.search(query, collection.id, chatHistory, config);
+      return { collection, profile, result };
+    } catch (error) {
+      console.warn(`Retrieval failed for collection ${collection.name}:`, error);
+      return {
+        collection,
+        profile: null,
+        result: null,
+        error: error instanceof Error ? error.message : 'Retrieval failed',
+      };
+    }
+  }
+
+  /**
+   * Label chunks with their collection and merge per-collection results.
+   * A single collection keeps the backend ranking; several are fused by rank.
+   */
+  static mergeResults(outcomes: CollectionSearchOutcome[], topK: number): ContextRetrievalResult {
+    const summaries: CollectionRetrievalSummary[] = outcomes.map(outcome => ({
+      collection_id: outcome.collection.id,
+      collection_name: outcome.collection.name,
+      chunk_count: outcome.result?.chunks?.length ?? 0,
+      ...(outcome.profile ? { retrieval_profile: outcome.profile.name } : {}),
+      ...(outcome.error ? { error: outcome.error } : {}),
+    }));
+
+    const succeeded = outcomes.filter(outcome => outcome.result !== null);
+
+    if (outcomes.length === 1) {
+      const [only] = succeeded;
+      return {
+        ...only.result!,
+        chunks: (only.result!.chunks || []).map(chunk => this.labelChunk(chunk, only.collection)),
+        metadata: {
+          ...only.result!.metadata,
+          ...(only.profile ? { retrieval_profile: only.profile.name } : {}),
+          collections: summaries,
+        },
+      };
+    }
+
+    const scored = new Map<string, { chunk: DocumentChunk; score: number; order: number }>();
+    let order = 0;
+
+    succeeded.forEach(outcome => {
+      (outcome.result!.chunks || []).forEach((chunk, rank) => {
+        const key = chunk.id || `${outcome.collection.id}:${rank}`;
+        const contribution = 1 / (CROSS_COLLECTION_RRF_K + rank + 1);
+        const existing = scored.get(key);
+        if (existing) {
+          existing.score += contribution;
+        } else {
+          scored.set(key, { chunk: this.labelChunk(chunk, outcome.collection), score: contribution, order: order++ });
+        }
+      });
+    });
+
+    const chunks = Array.from(scored.values())
+      .sort((a, b) => (b.score - a.score) || (a.order - b.order))
+      .slice(0, topK)
+      .map(entry => ({
+        ...entry.chunk,
+        metadata: { ...entry.chunk.metadata, cross_collection_score: entry.score },
+      }));
+
+    const transformedQueries = new Set<string>();
+    succeeded.forEach(outcome => {
+      const queries = outcome.result!.metadata?.transformed_queries;
+      if (Array.isArray(queries)) {
+        queries.forEach((q: string) => transformedQueries.add(q));
+      }
+    });
+
+    return {
+      chunks,
+      intent: this.pickIntent(succeeded.map(outcome => outcome.result!.intent)),
+      requires_generation: succeeded.some(outcome => outcome.result!.requires_generation),
+      generation_type: succeeded[0].result!.generation_type,
+      metadata: {
+        fusion_method: 'cross_collection_rrf',
+        transformed_queries: Array.from(transformedQueries),
+        collections: summaries,
+      },
+    };
+  }
+
+  /**
+   * Attach the source collection to a chunk's metadata
+   */
+  static labelChunk(chunk: DocumentChunk, collection: Collection): DocumentChunk {
+    return {
+      ...chunk,
+      collection_id: chunk.collection_id || collection.id,
+      metadata: { ...chunk.metadata, collection_name: collection.name },
+    };
+  }
+
+  /**
+   * Highest-confidence intent across collections
+   */
+  private static pickIntent(intents: Array<IntentResponse | null>): IntentResponse | null {
+    return intents.reduce<IntentResponse | null>((best, intent) => {
+      if (!intent) return best;
+      if (!best || (intent.confidence ?? 0) > (best.confidence ?? 0)) return intent;
+      return best;
+    }, null);
+  }
+}
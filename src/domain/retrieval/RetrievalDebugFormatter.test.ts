@@ -0,0 +1,75 @@
+import { RetrievalDebugFormatter } from './RetrievalDebugFormatter';
+import type { DocumentChunk } from '../../braindrive-plugin/pluginTypes';
+
+const makeChunk = (id: string, metadata: DocumentChunk['metadata']): DocumentChunk => ({
+  id,
+  document_id: 'doc-1',
+  collection_id: 'coll-1',
+  content: 'content',
+  chunk_index: 0,
+  chunk_type: 'text',
+  metadata: { document_filename: 'guide.md', ...metadata },
+});
+
+describe('RetrievalDebugFormatter', () => {
+  const chunks = [
+    makeChunk('a', { bm25_score: 2.5, rrf_score: 0.016, fusion_method: 'rrf', found_in_vector: true, found_in_bm25: true }),
+    makeChunk('b', { rrf_score: 0.032, fusion_method: 'rrf', found_in_vector: true, found_in_bm25: false }),
+    makeChunk('c', { bm25_score: 7.1, found_in_bm25: true }),
+  ];
+
+  describe('buildRows', () => {
+    it('should map metadata into rows ranked by retrieval order', () => {
+      const rows = RetrievalDebugFormatter.buildRows(chunks);
+
+      expect(rows[0]).toEqual({
+        rank: 1,
+        chunkId: 'a',
+        source: 'guide.md · chunk #0',
+        bm25Score: 2.5,
+        rrfScore: 0.016,
+        fusionMethod: 'rrf',
+        foundInVector: true,
+        foundInBm25: true,
+      });
+      expect(rows[1].bm25Score).toBeNull();
+      expect(rows[2].foundInVector).toBeNull();
+    });
+  });
+
+  describe('sortRows', () => {
+    const rows = RetrievalDebugFormatter.buildRows(chunks);
+
+    it('should sort numbers descending with missing values last', () => {
+      const sorted = RetrievalDebugFormatter.sortRows(rows, 'bm25Score', 'desc');
+      expect(sorted.map(r => r.chunkId)).toEqual(['c', 'a', 'b']);
+    });
+
+    it('should sort numbers ascending with missing values last', () => {
+      const sorted = RetrievalDebugFormatter.sortRows(rows, 'rrfScore', 'asc');
+      expect(sorted.map(r => r.chunkId)).toEqual(['a', 'b', 'c']);
+    });
+
+    it('should sort booleans and keep retrieval order for ties', () => {
+      const sorted = RetrievalDebugFormatter.sortRows(rows, 'foundInBm25', 'desc');
+      expect(sorted.map(r => r.chunkId)).toEqual(['a', 'c', 'b']);
+    });
+
+    it('should not mutate the input', () => {
+      RetrievalDebugFormatter.sortRows(rows, 'rank', 'desc');
+      expect(rows.map(r => r.rank)).toEqual([1, 2, 3]);
+    });
+  });
+
+  describe('formatting', () => {
+    it('should format scores and missing values', () => {
+      expect(RetrievalDebugFormatter.formatScore(0.0163)).toBe('0.0163');
+      expect(RetrievalDebugFormatter.formatScore(null)).toBe('—');
+    });
+
+    it('should format confidence as a percentage', () => {
+      expect(RetrievalDebugFormatter.formatConfidence(0.876)).toBe('88%');
+      expect(RetrievalDebugFormatter.formatConfidence(undefined)).toBe('—');
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import type { DocumentChunk } from '../../braindrive-plugin/pluginTypes';
+import { CitationFormatter } from '../citations';
+
+/**
+ * Scores and fusion details for one retrieved chunk
+ */
+export interface RetrievalDebugRow {
+  /** 1-based position in the retrieval result, matches the [n] citation number */
+  rank: number;
+  chunkId: string;
+  source: string;
+  bm25Score: number | null;
+  rrfScore: number | null;
+  fusionMethod: string | null;
+  foundInVector: boolean | null;
+  foundInBm25: boolean | null;
+}
+
+export type RetrievalDebugSortKey = keyof Pick<
+  RetrievalDebugRow,
+  'rank' | 'source' | 'bm25Score' | 'rrfScore' | 'fusionMethod' | 'foundInVector' | 'foundInBm25'
+>;
+
+export type SortDirection = 'asc' | 'desc';
+
+const toNumber = (value: unknown): number | null =>
+  typeof value === 'number' && !isNaN(value) ? value : null;
+
+const toBoolean = (value: unknown): boolean | null =>
+  typeof value === 'boolean' ? value : null;
+
+/**
+ * RetrievalDebugFormatter turns retrieval metadata into rows for the
+ * retrieval debugger table.
+ */
+export class RetrievalDebugFormatter {
+  /**
+   * Build one row per chunk, keeping retrieval order as the rank
+   */
+  static buildRows(chunks: DocumentChunk[]): RetrievalDebugRow[] {
+    return chunks.map((chunk, idx) => {
+      const metadata = chunk.metadata || {};
+      return {
+        rank: idx + 1,
+        chunkId: chunk.id,
+        source: CitationFormatter.getChunkLabel(chunk),
+        bm25Score: toNumber(metadata.bm25_score),
+        rrfScore: toNumber(metadata.rrf_score),
+        fusionMethod: typeof metadata.fusion_method === 'string' ? metadata.fusion_method : null,
+        foundInVector: toBoolean(metadata.found_in_vector),
+        foundInBm25: toBoolean(metadata.found_in_bm25),
+      };
+    });
+  }
+
+  /**
+   * Sort rows by a column. Missing values always sort last; ties keep retrieval order.
+   */
+  static sortRows(
+    rows: RetrievalDebugRow[],
+    key: RetrievalDebugSortKey,
+    direction: SortDirection
+  ): RetrievalDebugRow[] {
+    const factor = direction === 'asc' ? 1 : -1;
+
+    return [...rows].sort((a, b) => {
+      const left = a[key];
+      const right = b[key];
+
+      if (left === null && right === null) return a.rank - b.rank;
+      if (left === null) return 1;
+      if (right === null) return -1;
+
+      let diff: number;
+      if (typeof left === 'string' && typeof right === 'string') {
+        diff = left.localeCompare(right);
+      } else {
+        diff = Number(left) - Number(right);
+      }
+
+      return diff !== 0 ? diff * factor : a.rank - b.rank;
+    });
+  }
+
+  /**
+   * Format a score for display, or an em dash when missing
+   */
+  static formatScore(value: number | null, digits = 4): string {
+    return value === null ? '—' : value.toFixed(digits);
+  }
+
+  /**
+   * Format an intent confidence (0–1) as a percentage
+   */
+  static formatConfidence(confidence: number | null | undefined): string {
+    if (typeof confidence !== 'number' || isNaN(confidence)) return '—';
+    return `${Math.round(confidence * 100)}%`;
+  }
+}
@@ -0,0 +1,110 @@
+import {
+  RetrievalFilterBuilder,
+  EMPTY_RETRIEVAL_FILTERS,
+  RetrievalFilterSelection,
+} from './RetrievalFilterBuilder';
+import { DEFAULT_RETRIEVAL_CONFIG } from './RetrievalProfileService';
+import { DocumentStatus, type Document } from '../../braindrive-plugin/pluginTypes';
+
+const makeDocument = (id: string, type: string, createdAt: string): Document => ({
+  id,
+  original_filename: `${id}.${type}`,
+  file_size: 100,
+  document_type: type,
+  collection_id: 'coll-1',
+  status: DocumentStatus.PROCESSED,
+  created_at: createdAt,
+  processed_at: createdAt,
+  chunk_count: 3,
+});
+
+const select = (overrides: Partial<RetrievalFilterSelection>): RetrievalFilterSelection => ({
+  ...EMPTY_RETRIEVAL_FILTERS,
+  ...overrides,
+});
+
+describe('RetrievalFilterBuilder', () => {
+  const documents = [
+    makeDocument('q3-report', 'pdf', '2024-07-15T10:00:00'),
+    makeDocument('handbook', 'docx', '2024-01-10T10:00:00'),
+    makeDocument('readme', 'md', '2024-09-01T10:00:00'),
+  ];
+
+  describe('countActive', () => {
+    it('should count filter groups', () => {
+      expect(RetrievalFilterBuilder.countActive(EMPTY_RETRIEVAL_FILTERS)).toBe(0);
+      expect(RetrievalFilterBuilder.countActive(select({
+        documentIds: ['a', 'b'],
+        uploadedBefore: '2024-12-31',
+      }))).toBe(2);
+    });
+  });
+
+  describe('validate', () => {
+    it('should reject an inverted date range', () => {
+      expect(RetrievalFilterBuilder.validate(select({ uploadedAfter: '2024-09-01', uploadedBefore: '2024-01-01' })))
+        .toBe('The start date must be before the end date');
+      expect(RetrievalFilterBuilder.validate(select({ uploadedAfter: '2024-01-01', uploadedBefore: '2024-01-01' })))
+        .toBeNull();
+    });
+  });
+
+  describe('applyToConfig', () => {
+    it('should return the config unchanged without filters', () => {
+      expect(RetrievalFilterBuilder.applyToConfig(DEFAULT_RETRIEVAL_CONFIG, EMPTY_RETRIEVAL_FILTERS))
+        .toBe(DEFAULT_RETRIEVAL_CONFIG);
+    });
+
+    it('should merge filters and keep min_similarity', () => {
+      const config = RetrievalFilterBuilder.applyToConfig(DEFAULT_RETRIEVAL_CONFIG, select({
+        documentIds: ['q3-report'],
+        documentTypes: ['PDF'],
+        uploadedAfter: '2024-07-01',
+      }));
+
+      expect(config.filters).toEqual({
+        min_similarity: 0.8,
+        document_ids: ['q3-report'],
+        document_types: ['pdf'],
+        uploaded_after: new Date('2024-07-01T00:00:00').toISOString(),
+      });
+      expect(DEFAULT_RETRIEVAL_CONFIG.filters).toEqual({ min_similarity: 0.8 });
+    });
+  });
+
+  describe('matchDocuments', () => {
+    it('should match by type', () => {
+      const matched = RetrievalFilterBuilder.matchDocuments(documents, select({ documentTypes: ['pdf', 'md'] }));
+      expect(matched.map(d => d.id)).toEqual(['q3-report', 'readme']);
+    });
+
+    it('should match an inclusive date range', () => {
+      const matched = RetrievalFilterBuilder.matchDocuments(documents, select({
+        uploadedAfter: '2024-07-15',
+        uploadedBefore: '2024-09-01',
+      }));
+      expect(matched.map(d => d.id)).toEqual(['q3-report', 'readme']);
+    });
+
+    it('should match specific documents', () => {
+      const matched = RetrievalFilterBuilder.matchDocuments(documents, select({ documentIds: ['handbook'] }));
+      expect(matched.map(d => d.id)).toEqual(['handbook']);
+    });
+  });
+
+  describe('describe', () => {
+    it('should summarize the selection', () => {
+      expect(RetrievalFilterBuilder.describe(select({
+        documentIds: ['q3-report'],
+        documentTypes: ['pdf'],
+        uploadedAfter: '2024-07-01',
+      }), documents)).toBe('q3-report.pdf · PDF · from 2024-07-01');
+    });
+
+    it('should abbreviate long document lists', () => {
+      expect(RetrievalFilterBuilder.describe(select({
+        documentIds: ['q3-report', 'handbook', 'readme'],
+      }), documents)).toBe('q3-report.pdf, handbook.docx +1');
+    });
+  });
+});
@@ -0,0 +1,151 @@
+import type { Document } from '../../braindrive-plugin/pluginTypes';
+import type { RAGSearchConfig, RAGSearchFilters } from '../../infrastructure/repositories';
+
+/**
+ * Scoping filters chosen in the chat input
+ */
+export interface RetrievalFilterSelection {
+  documentIds: string[];
+  documentTypes: string[];
+  /** Inclusive upload date bounds as YYYY-MM-DD (date input values) */
+  uploadedAfter: string | null;
+  uploadedBefore: string | null;
+}
+
+export const EMPTY_RETRIEVAL_FILTERS: RetrievalFilterSelection = {
+  documentIds: [],
+  documentTypes: [],
+  uploadedAfter: null,
+  uploadedBefore: null,
+};
+
+/**
+ * Document types offered as filters
+ */
+export const FILTERABLE_DOCUMENT_TYPES = ['pdf', 'docx', 'md'];
+
+/**
+ * RetrievalFilterBuilder converts chat input filter selections into
+ * RAG search filters and checks which documents they match.
+ */
+export class RetrievalFilterBuilder {
+  /**
+   * Number of active filter groups, for the filter button badge
+   */
+  static countActive(selection: RetrievalFilterSelection): number {
+    return [
+      selection.documentIds.length > 0,
+      selection.documentTypes.length > 0,
+      Boolean(selection.uploadedAfter || selection.uploadedBefore),
+    ].filter(Boolean).length;
+  }
+
+  static isEmpty(selection: RetrievalFilterSelection): boolean {
+    return this.countActive(selection) === 0;
+  }
+
+  /**
+   * Validation message for the selection, or null when it is usable
+   */
+  static validate(selection: RetrievalFilterSelection): string | null {
+    if (
+      selection.uploadedAfter &&
+      selection.uploadedBefore &&
+      selection.uploadedAfter > selection.uploadedBefore
+    ) {
+      return 'The start date must be before the end date';
+    }
+    return null;
+  }
+
+  /**
+   * Convert the selection into backend search filters. Date bounds cover whole local days.
+   */
+  static toSearchFilters(selection: RetrievalFilterSelection): RAGSearchFilters {
+    const filters: RAGSearchFilters = {};
+
+    if (selection.documentIds.length > 0) {
+      filters.document_ids = [...selection.documentIds];
+    }
+    if (selection.documentTypes.length > 0) {
+      filters.document_types = selection.documentTypes.map(type => type.toLowerCase());
+    }
+    if (selection.uploadedAfter) {
+      filters.uploaded_after = new Date(`${selection.uploadedAfter}T00:00:00`).toISOString();
+    }
+    if (selection.uploadedBefore) {
+      filters.uploaded_before = new Date(`${selection.uploadedBefore}T23:59:59.999`).toISOString();
+    }
+
+    return filters;
+  }
+
+  /**
+   * Merge the selection into a search config, keeping its other filters (e.g. min_similarity)
+   */
+  static applyToConfig(config: RAGSearchConfig, selection: RetrievalFilterSelection): RAGSearchConfig {
+    if (this.isEmpty(selection)) {
+      return config;
+    }
+
+    return {
+      ...config,
+      filters: {
+        ...config.filters,
+        ...this.toSearchFilters(selection),
+      },
+    };
+  }
+
+  /**
+   * Documents matched by the selection, mirroring the backend filter semantics
+   */
+  static matchDocuments(documents: Document[], selection: RetrievalFilterSelection): Document[] {
+    const filters = this.toSearchFilters(selection);
+    const after = filters.uploaded_after ? new Date(filters.uploaded_after).getTime() : null;
+    const before = filters.uploaded_before ? new Date(filters.uploaded_before).getTime() : null;
+
+    return documents.filter(document => {
+      if (filters.document_ids && filters.document_ids.indexOf(document.id) === -1) {
+        return false;
+      }
+      if (filters.document_types && filters.document_types.indexOf((document.document_type || '').toLowerCase()) === -1) {
+        return false;
+      }
+      const uploadedAt = new Date(document.created_at).getTime();
+      if (after !== null && !(uploadedAt >= after)) {
+        return false;
+      }
+      if (before !== null && !(uploadedAt <= before)) {
+        return false;
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Short summary of the selection, e.g. "Q3 report.pdf · PDF · from 2024-07-01"
+   */
+  static describe(selection: RetrievalFilterSelection, documents: Document[] = []): string {
+    const parts: string[] = [];
+
+    if (selection.documentIds.length > 0) {
+      const names = selection.documentIds.map(id =>
+        documents.find(document => document.id === id)?.original_filename || id
+      );
+      parts.push(names.length > 2 ? `${names.slice(0, 2).join(', ')} +${names.length - 2}` : names.join(', '));
+    }
+    if (selection.documentTypes.length > 0) {
+      parts.push(selection.documentTypes.map(type => type.toUpperCase()).join('/'));
+    }
+    if (selection.uploadedAfter && selection.uploadedBefore) {
+      parts.push(`${selection.uploadedAfter} to ${selection.uploadedBefore}`);
+    } else if (selection.uploadedAfter) {
+      parts.push(`from ${selection.uploadedAfter}`);
+    } else if (selection.uploadedBefore) {
+      parts.push(`until ${selection.uploadedBefore}`);
+    }
+
+    return parts.join(' · ');
+  }
+}
@@ -0,0 +1,178 @@
+import {
+  RetrievalProfileService,
+  DEFAULT_RETRIEVAL_CONFIG,
+  DEFAULT_RETRIEVAL_PROFILE_ID,
+  BUILT_IN_RETRIEVAL_PROFILES,
+  RetrievalProfile,
+} from './RetrievalProfileService';
+
+describe('RetrievalProfileService', () => {
+  let service: RetrievalProfileService;
+  let mockSettings: any;
+  let store: Record<string, any>;
+
+  beforeEach(() => {
+    store = {};
+    mockSettings = {
+      getSetting: jest.fn(async (key: string) => store[key] ?? null),
+      setSetting: jest.fn(async (key: string, value: any) => {
+        store[key] = value;
+      }),
+    };
+
+    service = new RetrievalProfileService({ settings: mockSettings });
+  });
+
+  const customProfile: RetrievalProfile = {
+    id: '',
+    name: 'Legal PDFs',
+    config: { top_k: 20, alpha: 0.7 },
+  };
+
+  describe('loadSettings', () => {
+    it('should return defaults when nothing is saved', async () => {
+      const result = await service.loadSettings('coll-1');
+
+      expect(mockSettings.getSetting).toHaveBeenCalledWith('chat_with_docs_retrieval_profiles_coll-1');
+      expect(result).toEqual({ activeProfileId: DEFAULT_RETRIEVAL_PROFILE_ID, profiles: [] });
+    });
+
+    it('should return defaults when settings service is unavailable', async () => {
+      service = new RetrievalProfileService({ settings: undefined });
+
+      const result = await service.loadSettings('coll-1');
+
+      expect(result.activeProfileId).toBe(DEFAULT_RETRIEVAL_PROFILE_ID);
+    });
+
+    it('should drop malformed profiles', async () => {
+      store['chat_with_docs_retrieval_profiles_coll-1'] = {
+        activeProfileId: 'p1',
+        profiles: [{ id: 'p1', name: 'Valid', config: {} }, { id: 'p2' }, null],
+      };
+
+      const result = await service.loadSettings('coll-1');
+
+      expect(result.profiles).toHaveLength(1);
+      expect(result.profiles[0].id).toBe('p1');
+    });
+
+    it('should return defaults when getSetting throws', async () => {
+      mockSettings.getSetting.mockRejectedValue(new Error('boom'));
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+
+      const result = await service.loadSettings('coll-1');
+
+      expect(result.profiles).toEqual([]);
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('resolveActiveProfile', () => {
+    it('should resolve the default profile for a new collection', async () => {
+      const profile = await service.resolveActiveProfile('coll-1');
+
+      expect(profile.id).toBe(DEFAULT_RETRIEVAL_PROFILE_ID);
+      expect(profile.config).toEqual(DEFAULT_RETRIEVAL_CONFIG);
+    });
+
+    it('should fall back to the default when the active profile no longer exists', async () => {
+      store['chat_with_docs_retrieval_profiles_coll-1'] = { activeProfileId: 'gone', profiles: [] };
+
+      const profile = await service.resolveActiveProfile('coll-1');
+
+      expect(profile.id).toBe(DEFAULT_RETRIEVAL_PROFILE_ID);
+    });
+
+    it('should keep profiles separate per collection', async () => {
+      const { profile } = await service.saveProfile('coll-1', customProfile);
+      await service.setActiveProfile('coll-1', profile.id);
+
+      expect((await service.resolveActiveProfile('coll-1')).name).toBe('Legal PDFs');
+      expect((await service.resolveActiveProfile('coll-2')).id).toBe(DEFAULT_RETRIEVAL_PROFILE_ID);
+    });
+  });
+
+  describe('saveProfile', () => {
+    it('should create a custom profile with a normalized config', async () => {
+      const { settings, profile } = await service.saveProfile('coll-1', customProfile);
+
+      expect(profile.id).toMatch(/^profile_/);
+      expect(profile.config.top_k).toBe(20);
+      expect(profile.config.use_hybrid).toBe(true);
+      expect(profile.config.filters?.min_similarity).toBe(0.8);
+      expect(settings.profiles).toHaveLength(1);
+      expect(mockSettings.setSetting).toHaveBeenCalled();
+    });
+
+    it('should update an existing custom profile in place', async () => {
+      const { profile } = await service.saveProfile('coll-1', customProfile);
+
+      const { settings } = await service.saveProfile('coll-1', { ...profile, name: 'Renamed' });
+
+      expect(settings.profiles).toHaveLength(1);
+      expect(settings.profiles[0]).toMatchObject({ id: profile.id, name: 'Renamed' });
+    });
+
+    it('should save a copy when editing a built-in profile', async () => {
+      const builtIn = BUILT_IN_RETRIEVAL_PROFILES[1];
+
+      const { profile } = await service.saveProfile('coll-1', { ...builtIn, name: 'My thorough' });
+
+      expect(profile.id).not.toBe(builtIn.id);
+      expect(profile.builtIn).toBeUndefined();
+    });
+
+    it('should reject profiles without a name', async () => {
+      await expect(service.saveProfile('coll-1', { ...customProfile, name: '  ' }))
+        .rejects.toThrow('Profile name is required');
+    });
+  });
+
+  describe('deleteProfile', () => {
+    it('should reset the active profile when deleting it', async () => {
+      const { profile } = await service.saveProfile('coll-1', customProfile);
+      await service.setActiveProfile('coll-1', profile.id);
+
+      const settings = await service.deleteProfile('coll-1', profile.id);
+
+      expect(settings.profiles).toHaveLength(0);
+      expect(settings.activeProfileId).toBe(DEFAULT_RETRIEVAL_PROFILE_ID);
+    });
+
+    it('should not delete built-in profiles', async () => {
+      await expect(service.deleteProfile('coll-1', DEFAULT_RETRIEVAL_PROFILE_ID))
+        .rejects.toThrow('Built-in profiles cannot be deleted');
+    });
+  });
+
+  describe('setActiveProfile', () => {
+    it('should activate a built-in profile', async () => {
+      const settings = await service.setActiveProfile('coll-1', 'keyword');
+
+      expect(settings.activeProfileId).toBe('keyword');
+      expect((await service.resolveActiveProfile('coll-1')).config.alpha).toBe(0.2);
+    });
+
+    it('should reject unknown profiles', async () => {
+      await expect(service.setActiveProfile('coll-1', 'missing'))
+        .rejects.toThrow('Retrieval profile missing not found');
+    });
+  });
+
+  describe('normalizeConfig', () => {
+    it('should clamp out-of-range values', () => {
+      const config = RetrievalProfileService.normalizeConfig({
+        top_k: 500,
+        alpha: -1,
+        max_history_turns: NaN,
+        filters: { min_similarity: 2 },
+      });
+
+      expect(config.top_k).toBe(50);
+      expect(config.alpha).toBe(0);
+      expect(config.max_history_turns).toBe(3);
+      expect(config.filters?.min_similarity).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,275 @@
+import type { RAGSearchConfig } from '../../infrastructure/repositories';
+import { SETTINGS_KEYS } from '../../constants';
+import { generateId } from '../../utils';
+
+/**
+ * Named set of retrieval parameters sent with every RAG search
+ */
+export interface RetrievalProfile {
+  id: string;
+  name: string;
+  description?: string;
+  config: RAGSearchConfig;
+  builtIn?: boolean;
+}
+
+/**
+ * Retrieval settings persisted for a single collection
+ */
+export interface CollectionRetrievalSettings {
+  activeProfileId: string;
+  /** Custom profiles only; built-in profiles are never persisted */
+  profiles: RetrievalProfile[];
+}
+
+/**
+ * Dependencies for RetrievalProfileService
+ */
+export interface RetrievalProfileServiceDeps {
+  settings: any;
+}
+
+/**
+ * Config used before retrieval profiles existed; kept as the "Balanced" profile
+ */
+export const DEFAULT_RETRIEVAL_CONFIG: RAGSearchConfig = {
+  use_chat_history: true,
+  max_history_turns: 3,
+  top_k: 7,
+  use_hybrid: true,
+  alpha: 0.5,
+  use_intent_classification: true,
+  query_transformation: {
+    enabled: true,
+    methods: [],
+  },
+  filters: {
+    min_similarity: 0.8,
+  },
+};
+
+export const DEFAULT_RETRIEVAL_PROFILE_ID = 'balanced';
+
+export const BUILT_IN_RETRIEVAL_PROFILES: RetrievalProfile[] = [
+  {
+    id: DEFAULT_RETRIEVAL_PROFILE_ID,
+    name: 'Balanced',
+    description: 'Even mix of semantic and keyword search',
+    config: DEFAULT_RETRIEVAL_CONFIG,
+    builtIn: true,
+  },
+  {
+    id: 'thorough',
+    name: 'Thorough',
+    description: 'More excerpts with a lower similarity cut-off, for long documents',
+    config: {
+      ...DEFAULT_RETRIEVAL_CONFIG,
+      top_k: 15,
+      alpha: 0.6,
+      filters: { min_similarity: 0.7 },
+    },
+    builtIn: true,
+  },
+  {
+    id: 'keyword',
+    name: 'Keyword heavy',
+    description: 'Favours BM25 matches, for code and exact terminology',
+    config: {
+      ...DEFAULT_RETRIEVAL_CONFIG,
+      top_k: 10,
+      alpha: 0.2,
+    },
+    builtIn: true,
+  },
+];
+
+/**
+ * RetrievalProfileService manages named retrieval profiles per collection.
+ *
+ * Responsibilities:
+ * - Provide built-in profiles
+ * - Load and save custom profiles per collection via the settings service
+ * - Track the active profile per collection
+ * - Resolve the RAG search config for a collection
+ */
+export class RetrievalProfileService {
+  constructor(private deps: RetrievalProfileServiceDeps) {}
+
+  /**
+   * Settings key for a collection's retrieval profiles
+   */
+  getSettingKey(collectionId: string): string {
+    return `${SETTINGS_KEYS.RETRIEVAL_PROFILES}_${collectionId}`;
+  }
+
+  /**
+   * Load persisted retrieval settings, falling back to defaults
+   */
+  async loadSettings(collectionId: string): Promise<CollectionRetrievalSettings> {
+    const defaults: CollectionRetrievalSettings = {
+      activeProfileId: DEFAULT_RETRIEVAL_PROFILE_ID,
+      profiles: [],
+    };
+
+    if (!this.deps.settings?.getSetting) {
+      return defaults;
+    }
+
+    try {
+      const saved = await this.deps.settings.getSetting(this.getSettingKey(collectionId));
+      if (!saved || typeof saved !== 'object') {
+        return defaults;
+      }
+
+      const profiles = Array.isArray(saved.profiles)
+        ? saved.profiles.filter((p: any) => p && p.id && p.name && p.config)
+        : [];
+
+      return {
+        activeProfileId: typeof saved.activeProfileId === 'string'
+          ? saved.activeProfileId
+          : DEFAULT_RETRIEVAL_PROFILE_ID,
+        profiles,
+      };
+    } catch (error) {
+      console.error('Error loading retrieval profiles:', error);
+      return defaults;
+    }
+  }
+
+  /**
+   * Persist retrieval settings for a collection
+   */
+  async saveSettings(collectionId: string, settings: CollectionRetrievalSettings): Promise<void> {
+    if (!this.deps.settings?.setSetting) {
+      throw new Error('Settings service not available');
+    }
+
+    await this.deps.settings.setSetting(this.getSettingKey(collectionId), {
+      activeProfileId: settings.activeProfileId,
+      profiles: settings.profiles.filter(p => !p.builtIn),
+    });
+  }
+
+  /**
+   * Built-in profiles followed by the collection's custom profiles
+   */
+  listProfiles(settings: CollectionRetrievalSettings): RetrievalProfile[] {
+    return [...BUILT_IN_RETRIEVAL_PROFILES, ...settings.profiles];
+  }
+
+  /**
+   * Get the active profile, falling back to the default when it no longer exists
+   */
+  getActiveProfile(settings: CollectionRetrievalSettings): RetrievalProfile {
+    const profiles = this.listProfiles(settings);
+    return profiles.find(p => p.id === settings.activeProfileId)
+      || BUILT_IN_RETRIEVAL_PROFILES[0];
+  }
+
+  /**
+   * Resolve the active profile for a collection
+   */
+  async resolveActiveProfile(collectionId: string): Promise<RetrievalProfile> {
+    const settings = await this.loadSettings(collectionId);
+    return this.getActiveProfile(settings);
+  }
+
+  /**
+   * Create or update a custom profile. Editing a built-in profile saves a copy.
+   */
+  async saveProfile(
+    collectionId: string,
+    profile: RetrievalProfile
+  ): Promise<{ settings: CollectionRetrievalSettings; profile: RetrievalProfile }> {
+    if (!profile.name?.trim()) {
+      throw new Error('Profile name is required');
+    }
+
+    const settings = await this.loadSettings(collectionId);
+    const isNew = !profile.id || profile.builtIn || !settings.profiles.some(p => p.id === profile.id);
+
+    const saved: RetrievalProfile = {
+      id: isNew ? generateId('profile') : profile.id,
+      name: profile.name.trim(),
+      description: profile.description,
+      config: RetrievalProfileService.normalizeConfig(profile.config),
+    };
+
+    const updated: CollectionRetrievalSettings = {
+      ...settings,
+      profiles: isNew
+        ? [...settings.profiles, saved]
+        : settings.profiles.map(p => (p.id === saved.id ? saved : p)),
+    };
+
+    await this.saveSettings(collectionId, updated);
+    return { settings: updated, profile: saved };
+  }
+
+  /**
+   * Delete a custom profile. The active profile falls back to the default.
+   */
+  async deleteProfile(collectionId: string, profileId: string): Promise<CollectionRetrievalSettings> {
+    if (BUILT_IN_RETRIEVAL_PROFILES.some(p => p.id === profileId)) {
+      throw new Error('Built-in profiles cannot be deleted');
+    }
+
+    const settings = await this.loadSettings(collectionId);
+    const updated: CollectionRetrievalSettings = {
+      activeProfileId: settings.activeProfileId === profileId
+        ? DEFAULT_RETRIEVAL_PROFILE_ID
+        : settings.activeProfileId,
+      profiles: settings.profiles.filter(p => p.id !== profileId),
+    };
+
+    await this.saveSettings(collectionId, updated);
+    return updated;
+  }
+
+  /**
+   * Set the active profile for a collection
+   */
+  async setActiveProfile(collectionId: string, profileId: string): Promise<CollectionRetrievalSettings> {
+    const settings = await this.loadSettings(collectionId);
+    if (!this.listProfiles(settings).some(p => p.id === profileId)) {
+      throw new Error(`Retrieval profile ${profileId} not found`);
+    }
+
+    const updated = { ...settings, activeProfileId: profileId };
+    await this.saveSettings(collectionId, updated);
+    return updated;
+  }
+
+  /**
+   * Fill missing fields from the default config and clamp numeric ranges
+   */
+  static normalizeConfig(config: Partial<RAGSearchConfig> = {}): RAGSearchConfig {
+    const clamp = (value: number | undefined, min: number, max: number, fallback: number) => {
+      if (typeof value !== 'number' || isNaN(value)) return fallback;
+      return Math.min(max, Math.max(min, value));
+    };
+
+    return {
+      ...DEFAULT_RETRIEVAL_CONFIG,
+      ...config,
+      max_history_turns: Math.round(clamp(config.max_history_turns, 0, 10, DEFAULT_RETRIEVAL_CONFIG.max_history_turns!)),
+      top_k: Math.round(clamp(config.top_k, 1, 50, DEFAULT_RETRIEVAL_CONFIG.top_k!)),
+      alpha: clamp(config.alpha, 0, 1, DEFAULT_RETRIEVAL_CONFIG.alpha!),
+      query_transformation: {
+        ...DEFAULT_RETRIEVAL_CONFIG.query_transformation!,
+        ...(config.query_transformation || {}),
+      },
+      filters: {
+        ...DEFAULT_RETRIEVAL_CONFIG.filters,
+        ...(config.filters || {}),
+        min_similarity: clamp(
+          config.filters?.min_similarity,
+          0,
+          1,
+          DEFAULT_RETRIEVAL_CONFIG.filters!.min_similarity!
+        ),
+      },
+    };
+  }
+}
@@ -0,0 +1,32 @@
+export {
+  RetrievalProfileService,
+  DEFAULT_RETRIEVAL_CONFIG,
+  DEFAULT_RETRIEVAL_PROFILE_ID,
+  BUILT_IN_RETRIEVAL_PROFILES,
+} from './RetrievalProfileService';
+export type {
+  RetrievalProfile,
+  CollectionRetrievalSettings,
+  RetrievalProfileServiceDeps,
+} from './RetrievalProfileService';
+export { RetrievalDebugFormatter } from './RetrievalDebugFormatter';
+export type {
+  RetrievalDebugRow,
+  RetrievalDebugSortKey,
+  SortDirection,
+} from './RetrievalDebugFormatter';
+export {
+  MultiCollectionRetrievalService,
+  CROSS_COLLECTION_RRF_K,
+} from './MultiCollectionRetrievalService';
+export type {
+  CollectionRetrievalSummary,
+  CollectionSearchOutcome,
+  MultiCollectionRetrievalServiceDeps,
+} from './MultiCollectionRetrievalService';
+export {
+  RetrievalFilterBuilder,
+  EMPTY_RETRIEVAL_FILTERS,
+  FILTERABLE_DOCUMENT_TYPES,
+} from './RetrievalFilterBuilder';
+export type { RetrievalFilterSelection } from './RetrievalFilterBuilder';
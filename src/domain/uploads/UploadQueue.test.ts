@@ -0,0 +1,250 @@
+import { UploadQueue } from './UploadQueue';
+import { DocumentStatus } from '../../braindrive-plugin/pluginTypes';
+import type { Document } from '../../braindrive-plugin/pluginTypes';
+import type { DocumentUploadOptions } from '../../infrastructure/repositories';
+
+const makeFile = (name: string) => new File(['content'], name, { type: 'text/plain' });
+
+const makeDocument = (id: string, status: DocumentStatus = DocumentStatus.PROCESSING): Document => ({
+  id,
+  original_filename: `${id}.txt`,
+  file_size: 7,
+  document_type: 'txt',
+  collection_id: 'coll-1',
+  status,
+  created_at: '2024-01-01T00:00:00Z',
+  processed_at: '',
+  chunk_count: 0,
+});
+
+interface PendingUpload {
+  file: File;
+  options: DocumentUploadOptions;
+  resolve: (document: Document) => void;
+  reject: (error: Error) => void;
+}
+
+const flush = async () => {
+  for (let i = 0; i < 5; i++) {
+    await Promise.resolve();
+  }
+};
+
+describe('UploadQueue', () => {
+  let pending: PendingUpload[];
+  let upload: jest.Mock;
+  let listDocuments: jest.Mock;
+
+  const createQueue = (options = {}) => new UploadQueue({ upload, listDocuments }, {
+    concurrency: 2,
+    maxRetries: 2,
+    retryBaseDelayMs: 1000,
+    pollIntervalMs: 2000,
+    ...options,
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    pending = [];
+    upload = jest.fn((file: File, _collectionId: string, options: DocumentUploadOptions) => new Promise<Document>((resolve, reject) => {
+      pending.push({ file, options, resolve, reject });
+      options.signal?.addEventListener('abort', () => {
+        const error = new Error('Upload aborted');
+        error.name = 'AbortError';
+        reject(error);
+      });
+    }));
+    listDocuments = jest.fn().mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should run at most `concurrency` uploads at once', async () => {
+    const queue = createQueue();
+    queue.enqueue([makeFile('a.txt'), makeFile('b.txt'), makeFile('c.txt')], 'coll-1');
+
+    expect(upload).toHaveBeenCalledTimes(2);
+
+    pending[0].resolve(makeDocument('a', DocumentStatus.PROCESSED));
+    await flush();
+
+    expect(upload).toHaveBeenCalledTimes(3);
+    expect(queue.getSnapshot().items.map(item => item.status)).toEqual(['completed', 'uploading', 'uploading']);
+  });
+
+  it('should report per-file progress', () => {
+    const queue = createQueue();
+    const [item] = queue.enqueue([makeFile('a.txt')], 'coll-1');
+
+    pending[0].options.onProgress!(0.4);
+
+    expect(queue.getSnapshot().items.find(i => i.id === item.id)!.progress).toBe(0.4);
+  });
+
+  it('should skip files that fail validation', () => {
+    const queue = new UploadQueue({
+      upload,
+      listDocuments,
+      validate: file => (file.name.endsWith('.exe') ? { isValid: false, error: 'unsupported' } : { isValid: true }),
+    });
+
+    queue.enqueue([makeFile('setup.exe')], 'coll-1');
+
+    expect(upload).not.toHaveBeenCalled();
+    expect(queue.getSnapshot().summary).toMatchObject({
+      total: 1,
+      skipped: 1,
+      failures: [{ fileName: 'setup.exe', error: 'unsupported' }],
+    });
+  });
+
+  it('should send relative paths as metadata and record skipped sources', () => {
+    const queue = createQueue();
+    queue.enqueue([
+      { file: makeFile('q3.pdf'), relativePath: 'reports/q3.pdf' },
+      { file: makeFile('logo.png'), relativePath: 'reports/logo.png', skipReason: 'Unsupported file type (.png)' },
+    ], 'coll-1');
+
+    expect(upload).toHaveBeenCalledTimes(1);
+    expect(pending[0].options.metadata).toEqual({ relative_path: 'reports/q3.pdf' });
+    expect(queue.getSnapshot().items[1]).toMatchObject({ status: 'skipped', error: 'Unsupported file type (.png)' });
+  });
+
+  it('should retry failed uploads with exponential backoff', async () => {
+    const queue = createQueue();
+    queue.enqueue([makeFile('a.txt')], 'coll-1');
+
+    pending[0].reject(new Error('HTTP POST /documents/ failed: 503'));
+    await flush();
+    expect(queue.getSnapshot().items[0].status).toBe('retrying');
+
+    jest.advanceTimersByTime(999);
+    expect(upload).toHaveBeenCalledTimes(1);
+    jest.advanceTimersByTime(1);
+    expect(upload).toHaveBeenCalledTimes(2);
+
+    pending[1].reject(new Error('network error'));
+    await flush();
+    jest.advanceTimersByTime(2000);
+    expect(upload).toHaveBeenCalledTimes(3);
+
+    pending[2].reject(new Error('network error'));
+    await flush();
+
+    const [item] = queue.getSnapshot().items;
+    expect(item.status).toBe('failed');
+    expect(item.attempts).toBe(3);
+    expect(queue.getSnapshot().summary!.failed).toBe(1);
+  });
+
+  it('should not retry client errors', async () => {
+    const queue = createQueue();
+    queue.enqueue([makeFile('a.txt')], 'coll-1');
+
+    pending[0].reject(new Error('HTTP POST /documents/ failed: 400'));
+    await flush();
+
+    expect(queue.getSnapshot().items[0].status).toBe('failed');
+  });
+
+  it('should not start uploads while paused', async () => {
+    const queue = createQueue({ concurrency: 1 });
+    queue.enqueue([makeFile('a.txt'), makeFile('b.txt')], 'coll-1');
+    queue.pause();
+
+    pending[0].resolve(makeDocument('a', DocumentStatus.PROCESSED));
+    await flush();
+    expect(upload).toHaveBeenCalledTimes(1);
+
+    queue.resume();
+    expect(upload).toHaveBeenCalledTimes(2);
+  });
+
+  it('should abort a cancelled upload and start the next one', async () => {
+    const queue = createQueue({ concurrency: 1 });
+    const [first] = queue.enqueue([makeFile('a.txt'), makeFile('b.txt')], 'coll-1');
+
+    queue.cancel(first.id);
+    await flush();
+
+    expect(pending[0].options.signal!.aborted).toBe(true);
+    expect(queue.getSnapshot().items.map(item => item.status)).toEqual(['cancelled', 'uploading']);
+  });
+
+  it('should retry a cancelled file on request', async () => {
+    const queue = createQueue({ concurrency: 1 });
+    queue.enqueue([makeFile('a.txt')], 'coll-1');
+    queue.cancelAll();
+    await flush();
+    expect(queue.getSnapshot().summary!.cancelled).toBe(1);
+
+    queue.retry(queue.getSnapshot().items[0].id);
+
+    expect(queue.getSnapshot().summary).toBeNull();
+    expect(queue.getSnapshot().items[0]).toMatchObject({ status: 'uploading', attempts: 1 });
+  });
+
+  it('should poll processing documents per collection and summarise the batch', async () => {
+    const queue = createQueue();
+    queue.enqueue([makeFile('a.txt'), makeFile('b.txt')], 'coll-1');
+
+    pending[0].resolve(makeDocument('a'));
+    pending[1].resolve(makeDocument('b'));
+    await flush();
+    expect(queue.getSnapshot().items.map(item => item.status)).toEqual(['processing', 'processing']);
+
+    listDocuments.mockResolvedValue([
+      makeDocument('a', DocumentStatus.PROCESSED),
+      { ...makeDocument('b', DocumentStatus.FAILED), error_message: 'Could not parse file' },
+    ]);
+    jest.advanceTimersByTime(2000);
+    await flush();
+
+    expect(listDocuments).toHaveBeenCalledTimes(1);
+    expect(listDocuments).toHaveBeenCalledWith('coll-1');
+    expect(queue.getSnapshot().summary).toMatchObject({
+      total: 2,
+      completed: 1,
+      failed: 1,
+      failures: [{ fileName: 'b.txt', error: 'Could not parse file' }],
+    });
+  });
+
+  it('should back off polling while nothing changes', async () => {
+    const queue = createQueue();
+    queue.enqueue([makeFile('a.txt')], 'coll-1');
+    pending[0].resolve(makeDocument('a'));
+    await flush();
+
+    listDocuments.mockResolvedValue([makeDocument('a')]);
+    jest.advanceTimersByTime(2000);
+    await flush();
+    expect(listDocuments).toHaveBeenCalledTimes(1);
+
+    jest.advanceTimersByTime(2000);
+    await flush();
+    expect(listDocuments).toHaveBeenCalledTimes(1);
+
+    jest.advanceTimersByTime(1000);
+    await flush();
+    expect(listDocuments).toHaveBeenCalledTimes(2);
+  });
+
+  it('should keep previous batches out of the summary', async () => {
+    const queue = createQueue();
+    queue.enqueue([makeFile('a.txt')], 'coll-1');
+    pending[0].resolve(makeDocument('a', DocumentStatus.PROCESSED));
+    await flush();
+
+    queue.enqueue([makeFile('b.txt')], 'coll-1');
+    pending[1].resolve(makeDocument('b', DocumentStatus.PROCESSED));
+    await flush();
+
+    expect(queue.getSnapshot().summary!.total).toBe(1);
+
+    queue.clearFinished();
+    expect(queue.getSnapshot()).toMatchObject({ items: [], summary: null });
+  });
+});
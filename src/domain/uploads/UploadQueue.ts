@@ -0,0 +1,514 @@
+import { DocumentStatus } from '../../braindrive-plugin/pluginTypes';
+import type { Document } from '../../braindrive-plugin/pluginTypes';
+import type { DocumentUploadOptions } from '../../infrastructure/repositories';
+import type { UploadSource } from './UploadSourceCollector';
+
+export type UploadItemStatus =
+  | 'queued'
+  | 'uploading'
+  | 'retrying'
+  | 'processing'
+  | 'completed'
+  | 'failed'
+  | 'cancelled'
+  | 'skipped';
+
+/**
+ * One file in the upload queue
+ */
+export interface UploadQueueItem {
+  id: string;
+  file: File;
+  /** Path within the dropped folder or archive, sent as document metadata */
+  relativePath?: string;
+  collectionId: string;
+  status: UploadItemStatus;
+  /** Upload progress, 0-1 */
+  progress: number;
+  attempts: number;
+  error?: string;
+  /** Set once the upload is accepted; refreshed while the backend processes it */
+  document?: Document;
+  /** When a retrying item is queued again (epoch ms) */
+  nextRetryAt?: number;
+  uploadedAt?: number;
+}
+
+/**
+ * Report produced when the queue drains
+ */
+export interface UploadQueueSummary {
+  total: number;
+  completed: number;
+  failed: number;
+  cancelled: number;
+  skipped: number;
+  durationMs: number;
+  failures: Array<{ fileName: string; error: string }>;
+}
+
+export interface UploadQueueSnapshot {
+  items: UploadQueueItem[];
+  paused: boolean;
+  /** Set when every item has settled, cleared when new files are queued */
+  summary: UploadQueueSummary | null;
+}
+
+export interface UploadQueueOptions {
+  /** Uploads in flight at once */
+  concurrency: number;
+  /** Retries after the first failed attempt */
+  maxRetries: number;
+  /** Delay before the first retry; doubles on each further retry */
+  retryBaseDelayMs: number;
+  maxRetryDelayMs: number;
+  /** Processing status poll interval; backs off while nothing changes */
+  pollIntervalMs: number;
+  maxPollIntervalMs: number;
+  /** Processing longer than this marks the item failed */
+  processingTimeoutMs: number;
+}
+
+/**
+ * Dependencies for UploadQueue
+ */
+export interface UploadQueueDeps {
+  upload: (file: File, collectionId: string, options: DocumentUploadOptions) => Promise<Document>;
+  listDocuments: (collectionId: string) => Promise<Document[]>;
+  /** Files failing validation are skipped instead of uploaded */
+  validate?: (file: File) => { isValid: boolean; error?: string };
+}
+
+export const DEFAULT_UPLOAD_QUEUE_OPTIONS: UploadQueueOptions = {
+  concurrency: 3,
+  maxRetries: 3,
+  retryBaseDelayMs: 1000,
+  maxRetryDelayMs: 30000,
+  pollIntervalMs: 2000,
+  maxPollIntervalMs: 15000,
+  processingTimeoutMs: 30 * 60 * 1000,
+};
+
+const ACTIVE_STATUSES: UploadItemStatus[] = ['queued', 'uploading', 'retrying', 'processing'];
+
+/**
+ * UploadQueue uploads many files with bounded concurrency.
+ *
+ * Responsibilities:
+ * - Run at most `concurrency` uploads at once, reporting per-file progress
+ * - Retry failed uploads with exponential backoff (a waiting retry does not hold a slot)
+ * - Pause, resume, cancel and retry individual files or the whole queue
+ * - Track backend processing with one shared poll per collection instead of a timer per file
+ * - Summarise the batch once every file has settled
+ */
+export class UploadQueue {
+  private options: UploadQueueOptions;
+  private items: UploadQueueItem[] = [];
+  private paused = false;
+  private disposed = false;
+  private summary: UploadQueueSummary | null = null;
+  private batchStartedAt: number | null = null;
+  private batchIds = new Set<string>();
+  private nextId = 1;
+  private controllers = new Map<string, AbortController>();
+  private retryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private pollTimer: ReturnType<typeof setTimeout> | null = null;
+  private pollDelay: number;
+  private listeners = new Set<(snapshot: UploadQueueSnapshot) => void>();
+
+  constructor(private deps: UploadQueueDeps, options: Partial<UploadQueueOptions> = {}) {
+    this.options = { ...DEFAULT_UPLOAD_QUEUE_OPTIONS, ...options };
+    this.pollDelay = this.options.pollIntervalMs;
+  }
+
+  subscribe(listener: (snapshot: UploadQueueSnapshot) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  getSnapshot(): UploadQueueSnapshot {
+    return { items: this.items, paused: this.paused, summary: this.summary };
+  }
+
+  /**
+   * Queue files for upload; returns the created items. Sources with a skip reason are recorded as skipped.
+   */
+  enqueue(files: Array<File | UploadSource>, collectionId: string): UploadQueueItem[] {
+    const added = files.map(entry => {
+      const source: UploadSource = entry instanceof File ? { file: entry } : entry;
+      const validation = source.skipReason
+        ? { isValid: false, error: source.skipReason }
+        : this.deps.validate ? this.deps.validate(source.file) : { isValid: true };
+      const item: UploadQueueItem = {
+        id: `upload-${this.nextId++}`,
+        file: source.file,
+        relativePath: source.relativePath,
+        collectionId,
+        status: validation.isValid ? 'queued' : 'skipped',
+        progress: 0,
+        attempts: 0,
+        error: validation.isValid ? undefined : validation.error,
+      };
+      return item;
+    });
+
+    if (added.length === 0) {
+      return added;
+    }
+
+    this.startBatch();
+    added.forEach(item => this.batchIds.add(item.id));
+    this.items = [...this.items, ...added];
+    this.emit();
+    this.pump();
+    this.settle();
+    return added;
+  }
+
+  /**
+   * Stop starting new uploads; uploads in flight finish
+   */
+  pause(): void {
+    this.paused = true;
+    this.emit();
+  }
+
+  resume(): void {
+    this.paused = false;
+    this.emit();
+    this.pump();
+  }
+
+  /**
+   * Cancel a file that has not finished uploading. Files already processing are left alone.
+   */
+  cancel(id: string): void {
+    const item = this.find(id);
+    if (!item || (item.status !== 'queued' && item.status !== 'uploading' && item.status !== 'retrying')) {
+      return;
+    }
+
+    this.clearRetryTimer(id);
+    this.update(id, { status: 'cancelled', nextRetryAt: undefined });
+
+    const controller = this.controllers.get(id);
+    if (controller) {
+      this.controllers.delete(id);
+      controller.abort();
+    }
+
+    this.pump();
+    this.settle();
+  }
+
+  cancelAll(): void {
+    this.items
+      .filter(item => item.status === 'queued' || item.status === 'uploading' || item.status === 'retrying')
+      .forEach(item => this.cancel(item.id));
+  }
+
+  /**
+   * Queue a failed or cancelled file again with a fresh retry allowance
+   */
+  retry(id: string): void {
+    const item = this.find(id);
+    if (!item || (item.status !== 'failed' && item.status !== 'cancelled')) {
+      return;
+    }
+
+    this.startBatch();
+    this.batchIds.add(id);
+    this.update(id, { status: 'queued', progress: 0, attempts: 0, error: undefined, document: undefined });
+    this.pump();
+  }
+
+  retryFailed(): void {
+    this.items.filter(item => item.status === 'failed').forEach(item => this.retry(item.id));
+  }
+
+  /**
+   * Remove settled files from the queue
+   */
+  clearFinished(): void {
+    this.items = this.items.filter(item => UploadQueue.isActive(item));
+    if (this.items.length === 0) {
+      this.summary = null;
+    }
+    this.emit();
+  }
+
+  /**
+   * Abort everything and stop all timers
+   */
+  dispose(): void {
+    this.disposed = true;
+    this.controllers.forEach(controller => controller.abort());
+    this.controllers.clear();
+    this.retryTimers.forEach(timer => clearTimeout(timer));
+    this.retryTimers.clear();
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = null;
+    }
+    this.listeners.clear();
+  }
+
+  static isActive(item: UploadQueueItem): boolean {
+    return ACTIVE_STATUSES.indexOf(item.status) !== -1;
+  }
+
+  /**
+   * Client errors (other than timeouts and rate limits) and aborts are not worth retrying
+   */
+  static isRetryableError(error: any): boolean {
+    if (error?.name === 'AbortError') {
+      return false;
+    }
+    const status = /failed: (\d{3})/.exec(error?.message || '');
+    if (!status) {
+      return true;
+    }
+    const code = Number(status[1]);
+    return code >= 500 || code === 408 || code === 429;
+  }
+
+  static getDisplayName(item: UploadQueueItem): string {
+    return item.relativePath || item.file.name;
+  }
+
+  static summarize(items: UploadQueueItem[], durationMs: number): UploadQueueSummary {
+    const count = (status: UploadItemStatus) => items.filter(item => item.status === status).length;
+    return {
+      total: items.length,
+      completed: count('completed'),
+      failed: count('failed'),
+      cancelled: count('cancelled'),
+      skipped: count('skipped'),
+      durationMs,
+      failures: items
+        .filter(item => item.status === 'failed' || item.status === 'skipped')
+        .map(item => ({ fileName: UploadQueue.getDisplayName(item), error: item.error || 'Unknown error' })),
+    };
+  }
+
+  // --- Uploading ---
+
+  private pump(): void {
+    if (this.paused) {
+      return;
+    }
+
+    let running = this.items.filter(item => item.status === 'uploading').length;
+    for (const item of this.items) {
+      if (running >= this.options.concurrency) break;
+      if (item.status === 'queued') {
+        running++;
+        this.start(item);
+      }
+    }
+  }
+
+  private start(item: UploadQueueItem): void {
+    const controller = new AbortController();
+    this.controllers.set(item.id, controller);
+    this.update(item.id, { status: 'uploading', progress: 0, attempts: item.attempts + 1, nextRetryAt: undefined });
+
+    this.deps.upload(item.file, item.collectionId, {
+      metadata: item.relativePath ? { relative_path: item.relativePath } : undefined,
+      signal: controller.signal,
+      onProgress: progress => {
+        if (this.find(item.id)?.status === 'uploading') {
+          this.update(item.id, { progress });
+        }
+      },
+    })
+      .then(document => {
+        if (this.controllers.get(item.id) !== controller) return;
+        this.controllers.delete(item.id);
+        this.handleUploaded(item.id, document);
+      })
+      .catch(error => {
+        if (this.controllers.get(item.id) !== controller) return;
+        this.controllers.delete(item.id);
+        this.handleUploadError(item.id, error);
+      });
+  }
+
+  private handleUploaded(id: string, document: Document): void {
+    if (document.status === DocumentStatus.PROCESSED) {
+      this.update(id, { status: 'completed', progress: 1, document, uploadedAt: Date.now() });
+    } else if (document.status === DocumentStatus.FAILED) {
+      this.update(id, {
+        status: 'failed',
+        progress: 1,
+        document,
+        error: document.error_message || 'Processing failed',
+      });
+    } else {
+      this.update(id, { status: 'processing', progress: 1, document, uploadedAt: Date.now() });
+      this.schedulePoll(true);
+    }
+
+    this.pump();
+    this.settle();
+  }
+
+  private handleUploadError(id: string, error: any): void {
+    const item = this.find(id);
+    if (!item) return;
+
+    const message = error?.message || 'Upload failed';
+    if (item.attempts > this.options.maxRetries || !UploadQueue.isRetryableError(error)) {
+      this.update(id, { status: 'failed', error: message });
+      this.pump();
+      this.settle();
+      return;
+    }
+
+    const delay = Math.min(
+      this.options.retryBaseDelayMs * Math.pow(2, item.attempts - 1),
+      this.options.maxRetryDelayMs
+    );
+    this.update(id, { status: 'retrying', error: message, nextRetryAt: Date.now() + delay });
+    this.retryTimers.set(id, setTimeout(() => {
+      this.retryTimers.delete(id);
+      if (this.find(id)?.status === 'retrying') {
+        this.update(id, { status: 'queued', nextRetryAt: undefined });
+        this.pump();
+      }
+    }, delay));
+
+    this.pump();
+  }
+
+  // --- Processing status ---
+
+  private schedulePoll(reset = false): void {
+    if (reset) {
+      this.pollDelay = this.options.pollIntervalMs;
+    }
+    if (this.disposed || this.pollTimer || !this.items.some(item => item.status === 'processing')) {
+      return;
+    }
+
+    this.pollTimer = setTimeout(() => {
+      this.pollTimer = null;
+      this.poll();
+    }, this.pollDelay);
+  }
+
+  private async poll(): Promise<void> {
+    const processing = this.items.filter(item => item.status === 'processing');
+    const collectionIds = processing
+      .map(item => item.collectionId)
+      .filter((id, index, all) => all.indexOf(id) === index);
+
+    let changed = false;
+    let failedToList = false;
+
+    await Promise.all(collectionIds.map(async collectionId => {
+      let documents: Document[];
+      try {
+        documents = await this.deps.listDocuments(collectionId);
+      } catch (error) {
+        console.warn(`Failed to check processing status for collection ${collectionId}:`, error);
+        failedToList = true;
+        return;
+      }
+
+      const byId = new Map<string, Document>();
+      (documents || []).forEach(document => byId.set(document.id, document));
+
+      processing
+        .filter(item => item.collectionId === collectionId)
+        .forEach(item => {
+          if (this.applyProcessingStatus(item, byId.get(item.document!.id))) {
+            changed = true;
+          }
+        });
+    }));
+
+    const delay = changed ? this.options.pollIntervalMs : this.pollDelay * 1.5;
+    this.pollDelay = Math.min(failedToList ? this.pollDelay * 2 : delay, this.options.maxPollIntervalMs);
+    this.settle();
+    this.schedulePoll();
+  }
+
+  /**
+   * Apply a polled document to a processing item; returns whether anything changed
+   */
+  private applyProcessingStatus(item: UploadQueueItem, document: Document | undefined): boolean {
+    const current = this.find(item.id);
+    if (!current || current.status !== 'processing') {
+      return false;
+    }
+
+    if (!document) {
+      this.update(item.id, { status: 'failed', error: 'Document was removed before processing finished' });
+      return true;
+    }
+    if (document.status === DocumentStatus.PROCESSED) {
+      this.update(item.id, { status: 'completed', document });
+      return true;
+    }
+    if (document.status === DocumentStatus.FAILED) {
+      this.update(item.id, { status: 'failed', document, error: document.error_message || 'Processing failed' });
+      return true;
+    }
+    if (Date.now() - (current.uploadedAt || 0) > this.options.processingTimeoutMs) {
+      this.update(item.id, { status: 'failed', document, error: 'Processing timed out' });
+      return true;
+    }
+    if (document.status !== current.document?.status) {
+      this.update(item.id, { document });
+      return true;
+    }
+    return false;
+  }
+
+  // --- State ---
+
+  private startBatch(): void {
+    if (this.batchStartedAt === null) {
+      this.batchStartedAt = Date.now();
+      this.batchIds.clear();
+    }
+    this.summary = null;
+  }
+
+  /**
+   * Summarise the batch once nothing is left to upload or process
+   */
+  private settle(): void {
+    if (this.batchStartedAt === null || this.items.some(item => UploadQueue.isActive(item))) {
+      return;
+    }
+
+    const batch = this.items.filter(item => this.batchIds.has(item.id));
+    this.summary = UploadQueue.summarize(batch, Date.now() - this.batchStartedAt);
+    this.batchStartedAt = null;
+    this.emit();
+  }
+
+  private find(id: string): UploadQueueItem | undefined {
+    return this.items.find(item => item.id === id);
+  }
+
+  private update(id: string, patch: Partial<UploadQueueItem>): void {
+    this.items = this.items.map(item => (item.id === id ? { ...item, ...patch } : item));
+    this.emit();
+  }
+
+  private clearRetryTimer(id: string): void {
+    const timer = this.retryTimers.get(id);
+    if (timer) {
+      clearTimeout(timer);
+      this.retryTimers.delete(id);
+    }
+  }
+
+  private emit(): void {
+    const snapshot = this.getSnapshot();
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+}
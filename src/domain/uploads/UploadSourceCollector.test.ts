@@ -0,0 +1,128 @@
+import { UploadSourceCollector } from './UploadSourceCollector';
+import { buildZipArchive, nodeInflateRaw } from '../../setupTests';
+
+const makeFile = (name: string, relativePath?: string) => {
+  const file = new File(['content'], name);
+  if (relativePath) {
+    Object.defineProperty(file, 'webkitRelativePath', { value: relativePath });
+  }
+  return file;
+};
+
+const fileEntry = (file: File) => ({
+  name: file.name,
+  isFile: true,
+  isDirectory: false,
+  file: (resolve: (file: File) => void) => resolve(file),
+});
+
+const directoryEntry = (name: string, children: any[]) => ({
+  name,
+  isFile: false,
+  isDirectory: true,
+  createReader: () => {
+    // Hand out children two at a time, like browsers batching readEntries
+    let position = 0;
+    return {
+      readEntries: (resolve: (entries: any[]) => void) => {
+        resolve(children.slice(position, position + 2));
+        position += 2;
+      },
+    };
+  },
+});
+
+const dataTransferOf = (entries: any[]) => ({
+  items: entries.map(entry => ({ kind: 'file', webkitGetAsEntry: () => entry })),
+  files: [],
+}) as unknown as DataTransfer;
+
+describe('UploadSourceCollector', () => {
+  const collector = new UploadSourceCollector({
+    allowedExtensions: ['.pdf', '.md'],
+    inflateRaw: nodeInflateRaw,
+  });
+
+  describe('fromFiles', () => {
+    it('should keep folder paths and skip unsupported files', async () => {
+      const sources = await collector.fromFiles([
+        makeFile('q3.pdf', 'reports/2024/q3.pdf'),
+        makeFile('budget.xlsx', 'reports/2024/budget.xlsx'),
+        makeFile('notes.md'),
+      ]);
+
+      expect(sources.map(source => [source.relativePath, source.skipReason])).toEqual([
+        ['reports/2024/q3.pdf', undefined],
+        ['reports/2024/budget.xlsx', 'Unsupported file type (.xlsx)'],
+        [undefined, undefined],
+      ]);
+    });
+
+    it('should ignore hidden and OS metadata files', async () => {
+      const sources = await collector.fromFiles([
+        makeFile('.DS_Store', 'reports/.DS_Store'),
+        makeFile('q3.pdf', 'reports/.git/q3.pdf'),
+      ]);
+
+      expect(sources).toEqual([]);
+    });
+
+    it('should expand zip archives', async () => {
+      const archive = new File([buildZipArchive([
+        { path: 'handbook/' },
+        { path: 'handbook/leave.md', content: '# Leave policy', deflate: true },
+        { path: 'handbook/logo.png', content: 'png' },
+        { path: '__MACOSX/handbook/._leave.md', content: 'resource fork' },
+      ])], 'hr.zip');
+
+      const sources = await collector.fromFiles([archive]);
+
+      expect(sources.map(source => [source.relativePath, source.file.name, source.skipReason])).toEqual([
+        ['hr.zip/handbook/leave.md', 'leave.md', undefined],
+        ['hr.zip/handbook/logo.png', 'logo.png', 'Unsupported file type (.png)'],
+      ]);
+      expect(sources[0].file.size).toBe('# Leave policy'.length);
+    });
+
+    it('should skip an archive that cannot be read', async () => {
+      const sources = await collector.fromFiles([new File(['not a zip'], 'broken.zip')]);
+
+      expect(sources).toEqual([
+        expect.objectContaining({ relativePath: 'broken.zip', skipReason: 'Not a zip archive' }),
+      ]);
+    });
+  });
+
+  describe('fromDataTransfer', () => {
+    it('should walk dropped folders, reading every batch of entries', async () => {
+      const dataTransfer = dataTransferOf([
+        directoryEntry('policies', [
+          fileEntry(makeFile('a.md')),
+          fileEntry(makeFile('b.md')),
+          directoryEntry('archive', [fileEntry(makeFile('c.pdf'))]),
+        ]),
+        fileEntry(makeFile('top.pdf')),
+      ]);
+
+      const sources = await collector.fromDataTransfer(dataTransfer);
+
+      expect(sources.map(source => source.relativePath || source.file.name)).toEqual([
+        'policies/a.md',
+        'policies/b.md',
+        'policies/archive/c.pdf',
+        'top.pdf',
+      ]);
+    });
+
+    it('should fall back to the file list when entries are unavailable', async () => {
+      const dataTransfer = {
+        items: [{ kind: 'file' }],
+        files: [makeFile('notes.md')],
+      } as unknown as DataTransfer;
+
+      const sources = await collector.fromDataTransfer(dataTransfer);
+
+      expect(sources.map(source => source.file.name)).toEqual(['notes.md']);
+    });
+  });
+});
@@ -0,0 +1,186 @@
+import { ZipArchiveReader, browserInflateRaw } from './ZipArchiveReader';
+import type { InflateRaw } from './ZipArchiveReader';
+
+/**
+ * File to upload, with where it came from in a dropped folder or archive
+ */
+export interface UploadSource {
+  file: File;
+  /** e.g. "reports/2024/q3.pdf" or "handbook.zip/hr/leave.md" */
+  relativePath?: string;
+  /** Set when the file is not uploaded; the queue records it as skipped */
+  skipReason?: string;
+}
+
+/**
+ * Archives are expanded rather than uploaded
+ */
+export const ARCHIVE_EXTENSION = '.zip';
+
+/**
+ * Dependencies for UploadSourceCollector
+ */
+export interface UploadSourceCollectorDeps {
+  allowedExtensions: string[];
+  inflateRaw?: InflateRaw;
+}
+
+interface PathedFile {
+  file: File;
+  path: string;
+}
+
+/**
+ * UploadSourceCollector turns picked or dropped files, folders and zip archives
+ * into a flat list of files to upload.
+ *
+ * Responsibilities:
+ * - Walk dropped folders and keep each file's path relative to the drop
+ * - Expand zip archives in the browser
+ * - Mark files with unsupported extensions as skipped; ignore hidden and OS metadata files
+ */
+export class UploadSourceCollector {
+  constructor(private deps: UploadSourceCollectorDeps) {}
+
+  /**
+   * Files from a file input; folder inputs (webkitdirectory) provide relative paths
+   */
+  async fromFiles(files: File[]): Promise<UploadSource[]> {
+    return this.collect(files.map(file => ({
+      file,
+      path: file.webkitRelativePath || file.name,
+    })));
+  }
+
+  /**
+   * Files and folders dropped on the page
+   */
+  async fromDataTransfer(dataTransfer: DataTransfer): Promise<UploadSource[]> {
+    const items = Array.from(dataTransfer.items || []);
+    // Entries must be read synchronously, before the drop event returns
+    const entries = items
+      .filter(item => item.kind === 'file')
+      .map(item => (typeof item.webkitGetAsEntry === 'function' ? item.webkitGetAsEntry() : null));
+
+    if (entries.length === 0 || entries.some(entry => !entry)) {
+      return this.fromFiles(Array.from(dataTransfer.files || []));
+    }
+
+    const files = await Promise.all(entries.map(entry => UploadSourceCollector.readEntry(entry!)));
+    return this.collect(files.reduce<PathedFile[]>((all, list) => all.concat(list), []));
+  }
+
+  static isIgnoredPath(path: string): boolean {
+    return path.split('/').some(segment => segment.charAt(0) === '.' || segment === '__MACOSX' || segment === 'Thumbs.db');
+  }
+
+  static getExtension(path: string): string {
+    const name = path.substring(path.lastIndexOf('/') + 1);
+    const dot = name.lastIndexOf('.');
+    return dot > 0 ? name.substring(dot).toLowerCase() : '';
+  }
+
+  private async collect(files: PathedFile[]): Promise<UploadSource[]> {
+    const sources: UploadSource[] = [];
+
+    for (const { file, path } of files) {
+      if (UploadSourceCollector.isIgnoredPath(path)) continue;
+
+      if (UploadSourceCollector.getExtension(path) === ARCHIVE_EXTENSION) {
+        sources.push(...await this.expandArchive(file, path));
+      } else {
+        sources.push(this.toSource(file, path));
+      }
+    }
+
+    return sources;
+  }
+
+  private async expandArchive(archive: File, archivePath: string): Promise<UploadSource[]> {
+    let reader: ZipArchiveReader;
+    let entries;
+    try {
+      reader = new ZipArchiveReader(await UploadSourceCollector.readArrayBuffer(archive), this.deps.inflateRaw || browserInflateRaw);
+      entries = reader.listEntries();
+    } catch (error: any) {
+      return [{ file: archive, relativePath: archivePath, skipReason: error?.message || 'Could not read archive' }];
+    }
+
+    const sources: UploadSource[] = [];
+    for (const entry of entries) {
+      const path = `${archivePath}/${entry.path}`;
+      const name = entry.path.substring(entry.path.lastIndexOf('/') + 1);
+      if (UploadSourceCollector.isIgnoredPath(entry.path)) continue;
+
+      if (!this.isAllowed(path)) {
+        sources.push(this.toSource(new File([], name), path));
+        continue;
+      }
+
+      try {
+        const data = await reader.read(entry);
+        sources.push({ file: new File([data], name), relativePath: path });
+      } catch (error: any) {
+        sources.push({ file: new File([], name), relativePath: path, skipReason: error?.message || 'Could not extract file' });
+      }
+    }
+    return sources;
+  }
+
+  private toSource(file: File, path: string): UploadSource {
+    // Only files inside a folder or archive have a path worth keeping
+    const source: UploadSource = { file, relativePath: path.indexOf('/') !== -1 ? path : undefined };
+    if (!this.isAllowed(path)) {
+      source.skipReason = `Unsupported file type (${UploadSourceCollector.getExtension(path) || 'no extension'})`;
+    }
+    return source;
+  }
+
+  private isAllowed(path: string): boolean {
+    const extension = UploadSourceCollector.getExtension(path);
+    return this.deps.allowedExtensions.some(allowed => allowed.toLowerCase() === extension);
+  }
+
+  /**
+   * Files under a dropped entry, with paths relative to the drop
+   */
+  private static async readEntry(entry: FileSystemEntry, parentPath = ''): Promise<PathedFile[]> {
+    const path = parentPath ? `${parentPath}/${entry.name}` : entry.name;
+
+    if (entry.isFile) {
+      const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+      return [{ file, path }];
+    }
+
+    if (entry.isDirectory) {
+      const children = await this.readDirectory(entry as FileSystemDirectoryEntry);
+      const nested = await Promise.all(children.map(child => this.readEntry(child, path)));
+      return nested.reduce<PathedFile[]>((all, list) => all.concat(list), []);
+    }
+
+    return [];
+  }
+
+  /**
+   * readEntries returns at most ~100 entries per call, so keep reading until it returns none
+   */
+  private static async readDirectory(directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+    const reader = directory.createReader();
+    const all: FileSystemEntry[] = [];
+
+    for (;;) {
+      const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+      if (batch.length === 0) return all;
+      all.push(...batch);
+    }
+  }
+
+  private static readArrayBuffer(file: Blob): Promise<ArrayBuffer> {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as ArrayBuffer);
+      reader.onerror = () => reject(reader.error || new Error('Could not read file'));
+      reader.readAsArrayBuffer(file);
+    });
+  }
+}
@@ -0,0 +1,40 @@
+import { ZipArchiveReader } from './ZipArchiveReader';
+import { buildZipArchive as buildZip, nodeInflateRaw } from '../../setupTests';
+
+const text = (bytes: Uint8Array) => Buffer.from(bytes).toString('utf8');
+
+describe('ZipArchiveReader', () => {
+  it('should list file entries and skip directories', () => {
+    const reader = new ZipArchiveReader(buildZip([
+      { path: 'docs/' },
+      { path: 'docs/guide.md', content: '# Guide' },
+      { path: 'readme.pdf', content: 'pdf' },
+    ]));
+
+    expect(reader.listEntries().map(entry => entry.path)).toEqual(['docs/guide.md', 'readme.pdf']);
+  });
+
+  it('should read stored and deflated entries', async () => {
+    const reader = new ZipArchiveReader(buildZip([
+      { path: 'stored.md', content: 'plain text' },
+      { path: 'deflated.md', content: 'compressed text '.repeat(20), deflate: true },
+    ]), nodeInflateRaw);
+
+    const [stored, deflated] = reader.listEntries();
+
+    expect(text(await reader.read(stored))).toBe('plain text');
+    expect(text(await reader.read(deflated))).toBe('compressed text '.repeat(20));
+  });
+
+  it('should decode utf-8 names', () => {
+    const reader = new ZipArchiveReader(buildZip([{ path: 'rapports/été.md', content: 'x' }]));
+
+    expect(reader.listEntries()[0].path).toBe('rapports/été.md');
+  });
+
+  it('should reject data that is not a zip archive', () => {
+    const reader = new ZipArchiveReader(new Uint8Array(64).buffer);
+
+    expect(() => reader.listEntries()).toThrow('Not a zip archive');
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * File stored in a zip archive
+ */
+export interface ZipEntry {
+  /** Path inside the archive, '/'-separated */
+  path: string;
+  compressedSize: number;
+  uncompressedSize: number;
+  /** 0 = stored, 8 = deflate */
+  method: number;
+  encrypted: boolean;
+  dataOffset: number;
+}
+
+/**
+ * Inflates raw deflate data (zip method 8)
+ */
+export type InflateRaw = (data: Uint8Array) => Promise<Uint8Array> | Uint8Array;
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const MAX_COMMENT_LENGTH = 0xffff;
+const ZIP64_MARKER = 0xffffffff;
+
+/**
+ * Inflate with the browser's DecompressionStream
+ */
+export const browserInflateRaw: InflateRaw = async (data) => {
+  if (typeof DecompressionStream === 'undefined') {
+    throw new Error('This browser cannot expand zip archives');
+  }
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * ZipArchiveReader lists and extracts files from a zip archive in the browser.
+ *
+ * Reads the central directory, so entries can be filtered before anything is
+ * inflated. Stored and deflated entries are supported; zip64 and encrypted
+ * archives are not.
+ */
+export class ZipArchiveReader {
+  private view: DataView;
+  private bytes: Uint8Array;
+
+  constructor(buffer: ArrayBuffer, private inflateRaw: InflateRaw = browserInflateRaw) {
+    this.view = new DataView(buffer);
+    this.bytes = new Uint8Array(buffer);
+  }
+
+  /**
+   * File entries in the archive; directories are left out
+   */
+  listEntries(): ZipEntry[] {
+    const end = this.findEndOfCentralDirectory();
+    const count = this.view.getUint16(end + 10, true);
+    let offset = this.view.getUint32(end + 16, true);
+    if (offset === ZIP64_MARKER) {
+      throw new Error('Zip64 archives are not supported');
+    }
+
+    const entries: ZipEntry[] = [];
+    for (let i = 0; i < count; i++) {
+      if (this.view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+        throw new Error('Corrupt zip archive: bad central directory');
+      }
+
+      const flags = this.view.getUint16(offset + 8, true);
+      const nameLength = this.view.getUint16(offset + 28, true);
+      const extraLength = this.view.getUint16(offset + 30, true);
+      const commentLength = this.view.getUint16(offset + 32, true);
+      const localHeaderOffset = this.view.getUint32(offset + 42, true);
+      const path = ZipArchiveReader.decodeName(this.bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+      if (path.charAt(path.length - 1) !== '/') {
+        entries.push({
+          path,
+          method: this.view.getUint16(offset + 10, true),
+          compressedSize: this.view.getUint32(offset + 20, true),
+          uncompressedSize: this.view.getUint32(offset + 24, true),
+          encrypted: (flags & 0x1) !== 0,
+          dataOffset: this.getDataOffset(localHeaderOffset),
+        });
+      }
+
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return entries;
+  }
+
+  /**
+   * Uncompressed contents of an entry
+   */
+  async read(entry: ZipEntry): Promise<Uint8Array> {
+    if (entry.encrypted) {
+      throw new Error(`"${entry.path}" is encrypted`);
+    }
+
+    const data = this.bytes.subarray(entry.dataOffset, entry.dataOffset + entry.compressedSize);
+    switch (entry.method) {
+      case 0:
+        return data.slice();
+      case 8:
+        return this.inflateRaw(data);
+      default:
+        throw new Error(`"${entry.path}" uses an unsupported compression method (${entry.method})`);
+    }
+  }
+
+  private findEndOfCentralDirectory(): number {
+    const last = this.bytes.length - 22;
+    const first = Math.max(0, last - MAX_COMMENT_LENGTH);
+    for (let offset = last; offset >= first; offset--) {
+      if (this.view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+        return offset;
+      }
+    }
+    throw new Error('Not a zip archive');
+  }
+
+  private getDataOffset(localHeaderOffset: number): number {
+    if (this.view.getUint32(localHeaderOffset, true) !== LOCAL_FILE_HEADER) {
+      throw new Error('Corrupt zip archive: bad local file header');
+    }
+    const nameLength = this.view.getUint16(localHeaderOffset + 26, true);
+    const extraLength = this.view.getUint16(localHeaderOffset + 28, true);
+    return localHeaderOffset + 30 + nameLength + extraLength;
+  }
+
+  private static decodeName(bytes: Uint8Array): string {
+    if (typeof TextDecoder !== 'undefined') {
+      return new TextDecoder('utf-8').decode(bytes);
+    }
+    let encoded = '';
+    for (let i = 0; i < bytes.length; i++) {
+      encoded += `%${(bytes[i] < 16 ? '0' : '') + bytes[i].toString(16)}`;
+    }
+    try {
+      return decodeURIComponent(encoded);
+    } catch {
+      // Not UTF-8 (older archivers write CP437); keep the bytes as Latin-1
+      return String.fromCharCode.apply(null, Array.from(bytes));
+    }
+  }
+}
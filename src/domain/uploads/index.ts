@@ -0,0 +1,13 @@
+export { UploadQueue, DEFAULT_UPLOAD_QUEUE_OPTIONS } from './UploadQueue';
+export type {
+  UploadItemStatus,
+  UploadQueueItem,
+  UploadQueueSummary,
+  UploadQueueSnapshot,
+  UploadQueueOptions,
+  UploadQueueDeps,
+} from './UploadQueue';
+export { UploadSourceCollector, ARCHIVE_EXTENSION } from './UploadSourceCollector';
+export type { UploadSource, UploadSourceCollectorDeps } from './UploadSourceCollector';
+export { ZipArchiveReader, browserInflateRaw } from './ZipArchiveReader';
+export type { ZipEntry, InflateRaw } from './ZipArchiveReader';
@@ -1,5 +1,6 @@
 import type { ModelInfo, PersonaInfo } from '../components/chat-header/types';
 import type { TestCase, SubmissionItem } from './evaluationViewTypes';
+import type { GenerationSettings } from '../domain/evaluation';
 import * as stateApi from './evaluationStateApiService';
 
 const STORAGE_KEY = 'braindrive_evaluation_in_progress';
@@ -11,6 +12,8 @@ export interface PersistedEvaluationState {
   llmModel: string;
   persona: PersonaInfo | null;
   collectionId?: string;
+  // Concurrency and rate limit the run was started with, reused on resume
+  generationSettings?: Partial<GenerationSettings>;
   testCases: TestCase[];
   processedQuestionIds: string[];
   currentBatch: SubmissionItem[];
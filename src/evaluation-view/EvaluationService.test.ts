@@ -0,0 +1,208 @@
+import { EvaluationService } from './EvaluationService';
+import { EvaluationPersistence, type PersistedEvaluationState } from './EvaluationPersistence';
+import type { EvaluationFeatureState, TestCase } from './evaluationViewTypes';
+import { submitPluginEvaluation, getEvaluationResults } from '../services';
+import { ChatRequestBuilder } from '../domain/chat/ChatRequestBuilder';
+
+jest.mock('../services', () => ({
+  submitPluginEvaluation: jest.fn(),
+  startPluginEvaluationWithQuestions: jest.fn(),
+  getEvaluationResults: jest.fn(),
+}));
+
+const submitMock = submitPluginEvaluation as jest.Mock;
+const resultsMock = getEvaluationResults as jest.Mock;
+
+const makeTestCase = (id: string): TestCase => ({
+  test_case_id: id,
+  question: `Question ${id}?`,
+  category: 'policy',
+  retrieved_context: `Context for ${id}`,
+});
+
+const makeResults = (evaluatedCount: number, status = 'running') => ({
+  evaluation_run: {
+    id: 'run-1',
+    status,
+    total_questions: 3,
+    evaluated_count: evaluatedCount,
+    correct_count: evaluatedCount,
+    incorrect_count: 0,
+    accuracy: evaluatedCount > 0 ? 1 : 0,
+    progress: evaluatedCount / 3,
+  },
+  results: [],
+});
+
+const initialState: EvaluationFeatureState = {
+  activeRun: null,
+  activeRunId: null,
+  testCases: [],
+  isRunning: false,
+  isGenerating: false,
+  progress: 0,
+  error: null,
+  currentResults: null,
+  pastRuns: [],
+  selectedHistoryRun: null,
+};
+
+describe('EvaluationService', () => {
+  let aiService: any;
+  let setError: jest.Mock;
+  let service: EvaluationService;
+  let clock: number;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    clock = 0;
+    aiService = {
+      getCurrentUserId: () => 'user-1',
+      sendRequest: jest.fn(async (request: any, onChunk: (chunk: string) => void) => {
+        onChunk(`Answer to ${request.messages[request.messages.length - 1].content}`);
+        return true;
+      }),
+    };
+    setError = jest.fn();
+    service = new EvaluationService(
+      initialState,
+      {
+        aiService,
+        setError,
+        pollOptions: {
+          sleep: async ms => { clock += ms; },
+          now: () => clock,
+        },
+      },
+      () => {}
+    );
+
+    const persisted: PersistedEvaluationState = {
+      runId: 'run-1',
+      model: { name: 'llama3', provider: 'ollama', providerId: 'ollama_servers_settings', serverName: 'Local', serverId: 'srv-1' },
+      llmModel: 'llama3',
+      persona: null,
+      collectionId: 'col-1',
+      generationSettings: { concurrency: 2, requestsPerMinute: 120 },
+      testCases: [makeTestCase('t1'), makeTestCase('t2'), makeTestCase('t3')],
+      processedQuestionIds: ['t1'],
+      currentBatch: [],
+      timestamp: Date.now(),
+    };
+    EvaluationPersistence.saveState(persisted);
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+    jest.restoreAllMocks();
+  });
+
+  it('should resume a persisted run, answering only what was not submitted and polling until judged', async () => {
+    submitMock.mockResolvedValue({ message: 'accepted' });
+    resultsMock
+      .mockResolvedValueOnce(makeResults(1))
+      .mockResolvedValueOnce(makeResults(3, 'completed'));
+
+    const run = await service.resumeEvaluation();
+
+    expect(aiService.sendRequest).toHaveBeenCalledTimes(2);
+    expect(submitMock).toHaveBeenCalledTimes(1);
+    expect(submitMock.mock.calls[0][0].evaluation_run_id).toBe('run-1');
+    expect(submitMock.mock.calls[0][0].submissions.map((item: any) => item.test_case_id).sort()).toEqual(['t2', 't3']);
+    expect(run).toMatchObject({ id: 'run-1', is_completed: true, evaluated_count: 3, accuracy: 1 });
+    expect(EvaluationPersistence.loadState()).toBeNull();
+  });
+
+  it('should only wait for the judge when every answer was already submitted', async () => {
+    const persisted = EvaluationPersistence.loadState()!;
+    EvaluationPersistence.saveState({ ...persisted, processedQuestionIds: ['t1', 't2', 't3'] });
+    resultsMock.mockResolvedValueOnce(makeResults(3, 'completed'));
+
+    const run = await service.resumeEvaluation();
+
+    expect(aiService.sendRequest).not.toHaveBeenCalled();
+    expect(submitMock).not.toHaveBeenCalled();
+    expect(run).toMatchObject({ is_completed: true });
+  });
+
+  it('should send the recorded request, with each retrieved passage as its own source', async () => {
+    const persisted = EvaluationPersistence.loadState()!;
+    const testCases = persisted.testCases.map(testCase => testCase.test_case_id === 't3'
+      ? { ...testCase, retrieved_context: '[1] (a.pdf)\nRefunds take 30 days.\n[2] (b.pdf)\nContact billing.' }
+      : testCase);
+    EvaluationPersistence.saveState({ ...persisted, testCases, processedQuestionIds: ['t1', 't2'] });
+    submitMock.mockResolvedValue({ message: 'accepted' });
+    resultsMock.mockResolvedValueOnce(makeResults(3, 'completed'));
+
+    await service.resumeEvaluation();
+
+    const sent = aiService.sendRequest.mock.calls[0][0];
+    const submission = submitMock.mock.calls[0][0].submissions[0];
+    expect(sent.messages[sent.messages.length - 1]).toEqual({ role: 'user', content: 'Question t3?' });
+    expect(submission.assembled_prompt).toEqual(ChatRequestBuilder.describe(sent));
+    expect(submission.assembled_prompt.user_prompt).toContain('[1] (a.pdf)\nRefunds take 30 days.\n\n[2] (b.pdf)\nContact billing.');
+  });
+
+  it('should stop generating at the first failed submit', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const persisted = EvaluationPersistence.loadState()!;
+    const testCases = Array.from({ length: 12 }, (_, i) => makeTestCase(`t${i + 1}`));
+    EvaluationPersistence.saveState({
+      ...persisted,
+      testCases,
+      processedQuestionIds: [],
+      generationSettings: { concurrency: 1, requestsPerMinute: 600 },
+    });
+    submitMock.mockRejectedValue(new Error('Submit failed'));
+
+    const run = await service.resumeEvaluation();
+
+    expect(run).toBeNull();
+    expect(submitMock).toHaveBeenCalledTimes(1);
+    expect(aiService.sendRequest).toHaveBeenCalledTimes(5);
+    expect(setError).toHaveBeenCalledWith('Submit failed');
+  });
+
+  it('should not submit provider errors as answers', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    aiService.sendRequest.mockImplementation(async (_request: any, onChunk: (chunk: string) => void) => {
+      onChunk('Error: 429 Too Many Requests');
+      return false;
+    });
+
+    const run = await service.resumeEvaluation();
+
+    expect(run).toBeNull();
+    expect(submitMock).not.toHaveBeenCalled();
+    expect(setError).toHaveBeenCalledWith(expect.stringContaining('429 Too Many Requests'));
+  });
+
+  it('should keep the saved state for resume when submitting after a stop fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    aiService.sendRequest.mockImplementation(async (_request: any, onChunk: (chunk: string) => void) => {
+      service.stopEvaluation();
+      onChunk('Answer');
+      return true;
+    });
+    submitMock.mockRejectedValue(new Error('Submit failed'));
+
+    const run = await service.resumeEvaluation();
+
+    expect(run).toBeNull();
+    expect(setError).not.toHaveBeenCalled();
+    expect(EvaluationPersistence.loadState()).toMatchObject({ runId: 'run-1', processedQuestionIds: ['t1'] });
+  });
+
+  it('should give up when the judge stalls instead of polling forever', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    submitMock.mockResolvedValue({ message: 'accepted' });
+    resultsMock.mockResolvedValue(makeResults(1));
+
+    const run = await service.resumeEvaluation();
+
+    expect(run).toBeNull();
+    expect(setError).toHaveBeenCalledWith(expect.stringContaining('No progress'));
+    expect(clock).toBeGreaterThanOrEqual(5 * 60 * 1000);
+  });
+});
@@ -5,6 +5,7 @@ import {
   getEvaluationResults,
 } from '../services';
 import type { ModelInfo, PersonaInfo } from '../components/chat-header/types';
+import type { DocumentChunk } from '../braindrive-plugin/pluginTypes';
 import type {
   EvaluationFeatureState,
   EvaluationViewStateUpdater,
@@ -13,13 +14,30 @@ import type {
   EvaluationRun,
   PersonaConfigRequest,
   PersonaModelSettings,
+  MatrixCell,
+  MatrixEvaluationState,
 } from './evaluationViewTypes';
 import { EvaluationPersistence, type PersistedEvaluationState } from './EvaluationPersistence';
 import { calculateStageProgress, type EvaluationStage } from './evaluationStages';
+import { ChatRequestBuilder } from '../domain/chat/ChatRequestBuilder';
+import {
+  AdaptivePoller,
+  EvaluationLeaderboard,
+  GenerationScheduler,
+  RetrievalMetrics,
+  type AdaptivePollOptions,
+  type EvaluationQuestion,
+  type GenerationSettings,
+} from '../domain/evaluation';
+
+// Answers sent to the judge per submit request
+const SUBMIT_BATCH_SIZE = 5;
 
 interface ServiceDependencies {
   aiService: AIService;
   setError: (error: string | null) => void;
+  // Overrides for the judge polling delays and stall timeout
+  pollOptions?: Omit<AdaptivePollOptions, 'signal'>;
 }
 
 export class EvaluationService {
@@ -31,8 +49,15 @@ export class EvaluationService {
   private currentLlmModel: string | null = null;
   private currentPersona: PersonaInfo | null = null;
   private currentCollectionId: string | null = null;
+  private currentGenerationSettings: Partial<GenerationSettings> | undefined = undefined;
   private processedQuestionIds: Set<string> = new Set();
+  // Latency and length of the answers generated in the current run
+  private answerStats: { latenciesMs: number[]; answerLengths: number[] } = { latenciesMs: [], answerLengths: [] };
+  private matrixCancelled = false;
+  // Shared across runs so back-to-back matrix runs respect the same rate limits
+  private scheduler = new GenerationScheduler();
   private userId: string | undefined = undefined;
+  private ollamaContextWindow: number | null = null;
 
   constructor(
     initialState: EvaluationFeatureState,
@@ -51,6 +76,13 @@ export class EvaluationService {
     this.userId = userId;
   }
 
+  /**
+   * Window assumed for Ollama models without num_ctx, as configured for the chat view
+   */
+  public setOllamaContextWindow(tokens: number | null): void {
+    this.ollamaContextWindow = tokens;
+  }
+
   /**
    * Convert PersonaInfo to PersonaConfigRequest format for API
    */
@@ -83,20 +115,26 @@ export class EvaluationService {
 
   /**
    * Run complete evaluation workflow
+   * @returns The completed run, or null when it failed or was stopped
    */
   public runEvaluation = async (
     selectedModel: ModelInfo,
     selectedPersona: PersonaInfo | null = null,
     collectionId: string,
-    questions: string[]
-  ): Promise<void> => {
+    questions: EvaluationQuestion[],
+    generationSettings?: Partial<GenerationSettings>
+  ): Promise<EvaluationRun | null> => {
     this.abortController = new AbortController();
+    // stopEvaluation drops the controller, so keep hold of its signal
+    const signal = this.abortController.signal;
+    this.answerStats = { latenciesMs: [], answerLengths: [] };
 
     // Save current run config
     this.currentModel = selectedModel;
     this.currentLlmModel = selectedModel.name;
     this.currentPersona = selectedPersona;
     this.currentCollectionId = collectionId;
+    this.currentGenerationSettings = generationSettings;
     this.processedQuestionIds.clear();
 
     let evaluation_run_id: string | undefined;
@@ -128,12 +166,13 @@ export class EvaluationService {
 
       const response = await startPluginEvaluationWithQuestions({
         collection_id: collectionId,
-        questions,
+        questions: questions.map(item => item.question),
+        question_details: questions,
         llm_model: this.currentLlmModel,
         persona: this.convertPersonaToRequest(selectedPersona),
       });
       evaluation_run_id = response.evaluation_run_id;
-      const test_data = response.test_data;
+      const test_data = EvaluationService.withQuestionDetails(response.test_data, questions);
       console.log(`Context retrieved for ${test_data.length} questions`);
 
       // Stage 2: Preparing tests
@@ -161,115 +200,202 @@ export class EvaluationService {
       // Initial persistence save
       this.savePersistenceState(evaluation_run_id, test_data);
 
-      // Stage 3: Generate answers for all questions
-      const BATCH_SIZE = 3;
-      const batches: TestCase[][] = [];
+      // Stage 3: Generate answers and have them judged
+      const judged = await this.generateAndJudge(
+        evaluation_run_id,
+        test_data,
+        selectedModel,
+        selectedPersona,
+        generationSettings,
+        signal
+      );
+      if (!judged) {
+        this.updateState({ isRunning: false, isGenerating: false, etaSeconds: null });
+        return null;
+      }
+
+      return await this.completeRun(evaluation_run_id, test_data);
+    } catch (error) {
+      console.error('Evaluation failed:', error);
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      this.updateState({ error: errorMsg, isRunning: false });
+      this.deps.setError(errorMsg);
 
-      for (let i = 0; i < test_data.length; i += BATCH_SIZE) {
-        batches.push(test_data.slice(i, i + BATCH_SIZE));
+      // Clear persistence on error
+      if (evaluation_run_id) {
+        await EvaluationPersistence.clearStateWithBackend(evaluation_run_id, this.userId);
+      } else {
+        EvaluationPersistence.clearState();
       }
+      return null;
+    }
+  };
 
-      console.log('Starting answer generation loop...');
+  /**
+   * Run every model × persona combination one after another on the same
+   * questions, tracking each combination's run for the leaderboard
+   */
+  public runMatrixEvaluation = async (
+    models: ModelInfo[],
+    personas: Array<PersonaInfo | null>,
+    collectionId: string,
+    questions: EvaluationQuestion[],
+    generationSettings?: Partial<GenerationSettings>
+  ): Promise<MatrixEvaluationState> => {
+    this.matrixCancelled = false;
+    let matrix: MatrixEvaluationState = {
+      collectionId,
+      questionCount: questions.length,
+      isRunning: true,
+      startedAt: new Date().toISOString(),
+      cells: EvaluationLeaderboard.combinations(models, personas).map(combination => ({
+        ...combination,
+        status: 'pending',
+        runId: null,
+        run: null,
+        latenciesMs: [],
+        answerLengths: [],
+      })),
+    };
+    this.updateState({ matrix });
 
-      // Phase 1: Generate and submit ALL answers (no polling between batches)
-      for (let batchIndex = 0; batchIndex < batches.length; batchIndex++) {
-        if (this.abortController?.signal.aborted) {
-          console.log('Evaluation aborted');
-          this.updateState({ isRunning: false });
-          return;
-        }
+    const updateCell = (index: number, changes: Partial<MatrixCell>) => {
+      matrix = {
+        ...matrix,
+        cells: matrix.cells.map((cell, i) => (i === index ? { ...cell, ...changes } : cell)),
+      };
+      this.updateState({ matrix });
+    };
 
-        const batch = batches[batchIndex];
-        const answeredSoFar = this.processedQuestionIds.size;
+    for (let index = 0; index < matrix.cells.length; index++) {
+      if (this.matrixCancelled) {
+        updateCell(index, { status: 'cancelled' });
+        continue;
+      }
 
-        console.log(`Generating answers for batch ${batchIndex + 1}/${batches.length}`);
+      const cell = matrix.cells[index];
+      console.log(`Matrix run ${index + 1}/${matrix.cells.length}: ${cell.model.name} / ${cell.persona?.name || 'no persona'}`);
+      updateCell(index, { status: 'running' });
+
+      const run = await this.runEvaluation(cell.model, cell.persona, collectionId, questions, generationSettings);
+      updateCell(index, {
+        status: run ? 'completed' : this.matrixCancelled ? 'cancelled' : 'failed',
+        runId: run ? run.id : this.state.activeRunId,
+        run,
+        latenciesMs: this.answerStats.latenciesMs.slice(),
+        answerLengths: this.answerStats.answerLengths.slice(),
+        error: run ? undefined : this.state.error || undefined,
+      });
+    }
 
-        // Update to generating stage with progress
-        this.updateState({
-          isGenerating: true,
-          currentStage: 'generating_answers',
-          stageProgress: calculateStageProgress(
-            'generating_answers',
-            answeredSoFar / test_data.length
-          ),
-        });
+    matrix = { ...matrix, isRunning: false, completedAt: new Date().toISOString() };
+    this.updateState({ matrix });
+    return matrix;
+  };
 
-        const submissions: SubmissionItem[] = [];
-        for (const testCase of batch) {
-          const answer = await this.generateAnswerForQuestion(
-            testCase,
-            selectedModel,
-            selectedPersona
-          );
-          submissions.push({
-            test_case_id: testCase.test_case_id,
-            llm_answer: answer,
-            retrieved_context: testCase.retrieved_context,
-          });
+  /**
+   * Generate answers for the test cases not submitted yet, in parallel within
+   * the provider's rate limit, submit them for judging in batches as they
+   * finish, then poll until the judge is done. Shared by new and resumed runs.
+   * @returns false when the run was stopped
+   */
+  private async generateAndJudge(
+    evaluationRunId: string,
+    testCases: TestCase[],
+    model: ModelInfo,
+    persona: PersonaInfo | null,
+    generationSettings: Partial<GenerationSettings> | undefined,
+    signal: AbortSignal
+  ): Promise<boolean> {
+    const remaining = testCases.filter(testCase => !this.processedQuestionIds.has(testCase.test_case_id));
+    const generation = GenerationScheduler.normalizeSettings(generationSettings);
+    const generationStartedAt = Date.now();
+    const pending: SubmissionItem[] = [];
+    let generatedCount = this.processedQuestionIds.size;
+    let submitting: Promise<void> = Promise.resolve();
+
+    // Submissions go out one request at a time, in the order they were queued
+    const flush = (): Promise<void> => {
+      const submissions = pending.splice(0, pending.length);
+      if (submissions.length === 0) return submitting;
+
+      submitting = submitting.then(async () => {
+        console.log(`Submitting ${submissions.length} answers for judging`);
+        await submitPluginEvaluation({ evaluation_run_id: evaluationRunId, submissions });
+        submissions.forEach(submission => this.processedQuestionIds.add(submission.test_case_id));
+        this.savePersistenceState(evaluationRunId, testCases);
+      });
+      return submitting;
+    };
 
-          this.processedQuestionIds.add(testCase.test_case_id);
+    console.log(
+      `Generating ${remaining.length} answers, ${generation.concurrency} at a time, ` +
+      `at most ${generation.requestsPerMinute}/min`
+    );
+    this.updateState({
+      isGenerating: true,
+      currentStage: 'generating_answers',
+      stageProgress: calculateStageProgress('generating_answers', generatedCount / testCases.length),
+      generatedCount,
+      etaSeconds: null,
+    });
 
-          // Update progress during generation
+    await this.scheduler.run(
+      remaining,
+      testCase => this.generateSubmission(testCase, model, persona),
+      {
+        providerKey: `${model.provider}:${model.serverId}`,
+        settings: generation,
+        signal,
+        // A full batch is submitted before the lane moves on; a failed submit stops the run
+        onResult: submission => {
+          generatedCount++;
+          pending.push(submission);
+
+          const remainingMs = GenerationScheduler.estimateRemainingMs(
+            testCases.length - generatedCount,
+            EvaluationLeaderboard.average(this.answerStats.latenciesMs),
+            generation
+          );
           this.updateState({
-            stageProgress: calculateStageProgress(
-              'generating_answers',
-              this.processedQuestionIds.size / test_data.length
-            ),
+            generatedCount,
+            etaSeconds: remainingMs === null ? null : Math.ceil(remainingMs / 1000),
+            stageProgress: calculateStageProgress('generating_answers', generatedCount / testCases.length),
           });
-        }
-
-        this.updateState({ isGenerating: false });
-
-        // Submit batch for judging (returns 202 immediately)
-        console.log(`Submitting batch ${batchIndex + 1} (${submissions.length} answers)`);
-        await submitPluginEvaluation({
-          evaluation_run_id,
-          submissions,
-        });
-
-        // Save progress
-        this.savePersistenceState(evaluation_run_id, test_data);
-
-        // Continue to next batch - NO POLLING
+          return pending.length >= SUBMIT_BATCH_SIZE ? flush() : undefined;
+        },
       }
+    );
 
-      // Phase 2: All answers submitted - now wait and poll for judging
-      console.log('All answers generated and submitted. Starting judging phase...');
-
-      this.updateState({
-        currentStage: 'judging',
-        stageProgress: calculateStageProgress('judging', 0),
-        isGenerating: false,
-      });
-
-      // Wait 30 seconds before polling
-      console.log('Waiting 30 seconds before polling judge results...');
-      await new Promise(resolve => setTimeout(resolve, 30000));
-
-      console.log('Starting polling for judge results...');
-
-      // Poll until all judged
-      const POLL_INTERVAL_MS = 10000; // 10 seconds between polls
-      const MAX_POLL_ATTEMPTS = 60; // 10 minutes max (60 * 10s)
-      let pollAttempts = 0;
-
-      while (true) {
-        if (this.abortController?.signal.aborted) {
-          console.log('Evaluation aborted during judging');
-          this.updateState({ isRunning: false });
-          return;
-        }
+    if (signal.aborted) {
+      console.log('Evaluation aborted');
+      // Answers already generated are still submitted so a resume skips them;
+      // if that fails they are generated again on resume
+      try {
+        await flush();
+      } catch (error) {
+        console.error('Error submitting answers after abort:', error);
+      }
+      return false;
+    }
 
-        if (pollAttempts++ >= MAX_POLL_ATTEMPTS) {
-          throw new Error('Judging timeout after 10 minutes');
-        }
+    await flush();
+    console.log(`All answers generated in ${Math.round((Date.now() - generationStartedAt) / 1000)}s`);
 
-        await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+    // Phase 2: All answers submitted - poll for judging, backing off while it stalls
+    this.updateState({
+      currentStage: 'judging',
+      stageProgress: calculateStageProgress('judging', 0),
+      isGenerating: false,
+      etaSeconds: null,
+    });
 
-        const resultsData = await getEvaluationResults(evaluation_run_id);
+    let pollAttempts = 0;
+    const judged = await AdaptivePoller.poll(
+      () => getEvaluationResults(evaluationRunId),
+      resultsData => {
         const evaluationRun = resultsData.evaluation_run;
-
-        console.log(`Poll ${pollAttempts}: ${evaluationRun.evaluated_count}/${evaluationRun.total_questions} judged`);
+        console.log(`Poll ${++pollAttempts}: ${evaluationRun.evaluated_count}/${evaluationRun.total_questions} judged`);
 
         // Update UI with judge progress
         this.updateState({
@@ -285,87 +411,145 @@ export class EvaluationService {
           },
         });
 
-        // Check if completed (either by status or all judged)
-        if (
-          evaluationRun.status === 'completed' ||
-          evaluationRun.evaluated_count >= evaluationRun.total_questions
-        ) {
-          console.log('All questions judged or evaluation completed!');
-          break;
-        }
-      }
+        return {
+          done: evaluationRun.status === 'completed' ||
+            evaluationRun.evaluated_count >= evaluationRun.total_questions,
+          progress: evaluationRun.evaluated_count,
+        };
+      },
+      { ...this.deps.pollOptions, signal }
+    );
 
-      // Completed
-      console.log('Evaluation completed!');
-      const completedRun: EvaluationRun = {
-        ...this.state.activeRun!,
-        completed_at: new Date().toISOString(),
-        is_completed: true,
-        progress: 1.0,
-      };
+    if (!judged) {
+      console.log('Evaluation aborted during judging');
+      return false;
+    }
+    return true;
+  }
 
-      this.updateState({
-        isRunning: false,
-        currentStage: 'completed',
-        stageProgress: 100,
-        activeRun: completedRun,
-        pastRuns: [completedRun, ...this.state.pastRuns],
-      });
+  /**
+   * Mark the active run as completed and add it to the history
+   */
+  private async completeRun(evaluationRunId: string, testCases: TestCase[]): Promise<EvaluationRun> {
+    console.log('Evaluation completed!');
+    const completedRun: EvaluationRun = {
+      ...this.state.activeRun!,
+      completed_at: new Date().toISOString(),
+      is_completed: true,
+      progress: 1.0,
+      retrieval_metrics: RetrievalMetrics.summarizeItems(testCases),
+    };
 
-      await EvaluationPersistence.clearStateWithBackend(evaluation_run_id, this.userId);
-    } catch (error) {
-      console.error('Evaluation failed:', error);
-      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-      this.updateState({ error: errorMsg, isRunning: false });
-      this.deps.setError(errorMsg);
+    this.updateState({
+      isRunning: false,
+      currentStage: 'completed',
+      stageProgress: 100,
+      activeRun: completedRun,
+      pastRuns: [completedRun, ...this.state.pastRuns],
+    });
 
-      // Clear persistence on error
-      if (evaluation_run_id) {
-        await EvaluationPersistence.clearStateWithBackend(evaluation_run_id, this.userId);
-      } else {
-        EvaluationPersistence.clearState();
-      }
-    }
-  };
+    await EvaluationPersistence.clearStateWithBackend(evaluationRunId, this.userId);
+    return completedRun;
+  }
 
   /**
-   * Generate answer for single question using AIService
+   * Generate the answer for a single question with the chat view's prompt
+   * assembly, so the persona system prompt and model settings apply
    */
-  private async generateAnswerForQuestion(
+  private async generateSubmission(
     testCase: TestCase,
     selectedModel: ModelInfo,
     selectedPersona: PersonaInfo | null
-  ): Promise<string> {
+  ): Promise<SubmissionItem> {
     console.log(`Generating answer for: ${testCase.question}`);
 
-    // Build prompt with context (context already provided from backend)
-    const prompt = `Context:\n${testCase.retrieved_context}\n\nQuestion: ${testCase.question}\n\nAnswer:`;
+    const persona = selectedPersona || undefined;
+    const { request } = ChatRequestBuilder.buildGrounded({
+      prompt: testCase.question,
+      chunks: EvaluationService.toChunks(testCase),
+      ollamaContextWindow: this.ollamaContextWindow,
+      model: selectedModel,
+      persona,
+      useStreaming: false,
+      conversationId: null,
+      conversationType: 'evaluation',
+      userId: this.deps.aiService.getCurrentUserId(),
+    });
 
     let answer = '';
+    const startedAt = Date.now();
 
-    // Use AIService to generate answer (non-streaming for evaluation)
-    await this.deps.aiService.sendPrompt(
-      prompt,
-      selectedModel,
-      false, // non-streaming
-      null, // no conversation_id
-      'evaluation', // conversationType
+    // Send the recorded request itself (non-streaming for evaluation)
+    const succeeded = await this.deps.aiService.sendRequest(
+      request,
       (chunk: string) => {
         answer += chunk;
       },
       () => {}, // onConversationId - not needed
-      undefined, // pageContext
-      undefined, // persona
       this.abortController || undefined
     );
 
-    return answer.trim();
+    // Provider errors come back as the answer text; judging them would count them as wrong answers
+    if (!succeeded) {
+      throw new Error(`Could not generate an answer for "${testCase.question}": ${answer.trim() || 'Unknown error'}`);
+    }
+
+    const generationMs = Date.now() - startedAt;
+    answer = answer.trim();
+    this.answerStats.latenciesMs.push(generationMs);
+    this.answerStats.answerLengths.push(answer.length);
+
+    return {
+      test_case_id: testCase.test_case_id,
+      llm_answer: answer,
+      retrieved_context: testCase.retrieved_context,
+      assembled_prompt: ChatRequestBuilder.describe(request, persona),
+      generation_ms: generationMs,
+      retrieval_metrics: RetrievalMetrics.score(testCase.retrieved_context, testCase),
+    };
+  }
+
+  /**
+   * Fill in ground truth and category the backend did not echo back
+   */
+  private static withQuestionDetails(testCases: TestCase[], questions: EvaluationQuestion[]): TestCase[] {
+    const byQuestion = new Map<string, EvaluationQuestion>();
+    questions.forEach(item => byQuestion.set(item.question.trim(), item));
+
+    return testCases.map(testCase => {
+      const details = byQuestion.get(testCase.question.trim());
+      if (!details) return testCase;
+      return {
+        ...testCase,
+        ground_truth: testCase.ground_truth || details.ground_truth,
+        category: testCase.category || details.category || '',
+        expected_source: testCase.expected_source || details.expected_source,
+      };
+    });
+  }
+
+  /**
+   * The backend pre-fetches context as plain text; split it into ranked
+   * passages so they are numbered and fitted like the chat view's chunks
+   */
+  private static toChunks(testCase: TestCase): DocumentChunk[] {
+    return RetrievalMetrics.splitPassages(testCase.retrieved_context).map(passage => ({
+      id: `${testCase.test_case_id}-${passage.rank}`,
+      document_id: '',
+      collection_id: '',
+      content: passage.content || passage.text,
+      // The position in the document is unknown, so the label is the source alone
+      chunk_index: -1,
+      chunk_type: 'text',
+      metadata: { document_filename: passage.source || 'Retrieved context' },
+    }));
   }
 
   /**
    * Stop running evaluation
    */
   public stopEvaluation = (): void => {
+    this.matrixCancelled = true;
     if (this.abortController) {
       this.abortController.abort();
       this.abortController = null;
@@ -416,6 +600,7 @@ export class EvaluationService {
       llmModel: this.currentLlmModel,
       persona: this.currentPersona,
       collectionId: this.currentCollectionId || undefined,
+      generationSettings: this.currentGenerationSettings,
       testCases,
       processedQuestionIds: Array.from(this.processedQuestionIds),
       currentBatch: [],
@@ -428,8 +613,9 @@ export class EvaluationService {
 
   /**
    * Resume evaluation from persisted state (backend first, localStorage fallback)
+   * @returns The completed run, or null when it failed or was stopped
    */
-  public resumeEvaluation = async (): Promise<void> => {
+  public resumeEvaluation = async (): Promise<EvaluationRun | null> => {
     // First try localStorage to get runId
     const localState = EvaluationPersistence.loadState();
     if (!localState) {
@@ -452,38 +638,28 @@ export class EvaluationService {
       throw new Error('Persisted evaluation is too old (> 7 days)');
     }
 
-    this.updateState({ isRunning: true, error: null });
     this.abortController = new AbortController();
+    const signal = this.abortController.signal;
+    this.answerStats = { latenciesMs: [], answerLengths: [] };
 
     // Restore tracking state
     this.currentModel = persistedState.model;
     this.currentLlmModel = persistedState.llmModel;
     this.currentPersona = persistedState.persona;
     this.currentCollectionId = persistedState.collectionId || null;
+    this.currentGenerationSettings = persistedState.generationSettings;
     this.processedQuestionIds = new Set(persistedState.processedQuestionIds);
 
     const evaluation_run_id = persistedState.runId;
     const test_data = persistedState.testCases;
 
     console.log(`Resuming evaluation: ${evaluation_run_id}`);
-    console.log(`Already processed: ${this.processedQuestionIds.size}/${test_data.length}`);
-
-    // Filter out already processed questions
-    const remainingQuestions = test_data.filter(
-      (tc) => !this.processedQuestionIds.has(tc.test_case_id)
-    );
-
-    console.log(`Remaining questions: ${remainingQuestions.length}`);
-
-    if (remainingQuestions.length === 0) {
-      console.log('All questions already processed');
-      this.updateState({ isRunning: false });
-      await EvaluationPersistence.clearStateWithBackend(evaluation_run_id, this.userId);
-      return;
-    }
+    console.log(`Already submitted: ${this.processedQuestionIds.size}/${test_data.length}`);
 
     // Restore UI state
     this.updateState({
+      isRunning: true,
+      error: null,
       activeRunId: evaluation_run_id,
       testCases: test_data,
       activeRun: {
@@ -491,11 +667,11 @@ export class EvaluationService {
         total_questions: test_data.length,
         correct_count: 0,
         incorrect_count: 0,
-        evaluated_count: this.processedQuestionIds.size,
+        evaluated_count: 0,
         accuracy: 0,
         started_at: new Date(persistedState.timestamp).toISOString(),
         is_completed: false,
-        progress: this.processedQuestionIds.size / test_data.length,
+        progress: 0,
         status: 'running',
         duration_seconds: null,
         run_date: new Date(persistedState.timestamp).toISOString(),
@@ -503,133 +679,31 @@ export class EvaluationService {
     });
 
     try {
-      // Process remaining questions in batches
-      const BATCH_SIZE = 3;
-      const batches: TestCase[][] = [];
-
-      for (let i = 0; i < remainingQuestions.length; i += BATCH_SIZE) {
-        batches.push(remainingQuestions.slice(i, i + BATCH_SIZE));
+      // Answers already submitted are skipped; with none left this only waits for the judge
+      const judged = await this.generateAndJudge(
+        evaluation_run_id,
+        test_data,
+        persistedState.model,
+        persistedState.persona,
+        persistedState.generationSettings,
+        signal
+      );
+      if (!judged) {
+        // Keep persistence on abort (allows resume)
+        this.updateState({ isRunning: false, isGenerating: false, etaSeconds: null });
+        return null;
       }
 
-      for (let batchIndex = 0; batchIndex < batches.length; batchIndex++) {
-        // Check if aborted
-        if (this.abortController?.signal.aborted) {
-          console.log('Evaluation aborted by user');
-          this.updateState({ isRunning: false });
-          // Keep persistence on abort (allows resume)
-          return;
-        }
-
-        const batch = batches[batchIndex];
-        console.log(`Processing batch ${batchIndex + 1}/${batches.length}`);
-
-        // Generate LLM answers for this batch
-        this.updateState({ isGenerating: true });
-        const submissions: SubmissionItem[] = [];
-
-        for (const testCase of batch) {
-          const answer = await this.generateAnswerForQuestion(
-            testCase,
-            this.currentModel!,
-            this.currentPersona
-          );
-          submissions.push({
-            test_case_id: testCase.test_case_id,
-            llm_answer: answer,
-            retrieved_context: testCase.retrieved_context,
-          });
-
-          // Mark question as processed
-          this.processedQuestionIds.add(testCase.test_case_id);
-        }
-
-        this.updateState({ isGenerating: false });
-
-        // Submit batch for judging (returns 202 immediately)
-        console.log(`Submitting ${submissions.length} answers...`);
-        const submitResponse = await submitPluginEvaluation({
-          evaluation_run_id,
-          submissions,
-        });
-
-        console.log(`Batch ${batchIndex + 1} submitted:`, submitResponse.message);
-
-        // Poll for results until batch is judged
-        const previousEvaluatedCount = this.state.activeRun?.evaluated_count || 0;
-        const targetCount = previousEvaluatedCount + submissions.length;
-
-        console.log(`Waiting for judging... (target: ${targetCount})`);
-
-        while (true) {
-          // Check if aborted
-          if (this.abortController?.signal.aborted) {
-            console.log('Evaluation aborted during polling');
-            this.updateState({ isRunning: false });
-            return;
-          }
-
-          // Wait 2 seconds before polling
-          await new Promise(resolve => setTimeout(resolve, 2000));
-
-          // Poll for results
-          const resultsData = await getEvaluationResults(evaluation_run_id);
-          const evaluationRun = resultsData.evaluation_run;
-
-          console.log(`Poll result: evaluated ${evaluationRun.evaluated_count}/${evaluationRun.total_questions}`);
-
-          // Update UI with latest progress
-          this.updateState({
-            progress: evaluationRun.progress,
-            activeRun: {
-              ...this.state.activeRun!,
-              evaluated_count: evaluationRun.evaluated_count,
-              progress: evaluationRun.progress,
-              correct_count: evaluationRun.correct_count,
-              incorrect_count: evaluationRun.incorrect_count,
-              accuracy: evaluationRun.accuracy,
-            },
-          });
-
-          // Check if batch is processed
-          if (evaluationRun.evaluated_count >= targetCount) {
-            console.log(`Batch ${batchIndex + 1} judged successfully`);
-            break;
-          }
-        }
-
-        // Save progress to persistence
-        this.savePersistenceState(evaluation_run_id, test_data);
-
-        // Check if completed
-        const currentRun = this.state.activeRun!;
-        if (currentRun.evaluated_count === currentRun.total_questions) {
-          console.log('Evaluation completed!');
-          const completedRun: EvaluationRun = {
-            ...currentRun,
-            completed_at: new Date().toISOString(),
-            is_completed: true,
-            progress: 1.0,
-          };
-
-          this.updateState({
-            isRunning: false,
-            activeRun: completedRun,
-            pastRuns: [completedRun, ...this.state.pastRuns],
-          });
-
-          // Clear persistence on completion
-          await EvaluationPersistence.clearStateWithBackend(evaluation_run_id, this.userId);
-          break;
-        }
-      }
+      return await this.completeRun(evaluation_run_id, test_data);
     } catch (error) {
       console.error('Resume evaluation failed:', error);
       const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-      this.updateState({ error: errorMsg, isRunning: false });
+      this.updateState({ error: errorMsg, isRunning: false, isGenerating: false, etaSeconds: null });
       this.deps.setError(errorMsg);
 
       // Clear persistence on error
       await EvaluationPersistence.clearStateWithBackend(evaluation_run_id, this.userId);
+      return null;
     }
   };
 }
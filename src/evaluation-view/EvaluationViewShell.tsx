@@ -1,12 +1,18 @@
 import React from 'react';
-import { PlayCircle, AlertCircle } from 'lucide-react';
+import { PlayCircle, AlertCircle, Download } from 'lucide-react';
 import { AIService } from '../services/aiService';
 import { EvaluationService } from './EvaluationService';
 import { EvaluationPersistence } from './EvaluationPersistence';
 import type { ModelInfo, PersonaInfo } from '../components/chat-header/types';
-import type { EvaluationFeatureState, DetailedEvaluationResult } from './evaluationViewTypes';
+import type {
+  EvaluationFeatureState,
+  DetailedEvaluationResult,
+  EvaluationRun,
+  GetEvaluationResultsResponse,
+} from './evaluationViewTypes';
 import type { Services } from '../types';
 import type { Collection } from '../braindrive-plugin/pluginTypes';
+import type { DataRepository } from '../braindrive-plugin/DataRepository';
 import { getEvaluationRuns, getEvaluationResults } from '../services';
 import { RunEvaluationDialog } from './components/RunEvaluationDialog';
 import { EvaluationProgressBanner } from './components/EvaluationProgressBanner';
@@ -16,18 +22,40 @@ import { RunsTable } from './components/RunsTable';
 import { ResultsSummary } from './components/ResultsSummary';
 import { ResultItem } from './components/ResultItem';
 import { FilterControls } from './components/FilterControls';
+import { RunComparisonView } from './components/RunComparisonView';
+import { MatrixLeaderboard } from './components/MatrixLeaderboard';
+import { EvaluationAnalyticsView } from './components/EvaluationAnalyticsView';
 import { StatusFilter } from './components/StatusFilter';
 import { ToastContainer, ToastManager } from './components/Toast';
 import { Alert, AlertDescription } from '../components/ui/alert';
 import { Button } from '../components/ui/button';
 import { ModelConfigLoader, FallbackModelSelector } from '../domain/models';
 import { PersonaResolver } from '../domain/personas/PersonaResolver';
+import {
+  EvaluationAnalytics,
+  EvaluationReportExporter,
+  EvaluationRunComparator,
+  QuestionSetService,
+  JudgeReviewService,
+  QuestionGenerator,
+  RetrievalMetrics,
+  type AccuracyTrendPoint,
+  type EvaluationQuestion,
+  type EvaluationReportFormat,
+  type JudgeReviewVerdict,
+  type GenerationSettings,
+  type RetrievalMetricsSummary,
+  type RunComparison,
+} from '../domain/evaluation';
+import { downloadFile } from '../utils';
+import { SETTINGS_KEYS } from '../constants';
 import './EvaluationView.css';
 
 interface EvaluationViewProps {
   services: Services;
   setError: (error: string | null) => void;
   collections: Collection[];
+  dataRepository: DataRepository;
 }
 
 const initialState: EvaluationFeatureState = {
@@ -63,6 +91,15 @@ export class EvaluationViewShell extends React.Component<
     remainingQuestionsCount: number;
     lastUpdatedTimestamp: number | null;
     currentTheme: 'light' | 'dark';
+    comparisonRunIds: string[];
+    comparison: RunComparison | null;
+    isComparing: boolean;
+    // Retrieval scores for the latest run (stats cards) and the selected run
+    latestRetrievalMetrics: RetrievalMetricsSummary | null;
+    selectedRetrievalMetrics: RetrievalMetricsSummary | null;
+    // Earlier runs of the selected run's question set, loaded for the analytics tab
+    accuracyTrend: AccuracyTrendPoint[] | null;
+    isLoadingTrend: boolean;
   }
 > {
   private evaluationService: EvaluationService;
@@ -70,7 +107,13 @@ export class EvaluationViewShell extends React.Component<
   private modelConfigLoader: ModelConfigLoader | null = null;
   private modelSelector: FallbackModelSelector;
   private personaResolver: PersonaResolver | null = null;
+  private questionSetService: QuestionSetService;
+  private judgeReviewService: JudgeReviewService;
+  private userId: string | null = null;
+  private questionGenerator: QuestionGenerator;
   private themeChangeListener: ((theme: string) => void) | null = null;
+  // Results of completed runs do not change, so each is fetched once
+  private runResultsCache = new Map<string, GetEvaluationResultsResponse>();
 
   constructor(props: EvaluationViewProps) {
     super(props);
@@ -88,6 +131,13 @@ export class EvaluationViewShell extends React.Component<
       this.personaResolver = new PersonaResolver({ api: props.services.api });
     }
 
+    this.questionSetService = new QuestionSetService({ settings: props.services.settings });
+    this.judgeReviewService = new JudgeReviewService({ settings: props.services.settings });
+    this.questionGenerator = new QuestionGenerator({
+      documentRepository: props.dataRepository.getDocumentRepository(),
+      aiService: this.aiService,
+    });
+
     this.state = {
       ...initialState,
       selectedModel: null,
@@ -107,6 +157,13 @@ export class EvaluationViewShell extends React.Component<
       hasInProgressEvaluation: false,
       remainingQuestionsCount: 0,
       lastUpdatedTimestamp: null,
+      comparisonRunIds: [],
+      comparison: null,
+      isComparing: false,
+      latestRetrievalMetrics: null,
+      selectedRetrievalMetrics: null,
+      accuracyTrend: null,
+      isLoadingTrend: false,
     };
 
     this.evaluationService = new EvaluationService(
@@ -137,6 +194,7 @@ export class EvaluationViewShell extends React.Component<
       const userResponse: any = await this.props.services?.api?.get('/api/v1/auth/me');
       const userId = userResponse.id;
       if (userId) {
+        this.userId = userId;
         this.evaluationService.setUserId(userId);
       }
     } catch (error) {
@@ -144,6 +202,7 @@ export class EvaluationViewShell extends React.Component<
       console.warn('Could not fetch user ID:', error);
     }
 
+    this.loadOllamaContextWindow();
     this.loadModels();
     this.loadPersonas();
     this.loadRuns();
@@ -157,6 +216,20 @@ export class EvaluationViewShell extends React.Component<
     }
   }
 
+  /**
+   * Answers are fitted to the same Ollama window the chat view uses
+   */
+  loadOllamaContextWindow = async () => {
+    try {
+      const tokens = Number(await this.props.services?.settings?.getSetting?.(SETTINGS_KEYS.OLLAMA_CONTEXT_WINDOW));
+      if (tokens > 0) {
+        this.evaluationService.setOllamaContextWindow(tokens);
+      }
+    } catch (error) {
+      // Keep the Ollama default
+    }
+  };
+
   /**
    * Format timestamp to "time ago" string
    */
@@ -288,24 +361,88 @@ export class EvaluationViewShell extends React.Component<
   loadRuns = async () => {
     try {
       const data = await getEvaluationRuns(50);
-      this.setState({ pastRuns: data.runs || [] });
+      const runs = await this.applyRunReviews(data.runs || []);
+      this.setState({ pastRuns: runs });
+      await this.loadLatestRetrievalMetrics(runs.length > 0 ? runs[0] : null);
     } catch (error) {
       console.error('Failed to load evaluation runs:', error);
       this.props.setError('Failed to load evaluation runs');
     }
   };
 
+  /**
+   * Recount completed runs whose judge labels reviewers overrode, so the runs
+   * table and stats cards show the same accuracy as the results tab
+   */
+  private applyRunReviews = async (runs: EvaluationRun[]): Promise<EvaluationRun[]> => {
+    return Promise.all(runs.map(async run => {
+      if (run.status !== 'completed') return run;
+      try {
+        const reviews = await this.judgeReviewService.listReviews(run.id);
+        // Agreeing with the judge leaves the counts as they are
+        if (!reviews.some(review => review.verdict === 'disagree')) return run;
+
+        let data = this.runResultsCache.get(run.id);
+        if (!data) {
+          data = await getEvaluationResults(run.id);
+          this.runResultsCache.set(run.id, data);
+        }
+        return JudgeReviewService.applyToRun(run, JudgeReviewService.applyReviews(data.results || [], reviews));
+      } catch (error) {
+        console.error(`Failed to apply reviews to run ${run.id}:`, error);
+        return run;
+      }
+    }));
+  };
+
+  /**
+   * Score the latest run's retrieval from its results; runs finished in
+   * this session already carry the summary
+   */
+  loadLatestRetrievalMetrics = async (run: EvaluationRun | null) => {
+    if (!run || run.status !== 'completed') {
+      this.setState({ latestRetrievalMetrics: null });
+      return;
+    }
+
+    const { activeRun } = this.state;
+    const known = run.retrieval_metrics || (activeRun && activeRun.id === run.id ? activeRun.retrieval_metrics : null);
+    if (known) {
+      this.setState({ latestRetrievalMetrics: known });
+      return;
+    }
+
+    try {
+      const data = await getEvaluationResults(run.id);
+      this.setState({ latestRetrievalMetrics: RetrievalMetrics.summarizeItems(data.results || []) });
+    } catch (error) {
+      console.error('Failed to load retrieval metrics:', error);
+      this.setState({ latestRetrievalMetrics: null });
+    }
+  };
+
   /**
    * Load detailed results for a run
    */
   loadResults = async (runId: string) => {
     try {
       const data = await getEvaluationResults(runId);
-      this.setState({
+      if (data.evaluation_run?.status === 'completed') {
+        this.runResultsCache.set(runId, data);
+      }
+      const reviews = await this.judgeReviewService.listReviews(runId);
+      this.setState((prev) => ({
+        activeTab: prev.activeTab === 'analytics' ? 'analytics' : 'results',
+        accuracyTrend: null,
         selectedRunId: runId,
-        detailedResults: data.results || [],
+        detailedResults: JudgeReviewService.applyReviews(data.results || [], reviews),
         selectedHistoryRun: data.evaluation_run,
-        activeTab: 'results',
+        selectedRetrievalMetrics: data.evaluation_run.retrieval_metrics
+          || RetrievalMetrics.summarizeItems(data.results || []),
+      }), () => {
+        if (this.state.activeTab === 'analytics') {
+          this.loadAccuracyTrend();
+        }
       });
     } catch (error) {
       console.error('Failed to load evaluation results:', error);
@@ -313,6 +450,152 @@ export class EvaluationViewShell extends React.Component<
     }
   };
 
+  /**
+   * Record a reviewer's verdict on the judge's label for one result
+   */
+  handleReviewResult = async (testCaseId: string, verdict: JudgeReviewVerdict, note: string) => {
+    const { selectedRunId } = this.state;
+    if (!selectedRunId) return;
+
+    const review = await this.judgeReviewService.saveReview(selectedRunId, {
+      testCaseId,
+      verdict,
+      note,
+      reviewedBy: this.userId || undefined,
+    });
+    this.updateResultReview(selectedRunId, testCaseId, review);
+  };
+
+  handleClearReview = async (testCaseId: string) => {
+    const { selectedRunId } = this.state;
+    if (!selectedRunId) return;
+
+    await this.judgeReviewService.clearReview(selectedRunId, testCaseId);
+    this.updateResultReview(selectedRunId, testCaseId, null);
+  };
+
+  private updateResultReview(runId: string, testCaseId: string, review: DetailedEvaluationResult['review']) {
+    this.setState((prev) => {
+      if (prev.selectedRunId !== runId) return null;
+
+      const detailedResults = prev.detailedResults.map(result =>
+        result.test_case_id === testCaseId ? { ...result, review } : result
+      );
+      return {
+        detailedResults,
+        // The runs table and stats cards follow the new labels
+        pastRuns: prev.pastRuns.map(run => (run.id === runId && prev.selectedHistoryRun
+          ? JudgeReviewService.applyToRun(prev.selectedHistoryRun, detailedResults)
+          : run)),
+        // Accuracy across runs changes with the labels
+        accuracyTrend: null,
+      };
+    });
+  }
+
+  /**
+   * Collect the completed runs that asked the same questions as the selected run
+   */
+  loadAccuracyTrend = async () => {
+    const { selectedHistoryRun, detailedResults, pastRuns } = this.state;
+    if (!selectedHistoryRun) return;
+
+    this.setState({ isLoadingTrend: true });
+    try {
+      // Only runs with as many questions can hold the same set
+      const candidates = pastRuns.filter(run =>
+        run.status === 'completed'
+        && run.id !== selectedHistoryRun.id
+        && run.total_questions === detailedResults.length
+      );
+      const history = await Promise.all(candidates.map(async run => {
+        try {
+          let data = this.runResultsCache.get(run.id);
+          if (!data) {
+            data = await getEvaluationResults(run.id);
+            this.runResultsCache.set(run.id, data);
+          }
+          const reviews = await this.judgeReviewService.listReviews(run.id);
+          return { ...data, results: JudgeReviewService.applyReviews(data.results, reviews) };
+        } catch (error) {
+          console.error(`Failed to load results for run ${run.id}:`, error);
+          return null;
+        }
+      }));
+
+      // Another run may have been selected while the history loaded
+      if (this.state.selectedHistoryRun?.id !== selectedHistoryRun.id) return;
+      this.setState({
+        accuracyTrend: EvaluationAnalytics.accuracyTrend(
+          { evaluation_run: selectedHistoryRun, results: detailedResults },
+          history.filter((entry): entry is GetEvaluationResultsResponse => entry !== null)
+        ),
+      });
+    } finally {
+      this.setState({ isLoadingTrend: false });
+    }
+  };
+
+  /**
+   * Load both runs ticked in the runs table and diff them, older run first
+   */
+  handleCompareRuns = async () => {
+    const { comparisonRunIds } = this.state;
+    if (comparisonRunIds.length !== 2 || this.state.isComparing) return;
+
+    this.setState({ isComparing: true });
+    try {
+      // Compare the labels as reviewed, not as the judge gave them
+      const [first, second] = await Promise.all(comparisonRunIds.map(async runId => {
+        const [data, reviews] = await Promise.all([
+          getEvaluationResults(runId),
+          this.judgeReviewService.listReviews(runId),
+        ]);
+        return JudgeReviewService.applyToResponse(data, reviews);
+      }));
+      const [base, candidate] = EvaluationRunComparator.orderRuns(first, second);
+      this.setState({
+        comparison: EvaluationRunComparator.compare(base, candidate),
+        activeTab: 'compare',
+      });
+    } catch (error) {
+      console.error('Failed to compare evaluation runs:', error);
+      this.props.setError('Failed to compare evaluation runs');
+    } finally {
+      this.setState({ isComparing: false });
+    }
+  };
+
+  /**
+   * Download the selected run's full results, ignoring the search and filters
+   */
+  handleExportResults = (format: EvaluationReportFormat) => {
+    const { selectedHistoryRun, detailedResults, selectedRetrievalMetrics } = this.state;
+    if (!selectedHistoryRun) return;
+
+    try {
+      const file = EvaluationReportExporter.export(
+        { run: selectedHistoryRun, results: detailedResults, retrieval: selectedRetrievalMetrics },
+        format
+      );
+      downloadFile(file.content, file.fileName, file.mimeType);
+    } catch (error) {
+      console.error('Failed to export evaluation results:', error);
+      ToastManager.error('Failed to export evaluation results');
+    }
+  };
+
+  handleToggleRunSelection = (runId: string) => {
+    this.setState(prev => {
+      const selected = prev.comparisonRunIds;
+      if (selected.indexOf(runId) !== -1) {
+        return { comparisonRunIds: selected.filter(id => id !== runId) };
+      }
+      // Keep the two most recent picks
+      return { comparisonRunIds: selected.concat(runId).slice(-2) };
+    });
+  };
+
   handleOpenDialog = () => {
     this.setState({ showDialog: true });
   };
@@ -325,20 +608,49 @@ export class EvaluationViewShell extends React.Component<
     model: ModelInfo,
     persona: PersonaInfo | null,
     collectionId: string,
-    questions: string[]
+    questions: EvaluationQuestion[],
+    generation: GenerationSettings
   ) => {
     this.setState({ showDialog: false });
 
     // Show toast notification
     ToastManager.success('Evaluation started');
 
-    await this.evaluationService.runEvaluation(model, persona, collectionId, questions);
+    await this.evaluationService.runEvaluation(model, persona, collectionId, questions, generation);
 
     // Clear in-progress banner and reload runs after completion
     this.setState({ hasInProgressEvaluation: false });
     await this.loadRuns();
   };
 
+  handleSubmitMatrixEvaluation = async (
+    models: ModelInfo[],
+    personas: Array<PersonaInfo | null>,
+    collectionId: string,
+    questions: EvaluationQuestion[],
+    generation: GenerationSettings
+  ) => {
+    this.setState({ showDialog: false, activeTab: 'leaderboard' });
+    ToastManager.success('Matrix evaluation started');
+
+    const matrix = await this.evaluationService.runMatrixEvaluation(
+      models,
+      personas,
+      collectionId,
+      questions,
+      generation
+    );
+    const completed = matrix.cells.filter(cell => cell.status === 'completed').length;
+    if (completed === matrix.cells.length) {
+      ToastManager.success(`All ${completed} evaluations completed`);
+    } else {
+      ToastManager.info(`${completed} of ${matrix.cells.length} evaluations completed`);
+    }
+
+    this.setState({ hasInProgressEvaluation: false });
+    await this.loadRuns();
+  };
+
   handleResumeEvaluation = async () => {
     this.setState({ hasInProgressEvaluation: false });
     try {
@@ -374,6 +686,9 @@ export class EvaluationViewShell extends React.Component<
 
   handleTabChange = (tab: TabType) => {
     this.setState({ activeTab: tab });
+    if (tab === 'analytics' && this.state.accuracyTrend === null) {
+      this.loadAccuracyTrend();
+    }
   };
 
   handleSearchChange = (term: string) => {
@@ -410,8 +725,8 @@ export class EvaluationViewShell extends React.Component<
 
       const matchesCorrectness =
         correctnessFilter === 'all' ||
-        (correctnessFilter === 'correct' && result.judge_correct) ||
-        (correctnessFilter === 'incorrect' && !result.judge_correct);
+        (correctnessFilter === 'correct' && JudgeReviewService.isCorrect(result)) ||
+        (correctnessFilter === 'incorrect' && !JudgeReviewService.isCorrect(result));
 
       return matchesSearch && matchesCorrectness;
     });
@@ -439,6 +754,19 @@ export class EvaluationViewShell extends React.Component<
     };
   };
 
+  /**
+   * "Run 2 of 6 · model / persona" while a matrix evaluation is running
+   */
+  getMatrixRunLabel = (): string | undefined => {
+    const { matrix } = this.state;
+    if (!matrix || !matrix.isRunning) return undefined;
+
+    const index = matrix.cells.findIndex(cell => cell.status === 'running');
+    if (index === -1) return undefined;
+    const cell = matrix.cells[index];
+    return `Run ${index + 1} of ${matrix.cells.length} · ${cell.model.name} / ${cell.persona ? cell.persona.name : 'No persona'}`;
+  };
+
   render() {
     const {
       availableModels,
@@ -459,6 +787,14 @@ export class EvaluationViewShell extends React.Component<
       isRunning,
       activeRun,
       currentTheme,
+      comparisonRunIds,
+      comparison,
+      matrix,
+      latestRetrievalMetrics,
+      selectedRetrievalMetrics,
+      detailedResults,
+      accuracyTrend,
+      isLoadingTrend,
     } = this.state;
 
     const filteredResults = this.getFilteredResults();
@@ -528,7 +864,9 @@ export class EvaluationViewShell extends React.Component<
               onAbort={this.handleStopEvaluation}
               currentStage={this.state.currentStage}
               stageProgress={this.state.stageProgress}
-              generatedCount={this.evaluationService['processedQuestionIds']?.size || 0}
+              generatedCount={this.state.generatedCount || 0}
+              etaSeconds={this.state.etaSeconds}
+              runLabel={this.getMatrixRunLabel()}
             />
           )}
 
@@ -558,6 +896,8 @@ export class EvaluationViewShell extends React.Component<
             activeTab={activeTab}
             onTabChange={this.handleTabChange}
             resultsEnabled={selectedHistoryRun !== null}
+            compareEnabled={comparison !== null}
+            leaderboardEnabled={!!matrix}
           />
 
           {/* Runs Tab */}
@@ -575,10 +915,14 @@ export class EvaluationViewShell extends React.Component<
                       }
                     : null
                 }
+                retrieval={latestRetrievalMetrics}
               />
               <RunsTable
                 runs={filteredRuns}
                 onSelectRun={this.handleSelectRun}
+                selectedRunIds={comparisonRunIds}
+                onToggleRunSelection={this.handleToggleRunSelection}
+                onCompare={this.handleCompareRuns}
                 headerActions={
                   <StatusFilter
                     currentStatus={statusFilter}
@@ -593,7 +937,11 @@ export class EvaluationViewShell extends React.Component<
           {/* Results Details Tab */}
           {activeTab === 'results' && selectedHistoryRun && (
             <>
-              <ResultsSummary run={selectedHistoryRun} />
+              <ResultsSummary
+                run={selectedHistoryRun}
+                retrieval={selectedRetrievalMetrics}
+                review={JudgeReviewService.summarize(detailedResults)}
+              />
               <FilterControls
                 searchTerm={searchTerm}
                 correctnessFilter={correctnessFilter}
@@ -601,10 +949,25 @@ export class EvaluationViewShell extends React.Component<
                 onFilterChange={this.handleFilterChange}
               />
               <div className="eval-stats-card shadow rounded-lg overflow-hidden">
-                <div className="px-4 py-5 sm:px-6 border-b eval-table-row">
+                <div className="px-4 py-5 sm:px-6 border-b eval-table-row flex items-center justify-between">
                   <h3 className="text-lg leading-6 font-medium eval-table-cell">
                     Test Results
                   </h3>
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm eval-table-cell-secondary">
+                      <Download className="inline h-4 w-4 mr-1" />
+                      Export
+                    </span>
+                    <Button variant="outline" size="sm" onClick={() => this.handleExportResults('csv')}>
+                      CSV
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => this.handleExportResults('json')}>
+                      JSON
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => this.handleExportResults('html')}>
+                      HTML Report
+                    </Button>
+                  </div>
                 </div>
                 <div className="divide-y eval-table-row">
                   {filteredResults.length === 0 ? (
@@ -620,6 +983,8 @@ export class EvaluationViewShell extends React.Component<
                         result={result}
                         isExpanded={expandedResultIds.has(result.test_case_id)}
                         onToggle={() => this.toggleResultExpanded(result.test_case_id)}
+                        onReview={(verdict, note) => this.handleReviewResult(result.test_case_id, verdict, note)}
+                        onClearReview={() => this.handleClearReview(result.test_case_id)}
                       />
                     ))
                   )}
@@ -628,16 +993,38 @@ export class EvaluationViewShell extends React.Component<
             </>
           )}
 
+          {/* Analytics Tab */}
+          {activeTab === 'analytics' && selectedHistoryRun && (
+            <EvaluationAnalyticsView
+              run={selectedHistoryRun}
+              results={detailedResults}
+              trend={accuracyTrend}
+              isLoadingTrend={isLoadingTrend}
+              onSelectRun={this.handleSelectRun}
+            />
+          )}
+
+          {/* Run Comparison Tab */}
+          {activeTab === 'compare' && comparison && <RunComparisonView comparison={comparison} />}
+
+          {/* Matrix Leaderboard Tab */}
+          {activeTab === 'leaderboard' && matrix && (
+            <MatrixLeaderboard matrix={matrix} onSelectRun={this.handleSelectRun} />
+          )}
+
           {/* Run Evaluation Dialog */}
           <RunEvaluationDialog
             isOpen={showDialog}
             onClose={this.handleCloseDialog}
             onSubmit={this.handleSubmitEvaluation}
+            onSubmitMatrix={this.handleSubmitMatrixEvaluation}
             availableModels={availableModels}
             availablePersonas={availablePersonas}
             collections={this.props.collections}
             isLoadingModels={isLoadingModels}
             isLoadingPersonas={isLoadingPersonas}
+            questionSetService={this.questionSetService}
+            questionGenerator={this.questionGenerator}
           />
 
           {/* Toast Notifications */}
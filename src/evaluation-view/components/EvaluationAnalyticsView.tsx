@@ -0,0 +1,181 @@
+import React from 'react';
+import { Loader2 } from 'lucide-react';
+import type { DetailedEvaluationResult, EvaluationRun } from '../evaluationViewTypes';
+import {
+  EvaluationAnalytics,
+  type AccuracyTrendPoint,
+  type FailureTheme,
+} from '../../domain/evaluation';
+
+interface EvaluationAnalyticsViewProps {
+  run: EvaluationRun;
+  results: DetailedEvaluationResult[];
+  trend: AccuracyTrendPoint[] | null;
+  isLoadingTrend: boolean;
+  onSelectRun: (runId: string) => void;
+}
+
+const formatDate = (dateString: string): string =>
+  new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+const accuracyColor = (accuracy: number): string => {
+  if (accuracy >= 80) return 'bg-green-500';
+  if (accuracy >= 60) return 'bg-yellow-500';
+  return 'bg-red-500';
+};
+
+const AccuracyBar: React.FC<{ accuracy: number }> = ({ accuracy }) => (
+  <div className="flex items-center gap-2">
+    <div className="flex-1 h-2 rounded-full bg-gray-200 dark-theme:bg-gray-700 overflow-hidden">
+      <div className={`h-full ${accuracyColor(accuracy)}`} style={{ width: `${accuracy}%` }} />
+    </div>
+    <span className="w-14 text-right text-sm eval-table-cell">{accuracy.toFixed(1)}%</span>
+  </div>
+);
+
+const Panel: React.FC<{ title: string; description?: string; children: React.ReactNode }> = ({
+  title,
+  description,
+  children,
+}) => (
+  <div className="eval-stats-card shadow rounded-lg overflow-hidden mb-6">
+    <div className="px-4 py-5 sm:px-6 border-b eval-table-row">
+      <h3 className="text-lg leading-6 font-medium eval-table-cell">{title}</h3>
+      {description && <p className="mt-1 text-sm eval-table-cell-secondary">{description}</p>}
+    </div>
+    <div className="px-4 py-5 sm:p-6">{children}</div>
+  </div>
+);
+
+const ThemeList: React.FC<{ title: string; themes: FailureTheme[] }> = ({ title, themes }) => (
+  <div>
+    <h4 className="text-sm font-medium eval-table-cell mb-3">{title}</h4>
+    {themes.length === 0 ? (
+      <p className="text-sm eval-table-cell-secondary">No recurring themes in the judge's notes.</p>
+    ) : (
+      <ul className="space-y-3">
+        {themes.map(theme => (
+          <li key={theme.theme}>
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium eval-table-cell">{theme.theme}</span>
+              <span className="text-xs eval-table-cell-secondary">
+                {theme.count} {theme.count === 1 ? 'answer' : 'answers'} · {theme.categories.join(', ')}
+              </span>
+            </div>
+            {theme.examples.map(example => (
+              <p key={example} className="mt-1 text-xs eval-table-cell-secondary truncate" title={example}>
+                “{example}”
+              </p>
+            ))}
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+/**
+ * Accuracy by category, recurring failure themes and the accuracy of earlier
+ * runs of the same questions, for finding where a collection's docs are weak
+ */
+export const EvaluationAnalyticsView: React.FC<EvaluationAnalyticsViewProps> = ({
+  run,
+  results,
+  trend,
+  isLoadingTrend,
+  onSelectRun,
+}) => {
+  const categories = EvaluationAnalytics.categoryBreakdown(results);
+  const factualThemes = EvaluationAnalytics.failureThemes(results, 'factual_errors');
+  const missingThemes = EvaluationAnalytics.failureThemes(results, 'missing_info');
+  const trendCategories = trend && trend.length > 1
+    ? categories.map(category => category.category)
+    : [];
+
+  return (
+    <>
+      <Panel title="Accuracy by Category" description={`${results.length} questions in this run`}>
+        <div className="space-y-3">
+          {categories.map(category => (
+            <div key={category.category} className="grid grid-cols-3 gap-4 items-center">
+              <span className="text-sm eval-table-cell truncate" title={category.category}>
+                {category.category}
+                <span className="ml-1 eval-table-cell-secondary">
+                  ({category.correct}/{category.total})
+                </span>
+              </span>
+              <div className="col-span-2">
+                <AccuracyBar accuracy={category.accuracy} />
+              </div>
+            </div>
+          ))}
+        </div>
+      </Panel>
+
+      <Panel title="Failure Themes" description="Words that recur in the judge's notes on this run's answers">
+        <div className="grid grid-cols-1 gap-8 md:grid-cols-2">
+          <ThemeList title="Factual errors" themes={factualThemes} />
+          <ThemeList title="Missing information" themes={missingThemes} />
+        </div>
+      </Panel>
+
+      <Panel title="Accuracy Trend" description="Completed runs that asked the same questions, oldest first">
+        {isLoadingTrend ? (
+          <div className="flex items-center gap-2 text-sm eval-table-cell-secondary">
+            <Loader2 className="h-4 w-4 animate-spin" /> Loading earlier runs...
+          </div>
+        ) : !trend || trend.length <= 1 ? (
+          <p className="text-sm eval-table-cell-secondary">
+            No other runs of this question set yet. Save the questions as a set and run them again to see a trend.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium eval-table-cell-secondary">Run</th>
+                  <th className="px-3 py-2 text-left font-medium eval-table-cell-secondary w-48">Accuracy</th>
+                  {trendCategories.map(category => (
+                    <th key={category} className="px-3 py-2 text-left font-medium eval-table-cell-secondary">
+                      {category}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {trend.map(point => (
+                  <tr
+                    key={point.runId}
+                    className={`eval-table-row cursor-pointer ${point.runId === run.id ? 'font-semibold' : ''}`}
+                    onClick={() => onSelectRun(point.runId)}
+                  >
+                    <td className="px-3 py-2 whitespace-nowrap eval-table-cell">
+                      {formatDate(point.runDate)}
+                      {point.label && <span className="ml-1 eval-table-cell-secondary">· {point.label}</span>}
+                    </td>
+                    <td className="px-3 py-2">
+                      <AccuracyBar accuracy={point.accuracy} />
+                    </td>
+                    {trendCategories.map(category => {
+                      const entry = point.categories.find(item => item.category === category);
+                      return (
+                        <td key={category} className="px-3 py-2 whitespace-nowrap eval-table-cell">
+                          {entry ? `${entry.accuracy.toFixed(0)}%` : '—'}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Panel>
+    </>
+  );
+};
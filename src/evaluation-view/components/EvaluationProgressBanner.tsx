@@ -12,6 +12,8 @@ interface EvaluationProgressBannerProps {
   currentStage?: EvaluationStage;
   stageProgress?: number;
   generatedCount?: number; // For generation phase: how many answers generated
+  runLabel?: string; // Matrix evaluations: which combination is running
+  etaSeconds?: number | null; // Generation phase: estimate from measured answer times
 }
 
 interface EvaluationProgressBannerState {
@@ -71,17 +73,23 @@ export class EvaluationProgressBanner extends React.Component<
   };
 
   calculateETA = (): string => {
-    const { processedCount, totalCount } = this.props;
+    const { processedCount, totalCount, currentStage, etaSeconds } = this.props;
     const { elapsedSeconds } = this.state;
 
+    if (currentStage === 'generating_answers') {
+      return etaSeconds === undefined || etaSeconds === null ? 'Calculating...' : this.formatEstimate(etaSeconds);
+    }
+
     if (processedCount === 0) return 'Calculating...';
 
     const remainingQuestions = totalCount - processedCount;
     if (remainingQuestions === 0) return 'Finishing...';
 
     const avgTimePerQuestion = elapsedSeconds / processedCount;
-    const estimatedRemainingSeconds = Math.ceil(avgTimePerQuestion * remainingQuestions);
+    return this.formatEstimate(Math.ceil(avgTimePerQuestion * remainingQuestions));
+  };
 
+  formatEstimate = (estimatedRemainingSeconds: number): string => {
     const minutes = Math.ceil(estimatedRemainingSeconds / 60);
 
     if (minutes < 1) return '< 1 min';
@@ -102,6 +110,7 @@ export class EvaluationProgressBanner extends React.Component<
       currentStage,
       stageProgress,
       generatedCount,
+      runLabel,
     } = this.props;
     const { elapsedSeconds } = this.state;
     const isDark = this.isDarkMode();
@@ -163,6 +172,16 @@ export class EvaluationProgressBanner extends React.Component<
               >
                 {stageText}
               </span>
+              {currentStage === 'generating_answers' && (
+                <span style={{ fontSize: '12px', color: isDark ? '#c7d2fe' : '#1e40af' }}>
+                  ETA {eta}
+                </span>
+              )}
+              {runLabel && (
+                <span style={{ fontSize: '12px', color: isDark ? '#c7d2fe' : '#1e40af' }}>
+                  {runLabel}
+                </span>
+              )}
               {showProgressBar && stageProgress !== undefined && (
                 <div
                   style={{
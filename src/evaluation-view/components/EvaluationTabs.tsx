@@ -1,18 +1,22 @@
 import React from 'react';
-import { List, BarChart3 } from 'lucide-react';
+import { List, BarChart3, GitCompare, Trophy, PieChart } from 'lucide-react';
 
-export type TabType = 'runs' | 'results';
+export type TabType = 'runs' | 'results' | 'analytics' | 'compare' | 'leaderboard';
 
 interface EvaluationTabsProps {
   activeTab: TabType;
   onTabChange: (tab: TabType) => void;
   resultsEnabled: boolean;
+  compareEnabled?: boolean;
+  leaderboardEnabled?: boolean;
 }
 
 export const EvaluationTabs: React.FC<EvaluationTabsProps> = ({
   activeTab,
   onTabChange,
   resultsEnabled,
+  compareEnabled = false,
+  leaderboardEnabled = false,
 }) => {
   const tabClass = (tab: TabType, isActive: boolean) => {
     const baseClasses =
@@ -42,6 +46,33 @@ export const EvaluationTabs: React.FC<EvaluationTabsProps> = ({
           <BarChart3 className="h-4 w-4" />
           Results Details
         </button>
+        <button
+          onClick={() => onTabChange('analytics')}
+          className={tabClass('analytics', activeTab === 'analytics')}
+          disabled={!resultsEnabled}
+          style={!resultsEnabled ? { cursor: 'not-allowed', opacity: 0.5 } : undefined}
+        >
+          <PieChart className="h-4 w-4" />
+          Analytics
+        </button>
+        <button
+          onClick={() => onTabChange('compare')}
+          className={tabClass('compare', activeTab === 'compare')}
+          disabled={!compareEnabled}
+          style={!compareEnabled ? { cursor: 'not-allowed', opacity: 0.5 } : undefined}
+        >
+          <GitCompare className="h-4 w-4" />
+          Compare Runs
+        </button>
+        {leaderboardEnabled && (
+          <button
+            onClick={() => onTabChange('leaderboard')}
+            className={tabClass('leaderboard', activeTab === 'leaderboard')}
+          >
+            <Trophy className="h-4 w-4" />
+            Leaderboard
+          </button>
+        )}
       </nav>
     </div>
   );
@@ -0,0 +1,103 @@
+import React from 'react';
+import { Loader2, Trophy } from 'lucide-react';
+import type { MatrixCellStatus, MatrixEvaluationState } from '../evaluationViewTypes';
+import { EvaluationLeaderboard } from '../../domain/evaluation';
+
+interface MatrixLeaderboardProps {
+  matrix: MatrixEvaluationState;
+  onSelectRun: (runId: string) => void;
+}
+
+const STATUS_BADGES: Record<MatrixCellStatus, string> = {
+  pending: 'bg-gray-100 text-gray-800 dark-theme:bg-gray-700 dark-theme:text-gray-200',
+  running: 'bg-blue-100 text-blue-800 dark-theme:bg-blue-900 dark-theme:text-blue-200',
+  completed: 'bg-green-100 text-green-800 dark-theme:bg-green-900 dark-theme:text-green-200',
+  failed: 'bg-red-100 text-red-800 dark-theme:bg-red-900 dark-theme:text-red-200',
+  cancelled: 'bg-yellow-100 text-yellow-800 dark-theme:bg-yellow-900 dark-theme:text-yellow-200',
+};
+
+const formatSeconds = (ms: number | null): string => (ms === null ? '—' : `${(ms / 1000).toFixed(1)}s`);
+
+const formatLength = (chars: number | null): string => (chars === null ? '—' : `${Math.round(chars)} chars`);
+
+/**
+ * Ranks every model × persona combination of a matrix evaluation by accuracy,
+ * with answer latency and length alongside
+ */
+export const MatrixLeaderboard: React.FC<MatrixLeaderboardProps> = ({ matrix, onSelectRun }) => {
+  const rows = EvaluationLeaderboard.build(matrix.cells);
+  const finished = matrix.cells.filter(cell => cell.status !== 'pending' && cell.status !== 'running').length;
+
+  return (
+    <div className="eval-stats-card shadow rounded-lg overflow-hidden">
+      <div className="px-4 py-5 sm:px-6 border-b eval-table-row flex items-center justify-between">
+        <div>
+          <h3 className="text-lg leading-6 font-medium eval-table-cell">Model &amp; Persona Leaderboard</h3>
+          <p className="mt-1 text-sm eval-table-cell-secondary">
+            {matrix.questionCount} questions · {finished} of {matrix.cells.length} runs finished
+          </p>
+        </div>
+        {matrix.isRunning && <Loader2 className="h-5 w-5 animate-spin text-blue-600" />}
+      </div>
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y eval-table-row">
+          <thead className="eval-result-header">
+            <tr>
+              {['Rank', 'Model', 'Persona', 'Status', 'Accuracy', 'Avg Latency', 'P95 Latency', 'Avg Answer'].map(label => (
+                <th
+                  key={label}
+                  className="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider eval-table-cell-secondary"
+                >
+                  {label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y eval-table-row">
+            {rows.map(row => (
+              <tr
+                key={row.key}
+                className={`eval-table-row ${row.runId && row.status === 'completed' ? 'cursor-pointer' : ''}`}
+                onClick={row.runId && row.status === 'completed' ? () => onSelectRun(row.runId!) : undefined}
+                title={row.error}
+              >
+                <td className="px-6 py-4 whitespace-nowrap text-sm eval-table-cell">
+                  {row.rank === 1 ? (
+                    <span className="inline-flex items-center font-semibold">
+                      <Trophy className="h-4 w-4 mr-1 text-yellow-500" /> 1
+                    </span>
+                  ) : (
+                    row.rank ?? '—'
+                  )}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm eval-table-cell">
+                  {row.modelName}
+                  <span className="ml-1 eval-table-cell-secondary">({row.serverName})</span>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm eval-table-cell">{row.personaName}</td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm">
+                  <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${STATUS_BADGES[row.status]}`}>
+                    {row.status}
+                  </span>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm eval-table-cell">
+                  {row.accuracy === null ? '—' : (
+                    <>
+                      <span className="font-semibold">{row.accuracy.toFixed(1)}%</span>
+                      <span className="ml-1 eval-table-cell-secondary">
+                        ({row.correctCount}/{row.totalQuestions})
+                      </span>
+                    </>
+                  )}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm eval-table-cell">{formatSeconds(row.avgLatencyMs)}</td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm eval-table-cell">{formatSeconds(row.p95LatencyMs)}</td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm eval-table-cell">{formatLength(row.avgAnswerLength)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,228 @@
+import React from 'react';
+import { Sparkles, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { ModelInfo } from '../../components/chat-header/types';
+import {
+  MAX_EVALUATION_QUESTIONS,
+  type EvaluationQuestion,
+  type GeneratedQuestion,
+  type QuestionGenerator,
+} from '../../domain/evaluation';
+
+interface QuestionGenerationPanelProps {
+  generator: QuestionGenerator;
+  collectionId: string;
+  model: ModelInfo | null;
+  isDark: boolean;
+  onAdd: (questions: EvaluationQuestion[]) => void;
+  onClose: () => void;
+}
+
+interface ReviewCandidate extends GeneratedQuestion {
+  selected: boolean;
+}
+
+interface QuestionGenerationPanelState {
+  count: number;
+  isGenerating: boolean;
+  generatedCount: number;
+  candidates: ReviewCandidate[];
+  error: string | null;
+}
+
+/**
+ * Generates question/answer candidates from the collection's documents and
+ * lets the user edit and pick them before they join the evaluation questions
+ */
+export class QuestionGenerationPanel extends React.Component<
+  QuestionGenerationPanelProps,
+  QuestionGenerationPanelState
+> {
+  private abortController: AbortController | null = null;
+
+  constructor(props: QuestionGenerationPanelProps) {
+    super(props);
+    this.state = {
+      count: 10,
+      isGenerating: false,
+      generatedCount: 0,
+      candidates: [],
+      error: null,
+    };
+  }
+
+  componentWillUnmount() {
+    this.abortController?.abort();
+  }
+
+  handleCountChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const count = parseInt(e.target.value, 10);
+    this.setState({ count: isNaN(count) ? 1 : Math.max(1, Math.min(count, MAX_EVALUATION_QUESTIONS)) });
+  };
+
+  handleGenerate = async () => {
+    const { generator, collectionId, model } = this.props;
+    if (!model || this.state.isGenerating) return;
+
+    this.abortController = new AbortController();
+    this.setState({ isGenerating: true, generatedCount: 0, error: null, candidates: [] });
+
+    try {
+      const generated = await generator.generate(collectionId, model, {
+        count: this.state.count,
+        signal: this.abortController.signal,
+        onProgress: ({ generated: generatedCount }) => this.setState({ generatedCount }),
+      });
+      this.setState({
+        candidates: generated.map(candidate => ({ ...candidate, selected: true })),
+        error: generated.length === 0 ? 'The model did not return any usable questions' : null,
+      });
+    } catch (error) {
+      this.setState({ error: error instanceof Error ? error.message : 'Failed to generate questions' });
+    } finally {
+      this.abortController = null;
+      this.setState({ isGenerating: false });
+    }
+  };
+
+  handleCancel = () => {
+    this.abortController?.abort();
+  };
+
+  updateCandidate = (index: number, changes: Partial<ReviewCandidate>) => {
+    this.setState(prev => ({
+      candidates: prev.candidates.map((candidate, i) => (i === index ? { ...candidate, ...changes } : candidate)),
+    }));
+  };
+
+  handleToggleAll = () => {
+    this.setState(prev => {
+      const selectAll = prev.candidates.some(candidate => !candidate.selected);
+      return { candidates: prev.candidates.map(candidate => ({ ...candidate, selected: selectAll })) };
+    });
+  };
+
+  handleAdd = () => {
+    const questions = this.state.candidates
+      .filter(candidate => candidate.selected && candidate.question.trim())
+      .map(candidate => ({
+        question: candidate.question.trim(),
+        ground_truth: candidate.ground_truth.trim() || undefined,
+        category: candidate.category,
+        expected_source: candidate.sourceDocumentName,
+      }));
+    this.props.onAdd(questions);
+  };
+
+  render() {
+    const { model, isDark, onClose } = this.props;
+    const { count, isGenerating, generatedCount, candidates, error } = this.state;
+    const selectedCount = candidates.filter(candidate => candidate.selected).length;
+    const mutedColor = isDark ? '#9ca3af' : '#6b7280';
+    const inputStyle = {
+      backgroundColor: isDark ? '#1f2937' : '#ffffff',
+      borderColor: isDark ? '#374151' : '#d1d5db',
+      color: isDark ? '#f3f4f6' : '#111827',
+    };
+
+    return (
+      <div
+        className="grid gap-3 rounded-md border p-3"
+        style={{ borderColor: isDark ? '#374151' : '#e5e7eb' }}
+      >
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium" style={{ color: isDark ? '#f3f4f6' : '#111827' }}>
+            Generate Questions from Documents
+          </span>
+          <Button variant="ghost" size="sm" onClick={onClose} title="Close" disabled={isGenerating}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <label htmlFor="generate-count" className="text-sm" style={{ color: mutedColor }}>
+            Questions
+          </label>
+          <input
+            id="generate-count"
+            type="number"
+            min={1}
+            max={MAX_EVALUATION_QUESTIONS}
+            value={count}
+            onChange={this.handleCountChange}
+            disabled={isGenerating}
+            className="w-20 rounded-md border px-2 py-1 text-sm"
+            style={inputStyle}
+          />
+          {isGenerating ? (
+            <Button variant="outline" size="sm" onClick={this.handleCancel}>
+              Stop ({generatedCount}/{count})
+            </Button>
+          ) : (
+            <Button size="sm" onClick={this.handleGenerate} disabled={!model}>
+              <Sparkles className="h-4 w-4 mr-1" />
+              Generate with {model ? model.name : 'selected model'}
+            </Button>
+          )}
+        </div>
+
+        {error && <p className="text-sm text-red-500">{error}</p>}
+
+        {candidates.length > 0 && (
+          <>
+            <div className="flex items-center justify-between text-xs" style={{ color: mutedColor }}>
+              <span>Review and edit before adding. Answers become the expected answers.</span>
+              <button type="button" className="underline" onClick={this.handleToggleAll}>
+                {selectedCount < candidates.length ? 'Select all' : 'Select none'}
+              </button>
+            </div>
+            <div className="grid gap-2 max-h-72 overflow-y-auto pr-1">
+              {candidates.map((candidate, index) => (
+                <div
+                  key={candidate.sourceChunkId + index}
+                  className="flex items-start gap-2 rounded border p-2"
+                  style={{
+                    borderColor: isDark ? '#374151' : '#e5e7eb',
+                    opacity: candidate.selected ? 1 : 0.6,
+                  }}
+                >
+                  <input
+                    type="checkbox"
+                    className="mt-2"
+                    aria-label="Include question"
+                    checked={candidate.selected}
+                    onChange={() => this.updateCandidate(index, { selected: !candidate.selected })}
+                  />
+                  <div className="flex-1 grid gap-1">
+                    <input
+                      type="text"
+                      value={candidate.question}
+                      onChange={(e) => this.updateCandidate(index, { question: e.target.value })}
+                      className="w-full rounded-md border px-2 py-1 text-sm"
+                      style={inputStyle}
+                    />
+                    <textarea
+                      value={candidate.ground_truth}
+                      onChange={(e) => this.updateCandidate(index, { ground_truth: e.target.value })}
+                      rows={2}
+                      className="w-full rounded-md border px-2 py-1 text-xs resize-none"
+                      style={inputStyle}
+                    />
+                    <span className="text-xs" style={{ color: mutedColor }}>
+                      From {candidate.sourceDocumentName}
+                    </span>
+                  </div>
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-end">
+              <Button size="sm" onClick={this.handleAdd} disabled={selectedCount === 0}>
+                Add {selectedCount} to Questions
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+    );
+  }
+}
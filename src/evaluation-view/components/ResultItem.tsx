@@ -1,22 +1,37 @@
 import React from 'react';
-import { CheckCircle, XCircle, ChevronDown, FileText } from 'lucide-react';
+import { CheckCircle, XCircle, ChevronDown, FileText, MessageSquare, ThumbsUp, ThumbsDown, UserCheck } from 'lucide-react';
 import type { DetailedEvaluationResult } from '../evaluationViewTypes';
+import { JudgeReviewService, type JudgeReviewVerdict } from '../../domain/evaluation';
 
 interface ResultItemProps {
   result: DetailedEvaluationResult;
   isExpanded: boolean;
   onToggle: () => void;
+  // Resolves once the review is saved; rejects with a message to show
+  onReview?: (verdict: JudgeReviewVerdict, note: string) => Promise<void>;
+  onClearReview?: () => Promise<void>;
 }
 
 interface ResultItemState {
   showContext: boolean;
+  showPrompt: boolean;
+  // Disagreeing needs a note, so it opens a small form first
+  isWritingNote: boolean;
+  reviewNote: string;
+  isSavingReview: boolean;
+  reviewError: string | null;
 }
 
 export class ResultItem extends React.Component<ResultItemProps, ResultItemState> {
   constructor(props: ResultItemProps) {
     super(props);
     this.state = {
-      showContext: false
+      showContext: false,
+      showPrompt: false,
+      isWritingNote: false,
+      reviewNote: '',
+      isSavingReview: false,
+      reviewError: null
     };
   }
 
@@ -25,15 +40,146 @@ export class ResultItem extends React.Component<ResultItemProps, ResultItemState
     this.setState(prevState => ({ showContext: !prevState.showContext }));
   };
 
+  handleTogglePrompt = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    this.setState(prevState => ({ showPrompt: !prevState.showPrompt }));
+  };
+
+  handleStartDisagree = () => {
+    const { review } = this.props.result;
+    this.setState({
+      isWritingNote: true,
+      reviewNote: review && review.verdict === 'disagree' ? review.note : '',
+      reviewError: null
+    });
+  };
+
+  handleCancelNote = () => {
+    this.setState({ isWritingNote: false, reviewError: null });
+  };
+
+  handleNoteChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    this.setState({ reviewNote: e.target.value });
+  };
+
+  handleSaveReview = async (verdict: JudgeReviewVerdict) => {
+    const { onReview } = this.props;
+    if (!onReview) return;
+
+    this.setState({ isSavingReview: true, reviewError: null });
+    try {
+      await onReview(verdict, verdict === 'disagree' ? this.state.reviewNote : '');
+      this.setState({ isSavingReview: false, isWritingNote: false });
+    } catch (error) {
+      this.setState({
+        isSavingReview: false,
+        reviewError: error instanceof Error ? error.message : 'Failed to save review'
+      });
+    }
+  };
+
+  handleClearReview = async () => {
+    const { onClearReview } = this.props;
+    if (!onClearReview) return;
+
+    this.setState({ isSavingReview: true, reviewError: null });
+    try {
+      await onClearReview();
+    } catch (error) {
+      this.setState({ reviewError: error instanceof Error ? error.message : 'Failed to clear review' });
+    } finally {
+      this.setState({ isSavingReview: false });
+    }
+  };
+
+  renderReview() {
+    const { result, onReview } = this.props;
+    const { isWritingNote, reviewNote, isSavingReview, reviewError } = this.state;
+    const review = result.review;
+
+    if (!onReview) return null;
+
+    const buttonClass = 'inline-flex items-center px-2.5 py-1 rounded border text-xs font-medium eval-table-row eval-table-cell disabled:opacity-50';
+
+    return (
+      <div className="mt-3 rounded p-3 border eval-table-row">
+        {review && !isWritingNote && (
+          <div className="mb-2">
+            <p className="text-sm eval-table-cell flex items-center">
+              <UserCheck className="h-4 w-4 mr-1" />
+              {review.verdict === 'agree'
+                ? 'Reviewer agreed with the judge'
+                : `Reviewer overrode the judge: ${JudgeReviewService.isCorrect(result) ? 'Correct' : 'Incorrect'}`}
+            </p>
+            {review.note && <p className="mt-1 text-sm eval-table-cell-secondary">{review.note}</p>}
+            <p className="mt-1 text-xs eval-table-cell-secondary">
+              {new Date(review.reviewedAt).toLocaleString()}
+            </p>
+          </div>
+        )}
+
+        {isWritingNote ? (
+          <div>
+            <textarea
+              className="w-full text-sm rounded border p-2 eval-stats-card eval-table-cell eval-table-row"
+              rows={3}
+              placeholder={`Why is this answer ${result.judge_correct ? 'incorrect' : 'correct'}?`}
+              value={reviewNote}
+              onChange={this.handleNoteChange}
+              autoFocus
+            />
+            <div className="mt-2 flex gap-2">
+              <button
+                className={buttonClass}
+                disabled={isSavingReview || !reviewNote.trim()}
+                onClick={() => this.handleSaveReview('disagree')}
+              >
+                Mark as {result.judge_correct ? 'Incorrect' : 'Correct'}
+              </button>
+              <button className={buttonClass} disabled={isSavingReview} onClick={this.handleCancelNote}>
+                Cancel
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex items-center gap-2">
+            <span className="text-xs eval-table-cell-secondary">Is the judge right?</span>
+            <button
+              className={buttonClass}
+              disabled={isSavingReview || review?.verdict === 'agree'}
+              onClick={() => this.handleSaveReview('agree')}
+            >
+              <ThumbsUp className="h-3 w-3 mr-1" /> Agree
+            </button>
+            <button className={buttonClass} disabled={isSavingReview} onClick={this.handleStartDisagree}>
+              <ThumbsDown className="h-3 w-3 mr-1" /> Disagree
+            </button>
+            {review && (
+              <button className={buttonClass} disabled={isSavingReview} onClick={this.handleClearReview}>
+                Clear review
+              </button>
+            )}
+          </div>
+        )}
+
+        {reviewError && (
+          <p className="mt-2 text-xs text-red-600 dark-theme:text-red-400">{reviewError}</p>
+        )}
+      </div>
+    );
+  }
+
   render() {
     const { result, isExpanded, onToggle } = this.props;
-    const { showContext } = this.state;
+    const { showContext, showPrompt } = this.state;
+    const assembledPrompt = result.assembled_prompt;
+    const isCorrect = JudgeReviewService.isCorrect(result);
 
-    const borderColor = result.judge_correct
+    const borderColor = isCorrect
       ? 'border-green-500'
       : 'border-red-500';
 
-    const iconColor = result.judge_correct
+    const iconColor = isCorrect
       ? 'text-green-500'
       : 'text-red-500';
 
@@ -50,7 +196,7 @@ export class ResultItem extends React.Component<ResultItemProps, ResultItemState
         <div className="flex items-center justify-between">
           <div className="flex-1">
             <div className="flex items-center">
-              {result.judge_correct ? (
+              {isCorrect ? (
                 <CheckCircle className={`h-5 w-5 ${iconColor} mr-2`} />
               ) : (
                 <XCircle className={`h-5 w-5 ${iconColor} mr-2`} />
@@ -61,6 +207,11 @@ export class ResultItem extends React.Component<ResultItemProps, ResultItemState
             </div>
             <p className="mt-1 text-xs eval-table-cell-secondary">
               Test Case: {result.test_case_id}
+              {result.review && (
+                <span className="ml-2">
+                  · {result.review.verdict === 'agree' ? 'Reviewed' : 'Judge overridden'}
+                </span>
+              )}
             </p>
           </div>
           <div className="ml-4 flex-shrink-0">
@@ -106,6 +257,7 @@ export class ResultItem extends React.Component<ResultItemProps, ResultItemState
               <p className="mt-2 text-sm eval-table-cell">
                 {result.judge_reasoning}
               </p>
+              {this.renderReview()}
             </div>
 
             {/* Factual Errors */}
@@ -152,6 +304,39 @@ export class ResultItem extends React.Component<ResultItemProps, ResultItemState
               )}
             </div>
 
+            {/* Assembled Prompt (Collapsible) */}
+            {assembledPrompt && (
+              <div>
+                <button
+                  onClick={this.handleTogglePrompt}
+                  className="text-sm font-medium text-blue-600 dark-theme:text-blue-400 hover:underline flex items-center"
+                >
+                  <MessageSquare className="h-4 w-4 mr-1" />
+                  {showPrompt ? 'Hide' : 'View'} Prompt Sent to Model
+                </button>
+                {showPrompt && (
+                  <div className="mt-2 text-sm eval-table-cell eval-stats-card rounded p-3 border eval-table-row max-h-96 overflow-y-auto space-y-3">
+                    <p className="text-xs eval-table-cell-secondary">
+                      {assembledPrompt.model} · {assembledPrompt.persona_name || 'No persona'} ·{' '}
+                      {Object.keys(assembledPrompt.params)
+                        .map(key => `${key}=${assembledPrompt.params[key]}`)
+                        .join(', ')}
+                    </p>
+                    {assembledPrompt.system_prompt && (
+                      <div>
+                        <h5 className="text-xs font-medium eval-table-cell-secondary mb-1">System prompt</h5>
+                        <pre className="whitespace-pre-wrap">{assembledPrompt.system_prompt}</pre>
+                      </div>
+                    )}
+                    <div>
+                      <h5 className="text-xs font-medium eval-table-cell-secondary mb-1">User prompt</h5>
+                      <pre className="whitespace-pre-wrap">{assembledPrompt.user_prompt}</pre>
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* Ground Truth */}
             {result.ground_truth && (
               <div>
@@ -1,11 +1,15 @@
 import React from 'react';
 import type { EvaluationRun } from '../evaluationViewTypes';
+import type { JudgeReviewSummary, RetrievalMetricsSummary } from '../../domain/evaluation';
 
 interface ResultsSummaryProps {
   run: EvaluationRun;
+  retrieval?: RetrievalMetricsSummary | null;
+  // Accuracy recomputed from reviewers' overrides
+  review?: JudgeReviewSummary | null;
 }
 
-export const ResultsSummary: React.FC<ResultsSummaryProps> = ({ run }) => {
+export const ResultsSummary: React.FC<ResultsSummaryProps> = ({ run, retrieval, review }) => {
   const formatDate = (dateString: string): string => {
     const date = new Date(dateString);
     return date.toLocaleString('en-US', {
@@ -44,6 +48,9 @@ export const ResultsSummary: React.FC<ResultsSummaryProps> = ({ run }) => {
     return 'text-red-600';
   };
 
+  const isReviewed = !!review && review.reviewedCount > 0;
+  const accuracy = isReviewed ? review!.accuracy : run.accuracy;
+
   return (
     <div className="eval-stats-card shadow rounded-lg overflow-hidden mb-6">
       <div className="px-4 py-5 sm:px-6 border-b eval-table-row">
@@ -60,9 +67,14 @@ export const ResultsSummary: React.FC<ResultsSummaryProps> = ({ run }) => {
             <dt className="text-sm font-medium eval-stats-label">
               Accuracy
             </dt>
-            <dd className={`mt-1 text-3xl font-semibold ${getAccuracyColor(run.accuracy)}`}>
-              {run.accuracy.toFixed(1)}%
+            <dd className={`mt-1 text-3xl font-semibold ${getAccuracyColor(accuracy)}`}>
+              {accuracy.toFixed(1)}%
             </dd>
+            {isReviewed && (
+              <p className="mt-1 text-xs eval-table-cell-secondary">
+                After review · judge alone {review!.judgeAccuracy.toFixed(1)}%
+              </p>
+            )}
           </div>
           <div className="eval-result-content rounded-lg p-4">
             <dt className="text-sm font-medium eval-stats-label">
@@ -77,8 +89,12 @@ export const ResultsSummary: React.FC<ResultsSummaryProps> = ({ run }) => {
               Correct / Incorrect
             </dt>
             <dd className="mt-1 text-3xl font-semibold eval-stats-value">
-              <span className="text-green-600 dark-theme:text-green-400">{run.correct_count}</span> /{' '}
-              <span className="text-red-600 dark-theme:text-red-400">{run.incorrect_count}</span>
+              <span className="text-green-600 dark-theme:text-green-400">
+                {isReviewed ? review!.correctCount : run.correct_count}
+              </span> /{' '}
+              <span className="text-red-600 dark-theme:text-red-400">
+                {isReviewed ? review!.totalCount - review!.correctCount : run.incorrect_count}
+              </span>
             </dd>
           </div>
           <div className="eval-result-content rounded-lg p-4">
@@ -88,6 +104,43 @@ export const ResultsSummary: React.FC<ResultsSummaryProps> = ({ run }) => {
             </dd>
           </div>
         </dl>
+        {retrieval && (
+          <div className="mt-5 pt-5 border-t eval-table-row">
+            <h4 className="text-sm font-medium eval-table-cell mb-1">
+              Retrieval
+            </h4>
+            <p className="text-xs eval-table-cell-secondary mb-3">
+              Top {retrieval.k} retrieved passages, scored on {retrieval.scoredCount} of {run.total_questions} questions
+              with a ground truth or expected source
+            </p>
+            <dl className="grid grid-cols-1 gap-5 sm:grid-cols-2 lg:grid-cols-4">
+              {[
+                { label: 'Hit Rate', value: `${(retrieval.hitRate * 100).toFixed(1)}%` },
+                { label: `Recall@${retrieval.k}`, value: `${(retrieval.recallAtK * 100).toFixed(1)}%` },
+                { label: 'MRR', value: retrieval.mrr.toFixed(2) },
+                { label: 'Context Precision', value: `${(retrieval.contextPrecision * 100).toFixed(1)}%` },
+              ].map(metric => (
+                <div key={metric.label} className="eval-result-content rounded-lg p-4">
+                  <dt className="text-sm font-medium eval-stats-label">{metric.label}</dt>
+                  <dd className="mt-1 text-2xl font-semibold eval-stats-value">{metric.value}</dd>
+                </div>
+              ))}
+            </dl>
+          </div>
+        )}
+        {review && review.totalCount > 0 && (
+          <div className="mt-5 pt-5 border-t eval-table-row">
+            <h4 className="text-sm font-medium eval-table-cell mb-1">
+              Judge Agreement
+            </h4>
+            <p className="text-sm eval-table-cell-secondary">
+              {isReviewed
+                ? `Reviewers agreed with the judge on ${review.agreedCount} of ${review.reviewedCount} reviewed answers `
+                  + `(${(review.agreementRate! * 100).toFixed(1)}%); ${review.reviewedCount} of ${review.totalCount} answers reviewed.`
+                : 'No answers reviewed yet. Open a result to agree or disagree with the judge.'}
+            </p>
+          </div>
+        )}
         {run.config_snapshot && Object.keys(run.config_snapshot).length > 0 && (
           <div className="mt-5 pt-5 border-t eval-table-row">
             <h4 className="text-sm font-medium eval-table-cell mb-2">
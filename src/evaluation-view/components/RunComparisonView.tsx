@@ -0,0 +1,279 @@
+import React from 'react';
+import { ArrowDownRight, ArrowUpRight, CheckCircle, XCircle, ChevronDown, Minus } from 'lucide-react';
+import type { DetailedEvaluationResult, EvaluationRun } from '../evaluationViewTypes';
+import { JudgeReviewService, type ComparedQuestion, type QuestionChange, type RunComparison } from '../../domain/evaluation';
+
+type ComparisonFilter = 'flipped' | 'regressed' | 'improved' | 'all';
+
+interface RunComparisonViewProps {
+  comparison: RunComparison;
+}
+
+interface RunComparisonViewState {
+  filter: ComparisonFilter;
+  expandedKeys: Set<string>;
+}
+
+const CHANGE_LABELS: Record<QuestionChange, string> = {
+  regressed: 'Correct → Incorrect',
+  improved: 'Incorrect → Correct',
+  'still-correct': 'Correct in both',
+  'still-incorrect': 'Incorrect in both',
+  'base-only': 'Only in run A',
+  'candidate-only': 'Only in run B',
+};
+
+const CHANGE_BADGES: Record<QuestionChange, string> = {
+  regressed: 'bg-red-100 text-red-800 dark-theme:bg-red-900 dark-theme:text-red-200',
+  improved: 'bg-green-100 text-green-800 dark-theme:bg-green-900 dark-theme:text-green-200',
+  'still-correct': 'bg-gray-100 text-gray-800 dark-theme:bg-gray-700 dark-theme:text-gray-200',
+  'still-incorrect': 'bg-gray-100 text-gray-800 dark-theme:bg-gray-700 dark-theme:text-gray-200',
+  'base-only': 'bg-blue-100 text-blue-800 dark-theme:bg-blue-900 dark-theme:text-blue-200',
+  'candidate-only': 'bg-blue-100 text-blue-800 dark-theme:bg-blue-900 dark-theme:text-blue-200',
+};
+
+const formatDate = (dateString: string): string =>
+  new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+const formatDelta = (delta: number): string => `${delta > 0 ? '+' : ''}${delta.toFixed(1)} pts`;
+
+const deltaClass = (delta: number): string => {
+  if (delta > 0) return 'text-green-600 dark-theme:text-green-400';
+  if (delta < 0) return 'text-red-600 dark-theme:text-red-400';
+  return 'eval-table-cell-secondary';
+};
+
+export class RunComparisonView extends React.Component<RunComparisonViewProps, RunComparisonViewState> {
+  constructor(props: RunComparisonViewProps) {
+    super(props);
+    this.state = {
+      filter: 'flipped',
+      expandedKeys: new Set(),
+    };
+  }
+
+  componentDidUpdate(prevProps: RunComparisonViewProps) {
+    if (prevProps.comparison !== this.props.comparison) {
+      this.setState({ filter: 'flipped', expandedKeys: new Set() });
+    }
+  }
+
+  handleToggle = (key: string) => {
+    this.setState((prev) => {
+      const expandedKeys = new Set(prev.expandedKeys);
+      if (expandedKeys.has(key)) {
+        expandedKeys.delete(key);
+      } else {
+        expandedKeys.add(key);
+      }
+      return { expandedKeys };
+    });
+  };
+
+  getVisibleQuestions = (): ComparedQuestion[] => {
+    const { questions } = this.props.comparison;
+    switch (this.state.filter) {
+      case 'flipped':
+        return questions.filter((q) => q.change === 'regressed' || q.change === 'improved');
+      case 'regressed':
+      case 'improved':
+        return questions.filter((q) => q.change === this.state.filter);
+      default:
+        return questions;
+    }
+  };
+
+  renderRunHeader(label: string, run: EvaluationRun) {
+    return (
+      <div className="eval-result-content rounded-lg p-4">
+        <dt className="text-sm font-medium eval-stats-label">
+          Run {label} · {formatDate(run.run_date)}
+        </dt>
+        <dd className="mt-1 text-3xl font-semibold eval-stats-value">{run.accuracy.toFixed(1)}%</dd>
+        <dd className="mt-1 text-xs eval-table-cell-secondary">
+          {run.correct_count} / {run.total_questions} correct
+        </dd>
+      </div>
+    );
+  }
+
+  renderAnswer(label: string, result?: DetailedEvaluationResult) {
+    if (!result) {
+      return (
+        <div className="flex-1 min-w-0 rounded p-3 border eval-table-row">
+          <h5 className="text-xs font-medium eval-table-cell-secondary mb-1">Run {label}</h5>
+          <p className="text-sm eval-table-cell-secondary italic">Not asked in this run</p>
+        </div>
+      );
+    }
+
+    const overridden = !!result.review && result.review.verdict === 'disagree';
+
+    return (
+      <div className="flex-1 min-w-0 rounded p-3 border eval-table-row eval-stats-card">
+        <div className="flex items-center justify-between mb-2">
+          <h5 className="text-xs font-medium eval-table-cell-secondary">Run {label}</h5>
+          {JudgeReviewService.isCorrect(result) ? (
+            <span className="inline-flex items-center text-xs text-green-600 dark-theme:text-green-400">
+              <CheckCircle className="h-4 w-4 mr-1" /> Correct{overridden && ' (reviewed)'}
+            </span>
+          ) : (
+            <span className="inline-flex items-center text-xs text-red-600 dark-theme:text-red-400">
+              <XCircle className="h-4 w-4 mr-1" /> Incorrect{overridden && ' (reviewed)'}
+            </span>
+          )}
+        </div>
+        <p className="text-sm eval-table-cell whitespace-pre-wrap">{result.llm_answer}</p>
+        <h6 className="mt-3 text-xs font-medium eval-table-cell-secondary">Judge reasoning</h6>
+        <p className="mt-1 text-sm eval-table-cell">{result.judge_reasoning}</p>
+        {overridden && result.review!.note && (
+          <>
+            <h6 className="mt-3 text-xs font-medium eval-table-cell-secondary">Reviewer note</h6>
+            <p className="mt-1 text-sm eval-table-cell">{result.review!.note}</p>
+          </>
+        )}
+      </div>
+    );
+  }
+
+  renderQuestion(item: ComparedQuestion) {
+    const isExpanded = this.state.expandedKeys.has(item.key);
+    return (
+      <div key={item.key} className="eval-result-item">
+        <div className="eval-result-header px-4 py-4 sm:px-6 cursor-pointer" onClick={() => this.handleToggle(item.key)}>
+          <div className="flex items-center justify-between">
+            <div className="flex items-center min-w-0">
+              <span className={`inline-flex flex-shrink-0 items-center px-2.5 py-0.5 rounded-full text-xs font-medium mr-3 ${CHANGE_BADGES[item.change]}`}>
+                {CHANGE_LABELS[item.change]}
+              </span>
+              <p className="text-sm font-medium eval-table-cell truncate">{item.question}</p>
+            </div>
+            <ChevronDown
+              className={`h-5 w-5 text-gray-400 flex-shrink-0 ml-4 transition-transform ${isExpanded ? 'rotate-180' : ''}`}
+            />
+          </div>
+        </div>
+        {isExpanded && (
+          <div className="px-4 py-4 sm:px-6 eval-result-content">
+            <div className="flex flex-col md:flex-row gap-4">
+              {this.renderAnswer('A', item.base)}
+              {this.renderAnswer('B', item.candidate)}
+            </div>
+            {(item.candidate || item.base)?.ground_truth && (
+              <div className="mt-4">
+                <h4 className="text-sm font-medium eval-table-cell mb-1">Expected Answer (Ground Truth)</h4>
+                <p className="text-sm eval-table-cell">{(item.candidate || item.base)!.ground_truth}</p>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  render() {
+    const { comparison } = this.props;
+    const { filter } = this.state;
+    const visible = this.getVisibleQuestions();
+
+    const filters: Array<{ id: ComparisonFilter; label: string }> = [
+      { id: 'flipped', label: `Flipped (${comparison.counts.regressed + comparison.counts.improved})` },
+      { id: 'regressed', label: `Regressed (${comparison.counts.regressed})` },
+      { id: 'improved', label: `Improved (${comparison.counts.improved})` },
+      { id: 'all', label: `All (${comparison.questions.length})` },
+    ];
+
+    return (
+      <>
+        <div className="eval-stats-card shadow rounded-lg overflow-hidden mb-6">
+          <div className="px-4 py-5 sm:px-6 border-b eval-table-row">
+            <h3 className="text-lg leading-6 font-medium eval-table-cell">Run Comparison</h3>
+            <p className="mt-1 text-sm eval-table-cell-secondary">
+              Run A is the older run; deltas show the change in run B.
+            </p>
+          </div>
+          <div className="px-4 py-5 sm:p-6">
+            <dl className="grid grid-cols-1 gap-5 sm:grid-cols-2 lg:grid-cols-4">
+              {this.renderRunHeader('A', comparison.base)}
+              {this.renderRunHeader('B', comparison.candidate)}
+              <div className="eval-result-content rounded-lg p-4">
+                <dt className="text-sm font-medium eval-stats-label">Accuracy change</dt>
+                <dd className={`mt-1 text-3xl font-semibold flex items-center ${deltaClass(comparison.accuracyDelta)}`}>
+                  {comparison.accuracyDelta > 0 && <ArrowUpRight className="h-6 w-6 mr-1" />}
+                  {comparison.accuracyDelta < 0 && <ArrowDownRight className="h-6 w-6 mr-1" />}
+                  {comparison.accuracyDelta === 0 && <Minus className="h-6 w-6 mr-1" />}
+                  {formatDelta(comparison.accuracyDelta)}
+                </dd>
+                <dd className={`mt-1 text-xs ${deltaClass(comparison.shared.accuracyDelta)}`}>
+                  {formatDelta(comparison.shared.accuracyDelta)} on {comparison.shared.count} shared questions
+                </dd>
+              </div>
+              <div className="eval-result-content rounded-lg p-4">
+                <dt className="text-sm font-medium eval-stats-label">Flipped questions</dt>
+                <dd className="mt-1 text-3xl font-semibold eval-stats-value">
+                  <span className="text-red-600 dark-theme:text-red-400">{comparison.counts.regressed}</span> /{' '}
+                  <span className="text-green-600 dark-theme:text-green-400">{comparison.counts.improved}</span>
+                </dd>
+                <dd className="mt-1 text-xs eval-table-cell-secondary">regressed / improved</dd>
+              </div>
+            </dl>
+
+            <div className="mt-5 pt-5 border-t eval-table-row">
+              <h4 className="text-sm font-medium eval-table-cell mb-2">Configuration changes</h4>
+              {comparison.configDifferences.length === 0 ? (
+                <p className="text-sm eval-table-cell-secondary">Both runs used the same configuration.</p>
+              ) : (
+                <table className="text-sm">
+                  <tbody>
+                    {comparison.configDifferences.map((difference) => (
+                      <tr key={difference.key}>
+                        <td className="pr-4 py-1 font-medium eval-table-cell">{difference.key}</td>
+                        <td className="pr-4 py-1 eval-table-cell-secondary">{difference.base}</td>
+                        <td className="pr-4 py-1 eval-table-cell-secondary">→</td>
+                        <td className="py-1 eval-table-cell">{difference.candidate}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="eval-stats-card shadow rounded-lg overflow-hidden">
+          <div className="px-4 py-5 sm:px-6 border-b eval-table-row flex items-center justify-between">
+            <h3 className="text-lg leading-6 font-medium eval-table-cell">Questions</h3>
+            <div className="flex gap-2">
+              {filters.map((option) => (
+                <button
+                  key={option.id}
+                  onClick={() => this.setState({ filter: option.id })}
+                  className={`px-3 py-1.5 text-sm font-medium rounded-md ${
+                    filter === option.id ? 'eval-filter-btn-active' : 'eval-filter-btn'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="divide-y eval-table-row">
+            {visible.length === 0 ? (
+              <div className="px-6 py-12 text-center">
+                <p className="text-sm eval-table-cell-secondary">No questions in this view</p>
+              </div>
+            ) : (
+              visible.map((item) => this.renderQuestion(item))
+            )}
+          </div>
+        </div>
+      </>
+    );
+  }
+}
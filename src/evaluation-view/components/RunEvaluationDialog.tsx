@@ -1,5 +1,5 @@
 import React from 'react';
-import { Info } from 'lucide-react';
+import { Info, Upload, Download, Save, Trash2, Sparkles } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
   Select,
@@ -11,6 +11,24 @@ import {
 import { Textarea } from '@/components/ui/textarea';
 import type { ModelInfo, PersonaInfo } from '../../components/chat-header/types';
 import type { Collection } from '../../braindrive-plugin/pluginTypes';
+import {
+  QuestionSetCodec,
+  MAX_EVALUATION_QUESTIONS,
+  type EvaluationQuestion,
+  type QuestionSet,
+  type QuestionSetFormat,
+  type QuestionSetService,
+  type QuestionGenerator,
+  EvaluationLeaderboard,
+  MAX_MATRIX_COMBINATIONS,
+  GenerationScheduler,
+  DEFAULT_GENERATION_SETTINGS,
+  MAX_GENERATION_CONCURRENCY,
+  MAX_REQUESTS_PER_MINUTE,
+  type GenerationSettings,
+} from '../../domain/evaluation';
+import { QuestionGenerationPanel } from './QuestionGenerationPanel';
+import { downloadFile, readFileAsText } from '../../utils';
 
 
 class Dialog extends React.Component<{
@@ -164,13 +182,24 @@ interface RunEvaluationDialogProps {
     model: ModelInfo,
     persona: PersonaInfo | null,
     collectionId: string,
-    questions: string[]
+    questions: EvaluationQuestion[],
+    generation: GenerationSettings
+  ) => void;
+  // Runs every selected model × persona combination
+  onSubmitMatrix?: (
+    models: ModelInfo[],
+    personas: Array<PersonaInfo | null>,
+    collectionId: string,
+    questions: EvaluationQuestion[],
+    generation: GenerationSettings
   ) => void;
   availableModels: ModelInfo[];
   availablePersonas: PersonaInfo[];
   collections: Collection[];
   isLoadingModels: boolean;
   isLoadingPersonas: boolean;
+  questionSetService?: QuestionSetService;
+  questionGenerator?: QuestionGenerator;
 }
 
 interface RunEvaluationDialogState {
@@ -184,6 +213,21 @@ interface RunEvaluationDialogState {
   validationErrors: {
     questions?: string;
   };
+  // Question-set library for the selected collection
+  questionSets: QuestionSet[];
+  selectedQuestionSetId: string;
+  questionSetName: string;
+  // Questions from the loaded set or import, carrying ground truth and category
+  loadedQuestions: EvaluationQuestion[];
+  questionSetMessage: { type: 'info' | 'error'; text: string } | null;
+  showGenerator: boolean;
+  // Matrix mode: several models and personas instead of one of each
+  isMatrixMode: boolean;
+  matrixModelKeys: string[];
+  // Persona ids, 'none' standing for no persona
+  matrixPersonaIds: string[];
+  // Answer generation concurrency and per-provider rate limit
+  generation: GenerationSettings;
 }
 
 export class RunEvaluationDialog extends React.Component<
@@ -201,9 +245,21 @@ export class RunEvaluationDialog extends React.Component<
       personaSearchQuery: '',
       collectionSearchQuery: '',
       validationErrors: {},
+      questionSets: [],
+      selectedQuestionSetId: 'none',
+      questionSetName: '',
+      loadedQuestions: [],
+      questionSetMessage: null,
+      showGenerator: false,
+      isMatrixMode: false,
+      matrixModelKeys: [],
+      matrixPersonaIds: [],
+      generation: DEFAULT_GENERATION_SETTINGS,
     };
   }
 
+  private importInputRef = React.createRef<HTMLInputElement>();
+
   componentDidUpdate(prevProps: RunEvaluationDialogProps) {
     // Auto-select first model when models load
     if (
@@ -222,23 +278,252 @@ export class RunEvaluationDialog extends React.Component<
     return `${model.provider}-${model.serverId}-${model.name}`;
   };
 
-  validateQuestions = (text: string): { valid: boolean; questions: string[]; error?: string } => {
-    const lines = text.split('\n').map(q => q.trim()).filter(q => q.length > 0);
+  validateQuestions = (text: string): { valid: boolean; questions: EvaluationQuestion[]; error?: string } => {
+    const questions = QuestionSetCodec.fromLines(text, this.state.loadedQuestions);
 
-    if (lines.length < 1) {
+    if (questions.length < 1) {
       return { valid: false, questions: [], error: 'At least 1 question is required' };
     }
 
-    if (lines.length > 100) {
-      return { valid: false, questions: [], error: 'Maximum 100 questions allowed' };
+    if (questions.length > MAX_EVALUATION_QUESTIONS) {
+      return { valid: false, questions: [], error: `Maximum ${MAX_EVALUATION_QUESTIONS} questions allowed` };
+    }
+
+    return { valid: true, questions, error: undefined };
+  };
+
+  loadQuestionSets = async (collectionId: string) => {
+    const { questionSetService } = this.props;
+    if (!questionSetService || !collectionId) {
+      this.setState({ questionSets: [] });
+      return;
     }
 
-    return { valid: true, questions: lines, error: undefined };
+    const questionSets = await questionSetService.listSets(collectionId);
+    // Ignore results for a collection that is no longer selected
+    if (this.state.selectedCollectionId === collectionId) {
+      this.setState({ questionSets });
+    }
+  };
+
+  applyQuestions = (questions: EvaluationQuestion[], message: string | null) => {
+    this.setState({
+      questions: QuestionSetCodec.toLines(questions),
+      loadedQuestions: questions,
+      validationErrors: {},
+      questionSetMessage: message ? { type: 'info', text: message } : null,
+    });
+  };
+
+  handleQuestionSetChange = (value: string) => {
+    const questionSet = this.state.questionSets.find(set => set.id === value);
+    if (!questionSet) {
+      this.setState({ selectedQuestionSetId: 'none', questionSetName: '', questionSetMessage: null });
+      return;
+    }
+
+    this.setState({ selectedQuestionSetId: questionSet.id, questionSetName: questionSet.name });
+    this.applyQuestions(questionSet.questions, null);
+  };
+
+  handleToggleGenerator = () => {
+    this.setState(prev => ({ showGenerator: !prev.showGenerator }));
+  };
+
+  /**
+   * Append reviewed generated questions to the ones already entered
+   */
+  handleAddGenerated = (generated: EvaluationQuestion[]) => {
+    const current = QuestionSetCodec.fromLines(this.state.questions, this.state.loadedQuestions);
+    const existing = new Set(current.map(item => item.question.toLowerCase()));
+    const added = generated.filter(item => !existing.has(item.question.toLowerCase()));
+    const merged = current.concat(added).slice(0, MAX_EVALUATION_QUESTIONS);
+    const addedCount = merged.length - current.length;
+
+    this.setState({ showGenerator: false });
+    this.applyQuestions(
+      merged,
+      addedCount < generated.length
+        ? `Added ${addedCount} of ${generated.length} generated questions (duplicates and questions over ${MAX_EVALUATION_QUESTIONS} skipped)`
+        : `Added ${addedCount} generated questions`
+    );
+  };
+
+  handleImportClick = () => {
+    this.importInputRef.current?.click();
+  };
+
+  handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files && e.target.files[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const format = QuestionSetCodec.getFormat(file.name);
+    if (!format) {
+      this.setState({ questionSetMessage: { type: 'error', text: 'Import a .csv or .jsonl file' } });
+      return;
+    }
+
+    try {
+      const imported = QuestionSetCodec.parse(await readFileAsText(file), format);
+      if (imported.length === 0) {
+        throw new Error('No questions found in the file');
+      }
+      const questions = imported.slice(0, MAX_EVALUATION_QUESTIONS);
+      const withAnswers = questions.filter(item => item.ground_truth).length;
+      const truncated = imported.length > questions.length
+        ? ` (first ${MAX_EVALUATION_QUESTIONS} of ${imported.length})`
+        : '';
+
+      this.setState({
+        selectedQuestionSetId: 'none',
+        questionSetName: file.name.replace(/\.[^.]+$/, ''),
+      });
+      this.applyQuestions(
+        questions,
+        `Imported ${questions.length} questions${truncated}, ${withAnswers} with expected answers`
+      );
+    } catch (error) {
+      this.setState({
+        questionSetMessage: {
+          type: 'error',
+          text: error instanceof Error ? error.message : 'Could not import questions',
+        },
+      });
+    }
+  };
+
+  handleExport = (format: QuestionSetFormat) => {
+    const questions = QuestionSetCodec.fromLines(this.state.questions, this.state.loadedQuestions);
+    if (questions.length === 0) return;
+
+    const baseName = (this.state.questionSetName.trim() || 'evaluation-questions').replace(/[^\w.-]+/g, '-');
+    downloadFile(
+      QuestionSetCodec.serialize(questions, format),
+      `${baseName}.${format}`,
+      format === 'csv' ? 'text/csv' : 'application/x-ndjson'
+    );
+  };
+
+  handleQuestionSetNameChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    this.setState({ questionSetName: e.target.value });
+  };
+
+  handleSaveQuestionSet = async () => {
+    const { questionSetService } = this.props;
+    const { selectedCollectionId, selectedQuestionSetId, questionSetName, questions } = this.state;
+    if (!questionSetService || !selectedCollectionId) return;
+
+    try {
+      const items = QuestionSetCodec.fromLines(questions, this.state.loadedQuestions);
+      const saved = await questionSetService.saveSet(selectedCollectionId, {
+        id: selectedQuestionSetId !== 'none' ? selectedQuestionSetId : undefined,
+        name: questionSetName,
+        questions: items,
+      });
+      this.setState({
+        selectedQuestionSetId: saved.id,
+        questionSetName: saved.name,
+        loadedQuestions: saved.questions,
+        questionSetMessage: { type: 'info', text: `Saved "${saved.name}"` },
+      });
+      await this.loadQuestionSets(selectedCollectionId);
+    } catch (error) {
+      this.setState({
+        questionSetMessage: {
+          type: 'error',
+          text: error instanceof Error ? error.message : 'Could not save question set',
+        },
+      });
+    }
+  };
+
+  handleDeleteQuestionSet = async () => {
+    const { questionSetService } = this.props;
+    const { selectedCollectionId, selectedQuestionSetId, questionSets } = this.state;
+    const questionSet = questionSets.find(set => set.id === selectedQuestionSetId);
+    if (!questionSetService || !questionSet) return;
+
+    if (!window.confirm(`Delete question set "${questionSet.name}"?`)) return;
+
+    try {
+      await questionSetService.deleteSet(selectedCollectionId, questionSet.id);
+      this.setState({
+        selectedQuestionSetId: 'none',
+        questionSetMessage: { type: 'info', text: `Deleted "${questionSet.name}"` },
+      });
+      await this.loadQuestionSets(selectedCollectionId);
+    } catch (error) {
+      this.setState({ questionSetMessage: { type: 'error', text: 'Could not delete question set' } });
+    }
+  };
+
+  getMatrixSelection = (): { models: ModelInfo[]; personas: Array<PersonaInfo | null> } => {
+    const { availableModels, availablePersonas } = this.props;
+    const { matrixModelKeys, matrixPersonaIds } = this.state;
+
+    return {
+      models: availableModels.filter(model => matrixModelKeys.indexOf(this.getModelKey(model)) !== -1),
+      personas: matrixPersonaIds
+        .map(id => (id === 'none' ? null : availablePersonas.find(p => p.id === id) || undefined))
+        .filter((persona): persona is PersonaInfo | null => persona !== undefined),
+    };
+  };
+
+  handleToggleMatrixMode = () => {
+    this.setState(prev => ({
+      isMatrixMode: !prev.isMatrixMode,
+      // Start from the single model and persona already picked
+      matrixModelKeys: prev.matrixModelKeys.length > 0 || !prev.selectedModelKey
+        ? prev.matrixModelKeys
+        : [prev.selectedModelKey],
+      matrixPersonaIds: prev.matrixPersonaIds.length > 0
+        ? prev.matrixPersonaIds
+        : [prev.selectedPersonaId && prev.selectedPersonaId !== 'none' ? prev.selectedPersonaId : 'none'],
+      validationErrors: {},
+    }));
+  };
+
+  toggleMatrixModel = (key: string) => {
+    this.setState(prev => ({
+      matrixModelKeys: prev.matrixModelKeys.indexOf(key) !== -1
+        ? prev.matrixModelKeys.filter(item => item !== key)
+        : prev.matrixModelKeys.concat(key),
+      validationErrors: {},
+    }));
+  };
+
+  toggleMatrixPersona = (id: string) => {
+    this.setState(prev => ({
+      matrixPersonaIds: prev.matrixPersonaIds.indexOf(id) !== -1
+        ? prev.matrixPersonaIds.filter(item => item !== id)
+        : prev.matrixPersonaIds.concat(id),
+      validationErrors: {},
+    }));
   };
 
   handleSubmit = () => {
-    const { availableModels, availablePersonas, onSubmit } = this.props;
-    const { selectedModelKey, selectedPersonaId, selectedCollectionId, questions } = this.state;
+    const { availableModels, availablePersonas, onSubmit, onSubmitMatrix } = this.props;
+    const { selectedModelKey, selectedPersonaId, selectedCollectionId, questions, isMatrixMode } = this.state;
+
+    if (isMatrixMode && onSubmitMatrix) {
+      const { models, personas } = this.getMatrixSelection();
+      const combinationCount = EvaluationLeaderboard.combinations(models, personas).length;
+      const validation = this.validateQuestions(questions);
+      let error: string | undefined;
+      if (!selectedCollectionId) error = 'Collection is required';
+      else if (models.length === 0) error = 'Select at least one model';
+      else if (combinationCount > MAX_MATRIX_COMBINATIONS) error = `At most ${MAX_MATRIX_COMBINATIONS} model × persona combinations per run`;
+      else if (!validation.valid) error = validation.error;
+
+      if (error) {
+        this.setState({ validationErrors: { questions: error } });
+        return;
+      }
+
+      onSubmitMatrix(models, personas, selectedCollectionId, validation.questions, this.state.generation);
+      return;
+    }
 
     const selectedModel = availableModels.find(
       (m) => this.getModelKey(m) === selectedModelKey
@@ -270,7 +555,17 @@ export class RunEvaluationDialog extends React.Component<
       : null;
 
     // Submit with collection and questions
-    onSubmit(selectedModel, selectedPersona, selectedCollectionId, validation.questions);
+    onSubmit(selectedModel, selectedPersona, selectedCollectionId, validation.questions, this.state.generation);
+  };
+
+  handleGenerationChange = (field: keyof GenerationSettings, value: string) => {
+    const parsed = parseInt(value, 10);
+    this.setState(prev => ({
+      generation: GenerationScheduler.normalizeSettings({
+        ...prev.generation,
+        [field]: isNaN(parsed) ? 1 : parsed,
+      }),
+    }));
   };
 
   handleModelChange = (value: string) => {
@@ -285,7 +580,11 @@ export class RunEvaluationDialog extends React.Component<
     this.setState({
       selectedCollectionId: value,
       validationErrors: {},
-    });
+      questionSets: [],
+      selectedQuestionSetId: 'none',
+      questionSetMessage: null,
+      showGenerator: false,
+    }, () => this.loadQuestionSets(value));
   };
 
   handleQuestionsChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
@@ -358,6 +657,62 @@ export class RunEvaluationDialog extends React.Component<
     return document.querySelector('.dark') !== null;
   };
 
+  renderMatrixPickers(isDark: boolean) {
+    const { availableModels, availablePersonas, isLoadingModels, isLoadingPersonas } = this.props;
+    const { matrixModelKeys, matrixPersonaIds } = this.state;
+    const labelColor = isDark ? '#f3f4f6' : '#111827';
+    const mutedColor = isDark ? '#9ca3af' : '#6b7280';
+    const listStyle = { borderColor: isDark ? '#374151' : '#d1d5db' };
+    const personaOptions: Array<{ id: string; name: string }> = [{ id: 'none', name: 'None' }]
+      .concat(availablePersonas.map(p => ({ id: p.id, name: p.name })));
+
+    return (
+      <>
+        <div className="grid gap-2 content-start">
+          <span className="text-sm font-medium" style={{ color: labelColor }}>
+            LLM Models <span className="text-red-500">*</span>
+          </span>
+          <div className="max-h-40 overflow-y-auto rounded-md border p-2 grid gap-1" style={listStyle}>
+            {isLoadingModels ? (
+              <span className="text-sm" style={{ color: mutedColor }}>Loading...</span>
+            ) : availableModels.map(model => {
+              const key = this.getModelKey(model);
+              return (
+                <label key={key} className="flex items-center gap-2 text-sm cursor-pointer" style={{ color: labelColor }}>
+                  <input
+                    type="checkbox"
+                    checked={matrixModelKeys.indexOf(key) !== -1}
+                    onChange={() => this.toggleMatrixModel(key)}
+                  />
+                  <span className="truncate">{model.name} ({model.serverName})</span>
+                </label>
+              );
+            })}
+          </div>
+        </div>
+        <div className="grid gap-2 content-start">
+          <span className="text-sm font-medium" style={{ color: labelColor }}>
+            Personas
+          </span>
+          <div className="max-h-40 overflow-y-auto rounded-md border p-2 grid gap-1" style={listStyle}>
+            {isLoadingPersonas ? (
+              <span className="text-sm" style={{ color: mutedColor }}>Loading...</span>
+            ) : personaOptions.map(persona => (
+              <label key={persona.id} className="flex items-center gap-2 text-sm cursor-pointer" style={{ color: labelColor }}>
+                <input
+                  type="checkbox"
+                  checked={matrixPersonaIds.indexOf(persona.id) !== -1}
+                  onChange={() => this.toggleMatrixPersona(persona.id)}
+                />
+                <span className="truncate">{persona.name}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+      </>
+    );
+  }
+
   render() {
     const {
       isOpen,
@@ -377,13 +732,26 @@ export class RunEvaluationDialog extends React.Component<
       personaSearchQuery,
       collectionSearchQuery,
       validationErrors,
+      questionSets,
+      selectedQuestionSetId,
+      questionSetName,
+      loadedQuestions,
+      questionSetMessage,
+      showGenerator,
     } = this.state;
 
     const filteredModels = this.getFilteredModels();
     const filteredPersonas = this.getFilteredPersonas();
     const filteredCollections = this.getFilteredCollections();
-    const canSubmit = selectedModelKey && selectedCollectionId && questions.trim() && !isLoadingModels;
+    const { isMatrixMode } = this.state;
+    const matrixSelection = this.getMatrixSelection();
+    const combinationCount = matrixSelection.models.length * Math.max(matrixSelection.personas.length, 1);
+    const canSubmit = (isMatrixMode ? combinationCount > 0 : selectedModelKey)
+      && selectedCollectionId && questions.trim() && !isLoadingModels;
     const isDark = this.isDarkMode();
+    const questionItems = QuestionSetCodec.fromLines(questions, loadedQuestions);
+    const answeredCount = questionItems.filter(item => item.ground_truth).length;
+    const canManageSets = Boolean(this.props.questionSetService && selectedCollectionId);
 
     return (
       <Dialog open={isOpen} onOpenChange={onClose}>
@@ -396,8 +764,25 @@ export class RunEvaluationDialog extends React.Component<
           </DialogHeader>
 
           <div className="grid gap-4 py-4 overflow-y-auto flex-1">
+            {/* Matrix Mode Toggle */}
+            {this.props.onSubmitMatrix && (
+              <label
+                className="flex items-center gap-2 text-sm cursor-pointer"
+                style={{ color: isDark ? '#f3f4f6' : '#111827' }}
+              >
+                <input type="checkbox" checked={isMatrixMode} onChange={this.handleToggleMatrixMode} />
+                Compare several models and personas
+                {isMatrixMode && (
+                  <span style={{ color: combinationCount > MAX_MATRIX_COMBINATIONS ? '#ef4444' : isDark ? '#9ca3af' : '#6b7280' }}>
+                    ({matrixSelection.models.length} models × {Math.max(matrixSelection.personas.length, 1)} personas = {combinationCount} runs)
+                  </span>
+                )}
+              </label>
+            )}
+
             {/* Model, Persona, and Collection Selection - Single Row */}
             <div className="grid grid-cols-3 gap-3">
+              {isMatrixMode ? this.renderMatrixPickers(isDark) : (<>
               {/* Model Selection */}
               <div className="grid gap-2">
                 <label
@@ -518,6 +903,8 @@ export class RunEvaluationDialog extends React.Component<
                 )}
               </div>
 
+              </>)}
+
               {/* Collection Selection */}
               <div className="grid gap-2">
                 <label
@@ -563,6 +950,141 @@ export class RunEvaluationDialog extends React.Component<
               </div>
             </div>
 
+            {/* Question Set Library */}
+            <div className="grid gap-2">
+              <label
+                className="text-sm font-medium"
+                style={{ color: isDark ? '#f3f4f6' : '#111827' }}
+              >
+                Question Set{' '}
+                <span style={{ color: isDark ? '#9ca3af' : '#6b7280' }}>
+                  (Optional)
+                </span>
+              </label>
+              <div className="flex flex-wrap items-center gap-2">
+                <div className="flex-1 min-w-[12rem]">
+                  <Select
+                    value={selectedQuestionSetId}
+                    onValueChange={this.handleQuestionSetChange}
+                    disabled={!canManageSets || questionSets.length === 0}
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue placeholder="Saved sets">
+                        {(() => {
+                          if (!selectedCollectionId) return 'Select a collection first';
+                          const selectedSet = questionSets.find(set => set.id === selectedQuestionSetId);
+                          if (selectedSet) return `${selectedSet.name} (${selectedSet.questions.length})`;
+                          return questionSets.length === 0 ? 'No saved sets' : 'Load a saved set';
+                        })()}
+                      </SelectValue>
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">None</SelectItem>
+                      {questionSets.map((set) => (
+                        <SelectItem key={set.id} value={set.id}>
+                          {set.name} ({set.questions.length})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <input
+                  ref={this.importInputRef}
+                  type="file"
+                  accept=".csv,.jsonl,.ndjson"
+                  className="hidden"
+                  onChange={this.handleImportFile}
+                />
+                {this.props.questionGenerator && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={this.handleToggleGenerator}
+                    disabled={!selectedCollectionId}
+                    title={selectedCollectionId ? 'Draft questions from this collection' : 'Select a collection first'}
+                  >
+                    <Sparkles className="h-4 w-4 mr-1" />
+                    Generate
+                  </Button>
+                )}
+                <Button variant="outline" size="sm" onClick={this.handleImportClick}>
+                  <Upload className="h-4 w-4 mr-1" />
+                  Import
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => this.handleExport('csv')}
+                  disabled={questionItems.length === 0}
+                >
+                  <Download className="h-4 w-4 mr-1" />
+                  CSV
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => this.handleExport('jsonl')}
+                  disabled={questionItems.length === 0}
+                >
+                  <Download className="h-4 w-4 mr-1" />
+                  JSONL
+                </Button>
+              </div>
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={questionSetName}
+                  onChange={this.handleQuestionSetNameChange}
+                  placeholder="Set name"
+                  disabled={!canManageSets}
+                  className="flex-1 rounded-md border px-3 py-1.5 text-sm"
+                  style={{
+                    backgroundColor: isDark ? '#1f2937' : '#ffffff',
+                    borderColor: isDark ? '#374151' : '#d1d5db',
+                    color: isDark ? '#f3f4f6' : '#111827',
+                  }}
+                />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={this.handleSaveQuestionSet}
+                  disabled={!canManageSets || !questionSetName.trim() || questionItems.length === 0}
+                >
+                  <Save className="h-4 w-4 mr-1" />
+                  Save Set
+                </Button>
+                {selectedQuestionSetId !== 'none' && (
+                  <Button variant="ghost" size="sm" onClick={this.handleDeleteQuestionSet} title="Delete question set">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+              {questionSetMessage && (
+                <p
+                  className="text-xs"
+                  style={{
+                    color: questionSetMessage.type === 'error'
+                      ? '#ef4444'
+                      : isDark ? '#9ca3af' : '#6b7280',
+                  }}
+                >
+                  {questionSetMessage.text}
+                </p>
+              )}
+            </div>
+
+            {/* Generated Question Review */}
+            {showGenerator && this.props.questionGenerator && selectedCollectionId && (
+              <QuestionGenerationPanel
+                generator={this.props.questionGenerator}
+                collectionId={selectedCollectionId}
+                model={availableModels.find(m => this.getModelKey(m) === selectedModelKey) || null}
+                isDark={isDark}
+                onAdd={this.handleAddGenerated}
+                onClose={this.handleToggleGenerator}
+              />
+            )}
+
             {/* Questions Textarea */}
             <div className="grid gap-2">
               <label
@@ -596,12 +1118,51 @@ What file types are supported?`}
                   className="text-xs"
                   style={{ color: isDark ? '#9ca3af' : '#6b7280' }}
                 >
-                  {questions.split('\n').filter((q) => q.trim()).length} questions
+                  {questionItems.length} questions
+                  {answeredCount > 0 && ` · ${answeredCount} with expected answers`}
                 </p>
               )}
             </div>
           </div>
 
+          {/* Answer Generation Settings */}
+          <div
+            className="flex flex-wrap items-center gap-2 text-sm mt-4"
+            style={{ color: isDark ? '#9ca3af' : '#6b7280' }}
+          >
+            <span>Generate</span>
+            <input
+              type="number"
+              aria-label="Answers generated at a time"
+              min={1}
+              max={MAX_GENERATION_CONCURRENCY}
+              value={this.state.generation.concurrency}
+              onChange={(e) => this.handleGenerationChange('concurrency', e.target.value)}
+              className="w-16 rounded-md border px-2 py-1 text-sm"
+              style={{
+                backgroundColor: isDark ? '#1f2937' : '#ffffff',
+                borderColor: isDark ? '#374151' : '#d1d5db',
+                color: isDark ? '#f3f4f6' : '#111827',
+              }}
+            />
+            <span>answers at a time, at most</span>
+            <input
+              type="number"
+              aria-label="Requests per minute per provider"
+              min={1}
+              max={MAX_REQUESTS_PER_MINUTE}
+              value={this.state.generation.requestsPerMinute}
+              onChange={(e) => this.handleGenerationChange('requestsPerMinute', e.target.value)}
+              className="w-20 rounded-md border px-2 py-1 text-sm"
+              style={{
+                backgroundColor: isDark ? '#1f2937' : '#ffffff',
+                borderColor: isDark ? '#374151' : '#d1d5db',
+                color: isDark ? '#f3f4f6' : '#111827',
+              }}
+            />
+            <span>requests per minute per provider</span>
+          </div>
+
           {/* Info Banner */}
           <div
             className="flex items-start gap-3 p-3 rounded-md mt-4"
@@ -631,7 +1192,7 @@ What file types are supported?`}
               Cancel
             </Button>
             <Button onClick={this.handleSubmit} disabled={!canSubmit}>
-              Start Evaluation
+              {isMatrixMode ? `Start ${combinationCount} Evaluations` : 'Start Evaluation'}
             </Button>
           </DialogFooter>
         </DialogContent>
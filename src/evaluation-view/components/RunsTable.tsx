@@ -1,14 +1,27 @@
 import React from 'react';
-import { Inbox } from 'lucide-react';
+import { Inbox, GitCompare } from 'lucide-react';
 import type { EvaluationRun } from '../evaluationViewTypes';
 
 interface RunsTableProps {
   runs: EvaluationRun[];
   onSelectRun: (runId: string) => void;
   headerActions?: React.ReactNode;
+  // Runs ticked for comparison (at most two) and the compare action
+  selectedRunIds?: string[];
+  onToggleRunSelection?: (runId: string) => void;
+  onCompare?: () => void;
 }
 
-export const RunsTable: React.FC<RunsTableProps> = ({ runs, onSelectRun, headerActions }) => {
+export const RunsTable: React.FC<RunsTableProps> = ({
+  runs,
+  onSelectRun,
+  headerActions,
+  selectedRunIds = [],
+  onToggleRunSelection,
+  onCompare,
+}) => {
+  const selectable = Boolean(onToggleRunSelection);
+
   const formatDate = (dateString: string): string => {
     const date = new Date(dateString);
     return date.toLocaleString('en-US', {
@@ -101,12 +114,30 @@ export const RunsTable: React.FC<RunsTableProps> = ({ runs, onSelectRun, headerA
         <h3 className="text-lg leading-6 font-medium eval-table-cell">
           Recent Evaluation Runs
         </h3>
-        {headerActions}
+        <div className="flex items-center gap-3">
+          {onCompare && (
+            <button
+              onClick={onCompare}
+              disabled={selectedRunIds.length !== 2}
+              title={selectedRunIds.length === 2 ? 'Compare the selected runs' : 'Select two runs to compare'}
+              className="inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-md eval-filter-btn disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <GitCompare className="h-4 w-4 mr-1.5" />
+              Compare ({selectedRunIds.length}/2)
+            </button>
+          )}
+          {headerActions}
+        </div>
       </div>
       <div className="overflow-x-auto">
         <table className="min-w-full divide-y divide-gray-200 eval-table-row">
           <thead className="eval-result-header">
             <tr>
+              {selectable && (
+                <th className="pl-6 py-3 w-8">
+                  <span className="sr-only">Select for comparison</span>
+                </th>
+              )}
               <th className="px-6 py-3 text-left text-xs font-medium eval-table-cell-secondary uppercase tracking-wider">
                 Date
               </th>
@@ -134,6 +165,16 @@ export const RunsTable: React.FC<RunsTableProps> = ({ runs, onSelectRun, headerA
                 className="eval-table-row cursor-pointer"
                 onClick={() => onSelectRun(run.id)}
               >
+                {selectable && (
+                  <td className="pl-6 py-4" onClick={(e) => e.stopPropagation()}>
+                    <input
+                      type="checkbox"
+                      aria-label="Select run for comparison"
+                      checked={selectedRunIds.indexOf(run.id) !== -1}
+                      onChange={() => onToggleRunSelection!(run.id)}
+                    />
+                  </td>
+                )}
                 <td className="px-6 py-4 whitespace-nowrap text-sm eval-table-cell">
                   {formatDate(run.run_date)}
                 </td>
@@ -1,5 +1,6 @@
 import React from 'react';
-import { Percent, CheckCircle, XCircle, Clock } from 'lucide-react';
+import { Percent, CheckCircle, XCircle, Clock, Search } from 'lucide-react';
+import type { RetrievalMetricsSummary } from '../../domain/evaluation';
 
 interface StatsData {
   accuracy: number;
@@ -11,9 +12,10 @@ interface StatsData {
 
 interface StatsCardsProps {
   stats: StatsData | null;
+  retrieval?: RetrievalMetricsSummary | null;
 }
 
-export const StatsCards: React.FC<StatsCardsProps> = ({ stats }) => {
+export const StatsCards: React.FC<StatsCardsProps> = ({ stats, retrieval }) => {
   if (!stats) {
     return null;
   }
@@ -26,91 +28,132 @@ export const StatsCards: React.FC<StatsCardsProps> = ({ stats }) => {
     return `${minutes}m ${remainingSeconds.toFixed(0)}s`;
   };
 
+  const retrievalCards = retrieval
+    ? [
+        { label: 'Retrieval Hit Rate', value: `${(retrieval.hitRate * 100).toFixed(1)}%` },
+        { label: `Recall@${retrieval.k}`, value: `${(retrieval.recallAtK * 100).toFixed(1)}%` },
+        { label: 'MRR', value: retrieval.mrr.toFixed(2) },
+        { label: 'Context Precision', value: `${(retrieval.contextPrecision * 100).toFixed(1)}%` },
+      ]
+    : [];
+
   return (
-    <div className="grid grid-cols-1 gap-5 sm:grid-cols-2 lg:grid-cols-4 mb-8">
-      {/* Latest Accuracy */}
-      <div className="eval-stats-card overflow-hidden shadow rounded-lg">
-        <div className="p-5">
-          <div className="flex items-center">
-            <div className="flex-shrink-0">
-              <Percent className="h-6 w-6 text-blue-600" />
-            </div>
-            <div className="ml-5 w-0 flex-1">
-              <dl>
-                <dt className="eval-stats-label text-sm font-medium truncate">
-                  Latest Accuracy
-                </dt>
-                <dd className="eval-stats-value text-lg font-medium">
-                  {stats.accuracy.toFixed(1)}%
-                </dd>
-              </dl>
+    <>
+      <div className={`grid grid-cols-1 gap-5 sm:grid-cols-2 lg:grid-cols-4 ${retrieval ? 'mb-5' : 'mb-8'}`}>
+        {/* Latest Accuracy */}
+        <div className="eval-stats-card overflow-hidden shadow rounded-lg">
+          <div className="p-5">
+            <div className="flex items-center">
+              <div className="flex-shrink-0">
+                <Percent className="h-6 w-6 text-blue-600" />
+              </div>
+              <div className="ml-5 w-0 flex-1">
+                <dl>
+                  <dt className="eval-stats-label text-sm font-medium truncate">
+                    Latest Accuracy
+                  </dt>
+                  <dd className="eval-stats-value text-lg font-medium">
+                    {stats.accuracy.toFixed(1)}%
+                  </dd>
+                </dl>
+              </div>
             </div>
           </div>
         </div>
-      </div>
 
-      {/* Correct Answers */}
-      <div className="eval-stats-card overflow-hidden shadow rounded-lg">
-        <div className="p-5">
-          <div className="flex items-center">
-            <div className="flex-shrink-0">
-              <CheckCircle className="h-6 w-6 text-green-600" />
-            </div>
-            <div className="ml-5 w-0 flex-1">
-              <dl>
-                <dt className="eval-stats-label text-sm font-medium truncate">
-                  Correct Answers
-                </dt>
-                <dd className="eval-stats-value text-lg font-medium">
-                  {stats.correctCount} / {stats.totalQuestions}
-                </dd>
-              </dl>
+        {/* Correct Answers */}
+        <div className="eval-stats-card overflow-hidden shadow rounded-lg">
+          <div className="p-5">
+            <div className="flex items-center">
+              <div className="flex-shrink-0">
+                <CheckCircle className="h-6 w-6 text-green-600" />
+              </div>
+              <div className="ml-5 w-0 flex-1">
+                <dl>
+                  <dt className="eval-stats-label text-sm font-medium truncate">
+                    Correct Answers
+                  </dt>
+                  <dd className="eval-stats-value text-lg font-medium">
+                    {stats.correctCount} / {stats.totalQuestions}
+                  </dd>
+                </dl>
+              </div>
             </div>
           </div>
         </div>
-      </div>
 
-      {/* Incorrect Answers */}
-      <div className="eval-stats-card overflow-hidden shadow rounded-lg">
-        <div className="p-5">
-          <div className="flex items-center">
-            <div className="flex-shrink-0">
-              <XCircle className="h-6 w-6 text-red-600" />
-            </div>
-            <div className="ml-5 w-0 flex-1">
-              <dl>
-                <dt className="eval-stats-label text-sm font-medium truncate">
-                  Incorrect Answers
-                </dt>
-                <dd className="eval-stats-value text-lg font-medium">
-                  {stats.incorrectCount}
-                </dd>
-              </dl>
+        {/* Incorrect Answers */}
+        <div className="eval-stats-card overflow-hidden shadow rounded-lg">
+          <div className="p-5">
+            <div className="flex items-center">
+              <div className="flex-shrink-0">
+                <XCircle className="h-6 w-6 text-red-600" />
+              </div>
+              <div className="ml-5 w-0 flex-1">
+                <dl>
+                  <dt className="eval-stats-label text-sm font-medium truncate">
+                    Incorrect Answers
+                  </dt>
+                  <dd className="eval-stats-value text-lg font-medium">
+                    {stats.incorrectCount}
+                  </dd>
+                </dl>
+              </div>
             </div>
           </div>
         </div>
-      </div>
 
-      {/* Duration */}
-      <div className="eval-stats-card overflow-hidden shadow rounded-lg">
-        <div className="p-5">
-          <div className="flex items-center">
-            <div className="flex-shrink-0">
-              <Clock className="h-6 w-6 text-purple-600" />
-            </div>
-            <div className="ml-5 w-0 flex-1">
-              <dl>
-                <dt className="eval-stats-label text-sm font-medium truncate">
-                  Duration
-                </dt>
-                <dd className="eval-stats-value text-lg font-medium">
-                  {formatDuration(stats.duration)}
-                </dd>
-              </dl>
+        {/* Duration */}
+        <div className="eval-stats-card overflow-hidden shadow rounded-lg">
+          <div className="p-5">
+            <div className="flex items-center">
+              <div className="flex-shrink-0">
+                <Clock className="h-6 w-6 text-purple-600" />
+              </div>
+              <div className="ml-5 w-0 flex-1">
+                <dl>
+                  <dt className="eval-stats-label text-sm font-medium truncate">
+                    Duration
+                  </dt>
+                  <dd className="eval-stats-value text-lg font-medium">
+                    {formatDuration(stats.duration)}
+                  </dd>
+                </dl>
+              </div>
             </div>
           </div>
         </div>
       </div>
-    </div>
+
+      {/* Retrieval scores, graded apart from the answers */}
+      {retrieval && (
+        <div className="grid grid-cols-1 gap-5 sm:grid-cols-2 lg:grid-cols-4 mb-8">
+          {retrievalCards.map(card => (
+            <div key={card.label} className="eval-stats-card overflow-hidden shadow rounded-lg">
+              <div className="p-5">
+                <div className="flex items-center">
+                  <div className="flex-shrink-0">
+                    <Search className="h-6 w-6 text-indigo-600" />
+                  </div>
+                  <div className="ml-5 w-0 flex-1">
+                    <dl>
+                      <dt
+                        className="eval-stats-label text-sm font-medium truncate"
+                        title={`Over ${retrieval.scoredCount} questions with a ground truth or expected source`}
+                      >
+                        {card.label}
+                      </dt>
+                      <dd className="eval-stats-value text-lg font-medium">
+                        {card.value}
+                      </dd>
+                    </dl>
+                  </div>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </>
   );
 };
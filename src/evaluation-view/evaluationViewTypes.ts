@@ -1,5 +1,10 @@
 // Evaluation view types based on plugin evaluation API
 import type { EvaluationStage } from './evaluationStages';
+import type { ModelInfo, PersonaInfo } from '../components/chat-header/types';
+import type { AssembledPrompt } from '../domain/chat/ChatRequestBuilder';
+import type { EvaluationQuestion } from '../domain/evaluation/QuestionSetCodec';
+import type { QuestionRetrievalScore, RetrievalMetricsSummary } from '../domain/evaluation/RetrievalMetrics';
+import type { JudgeReview } from '../domain/evaluation/JudgeReviewService';
 
 export interface TestCase {
   test_case_id: string;
@@ -7,6 +12,7 @@ export interface TestCase {
   category: string;
   retrieved_context: string;
   ground_truth?: string;
+  expected_source?: string;
 }
 
 export interface StartEvaluationResponse {
@@ -18,6 +24,12 @@ export interface SubmissionItem {
   test_case_id: string;
   llm_answer: string;
   retrieved_context: string;
+  // Prompt, persona and generation params the answer was produced with
+  assembled_prompt?: AssembledPrompt;
+  // Time taken to generate the answer
+  generation_ms?: number;
+  // Retrieval graded on its own, when the question has a ground truth or expected source
+  retrieval_metrics?: QuestionRetrievalScore | null;
 }
 
 export interface SubmitEvaluationRequest {
@@ -46,6 +58,7 @@ export interface EvaluationRun {
   duration_seconds: number | null;
   run_date: string;
   config_snapshot?: Record<string, any>;
+  retrieval_metrics?: RetrievalMetricsSummary | null;
 }
 
 export interface EvaluationFeatureState {
@@ -63,6 +76,8 @@ export interface EvaluationFeatureState {
   // Stage tracking
   currentStage?: EvaluationStage;
   stageProgress?: number; // 0-100 overall progress
+  generatedCount?: number; // Answers generated so far in the current run
+  etaSeconds?: number | null; // Estimated time left for answer generation
 
   // Results
   currentResults: SubmitEvaluationResponse | null;
@@ -70,6 +85,36 @@ export interface EvaluationFeatureState {
   // History (store locally for now)
   pastRuns: EvaluationRun[];
   selectedHistoryRun: EvaluationRun | null;
+
+  // Model × persona matrix run, if one was started this session
+  matrix?: MatrixEvaluationState | null;
+}
+
+export type MatrixCellStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * One model/persona combination of a matrix evaluation
+ */
+export interface MatrixCell {
+  key: string;
+  model: ModelInfo;
+  persona: PersonaInfo | null;
+  status: MatrixCellStatus;
+  runId: string | null;
+  run: EvaluationRun | null;
+  // Measured in the browser for each generated answer
+  latenciesMs: number[];
+  answerLengths: number[];
+  error?: string;
+}
+
+export interface MatrixEvaluationState {
+  collectionId: string;
+  questionCount: number;
+  cells: MatrixCell[];
+  isRunning: boolean;
+  startedAt: string;
+  completedAt?: string;
 }
 
 export type EvaluationViewStateUpdater = (newState: Partial<EvaluationFeatureState>) => void;
@@ -94,6 +139,11 @@ export interface DetailedEvaluationResult {
   retrieved_context: string;
   ground_truth?: string;
   category?: string;
+  expected_source?: string;
+  assembled_prompt?: AssembledPrompt;
+  retrieval_metrics?: QuestionRetrievalScore | null;
+  // A reviewer's verdict on the judge, kept client-side per run
+  review?: JudgeReview | null;
 }
 
 // API response types
@@ -132,6 +182,8 @@ export interface PersonaConfigRequest {
 export interface StartWithQuestionsRequest {
   collection_id: string;
   questions: string[];
+  // Expected answer and category for each entry in `questions`, same order
+  question_details?: EvaluationQuestion[];
   llm_model: string;
   persona?: PersonaConfigRequest | null;
 }
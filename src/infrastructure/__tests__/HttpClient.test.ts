@@ -138,4 +138,87 @@ describe('HttpClient', () => {
             );
         });
     });
+
+    describe('upload', () => {
+        class FakeXhr {
+            static last: FakeXhr;
+            upload: { onprogress?: (event: any) => void } = {};
+            status = 0;
+            responseText = '';
+            method = '';
+            url = '';
+            body: any;
+            onload?: () => void;
+            onerror?: () => void;
+            onabort?: () => void;
+
+            constructor() {
+                FakeXhr.last = this;
+            }
+
+            open(method: string, url: string) {
+                this.method = method;
+                this.url = url;
+            }
+
+            send(body: any) {
+                this.body = body;
+            }
+
+            abort() {
+                this.onabort?.();
+            }
+
+            respond(status: number, body: any) {
+                this.status = status;
+                this.responseText = JSON.stringify(body);
+                this.onload?.();
+            }
+        }
+
+        const originalXhr = (global as any).XMLHttpRequest;
+
+        beforeEach(() => {
+            (global as any).XMLHttpRequest = FakeXhr;
+        });
+
+        afterEach(() => {
+            (global as any).XMLHttpRequest = originalXhr;
+        });
+
+        it('should post form data and report progress', async () => {
+            const httpClient = new HttpClient(mockApiService, baseUrl);
+            const onProgress = jest.fn();
+            const formData = new FormData();
+
+            const promise = httpClient.upload('/documents/', formData, { onProgress });
+            FakeXhr.last.upload.onprogress?.({ lengthComputable: true, loaded: 25, total: 100 });
+            FakeXhr.last.respond(201, { id: 'doc-1' });
+
+            await expect(promise).resolves.toEqual({ id: 'doc-1' });
+            expect(FakeXhr.last.method).toBe('POST');
+            expect(FakeXhr.last.url).toBe('http://localhost:8000/documents/');
+            expect(FakeXhr.last.body).toBe(formData);
+            expect(onProgress).toHaveBeenCalledWith(0.25);
+        });
+
+        it('should reject on error status', async () => {
+            const httpClient = new HttpClient(mockApiService, baseUrl);
+
+            const promise = httpClient.upload('/documents/', new FormData());
+            FakeXhr.last.respond(500, {});
+
+            await expect(promise).rejects.toThrow('HTTP POST http://localhost:8000/documents/ failed: 500');
+        });
+
+        it('should reject with an AbortError when aborted', async () => {
+            const httpClient = new HttpClient(mockApiService, baseUrl);
+            const controller = new AbortController();
+
+            const promise = httpClient.upload('/documents/', new FormData(), { signal: controller.signal });
+            controller.abort();
+
+            await expect(promise).rejects.toMatchObject({ name: 'AbortError' });
+        });
+    });
 });
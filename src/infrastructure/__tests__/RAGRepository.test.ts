@@ -122,5 +122,49 @@ describe('RAGRepository', () => {
             expect(result.chunks).toHaveLength(0);
             expect(result.total_results).toBe(0);
         });
+
+        it('should send metadata filters with the search config', async () => {
+            const query: RAGQuery = {
+                query_text: 'Q3 revenue',
+                collection_id: 'coll-123',
+                config: {
+                    top_k: 7,
+                    filters: {
+                        min_similarity: 0.8,
+                        document_ids: ['doc-1'],
+                        document_types: ['pdf'],
+                        uploaded_after: '2024-07-01T00:00:00.000Z',
+                    },
+                },
+            };
+
+            mockHttpClient.post.mockResolvedValue({ chunks: [] });
+
+            await repository.search(query);
+
+            expect(mockHttpClient.post).toHaveBeenCalledWith('/search/', query);
+        });
+
+        it('should drop empty filter values', async () => {
+            const query: RAGQuery = {
+                query_text: 'Q3 revenue',
+                collection_id: 'coll-123',
+                config: {
+                    filters: {
+                        min_similarity: 0.8,
+                        document_ids: [],
+                        document_types: [],
+                        uploaded_before: '',
+                    },
+                },
+            };
+
+            mockHttpClient.post.mockResolvedValue({ chunks: [] });
+
+            await repository.search(query);
+
+            const sent = mockHttpClient.post.mock.calls[0][1] as RAGQuery;
+            expect(sent.config.filters).toStrictEqual({ min_similarity: 0.8 });
+        });
     });
 });
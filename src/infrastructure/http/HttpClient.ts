@@ -1,5 +1,23 @@
 import type { Services } from '../../types';
 
+/**
+ * Options for multipart uploads
+ */
+export interface UploadOptions {
+    /** Called with the uploaded fraction (0-1) */
+    onProgress?: (fraction: number) => void;
+    signal?: AbortSignal;
+}
+
+/**
+ * Error for an upload aborted through its signal, named like fetch's AbortError
+ */
+function createAbortError(): Error {
+    const error = new Error('Upload aborted');
+    error.name = 'AbortError';
+    return error;
+}
+
 /**
  * HttpClient - Single Responsibility: HTTP transport abstraction
  *
@@ -31,6 +49,55 @@ export class HttpClient {
         return this.request<T>(endpoint, 'DELETE');
     }
 
+    /**
+     * POST multipart form data with upload progress.
+     * Goes straight to the service like the original fetch upload; the BrainDrive
+     * API service does not report upload progress.
+     */
+    upload<T>(endpoint: string, formData: FormData, options: UploadOptions = {}): Promise<T> {
+        const url = `${this.baseUrl}${endpoint}`;
+
+        return new Promise<T>((resolve, reject) => {
+            if (options.signal?.aborted) {
+                reject(createAbortError());
+                return;
+            }
+
+            const xhr = new XMLHttpRequest();
+            const handleAbort = () => xhr.abort();
+
+            xhr.open('POST', url);
+            xhr.upload.onprogress = (event) => {
+                if (event.lengthComputable && options.onProgress) {
+                    options.onProgress(event.loaded / event.total);
+                }
+            };
+            xhr.onload = () => {
+                options.signal?.removeEventListener('abort', handleAbort);
+                if (xhr.status < 200 || xhr.status >= 300) {
+                    reject(new Error(`HTTP POST ${url} failed: ${xhr.status}`));
+                    return;
+                }
+                try {
+                    resolve(xhr.status === 204 || !xhr.responseText ? ({} as T) : JSON.parse(xhr.responseText));
+                } catch (error) {
+                    reject(new Error(`HTTP POST ${url} returned invalid JSON`));
+                }
+            };
+            xhr.onerror = () => {
+                options.signal?.removeEventListener('abort', handleAbort);
+                reject(new Error(`HTTP POST ${url} failed: network error`));
+            };
+            xhr.onabort = () => {
+                options.signal?.removeEventListener('abort', handleAbort);
+                reject(createAbortError());
+            };
+
+            options.signal?.addEventListener('abort', handleAbort);
+            xhr.send(formData);
+        });
+    }
+
     private async request<T>(
         endpoint: string,
         method: 'GET' | 'POST' | 'PUT' | 'DELETE',
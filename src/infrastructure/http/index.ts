@@ -1 +1,2 @@
 export { HttpClient } from './HttpClient';
+export type { UploadOptions } from './HttpClient';
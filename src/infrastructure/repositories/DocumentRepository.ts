@@ -1,5 +1,12 @@
-import type { Document } from '../../braindrive-plugin/pluginTypes';
-import type { HttpClient } from '../http/HttpClient';
+import type { Document, DocumentChunk } from '../../braindrive-plugin/pluginTypes';
+import type { HttpClient, UploadOptions } from '../http/HttpClient';
+
+/**
+ * Upload options; metadata is stored with the document
+ */
+export interface DocumentUploadOptions extends UploadOptions {
+    metadata?: Record<string, unknown>;
+}
 
 /**
  * DocumentRepository - Single Responsibility: Document I/O operations
@@ -18,6 +25,21 @@ export class DocumentRepository {
         return this.http.get<Document>(`/documents/${id}`);
     }
 
+    async findChunks(documentId: string): Promise<DocumentChunk[]> {
+        return this.http.get<DocumentChunk[]>(`/documents/${documentId}/chunks`);
+    }
+
+    async upload(file: File, collectionId: string, options: DocumentUploadOptions = {}): Promise<Document> {
+        const { metadata, ...uploadOptions } = options;
+        const formData = new FormData();
+        formData.append('file', file);
+        formData.append('collection_id', collectionId);
+        if (metadata) {
+            formData.append('metadata', JSON.stringify(metadata));
+        }
+        return this.http.upload<Document>('/documents/', formData, uploadOptions);
+    }
+
     async create(document: Partial<Document>): Promise<Document> {
         return this.http.post<Document>('/documents/', document);
     }
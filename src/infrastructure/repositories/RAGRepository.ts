@@ -25,9 +25,21 @@ export interface RAGSearchConfig {
         enabled: boolean;
         methods?: string[];
     };
-    filters?: {
-        min_similarity?: number;
-    };
+    filters?: RAGSearchFilters;
+}
+
+/**
+ * Metadata filters applied by the backend before ranking
+ */
+export interface RAGSearchFilters {
+    min_similarity?: number;
+    /** Only search these documents */
+    document_ids?: string[];
+    /** Only search these document types, e.g. "pdf", "docx", "md" */
+    document_types?: string[];
+    /** ISO timestamps bounding the document upload date */
+    uploaded_after?: string;
+    uploaded_before?: string;
 }
 
 /**
@@ -40,6 +52,28 @@ export class RAGRepository {
     constructor(private http: HttpClient) {}
 
     async search(query: RAGQuery): Promise<ContextRetrievalResult> {
-        return this.http.post<ContextRetrievalResult>('/search/', query);
+        return this.http.post<ContextRetrievalResult>('/search/', RAGRepository.withoutEmptyFilters(query));
+    }
+
+    /**
+     * Drop unset filters so an empty list is never read as "match nothing"
+     */
+    private static withoutEmptyFilters(query: RAGQuery): RAGQuery {
+        const filters = query.config?.filters;
+        if (!filters) {
+            return query;
+        }
+
+        const cleaned = (Object.keys(filters) as Array<keyof RAGSearchFilters>).reduce<Partial<RAGSearchFilters>>(
+            (result, key) => {
+                const value = filters[key];
+                const isEmpty = value === undefined || value === null || value === ''
+                    || (Array.isArray(value) && value.length === 0);
+                return isEmpty ? result : { ...result, [key]: value };
+            },
+            {}
+        );
+
+        return { ...query, config: { ...query.config, filters: cleaned } };
     }
 }
@@ -1,5 +1,6 @@
 export { CollectionRepository } from './CollectionRepository';
 export { DocumentRepository } from './DocumentRepository';
+export type { DocumentUploadOptions } from './DocumentRepository';
 export { ChatSessionRepository } from './ChatSessionRepository';
 export { RAGRepository } from './RAGRepository';
-export type { RAGQuery, RAGSearchConfig } from './RAGRepository';
+export type { RAGQuery, RAGSearchConfig, RAGSearchFilters } from './RAGRepository';
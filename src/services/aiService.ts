@@ -1,6 +1,7 @@
 import { ModelInfo, PersonaInfo } from '../components/chat-header/types';
 import { ApiService } from '../types';
 import { extractTextFromData } from '../utils';
+import { ChatRequestBuilder, CHAT_ENDPOINT, type ChatRequestParams } from '../domain/chat/ChatRequestBuilder';
 
 // Define the user object expected from /api/v1/auth/me
 export interface CurrentUserResponse {
@@ -70,67 +71,40 @@ export class AIService {
     pageContext?: any, // New parameter for page context
     selectedPersona?: PersonaInfo,  // Add persona parameter
     abortController?: AbortController // Add abort controller for cancellation
+  ): Promise<boolean> {
+    const requestParams = ChatRequestBuilder.build({
+      prompt,
+      model: selectedModel,
+      persona: selectedPersona,
+      useStreaming,
+      conversationId,
+      conversationType,
+      userId: this.currentUserId,
+      pageContext,
+    });
+
+    return this.sendRequest(requestParams, onChunk, onConversationId, abortController);
+  }
+
+  /**
+   * Send a request built with ChatRequestBuilder as is
+   */
+  async sendRequest(
+    requestParams: ChatRequestParams,
+    onChunk: (chunk: string) => void,
+    onConversationId: (id: string) => void,
+    abortController?: AbortController
   ): Promise<boolean> {
     if (!this.apiService) {
       throw new Error('API service not available');
     }
 
-    // Create chat messages array with user's prompt
-    const messages = [
-      { role: "user", content: prompt }
-    ];
+    const endpoint = CHAT_ENDPOINT;
+    const conversationId = requestParams.conversation_id;
+    const useStreaming = requestParams.stream;
 
-    // Use only the production endpoint
-    const endpoint = '/api/v1/ai/providers/chat';
-
-    // Create request params for production endpoint
-    const requestParams: any = {
-      provider: selectedModel.provider || 'ollama',
-      settings_id: selectedModel.providerId || 'ollama_servers_settings',
-      server_id: selectedModel.serverId,
-      model: selectedModel.name,
-      messages: messages.map(msg => ({
-        role: msg.role || 'user',
-        content: msg.content
-      })),
-      params: {
-        temperature: 0.7,
-        max_tokens: 2048
-      },
-      stream: useStreaming,
-      user_id: this.currentUserId || 'current',
-      conversation_id: conversationId,
-      conversation_type: conversationType // New field
-    };
-    
     console.log(`📤 AIService sending request with conversation_id: ${conversationId || 'null'}`);
 
-    // Add page context if available
-    if (pageContext) {
-      requestParams.page_id = pageContext.pageId;
-      requestParams.page_context = JSON.stringify({
-        pageName: pageContext.pageName,
-        pageRoute: pageContext.pageRoute,
-        isStudioPage: pageContext.isStudioPage
-      });
-    }
-
-    // Add persona data if available
-    if (selectedPersona) {
-      requestParams.persona_id = selectedPersona.id;
-      requestParams.persona_system_prompt = selectedPersona.system_prompt;
-      requestParams.persona_model_settings = selectedPersona.model_settings;
-      requestParams.persona_sample_greeting = selectedPersona.sample_greeting;
-
-      // Apply persona model settings to params if available
-      if (selectedPersona.model_settings) {
-        requestParams.params = {
-          ...requestParams.params,
-          ...selectedPersona.model_settings
-        };
-      }
-    }
-
     try {
       let success = false;
 
@@ -189,7 +163,10 @@ export class AIService {
       } else {
         // Handle non-streaming
         try {
-          const response = await this.apiService.post<ChatPostResponse>(endpoint, requestParams, { timeout: 60000 });
+          const response = await this.apiService.post<ChatPostResponse>(endpoint, requestParams, {
+            timeout: 60000,
+            signal: abortController?.signal
+          });
           const responseData = response.data || response;
 
           // Store the conversation_id if it's in the response
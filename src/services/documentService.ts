@@ -216,14 +216,25 @@ export class DocumentService {
   }
 
   /**
-   * Format extracted text for chat context
+   * Describe the text length, noting when the text was trimmed to fit the model context
+   */
+  private describeTextLength(result: DocumentProcessingResult): string {
+    const included = (result.extracted_text || '').length;
+    return included < result.text_length
+      ? `${result.text_length} characters (trimmed to ${included} to fit the model context)`
+      : `${result.text_length} characters`;
+  }
+
+  /**
+   * Format extracted text for chat context.
+   * Pass results fitted with ContextBudgetBuilder.fitDocuments to respect the model context window.
    */
   formatTextForChatContext(result: DocumentProcessingResult): string {
-    const { filename, file_type, extracted_text, text_length } = result;
+    const { filename, file_type, extracted_text } = result;
 
     let context = `[DOCUMENT CONTEXT - ${filename.toUpperCase()}]\n`;
     context += `File Type: ${file_type}\n`;
-    context += `Text Length: ${text_length} characters\n`;
+    context += `Text Length: ${this.describeTextLength(result)}\n`;
     context += `Content:\n\n${extracted_text}\n\n`;
     context += `[END DOCUMENT CONTEXT]`;
 
@@ -240,7 +251,7 @@ export class DocumentService {
     results.forEach((result, index) => {
       context += `--- Document ${index + 1}: ${result.filename} ---\n`;
       context += `Type: ${result.file_type}\n`;
-      context += `Length: ${result.text_length} characters\n`;
+      context += `Length: ${this.describeTextLength(result)}\n`;
       context += `Content:\n${result.extracted_text}\n\n`;
     });
 
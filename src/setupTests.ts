@@ -1,4 +1,5 @@
 import '@testing-library/jest-dom';
+import { deflateRawSync, inflateRawSync } from 'zlib';
 
 // Mock services for testing
 export const mockServices = {
@@ -27,3 +28,55 @@ export const mockServices = {
     onPageContextChange: jest.fn().mockReturnValue(() => {})
   }
 };
+
+/**
+ * Build a zip archive for upload tests. CRCs are left at zero; the reader does not check them.
+ */
+export function buildZipArchive(entries: Array<{ path: string; content?: string; deflate?: boolean }>): ArrayBuffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  entries.forEach(entry => {
+    const name = Buffer.from(entry.path, 'utf8');
+    const raw = Buffer.from(entry.content || '', 'utf8');
+    const data = entry.deflate ? deflateRawSync(raw) : raw;
+    const method = entry.deflate ? 8 : 0;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    locals.push(local, name, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, name);
+
+    offset += local.length + name.length + data.length;
+  });
+
+  const centralDirectory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  const zip = Buffer.concat([...locals, centralDirectory, end]);
+  return zip.buffer.slice(zip.byteOffset, zip.byteOffset + zip.length) as ArrayBuffer;
+}
+
+/**
+ * Raw inflate for ZipArchiveReader in tests (jsdom has no DecompressionStream)
+ */
+export const nodeInflateRaw = (data: Uint8Array) => new Uint8Array(inflateRawSync(data));
@@ -18,6 +18,7 @@ export interface PersonaInfo {
     temperature?: number;
     top_p?: number;
     max_tokens?: number;
+    context_window?: number;
     // Additional model settings can be added here
   };
   avatar?: string;
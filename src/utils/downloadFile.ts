@@ -0,0 +1,22 @@
+/**
+ * A file built in memory, ready for downloadFile
+ */
+export interface ExportedFile {
+  content: string;
+  fileName: string;
+  mimeType: string;
+}
+
+/**
+ * Save text content as a file through a temporary download link
+ */
+export function downloadFile(content: string, fileName: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
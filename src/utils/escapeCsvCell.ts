@@ -0,0 +1,21 @@
+const FORMULA_START = /^[=+\-@\t\r]/;
+const PLAIN_NUMBER = /^[-+]?\d+(\.\d+)?$/;
+
+/**
+ * Quote a CSV cell. Text a spreadsheet would run as a formula (=, +, -, @,
+ * tab or CR first) is prefixed with ' to keep it text; plain numbers stay as they are.
+ */
+export function escapeCsvCell(value: string): string {
+  const safe = FORMULA_START.test(value) && !PLAIN_NUMBER.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * Undo the formula guard of escapeCsvCell on a cell that has been unquoted
+ */
+export function unescapeCsvCell(value: string): string {
+  const unguarded = value.slice(1);
+  return value.charAt(0) === '\'' && FORMULA_START.test(unguarded) && !PLAIN_NUMBER.test(unguarded)
+    ? unguarded
+    : value;
+}
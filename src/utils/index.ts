@@ -1,4 +1,6 @@
 export * from './debounce';
+export * from './downloadFile';
+export * from './escapeCsvCell';
 export * from './escapeHtml';
 export * from './extractTextFromData';
 export * from './formatDate';
@@ -8,6 +10,7 @@ export * from './generateId';
 export * from './getCssVariable';
 export * from './isDarkTheme';
 export * from './isValidUrl';
+export * from './readFileAsText';
 export * from './saveJsonParse';
 export * from './setCssVariable';
 export * from './sleep';